@@ -0,0 +1,16 @@
+import tsPlugin from '@typescript-eslint/eslint-plugin';
+
+export default [
+    { ignores: ['dist/'] },
+    ...tsPlugin.configs['flat/recommended'],
+    {
+        files: ['**/*.ts'],
+        rules: {
+            '@typescript-eslint/explicit-function-return-type': 'error',
+            '@typescript-eslint/no-unused-vars': [
+                'error',
+                { argsIgnorePattern: '^_', varsIgnorePattern: '^_' },
+            ],
+        },
+    },
+];
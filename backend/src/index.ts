@@ -1,28 +1,48 @@
 /**
  * OP_Scribe Backend -- IPFS Upload API
  *
- * Handles file uploads to Pinata IPFS and returns CID + metadata
- * for the frontend to submit as on-chain proof via OPWallet.
+ * Handles file uploads to IPFS and returns CID + metadata for the frontend to
+ * submit as on-chain proof via OPWallet. Content is stored through the storage
+ * provider selected by STORAGE_PROVIDER (Pinata, a Kubo node or local disk).
  *
- * NOTE: This backend does NOT interact with the OPNet contract directly.
- * The user's browser (via OPWallet) signs and submits the registerFile
- * transaction. This server only handles IPFS pinning.
+ * NOTE: Normally the user's browser (via OPWallet) signs and submits the
+ * registerFile transaction. The only contract interaction here is the optional
+ * relay (POST /relay/register), which submits registerFileFor transactions
+ * that the uploader signed off-chain.
  */
 
+import { createHash, timingSafeEqual } from 'node:crypto';
 import { createServer, IncomingMessage, ServerResponse } from 'node:http';
-import { PinataSDK } from 'pinata';
+import {
+    enforceClientLimit,
+    isRelayConfigured,
+    parseRelayRequest,
+    relayRegistration,
+    RelayError,
+    RelayResult,
+} from './relay.js';
+import {
+    assertValidCid,
+    createStorageProvider,
+    describeStorage,
+    FetchResult,
+    PinResult,
+    PinStatus,
+    StorageError,
+    StorageProvider,
+} from './storage/index.js';
 
 /** Maximum file size in bytes (10 MB). */
 const MAX_FILE_SIZE: number = 10 * 1024 * 1024;
 
+/** Maximum JSON body size for relay requests (16 KB). */
+const MAX_RELAY_BODY_SIZE: number = 16 * 1024;
+
 /** Server port. */
 const PORT: number = Number(process.env['PORT'] ?? '3001');
 
-/** Pinata JWT from environment. */
-const PINATA_JWT: string = process.env['PINATA_JWT'] ?? '';
-
-/** Pinata gateway URL (optional). */
-const PINATA_GATEWAY: string = process.env['PINATA_GATEWAY'] ?? '';
+/** Bearer token for pinning and unpinning by CID; those endpoints are disabled when empty. */
+const STORAGE_ADMIN_TOKEN: string = process.env['STORAGE_ADMIN_TOKEN'] ?? '';
 
 /** Allowed frontend origins for CORS. */
 const ALLOWED_ORIGINS: readonly string[] = [
@@ -37,6 +57,8 @@ interface UploadResult {
     readonly fileName: string;
     readonly fileSize: number;
     readonly mimeType: string;
+    /** Hex-encoded SHA-256 of the raw file bytes (independent of CID settings). */
+    readonly contentHash: string;
 }
 
 /** Standard error response shape. */
@@ -58,8 +80,8 @@ function handleCors(req: IncomingMessage, res: ServerResponse): boolean {
         res.setHeader('Access-Control-Allow-Origin', origin);
     }
 
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
     res.setHeader('Access-Control-Max-Age', '86400');
 
     if (req.method === 'OPTIONS') {
@@ -78,7 +100,11 @@ function handleCors(req: IncomingMessage, res: ServerResponse): boolean {
  * @param statusCode - HTTP status code.
  * @param body - Response body (serialized to JSON).
  */
-function sendJson(res: ServerResponse, statusCode: number, body: UploadResult | ErrorResponse | { status: string }): void {
+function sendJson(
+    res: ServerResponse,
+    statusCode: number,
+    body: UploadResult | RelayResult | PinStatus | ErrorResponse | { status: string },
+): void {
     res.writeHead(statusCode, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify(body));
 }
@@ -139,19 +165,40 @@ function extractFileName(req: IncomingMessage): string {
     return 'upload';
 }
 
+/**
+ * Checks the bearer token on a pin management request and sends the error
+ * response if it is missing or wrong.
+ *
+ * @param req - Incoming HTTP request.
+ * @param res - Outgoing HTTP response.
+ * @returns Whether the request may proceed.
+ */
+function authorizeStorageAdmin(req: IncomingMessage, res: ServerResponse): boolean {
+    if (!STORAGE_ADMIN_TOKEN) {
+        sendJson(res, 403, { error: 'Pin management is disabled on this server' });
+        return false;
+    }
+
+    // Compare digests so the check takes the same time for every token
+    const header: string = req.headers['authorization'] ?? '';
+    const given: Buffer = createHash('sha256').update(header).digest();
+    const expected: Buffer = createHash('sha256').update(`Bearer ${STORAGE_ADMIN_TOKEN}`).digest();
+    if (!timingSafeEqual(given, expected)) {
+        sendJson(res, 401, { error: 'Invalid or missing admin token' });
+        return false;
+    }
+    return true;
+}
+
 /**
  * Handles the POST /upload endpoint.
- * Receives a raw file body, pins it to Pinata IPFS, and returns CID + metadata.
+ * Receives a raw file body, pins it with the configured storage provider, and
+ * returns CID + metadata including the SHA-256 content hash of the raw bytes.
  *
  * @param req - Incoming HTTP request (body is the raw file).
  * @param res - Outgoing HTTP response.
  */
 async function handleUpload(req: IncomingMessage, res: ServerResponse): Promise<void> {
-    if (!PINATA_JWT) {
-        sendJson(res, 500, { error: 'PINATA_JWT not configured on server' });
-        return;
-    }
-
     const contentType: string = req.headers['content-type'] ?? 'application/octet-stream';
     const fileName: string = extractFileName(req);
 
@@ -169,24 +216,131 @@ async function handleUpload(req: IncomingMessage, res: ServerResponse): Promise<
         return;
     }
 
-    const pinata: PinataSDK = new PinataSDK({ pinataJwt: PINATA_JWT, pinataGateway: PINATA_GATEWAY });
-
     try {
-        const fileBytes: Uint8Array<ArrayBuffer> = new Uint8Array(body.buffer as ArrayBuffer, body.byteOffset, body.byteLength);
-        const file: File = new File([fileBytes], fileName, { type: contentType });
-        const result = await pinata.upload.file(file);
+        const storage: StorageProvider = createStorageProvider();
+        const result: PinResult = await storage.pin(body, fileName, contentType);
 
         const uploadResult: UploadResult = {
             cid: result.cid,
             fileName: fileName,
             fileSize: body.length,
             mimeType: contentType,
+            contentHash: createHash('sha256').update(body).digest('hex'),
         };
 
         sendJson(res, 200, uploadResult);
     } catch (err: unknown) {
-        const message: string = err instanceof Error ? err.message : 'Pinata upload failed';
-        sendJson(res, 502, { error: message });
+        if (err instanceof StorageError) {
+            sendJson(res, err.statusCode, { error: err.message });
+            return;
+        }
+        throw err;
+    }
+}
+
+/**
+ * Handles the /pins/{cid} endpoints.
+ * GET reports whether the CID is pinned; POST pins existing IPFS content and
+ * DELETE unpins it, both of which require the admin token.
+ *
+ * @param req - Incoming HTTP request.
+ * @param res - Outgoing HTTP response.
+ * @param cid - CID from the request path.
+ */
+async function handlePin(req: IncomingMessage, res: ServerResponse, cid: string): Promise<void> {
+    if (req.method !== 'GET' && !authorizeStorageAdmin(req, res)) {
+        return;
+    }
+
+    try {
+        assertValidCid(cid);
+        const storage: StorageProvider = createStorageProvider();
+
+        if (req.method === 'GET') {
+            sendJson(res, 200, await storage.status(cid));
+        } else if (req.method === 'POST') {
+            const status: PinStatus = await storage.pinCid(cid);
+            sendJson(res, status.state === 'pinned' ? 200 : 202, status);
+        } else {
+            await storage.unpin(cid);
+            sendJson(res, 200, { cid, state: 'unpinned' });
+        }
+    } catch (err: unknown) {
+        if (err instanceof StorageError) {
+            sendJson(res, err.statusCode, { error: err.message });
+            return;
+        }
+        throw err;
+    }
+}
+
+/**
+ * Handles the GET /ipfs/{cid} endpoint.
+ * Streams content back from the configured storage provider, up to MAX_FILE_SIZE.
+ * The response is sandboxed so uploaded HTML cannot run scripts on this origin.
+ *
+ * @param res - Outgoing HTTP response.
+ * @param cid - CID from the request path.
+ */
+async function handleFetch(res: ServerResponse, cid: string): Promise<void> {
+    try {
+        assertValidCid(cid);
+        const storage: StorageProvider = createStorageProvider();
+        const content: FetchResult = await storage.fetch(cid, MAX_FILE_SIZE);
+
+        res.writeHead(200, {
+            'Content-Type': content.mimeType,
+            'Content-Length': content.bytes.length,
+            'Cache-Control': 'public, max-age=31536000, immutable',
+            'Content-Security-Policy': 'sandbox',
+            'X-Content-Type-Options': 'nosniff',
+        });
+        res.end(content.bytes);
+    } catch (err: unknown) {
+        if (err instanceof StorageError) {
+            sendJson(res, err.statusCode, { error: err.message });
+            return;
+        }
+        throw err;
+    }
+}
+
+/**
+ * Handles the POST /relay/register endpoint.
+ * Receives a signed registerFileFor payload as JSON and submits it from the
+ * relayer wallet. Requests are rate limited per client IP before any RPC call.
+ *
+ * @param req - Incoming HTTP request (body is a RelayRequest).
+ * @param res - Outgoing HTTP response.
+ */
+async function handleRelay(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body: Buffer;
+    try {
+        body = await readBody(req, MAX_RELAY_BODY_SIZE);
+    } catch (err: unknown) {
+        const message: string = err instanceof Error ? err.message : 'Request too large';
+        sendJson(res, 413, { error: message });
+        return;
+    }
+
+    try {
+        enforceClientLimit(req.socket.remoteAddress ?? 'unknown');
+
+        let json: unknown;
+        try {
+            json = JSON.parse(body.toString('utf8'));
+        } catch {
+            throw new RelayError(400, 'Body must be JSON');
+        }
+
+        const result: RelayResult = await relayRegistration(parseRelayRequest(json));
+        sendJson(res, 200, result);
+    } catch (err: unknown) {
+        if (err instanceof RelayError) {
+            sendJson(res, err.statusCode, { error: err.message });
+            return;
+        }
+        throw err;
     }
 }
 
@@ -213,6 +367,23 @@ async function handler(req: IncomingMessage, res: ServerResponse): Promise<void>
         return;
     }
 
+    if (url.pathname === '/relay/register' && req.method === 'POST') {
+        await handleRelay(req, res);
+        return;
+    }
+
+    const pinMatch: RegExpMatchArray | null = url.pathname.match(/^\/pins\/([^/]+)$/);
+    if (pinMatch && ['GET', 'POST', 'DELETE'].includes(req.method ?? '')) {
+        await handlePin(req, res, pinMatch[1]);
+        return;
+    }
+
+    const fetchMatch: RegExpMatchArray | null = url.pathname.match(/^\/ipfs\/([^/]+)$/);
+    if (fetchMatch && req.method === 'GET') {
+        await handleFetch(res, fetchMatch[1]);
+        return;
+    }
+
     sendJson(res, 404, { error: 'Not found' });
 }
 
@@ -228,5 +399,9 @@ const server = createServer((req: IncomingMessage, res: ServerResponse): void =>
 
 server.listen(PORT, (): void => {
     console.log(`[OP_Scribe Backend] Listening on port ${PORT}`);
-    console.log(`[OP_Scribe Backend] Pinata JWT: ${PINATA_JWT ? 'configured' : 'MISSING'}`);
+    console.log(`[OP_Scribe Backend] Storage: ${describeStorage()}`);
+    console.log(
+        `[OP_Scribe Backend] Pin management: ${STORAGE_ADMIN_TOKEN ? 'enabled' : 'disabled'}`,
+    );
+    console.log(`[OP_Scribe Backend] Relay: ${isRelayConfigured() ? 'configured' : 'disabled'}`);
 });
@@ -0,0 +1,337 @@
+/**
+ * OP_Scribe Backend -- delegated registration relay
+ *
+ * Submits registerFileFor transactions signed off-chain by an uploader, so
+ * users without BTC can register files. The relayer wallet pays the Bitcoin
+ * fees (and the OP20 registration fee, if one is configured on the contract),
+ * so relayed registrations are rate limited per client IP and per uploader.
+ */
+
+import { networks, Network } from '@btc-vision/bitcoin';
+import { Address, Wallet } from '@btc-vision/transaction';
+import {
+    ABIDataTypes,
+    BaseContractProperties,
+    BitcoinAbiTypes,
+    BitcoinInterfaceAbi,
+    CallResult,
+    getContract,
+    InteractionTransactionReceipt,
+    JSONRpcProvider,
+} from 'opnet';
+import { parseCid } from '../../shared/cid.js';
+
+/** OPNet RPC endpoint used for simulation and broadcast. */
+const OPNET_RPC_URL: string = process.env['OPNET_RPC_URL'] ?? 'https://regtest.opnet.org';
+
+/** Network name: regtest, testnet or bitcoin. */
+const OPNET_NETWORK: string = process.env['OPNET_NETWORK'] ?? 'regtest';
+
+/** Deployed OP_Scribe contract address. */
+const CONTRACT_ADDRESS: string = process.env['CONTRACT_ADDRESS'] ?? '';
+
+/** Relayer wallet keys (classical WIF and ML-DSA private key hex). */
+const RELAYER_WIF: string = process.env['RELAYER_WIF'] ?? '';
+const RELAYER_MLDSA_KEY: string = process.env['RELAYER_MLDSA_KEY'] ?? '';
+
+/** Upper bound on satoshis the relayer spends per relayed transaction. */
+const RELAY_MAX_SAT: bigint = BigInt(process.env['RELAY_MAX_SAT'] ?? '100000');
+
+/** Relay requests accepted per client IP in each window. */
+const RELAY_LIMIT_PER_IP: number = Number(process.env['RELAY_LIMIT_PER_IP'] ?? '20');
+
+/** Relayed transactions broadcast per uploader in each window. */
+const RELAY_LIMIT_PER_UPLOADER: number = Number(process.env['RELAY_LIMIT_PER_UPLOADER'] ?? '5');
+
+/** Length of a rate limit window in milliseconds (default: one hour). */
+const RELAY_LIMIT_WINDOW_MS: number = Number(process.env['RELAY_LIMIT_WINDOW_MS'] ?? '3600000');
+
+/** Length of the ML-DSA-44 signature the contract verifies. */
+const MLDSA44_SIGNATURE_LENGTH: number = 2420;
+
+/** Signed registerFileFor payload accepted by POST /relay/register. */
+export interface RelayRequest {
+    readonly cid: string;
+    readonly fileName: string;
+    /** File size in bytes, as a decimal string. */
+    readonly fileSize: string;
+    /** Hex-encoded 32-byte uploader address. */
+    readonly uploader: string;
+    /** Last valid block number, as a decimal string. */
+    readonly deadline: string;
+    /** Hex-encoded ML-DSA-44 signature by the uploader over the OP712 registration message. */
+    readonly signature: string;
+}
+
+/** Result of a relayed registration. */
+export interface RelayResult {
+    readonly transactionId: string;
+}
+
+/** Error carrying the HTTP status the relay endpoint should respond with. */
+export class RelayError extends Error {
+    public readonly statusCode: number;
+
+    public constructor(statusCode: number, message: string) {
+        super(message);
+        this.name = 'RelayError';
+        this.statusCode = statusCode;
+    }
+}
+
+/** Fixed-window counter for one rate-limited key. */
+interface RateWindow {
+    count: number;
+    readonly resetAt: number;
+}
+
+/** Counts requests per key and refuses those over the limit within a fixed window. */
+export class RelayRateLimiter {
+    private readonly windows: Map<string, RateWindow> = new Map();
+
+    /**
+     * @param limit - Requests allowed per key in each window.
+     * @param windowMs - Window length in milliseconds.
+     * @param now - Clock, replaceable in tests.
+     */
+    public constructor(
+        private readonly limit: number,
+        private readonly windowMs: number,
+        private readonly now: () => number = Date.now,
+    ) {}
+
+    /**
+     * Counts a request for a key.
+     *
+     * @param key - The client IP or uploader.
+     * @returns Whether the request is within the limit.
+     */
+    public consume(key: string): boolean {
+        const now: number = this.now();
+        this.prune(now);
+
+        const current: RateWindow | undefined = this.windows.get(key);
+        if (!current || current.resetAt <= now) {
+            this.windows.set(key, { count: 1, resetAt: now + this.windowMs });
+            return this.limit >= 1;
+        }
+        if (current.count >= this.limit) {
+            return false;
+        }
+        current.count++;
+        return true;
+    }
+
+    /**
+     * Drops expired windows once many keys are tracked, bounding memory use.
+     *
+     * @param now - The current time.
+     */
+    private prune(now: number): void {
+        if (this.windows.size < 10_000) {
+            return;
+        }
+        for (const [key, window] of this.windows) {
+            if (window.resetAt <= now) {
+                this.windows.delete(key);
+            }
+        }
+    }
+}
+
+const ipLimiter: RelayRateLimiter = new RelayRateLimiter(RELAY_LIMIT_PER_IP, RELAY_LIMIT_WINDOW_MS);
+const uploaderLimiter: RelayRateLimiter = new RelayRateLimiter(
+    RELAY_LIMIT_PER_UPLOADER,
+    RELAY_LIMIT_WINDOW_MS,
+);
+
+/**
+ * Counts a relay request against the client's IP limit.
+ *
+ * @param clientIp - Remote address of the request.
+ * @throws RelayError (429) if the client is over its limit.
+ */
+export function enforceClientLimit(clientIp: string): void {
+    if (!ipLimiter.consume(clientIp)) {
+        throw new RelayError(429, 'Too many relay requests, try again later');
+    }
+}
+
+/** Minimal ABI for the one method the relay calls. */
+const REGISTER_FILE_FOR_ABI: BitcoinInterfaceAbi = [
+    {
+        name: 'registerFileFor',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'signature', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+    },
+];
+
+/** Contract surface used by the relay. */
+interface IRegisterFileForContract extends BaseContractProperties {
+    registerFileFor(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        uploader: Address,
+        deadline: bigint,
+        signature: Uint8Array,
+    ): Promise<CallResult<{ success: boolean }, []>>;
+}
+
+/**
+ * Whether the relayer has everything it needs to submit transactions.
+ *
+ * @returns True when the contract address and relayer keys are set.
+ */
+export function isRelayConfigured(): boolean {
+    return CONTRACT_ADDRESS.length > 0 && RELAYER_WIF.length > 0 && RELAYER_MLDSA_KEY.length > 0;
+}
+
+/**
+ * Decodes a fixed-length hex field of the payload.
+ *
+ * @param value - The field value.
+ * @param byteLength - Expected number of bytes.
+ * @param field - Field name for the error message.
+ * @returns The decoded bytes.
+ * @throws RelayError (400) if the value is not hex of the expected length.
+ */
+function hexField(value: unknown, byteLength: number, field: string): Uint8Array {
+    const hex: string = typeof value === 'string' ? value.replace(/^0x/i, '') : '';
+    if (hex.length !== byteLength * 2 || !/^[0-9a-fA-F]*$/.test(hex)) {
+        throw new RelayError(400, `${field} must be ${byteLength} bytes of hex`);
+    }
+    return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
+
+/**
+ * Decodes a non-negative integer field of the payload.
+ *
+ * @param value - The field value (decimal string).
+ * @param field - Field name for the error message.
+ * @returns The value as a bigint.
+ * @throws RelayError (400) if the value is not a decimal integer.
+ */
+function integerField(value: unknown, field: string): bigint {
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+        throw new RelayError(400, `${field} must be a decimal integer string`);
+    }
+    return BigInt(value);
+}
+
+/**
+ * Validates a JSON body against the RelayRequest shape.
+ *
+ * @param body - Parsed JSON body.
+ * @returns The validated request.
+ * @throws RelayError (400) if a field is missing or malformed.
+ */
+export function parseRelayRequest(body: unknown): RelayRequest {
+    const data: Partial<Record<keyof RelayRequest, unknown>> =
+        typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
+
+    if (typeof data.cid !== 'string' || data.cid.length === 0) {
+        throw new RelayError(400, 'cid is required');
+    }
+    try {
+        parseCid(data.cid);
+    } catch (err: unknown) {
+        throw new RelayError(400, err instanceof Error ? err.message : 'Invalid CID');
+    }
+    if (typeof data.fileName !== 'string' || data.fileName.length === 0) {
+        throw new RelayError(400, 'fileName is required');
+    }
+    integerField(data.fileSize, 'fileSize');
+    integerField(data.deadline, 'deadline');
+    hexField(data.uploader, 32, 'uploader');
+    hexField(data.signature, MLDSA44_SIGNATURE_LENGTH, 'signature');
+
+    return data as RelayRequest;
+}
+
+/**
+ * Resolves the configured network.
+ *
+ * @returns The bitcoin network parameters.
+ */
+function relayNetwork(): Network {
+    if (OPNET_NETWORK === 'bitcoin') {
+        return networks.bitcoin;
+    }
+    return OPNET_NETWORK === 'testnet' ? networks.testnet : networks.regtest;
+}
+
+/**
+ * Simulates and broadcasts a registerFileFor transaction from the relayer wallet.
+ *
+ * @param request - A validated relay request.
+ * @returns The broadcast transaction id.
+ * @throws RelayError 503 if the relayer is not configured, 422 if the contract
+ *         rejects the call (bad signature, expired, already registered, ...),
+ *         429 if the uploader is over its limit, or 502 if the RPC node fails.
+ */
+export async function relayRegistration(request: RelayRequest): Promise<RelayResult> {
+    if (!isRelayConfigured()) {
+        throw new RelayError(503, 'Relayer not configured on server');
+    }
+
+    const network: Network = relayNetwork();
+    const wallet: Wallet = Wallet.fromWif(RELAYER_WIF, RELAYER_MLDSA_KEY, network);
+    const provider: JSONRpcProvider = new JSONRpcProvider(OPNET_RPC_URL, network);
+    const contract = getContract<IRegisterFileForContract>(
+        CONTRACT_ADDRESS,
+        REGISTER_FILE_FOR_ABI,
+        provider,
+        network,
+        wallet.address,
+    );
+
+    const uploader: Uint8Array = hexField(request.uploader, 32, 'uploader');
+
+    let simulation: CallResult<{ success: boolean }, []>;
+    try {
+        simulation = await contract.registerFileFor(
+            request.cid,
+            request.fileName,
+            BigInt(request.fileSize),
+            Address.wrap(uploader),
+            BigInt(request.deadline),
+            hexField(request.signature, MLDSA44_SIGNATURE_LENGTH, 'signature'),
+        );
+    } catch (err: unknown) {
+        const message: string = err instanceof Error ? err.message : 'Simulation failed';
+        throw new RelayError(502, message);
+    }
+
+    if (simulation.revert) {
+        throw new RelayError(422, simulation.revert);
+    }
+
+    // Counted only once the signature has verified, so others cannot use up an uploader's limit
+    if (!uploaderLimiter.consume(Buffer.from(uploader).toString('hex'))) {
+        throw new RelayError(429, 'Too many relayed registrations for this uploader');
+    }
+
+    try {
+        const receipt: InteractionTransactionReceipt = await simulation.sendTransaction({
+            signer: wallet.keypair,
+            mldsaSigner: wallet.mldsaKeypair,
+            refundTo: wallet.p2tr,
+            maximumAllowedSatToSpend: RELAY_MAX_SAT,
+            network,
+        });
+        return { transactionId: receipt.transactionId };
+    } catch (err: unknown) {
+        const message: string = err instanceof Error ? err.message : 'Broadcast failed';
+        throw new RelayError(502, message);
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ * OP_Scribe Backend -- storage provider selection
+ *
+ * Picks the IPFS backend from STORAGE_PROVIDER: pinata (default), kubo or
+ * local. Each provider reads only its own settings below.
+ */
+
+import { KuboStorageProvider } from './kubo.js';
+import { LocalStorageProvider } from './local.js';
+import { PinataStorageProvider } from './pinata.js';
+import { StorageError, StorageProvider } from './provider.js';
+
+export type { FetchResult, PinResult, PinState, PinStatus, StorageProvider } from './provider.js';
+export { assertValidCid, StorageError } from './provider.js';
+
+/** Which storage provider to use: pinata, kubo or local. */
+const STORAGE_PROVIDER: string = (process.env['STORAGE_PROVIDER'] ?? 'pinata').toLowerCase();
+
+/** Pinata JWT and gateway domain (pinata provider). */
+const PINATA_JWT: string = process.env['PINATA_JWT'] ?? '';
+const PINATA_GATEWAY: string = process.env['PINATA_GATEWAY'] ?? '';
+
+/** Kubo RPC API base URL and optional Authorization header value (kubo provider). */
+const KUBO_API_URL: string = process.env['KUBO_API_URL'] ?? 'http://127.0.0.1:5001/api/v0';
+const KUBO_API_AUTH: string = process.env['KUBO_API_AUTH'] ?? '';
+
+/** Per-request timeout for Kubo RPC calls in milliseconds (default: 60000). */
+const KUBO_TIMEOUT_MS: number = Number(process.env['KUBO_TIMEOUT_MS'] ?? '60000');
+
+/** Directory for stored content (local provider). */
+const LOCAL_STORAGE_DIR: string = process.env['LOCAL_STORAGE_DIR'] ?? './data/ipfs';
+
+/**
+ * Describes the storage configuration for the startup log.
+ *
+ * @returns e.g. "pinata (JWT configured)" or "kubo at http://127.0.0.1:5001/api/v0".
+ */
+export function describeStorage(): string {
+    switch (STORAGE_PROVIDER) {
+        case 'pinata':
+            return `pinata (JWT ${PINATA_JWT ? 'configured' : 'MISSING'})`;
+        case 'kubo':
+            return `kubo at ${KUBO_API_URL}`;
+        case 'local':
+            return `local disk at ${LOCAL_STORAGE_DIR}`;
+        default:
+            return `unknown provider "${STORAGE_PROVIDER}"`;
+    }
+}
+
+/**
+ * Creates the configured storage provider.
+ *
+ * @returns The provider selected by STORAGE_PROVIDER.
+ * @throws StorageError (503) if the provider is unknown or missing required settings.
+ */
+export function createStorageProvider(): StorageProvider {
+    switch (STORAGE_PROVIDER) {
+        case 'pinata':
+            if (!PINATA_JWT) {
+                throw new StorageError(503, 'PINATA_JWT not configured on server');
+            }
+            return new PinataStorageProvider(PINATA_JWT, PINATA_GATEWAY);
+        case 'kubo':
+            return new KuboStorageProvider(KUBO_API_URL, KUBO_API_AUTH, KUBO_TIMEOUT_MS);
+        case 'local':
+            return new LocalStorageProvider(LOCAL_STORAGE_DIR);
+        default:
+            throw new StorageError(503, `Unknown STORAGE_PROVIDER "${STORAGE_PROVIDER}"`);
+    }
+}
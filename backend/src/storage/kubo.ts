@@ -0,0 +1,140 @@
+/**
+ * OP_Scribe Backend -- Kubo storage provider
+ *
+ * Talks to a Kubo (go-ipfs) node over its HTTP RPC API. Every RPC call is a
+ * POST; failed commands come back as HTTP 500 with a JSON { Message } body,
+ * which is translated to a StorageError here.
+ */
+
+import {
+    FetchResult,
+    mapUpstreamStatus,
+    PinResult,
+    PinStatus,
+    readLimitedBody,
+    StorageError,
+    StorageProvider,
+    toStorageError,
+} from './provider.js';
+
+/** Kubo reports a missing pin with this phrase in the error message. */
+const NOT_PINNED_MESSAGE: string = 'not pinned';
+
+/** Line of the JSON stream returned by /add. */
+interface KuboAddEntry {
+    readonly Hash: string;
+    readonly Size: string;
+}
+
+/** Error body Kubo returns for a failed command. */
+interface KuboErrorBody {
+    readonly Message?: string;
+}
+
+/** Storage provider backed by a Kubo node's RPC API. */
+export class KuboStorageProvider implements StorageProvider {
+    public readonly name: string = 'kubo';
+
+    /**
+     * @param apiUrl - RPC base URL, e.g. http://127.0.0.1:5001/api/v0.
+     * @param authorization - Authorization header value for a protected node, or empty.
+     * @param timeoutMs - Per-request timeout; pins and reads of content the node
+     *        does not hold block until it is found on the network.
+     */
+    public constructor(
+        private readonly apiUrl: string,
+        private readonly authorization: string,
+        private readonly timeoutMs: number,
+    ) {}
+
+    public async pin(bytes: Uint8Array, fileName: string, mimeType: string): Promise<PinResult> {
+        const form: FormData = new FormData();
+        form.append('file', new Blob([new Uint8Array(bytes)], { type: mimeType }), fileName);
+
+        const response: Response = await this.rpc('add', { 'cid-version': '1', pin: 'true' }, form);
+        const lines: string[] = (await response.text()).trim().split('\n');
+        const entry: KuboAddEntry = JSON.parse(lines[lines.length - 1]) as KuboAddEntry;
+        return { cid: entry.Hash, size: Number(entry.Size) };
+    }
+
+    public async pinCid(cid: string): Promise<PinStatus> {
+        await this.rpc('pin/add', { arg: cid });
+        return { cid, state: 'pinned' };
+    }
+
+    public async unpin(cid: string): Promise<void> {
+        await this.rpc('pin/rm', { arg: cid });
+    }
+
+    public async status(cid: string): Promise<PinStatus> {
+        try {
+            await this.rpc('pin/ls', { arg: cid, type: 'recursive' });
+            return { cid, state: 'pinned' };
+        } catch (err: unknown) {
+            if (err instanceof StorageError && err.statusCode === 404) {
+                return { cid, state: 'unpinned' };
+            }
+            throw err;
+        }
+    }
+
+    public async fetch(cid: string, maxSize: number): Promise<FetchResult> {
+        // Ask for one byte more than allowed so oversized content is detected
+        const response: Response = await this.rpc('cat', {
+            arg: cid,
+            length: String(maxSize + 1),
+        });
+        return {
+            bytes: await readLimitedBody(response, maxSize),
+            mimeType: 'application/octet-stream',
+        };
+    }
+
+    /**
+     * Calls one RPC command.
+     *
+     * @param command - Command path below the API URL, e.g. "pin/add".
+     * @param params - Query parameters.
+     * @param body - Multipart body for commands that take file data.
+     * @returns The successful response.
+     * @throws StorageError (404) if the command failed because the CID is not
+     *         pinned, otherwise with the mapped upstream status.
+     */
+    private async rpc(
+        command: string,
+        params: Record<string, string>,
+        body?: FormData,
+    ): Promise<Response> {
+        const url: string = `${this.apiUrl.replace(/\/+$/, '')}/${command}?${new URLSearchParams(params).toString()}`;
+        const headers: Record<string, string> = this.authorization
+            ? { Authorization: this.authorization }
+            : {};
+
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                headers,
+                body,
+                signal: AbortSignal.timeout(this.timeoutMs),
+            });
+        } catch (err: unknown) {
+            throw toStorageError(this.name, err);
+        }
+        if (response.ok) {
+            return response;
+        }
+
+        const text: string = await response.text().catch((): string => '');
+        let message: string = text || response.statusText;
+        try {
+            message = (JSON.parse(text) as KuboErrorBody).Message ?? message;
+        } catch {
+            // Not JSON (e.g. a proxy error page); keep the raw text
+        }
+        const statusCode: number = message.includes(NOT_PINNED_MESSAGE)
+            ? 404
+            : mapUpstreamStatus(response.status);
+        throw new StorageError(statusCode, `${this.name}: ${message}`);
+    }
+}
@@ -0,0 +1,149 @@
+/**
+ * OP_Scribe Backend -- local-disk storage provider
+ *
+ * Keeps pinned content in a directory instead of on IPFS, for development and
+ * tests without a Pinata account or an IPFS node. Content is addressed by a
+ * CIDv1 over the raw bytes (raw codec, sha2-256), so the same file always gets
+ * the same CID; note that Pinata and Kubo chunk files into dag-pb and produce
+ * a different CID for the same bytes. Nothing is announced to the network, so
+ * pinCid only succeeds for content already stored here.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { toCanonicalCid } from '../../../shared/cid.js';
+import { FetchResult, PinResult, PinStatus, StorageError, StorageProvider } from './provider.js';
+
+/** CIDv1 prefix for raw content hashed with sha2-256 (version, codec, hash code, length). */
+const RAW_SHA256_CID_PREFIX: string = '01551220';
+
+/** Metadata stored next to each file. */
+interface LocalMetadata {
+    readonly fileName: string;
+    readonly mimeType: string;
+}
+
+/** Storage provider backed by a local directory. */
+export class LocalStorageProvider implements StorageProvider {
+    public readonly name: string = 'local';
+
+    /**
+     * @param directory - Directory the content is stored in; created on first pin.
+     */
+    public constructor(private readonly directory: string) {}
+
+    public async pin(bytes: Uint8Array, fileName: string, mimeType: string): Promise<PinResult> {
+        const digest: string = createHash('sha256').update(bytes).digest('hex');
+        const cid: string = toCanonicalCid(`f${RAW_SHA256_CID_PREFIX}${digest}`);
+        const metadata: LocalMetadata = { fileName, mimeType };
+
+        try {
+            await mkdir(this.directory, { recursive: true });
+            await writeFile(this.dataPath(cid), bytes);
+            await writeFile(this.metadataPath(cid), JSON.stringify(metadata));
+        } catch (err: unknown) {
+            throw this.diskError(err);
+        }
+        return { cid, size: bytes.length };
+    }
+
+    public async pinCid(cid: string): Promise<PinStatus> {
+        const current: PinStatus = await this.status(cid);
+        if (current.state !== 'pinned') {
+            throw new StorageError(404, `${cid} is not available in local storage`);
+        }
+        return current;
+    }
+
+    public async unpin(cid: string): Promise<void> {
+        if ((await this.status(cid)).state !== 'pinned') {
+            throw new StorageError(404, `${cid} is not pinned`);
+        }
+        try {
+            await rm(this.dataPath(cid));
+            await rm(this.metadataPath(cid), { force: true });
+        } catch (err: unknown) {
+            throw this.diskError(err);
+        }
+    }
+
+    public async status(cid: string): Promise<PinStatus> {
+        try {
+            await stat(this.dataPath(cid));
+            return { cid, state: 'pinned' };
+        } catch (err: unknown) {
+            if (isNotFound(err)) {
+                return { cid, state: 'unpinned' };
+            }
+            throw this.diskError(err);
+        }
+    }
+
+    public async fetch(cid: string, maxSize: number): Promise<FetchResult> {
+        try {
+            if ((await stat(this.dataPath(cid))).size > maxSize) {
+                throw new StorageError(413, `Content exceeds maximum size of ${maxSize} bytes`);
+            }
+            const bytes: Buffer = await readFile(this.dataPath(cid));
+            const metadata: LocalMetadata = JSON.parse(
+                await readFile(this.metadataPath(cid), 'utf8').catch((): string => '{}'),
+            ) as LocalMetadata;
+            return {
+                bytes: new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+                mimeType: metadata.mimeType ?? 'application/octet-stream',
+            };
+        } catch (err: unknown) {
+            if (err instanceof StorageError) {
+                throw err;
+            }
+            if (isNotFound(err)) {
+                throw new StorageError(404, `${cid} is not available in local storage`);
+            }
+            throw this.diskError(err);
+        }
+    }
+
+    /**
+     * Path of a CID's content. CIDs are canonicalized so v0 and v1 forms of
+     * the same CID share a file, and so the name is always safe base32.
+     *
+     * @param cid - A validated CID.
+     * @returns The file path.
+     */
+    private dataPath(cid: string): string {
+        return join(this.directory, toCanonicalCid(cid));
+    }
+
+    /**
+     * Path of a CID's metadata file.
+     *
+     * @param cid - A validated CID.
+     * @returns The file path.
+     */
+    private metadataPath(cid: string): string {
+        return `${this.dataPath(cid)}.json`;
+    }
+
+    /**
+     * Wraps a filesystem failure. A server-side disk problem is not the
+     * caller's fault, so it is reported as a 500.
+     *
+     * @param err - The caught error.
+     * @returns A StorageError to throw.
+     */
+    private diskError(err: unknown): StorageError {
+        const message: string = err instanceof Error ? err.message : 'disk error';
+        return new StorageError(500, `${this.name}: ${message}`);
+    }
+}
+
+/**
+ * Checks whether a filesystem error means the file does not exist.
+ *
+ * @param err - The caught error.
+ * @returns True for ENOENT.
+ */
+function isNotFound(err: unknown): boolean {
+    return (err as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+}
@@ -0,0 +1,175 @@
+/**
+ * OP_Scribe Backend -- Pinata storage provider
+ *
+ * Uploads, lookups and unpins go through the Pinata SDK. The SDK has no
+ * pin-by-CID call, so pinCid and its job status use Pinata's pinning REST API
+ * with the same JWT. Reads go through the configured Pinata gateway.
+ */
+
+import { FileListItem, PinataSDK } from 'pinata';
+import {
+    FetchResult,
+    mapUpstreamStatus,
+    PinResult,
+    PinStatus,
+    readLimitedBody,
+    StorageError,
+    StorageProvider,
+    toStorageError,
+} from './provider.js';
+
+/** Pinata pinning API, used for pin-by-CID jobs. */
+const PINATA_API_URL: string = 'https://api.pinata.cloud';
+
+/** Pin-by-CID job list returned by GET /pinning/pinJobs. */
+interface PinJobList {
+    readonly count: number;
+}
+
+/** Storage provider backed by a Pinata account. */
+export class PinataStorageProvider implements StorageProvider {
+    public readonly name: string = 'pinata';
+
+    private readonly sdk: PinataSDK;
+
+    /**
+     * @param jwt - Pinata API JWT.
+     * @param gateway - Pinata gateway domain, with or without https://; required for fetch.
+     */
+    public constructor(
+        private readonly jwt: string,
+        private readonly gateway: string,
+    ) {
+        this.sdk = new PinataSDK({ pinataJwt: jwt, pinataGateway: gateway });
+    }
+
+    public async pin(bytes: Uint8Array, fileName: string, mimeType: string): Promise<PinResult> {
+        try {
+            const fileBytes: Uint8Array<ArrayBuffer> = new Uint8Array(bytes);
+            const file: File = new File([fileBytes], fileName, { type: mimeType });
+            const result = await this.sdk.upload.file(file);
+            return { cid: result.cid, size: bytes.length };
+        } catch (err: unknown) {
+            throw toStorageError(this.name, err);
+        }
+    }
+
+    public async pinCid(cid: string): Promise<PinStatus> {
+        const current: PinStatus = await this.status(cid);
+        if (current.state !== 'unpinned') {
+            return current;
+        }
+
+        await this.request('/pinning/pinByHash', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ hashToPin: cid }),
+        });
+        return { cid, state: 'pinning' };
+    }
+
+    public async unpin(cid: string): Promise<void> {
+        const ids: string[] = (await this.listFiles(cid)).map(
+            (file: FileListItem): string => file.id,
+        );
+        if (ids.length === 0) {
+            throw new StorageError(404, `${cid} is not pinned`);
+        }
+        try {
+            await this.sdk.files.delete(ids);
+        } catch (err: unknown) {
+            throw toStorageError(this.name, err);
+        }
+
+        // files.delete reports per-file failures in its result instead of throwing
+        if ((await this.listFiles(cid)).length > 0) {
+            throw new StorageError(502, `${this.name}: failed to unpin ${cid}`);
+        }
+    }
+
+    public async status(cid: string): Promise<PinStatus> {
+        if ((await this.listFiles(cid)).length > 0) {
+            return { cid, state: 'pinned' };
+        }
+
+        const query: URLSearchParams = new URLSearchParams({ ipfs_pin_hash: cid });
+        const response: Response = await this.request(`/pinning/pinJobs?${query.toString()}`, {
+            method: 'GET',
+        });
+        const jobs: PinJobList = (await response.json()) as PinJobList;
+        return { cid, state: jobs.count > 0 ? 'pinning' : 'unpinned' };
+    }
+
+    public async fetch(cid: string, maxSize: number): Promise<FetchResult> {
+        if (!this.gateway) {
+            throw new StorageError(503, 'PINATA_GATEWAY not configured on server');
+        }
+        const base: string = this.gateway.startsWith('http')
+            ? this.gateway
+            : `https://${this.gateway}`;
+
+        let response: Response;
+        try {
+            response = await fetch(`${base.replace(/\/+$/, '')}/ipfs/${encodeURIComponent(cid)}`);
+        } catch (err: unknown) {
+            throw toStorageError(this.name, err);
+        }
+        if (!response.ok) {
+            throw new StorageError(
+                mapUpstreamStatus(response.status),
+                `${this.name}: gateway returned ${response.status} for ${cid}`,
+            );
+        }
+
+        return {
+            bytes: await readLimitedBody(response, maxSize),
+            mimeType: response.headers.get('content-type') ?? 'application/octet-stream',
+        };
+    }
+
+    /**
+     * Lists the account's files with a given CID, skipping uploads still in progress.
+     *
+     * @param cid - CID to look up.
+     * @returns Matching files (one per upload of the same content).
+     * @throws StorageError on failure.
+     */
+    private async listFiles(cid: string): Promise<FileListItem[]> {
+        try {
+            // Awaiting the list query directly never settles on errors (its then()
+            // drops the rejection handler), so collect the pages with all()
+            const files: FileListItem[] = await this.sdk.files.list().cid(cid).all();
+            return files.filter((file: FileListItem): boolean => file.cid !== 'pending');
+        } catch (err: unknown) {
+            throw toStorageError(this.name, err);
+        }
+    }
+
+    /**
+     * Calls the Pinata pinning REST API.
+     *
+     * @param path - Path below PINATA_API_URL, including any query string.
+     * @param init - Request options; the Authorization header is added here.
+     * @returns The successful response.
+     * @throws StorageError if the request fails or returns a non-2xx status.
+     */
+    private async request(path: string, init: RequestInit): Promise<Response> {
+        let response: Response;
+        try {
+            response = await fetch(`${PINATA_API_URL}${path}`, {
+                ...init,
+                headers: { ...init.headers, Authorization: `Bearer ${this.jwt}` },
+            });
+        } catch (err: unknown) {
+            throw toStorageError(this.name, err);
+        }
+        if (!response.ok) {
+            const detail: string = await response.text().catch((): string => '');
+            throw new StorageError(
+                mapUpstreamStatus(response.status),
+                `${this.name}: ${response.status} ${detail || response.statusText}`.trim(),
+            );
+        }
+        return response;
+    }
+}
@@ -0,0 +1,193 @@
+/**
+ * OP_Scribe Backend -- storage provider interface
+ *
+ * Every IPFS backend (Pinata, a Kubo node, or a local directory) implements
+ * StorageProvider, and every failure is raised as a StorageError carrying the
+ * HTTP status the API should respond with, so routes never need to know which
+ * provider is active.
+ */
+
+import { parseCid } from '../../../shared/cid.js';
+
+/** Pin state of a CID on the active provider. */
+export type PinState = 'pinned' | 'pinning' | 'unpinned';
+
+/** Result of pinning new bytes. */
+export interface PinResult {
+    readonly cid: string;
+    /** Number of bytes stored. */
+    readonly size: number;
+}
+
+/** Pin state of one CID. */
+export interface PinStatus {
+    readonly cid: string;
+    readonly state: PinState;
+}
+
+/** Content read back from the provider. */
+export interface FetchResult {
+    readonly bytes: Uint8Array;
+    /** MIME type if the provider knows it, otherwise application/octet-stream. */
+    readonly mimeType: string;
+}
+
+/** An IPFS storage backend. */
+export interface StorageProvider {
+    /** Short name shown in logs: pinata, kubo or local. */
+    readonly name: string;
+
+    /**
+     * Stores bytes and pins them.
+     *
+     * @param bytes - File contents.
+     * @param fileName - Original file name, kept as pin metadata where supported.
+     * @param mimeType - Content type reported by the uploader.
+     * @returns The CID of the stored content.
+     * @throws StorageError on failure.
+     */
+    pin(bytes: Uint8Array, fileName: string, mimeType: string): Promise<PinResult>;
+
+    /**
+     * Pins content that already exists on IPFS.
+     *
+     * @param cid - CID to pin.
+     * @returns The pin state; remote providers may report 'pinning' until the content is found.
+     * @throws StorageError on failure.
+     */
+    pinCid(cid: string): Promise<PinStatus>;
+
+    /**
+     * Removes a pin.
+     *
+     * @param cid - CID to unpin.
+     * @throws StorageError (404) if the CID is not pinned.
+     */
+    unpin(cid: string): Promise<void>;
+
+    /**
+     * Reports whether a CID is pinned.
+     *
+     * @param cid - CID to look up.
+     * @returns The pin state.
+     * @throws StorageError on failure.
+     */
+    status(cid: string): Promise<PinStatus>;
+
+    /**
+     * Reads content back.
+     *
+     * @param cid - CID to read.
+     * @param maxSize - Largest response accepted, in bytes.
+     * @returns The content.
+     * @throws StorageError (404) if the content is unavailable, (413) if it exceeds maxSize.
+     */
+    fetch(cid: string, maxSize: number): Promise<FetchResult>;
+}
+
+/** Error carrying the HTTP status a storage endpoint should respond with. */
+export class StorageError extends Error {
+    public readonly statusCode: number;
+
+    public constructor(statusCode: number, message: string) {
+        super(message);
+        this.name = 'StorageError';
+        this.statusCode = statusCode;
+    }
+}
+
+/**
+ * Validates a CID before handing it to a provider.
+ *
+ * @param cid - CID from the request.
+ * @throws StorageError (400) if the CID is malformed.
+ */
+export function assertValidCid(cid: string): void {
+    try {
+        parseCid(cid);
+    } catch (err: unknown) {
+        throw new StorageError(400, err instanceof Error ? err.message : 'Invalid CID');
+    }
+}
+
+/**
+ * Maps an upstream HTTP status to the status our API responds with.
+ * Client errors the caller can fix pass through; credential and server
+ * problems on the provider's side become 502, rate limiting becomes 503.
+ *
+ * @param upstreamStatus - Status returned by the provider's API.
+ * @returns The status to respond with.
+ */
+export function mapUpstreamStatus(upstreamStatus: number): number {
+    switch (upstreamStatus) {
+        case 400:
+        case 404:
+        case 413:
+        case 422:
+            return upstreamStatus;
+        case 429:
+            return 503;
+        default:
+            return 502;
+    }
+}
+
+/**
+ * Wraps any error thrown while talking to a provider in a StorageError.
+ * StorageErrors pass through; timeouts become 504; errors with a numeric
+ * statusCode (e.g. from the Pinata SDK) are mapped with mapUpstreamStatus;
+ * anything else is a 502.
+ *
+ * @param provider - Provider name, used as a message prefix.
+ * @param err - The caught error.
+ * @returns A StorageError to throw.
+ */
+export function toStorageError(provider: string, err: unknown): StorageError {
+    if (err instanceof StorageError) {
+        return err;
+    }
+    const message: string = err instanceof Error ? err.message : 'request failed';
+    if (err instanceof Error && err.name === 'TimeoutError') {
+        return new StorageError(504, `${provider}: ${message}`);
+    }
+    const upstreamStatus: unknown = (err as { statusCode?: unknown } | null)?.statusCode;
+    const statusCode: number =
+        typeof upstreamStatus === 'number' ? mapUpstreamStatus(upstreamStatus) : 502;
+    return new StorageError(statusCode, `${provider}: ${message}`);
+}
+
+/**
+ * Reads a fetch response body, refusing to buffer more than maxSize bytes.
+ *
+ * @param response - A successful fetch response.
+ * @param maxSize - Largest body accepted, in bytes.
+ * @returns The body bytes.
+ * @throws StorageError (413) if the body exceeds maxSize.
+ */
+export async function readLimitedBody(response: Response, maxSize: number): Promise<Uint8Array> {
+    const declared: number = Number(response.headers.get('content-length') ?? '0');
+    if (declared > maxSize) {
+        throw new StorageError(413, `Content exceeds maximum size of ${maxSize} bytes`);
+    }
+    if (!response.body) {
+        return new Uint8Array(0);
+    }
+
+    const chunks: Uint8Array[] = [];
+    let totalSize: number = 0;
+    for await (const chunk of response.body) {
+        totalSize += chunk.length;
+        if (totalSize > maxSize) {
+            throw new StorageError(413, `Content exceeds maximum size of ${maxSize} bytes`);
+        }
+        chunks.push(chunk);
+    }
+
+    const bytes: Uint8Array = new Uint8Array(totalSize);
+    let offset: number = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return bytes;
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+    CODEC_DAG_PB,
+    CODEC_RAW,
+    cidEquals,
+    isValidCid,
+    MAX_CID_LENGTH,
+    parseCid,
+    ParsedCid,
+    toCanonicalCid,
+} from '../../shared/cid.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+const HELLO_SHA256: string = 'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9';
+
+/** A CIDv0 (dag-pb, sha2-256). */
+const V0_CID: string = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+
+/**
+ * Formats bytes as lowercase hex.
+ *
+ * @param bytes - The bytes to format.
+ * @returns The hex string.
+ */
+function toHex(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString('hex');
+}
+
+describe('parseCid', () => {
+    it('decodes a base32 CIDv1', () => {
+        const parsed: ParsedCid = parseCid(HELLO_RAW_CID);
+        assert.equal(parsed.version, 1);
+        assert.equal(parsed.codec, CODEC_RAW);
+        assert.equal(parsed.hashCode, 0x12);
+        assert.equal(toHex(parsed.digest), HELLO_SHA256);
+        assert.equal(toHex(parsed.bytes), `01551220${HELLO_SHA256}`);
+    });
+
+    it('canonicalizes a CIDv0 to CIDv1 dag-pb bytes', () => {
+        const parsed: ParsedCid = parseCid(V0_CID);
+        assert.equal(parsed.version, 0);
+        assert.equal(parsed.codec, CODEC_DAG_PB);
+        assert.equal(parsed.bytes.length, 36);
+        assert.deepEqual([...parsed.bytes.slice(0, 4)], [0x01, 0x70, 0x12, 0x20]);
+    });
+
+    it('accepts base16 and base58btc CIDv1 forms of the same CID', () => {
+        const hex: string = toHex(parseCid(HELLO_RAW_CID).bytes);
+        assert.equal(toHex(parseCid(`f${hex}`).bytes), hex);
+        assert.equal(toHex(parseCid(`F${hex.toUpperCase()}`).bytes), hex);
+        assert.equal(toHex(parseCid(HELLO_RAW_CID.toUpperCase()).bytes), hex);
+    });
+
+    it('rejects malformed CIDs with the contract messages', () => {
+        assert.throws(() => parseCid(''), /CID cannot be empty/);
+        assert.throws(() => parseCid('b'.repeat(MAX_CID_LENGTH + 1)), /CID too long/);
+        assert.throws(() => parseCid('xabc'), /Unsupported CID multibase/);
+        assert.throws(() => parseCid(`B${HELLO_RAW_CID.slice(1)}`), /Invalid CID encoding/);
+        assert.throws(() => parseCid('f0155122000'), /Invalid CID/);
+        assert.throws(() => parseCid(`f02551220${HELLO_SHA256}`), /Unsupported CID version/);
+        assert.throws(() => parseCid(`f01561220${HELLO_SHA256}`), /Unsupported CID codec/);
+        assert.throws(() => parseCid(`f01551214${HELLO_SHA256}`), /Unsupported CID multihash/);
+    });
+
+    it('rejects a CIDv0 with a character outside the base58 alphabet', () => {
+        assert.throws(() => parseCid(`${V0_CID.slice(0, 45)}0`), /Invalid CID encoding/);
+    });
+});
+
+describe('toCanonicalCid / cidEquals', () => {
+    it('formats every form as lowercase base32 CIDv1', () => {
+        const hex: string = toHex(parseCid(HELLO_RAW_CID).bytes);
+        assert.equal(toCanonicalCid(`f${hex}`), HELLO_RAW_CID);
+        assert.equal(toCanonicalCid(HELLO_RAW_CID.toUpperCase()), HELLO_RAW_CID);
+        assert.match(toCanonicalCid(V0_CID), /^bafybei/);
+    });
+
+    it('treats a CIDv0 and its CIDv1 form as equal', () => {
+        assert.ok(cidEquals(V0_CID, toCanonicalCid(V0_CID)));
+        assert.ok(!cidEquals(V0_CID, HELLO_RAW_CID));
+    });
+
+    it('reports validity without throwing', () => {
+        assert.ok(isValidCid(V0_CID));
+        assert.ok(!isValidCid('not-a-cid'));
+    });
+});
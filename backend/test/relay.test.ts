@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseRelayRequest, RelayError, RelayRateLimiter } from '../src/relay.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/**
+ * Builds a relay payload with a signature of the given length.
+ *
+ * @param signatureLength - Signature length in bytes.
+ * @returns The JSON body.
+ */
+function payload(signatureLength: number): Record<string, string> {
+    return {
+        cid: HELLO_RAW_CID,
+        fileName: 'hello.txt',
+        fileSize: '11',
+        uploader: 'ab'.repeat(32),
+        deadline: '100',
+        signature: 'cd'.repeat(signatureLength),
+    };
+}
+
+describe('parseRelayRequest', () => {
+    it('accepts an ML-DSA-44 signature', () => {
+        assert.equal(parseRelayRequest(payload(2420)).signature, 'cd'.repeat(2420));
+    });
+
+    it('rejects a 64-byte Schnorr signature', () => {
+        assert.throws(
+            () => parseRelayRequest(payload(64)),
+            (err: unknown): boolean => err instanceof RelayError && err.statusCode === 400,
+        );
+    });
+});
+
+describe('RelayRateLimiter', () => {
+    it('refuses requests over the limit until the window resets', () => {
+        let now: number = 0;
+        const limiter: RelayRateLimiter = new RelayRateLimiter(2, 1000, (): number => now);
+
+        assert.equal(limiter.consume('198.51.100.7'), true);
+        assert.equal(limiter.consume('198.51.100.7'), true);
+        assert.equal(limiter.consume('198.51.100.7'), false);
+        assert.equal(limiter.consume('203.0.113.9'), true);
+
+        now = 1000;
+        assert.equal(limiter.consume('198.51.100.7'), true);
+    });
+});
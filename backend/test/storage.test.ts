@@ -0,0 +1,322 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { KuboStorageProvider } from '../src/storage/kubo.js';
+import { LocalStorageProvider } from '../src/storage/local.js';
+import { PinataStorageProvider } from '../src/storage/pinata.js';
+import {
+    assertValidCid,
+    FetchResult,
+    mapUpstreamStatus,
+    PinResult,
+    readLimitedBody,
+    StorageError,
+    toStorageError,
+} from '../src/storage/provider.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+const HELLO: Uint8Array<ArrayBuffer> = new TextEncoder().encode('hello world');
+
+/** A request seen by the fetch mock. */
+interface SeenRequest {
+    readonly url: string;
+    readonly init: RequestInit | undefined;
+}
+
+/**
+ * Replaces global fetch with a handler and records every request.
+ *
+ * @param handler - Builds the response for a request URL.
+ * @returns The recorded requests.
+ */
+function mockFetch(handler: (url: string, init?: RequestInit) => Response): SeenRequest[] {
+    const seen: SeenRequest[] = [];
+    mock.method(
+        globalThis,
+        'fetch',
+        async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+            const url: string = input instanceof Request ? input.url : input.toString();
+            seen.push({ url, init });
+            return handler(url, init);
+        },
+    );
+    return seen;
+}
+
+/**
+ * Asserts that a promise rejects with a StorageError of the given status.
+ *
+ * @param promise - The operation under test.
+ * @param statusCode - Expected HTTP status.
+ */
+async function assertStorageError(promise: Promise<unknown>, statusCode: number): Promise<void> {
+    await assert.rejects(promise, (err: unknown): boolean => {
+        assert.ok(err instanceof StorageError, `expected StorageError, got ${String(err)}`);
+        assert.equal(err.statusCode, statusCode, err.message);
+        return true;
+    });
+}
+
+describe('error mapping', () => {
+    it('passes caller errors through and maps provider failures to 502/503', () => {
+        assert.equal(mapUpstreamStatus(400), 400);
+        assert.equal(mapUpstreamStatus(404), 404);
+        assert.equal(mapUpstreamStatus(413), 413);
+        assert.equal(mapUpstreamStatus(422), 422);
+        assert.equal(mapUpstreamStatus(401), 502);
+        assert.equal(mapUpstreamStatus(403), 502);
+        assert.equal(mapUpstreamStatus(429), 503);
+        assert.equal(mapUpstreamStatus(500), 502);
+    });
+
+    it('wraps thrown errors consistently', () => {
+        const original: StorageError = new StorageError(404, 'gone');
+        assert.equal(toStorageError('x', original), original);
+
+        const timeout: Error = new Error('timed out');
+        timeout.name = 'TimeoutError';
+        assert.equal(toStorageError('x', timeout).statusCode, 504);
+
+        const sdkError: Error & { statusCode?: number } = new Error('denied');
+        sdkError.statusCode = 401;
+        assert.equal(toStorageError('x', sdkError).statusCode, 502);
+
+        const plain: StorageError = toStorageError('kubo', new Error('ECONNREFUSED'));
+        assert.equal(plain.statusCode, 502);
+        assert.equal(plain.message, 'kubo: ECONNREFUSED');
+    });
+
+    it('rejects malformed CIDs with 400', () => {
+        assert.throws(
+            () => assertValidCid('not-a-cid'),
+            (err: unknown): boolean => err instanceof StorageError && err.statusCode === 400,
+        );
+        assert.doesNotThrow(() => assertValidCid(HELLO_RAW_CID));
+    });
+});
+
+describe('readLimitedBody', () => {
+    it('reads a body within the limit', async () => {
+        const bytes: Uint8Array = await readLimitedBody(new Response(HELLO), 11);
+        assert.deepEqual(bytes, HELLO);
+    });
+
+    it('rejects a declared length over the limit', async () => {
+        const response: Response = new Response(HELLO, { headers: { 'content-length': '11' } });
+        await assertStorageError(readLimitedBody(response, 10), 413);
+    });
+
+    it('rejects a streamed body over the limit', async () => {
+        const stream: ReadableStream<Uint8Array> = new ReadableStream({
+            start(controller: ReadableStreamDefaultController<Uint8Array>): void {
+                controller.enqueue(HELLO);
+                controller.enqueue(HELLO);
+                controller.close();
+            },
+        });
+        await assertStorageError(readLimitedBody(new Response(stream), 15), 413);
+    });
+});
+
+describe('LocalStorageProvider', () => {
+    let directory: string;
+    let storage: LocalStorageProvider;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'opscribe-storage-'));
+        storage = new LocalStorageProvider(directory);
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('pins bytes under their raw CIDv1 and reads them back', async () => {
+        const result: PinResult = await storage.pin(HELLO, 'hello.txt', 'text/plain');
+        assert.deepEqual(result, { cid: HELLO_RAW_CID, size: 11 });
+        assert.deepEqual(await storage.status(HELLO_RAW_CID), {
+            cid: HELLO_RAW_CID,
+            state: 'pinned',
+        });
+
+        const content: FetchResult = await storage.fetch(HELLO_RAW_CID, 1024);
+        assert.deepEqual(content.bytes, HELLO);
+        assert.equal(content.mimeType, 'text/plain');
+    });
+
+    it('finds content by any encoding of its CID', async () => {
+        await storage.pin(HELLO, 'hello.txt', 'text/plain');
+        assert.equal((await storage.status(HELLO_RAW_CID.toUpperCase())).state, 'pinned');
+        assert.equal((await storage.pinCid(HELLO_RAW_CID)).state, 'pinned');
+    });
+
+    it('unpins, then reports the CID as missing', async () => {
+        await storage.pin(HELLO, 'hello.txt', 'text/plain');
+        await storage.unpin(HELLO_RAW_CID);
+
+        assert.equal((await storage.status(HELLO_RAW_CID)).state, 'unpinned');
+        await assertStorageError(storage.unpin(HELLO_RAW_CID), 404);
+        await assertStorageError(storage.fetch(HELLO_RAW_CID, 1024), 404);
+    });
+
+    it('cannot pin content it does not hold', async () => {
+        await assertStorageError(storage.pinCid(HELLO_RAW_CID), 404);
+    });
+
+    it('refuses to read content over the size limit', async () => {
+        await storage.pin(HELLO, 'hello.txt', 'text/plain');
+        await assertStorageError(storage.fetch(HELLO_RAW_CID, 10), 413);
+    });
+});
+
+describe('KuboStorageProvider', () => {
+    const storage: KuboStorageProvider = new KuboStorageProvider(
+        'http://kubo.test/api/v0/',
+        'Basic dGVzdA==',
+        1000,
+    );
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('adds files as pinned CIDv1 and sends the configured auth header', async () => {
+        const seen: SeenRequest[] = mockFetch(
+            (): Response =>
+                new Response(`{"Name":"hello.txt","Hash":"${HELLO_RAW_CID}","Size":"11"}\n`),
+        );
+
+        assert.deepEqual(await storage.pin(HELLO, 'hello.txt', 'text/plain'), {
+            cid: HELLO_RAW_CID,
+            size: 11,
+        });
+
+        const url: URL = new URL(seen[0].url);
+        assert.equal(url.pathname, '/api/v0/add');
+        assert.equal(url.searchParams.get('cid-version'), '1');
+        assert.equal(url.searchParams.get('pin'), 'true');
+        assert.equal(seen[0].init?.method, 'POST');
+        assert.deepEqual(seen[0].init?.headers, { Authorization: 'Basic dGVzdA==' });
+    });
+
+    it('maps "not pinned" errors to unpinned / 404', async () => {
+        mockFetch(
+            (): Response =>
+                Response.json(
+                    { Message: `path '${HELLO_RAW_CID}' is not pinned`, Code: 0 },
+                    { status: 500 },
+                ),
+        );
+
+        assert.equal((await storage.status(HELLO_RAW_CID)).state, 'unpinned');
+        await assertStorageError(storage.unpin(HELLO_RAW_CID), 404);
+    });
+
+    it('maps other node failures to 502', async () => {
+        mockFetch((): Response => Response.json({ Message: 'datastore closed' }, { status: 500 }));
+        await assertStorageError(storage.pinCid(HELLO_RAW_CID), 502);
+    });
+
+    it('maps unreachable nodes to 502', async () => {
+        mock.method(globalThis, 'fetch', async (): Promise<Response> => {
+            throw new TypeError('fetch failed');
+        });
+        await assertStorageError(storage.status(HELLO_RAW_CID), 502);
+    });
+
+    it('limits reads to one byte over the maximum', async () => {
+        const seen: SeenRequest[] = mockFetch((): Response => new Response(HELLO));
+
+        const content: FetchResult = await storage.fetch(HELLO_RAW_CID, 100);
+        assert.deepEqual(content.bytes, HELLO);
+        assert.equal(new URL(seen[0].url).searchParams.get('length'), '101');
+    });
+});
+
+describe('PinataStorageProvider', () => {
+    /**
+     * Builds a Pinata v3 file list response.
+     *
+     * @param cids - CIDs of the listed files.
+     * @returns The response.
+     */
+    function fileList(cids: readonly string[]): Response {
+        return Response.json({
+            data: {
+                files: cids.map((cid: string, i: number) => ({ id: `file-${i}`, cid })),
+                next_page_token: '',
+            },
+        });
+    }
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('reports a listed CID as pinned', async () => {
+        mockFetch((): Response => fileList([HELLO_RAW_CID]));
+        const storage: PinataStorageProvider = new PinataStorageProvider('jwt', '');
+        assert.equal((await storage.status(HELLO_RAW_CID)).state, 'pinned');
+    });
+
+    it('pins an unlisted CID by hash and reports it as pinning', async () => {
+        const seen: SeenRequest[] = mockFetch((url: string): Response => {
+            if (url.includes('/v3/files')) {
+                return fileList([]);
+            }
+            if (url.includes('/pinning/pinJobs')) {
+                return Response.json({ count: 0, rows: [] });
+            }
+            return Response.json({ id: 'job', ipfsHash: HELLO_RAW_CID, status: 'prechecking' });
+        });
+        const storage: PinataStorageProvider = new PinataStorageProvider('jwt', '');
+
+        assert.deepEqual(await storage.pinCid(HELLO_RAW_CID), {
+            cid: HELLO_RAW_CID,
+            state: 'pinning',
+        });
+
+        const pinRequest: SeenRequest | undefined = seen.find((request: SeenRequest) =>
+            request.url.endsWith('/pinning/pinByHash'),
+        );
+        assert.ok(pinRequest);
+        assert.equal(pinRequest.init?.body, JSON.stringify({ hashToPin: HELLO_RAW_CID }));
+        assert.equal(
+            (pinRequest.init?.headers as Record<string, string>)['Authorization'],
+            'Bearer jwt',
+        );
+    });
+
+    it('rejects unpinning a CID it does not hold with 404', async () => {
+        mockFetch((): Response => fileList([]));
+        const storage: PinataStorageProvider = new PinataStorageProvider('jwt', '');
+        await assertStorageError(storage.unpin(HELLO_RAW_CID), 404);
+    });
+
+    it('maps rejected credentials to 502', async () => {
+        mockFetch((): Response => new Response('invalid key', { status: 401 }));
+        const storage: PinataStorageProvider = new PinataStorageProvider('jwt', '');
+        await assertStorageError(storage.status(HELLO_RAW_CID), 502);
+    });
+
+    it('needs a gateway to fetch content', async () => {
+        const storage: PinataStorageProvider = new PinataStorageProvider('jwt', '');
+        await assertStorageError(storage.fetch(HELLO_RAW_CID, 1024), 503);
+    });
+
+    it('fetches through the gateway and maps a missing CID to 404', async () => {
+        const seen: SeenRequest[] = mockFetch(
+            (): Response => new Response('not found', { status: 404 }),
+        );
+        const storage: PinataStorageProvider = new PinataStorageProvider(
+            'jwt',
+            'example.mypinata.cloud',
+        );
+
+        await assertStorageError(storage.fetch(HELLO_RAW_CID, 1024), 404);
+        assert.equal(seen[0].url, `https://example.mypinata.cloud/ipfs/${HELLO_RAW_CID}`);
+    });
+});
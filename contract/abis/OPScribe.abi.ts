@@ -4,52 +4,744 @@ export const OPScribeEvents = [
     {
         name: 'FileRegistered',
         values: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT64 },
+            { name: 'nameLength', type: ABIDataTypes.UINT32 },
             { name: 'fileSize', type: ABIDataTypes.UINT256 },
             { name: 'uploader', type: ABIDataTypes.ADDRESS },
         ],
         type: BitcoinAbiTypes.Event,
     },
-];
-
-export const OPScribeAbi = [
     {
-        name: 'registerFile',
+        name: 'FileExpiryUpdated',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'TagAdded',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'tagKey', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RegistrationCommitted',
+        values: [
+            { name: 'commitment', type: ABIDataTypes.UINT256 },
+            { name: 'committer', type: ABIDataTypes.ADDRESS },
+            { name: 'blockNumber', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FileSealed',
+        values: [
+            { name: 'commitment', type: ABIDataTypes.UINT256 },
+            { name: 'sealer', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FileUnsealed',
+        values: [{ name: 'commitment', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FileRevoked',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'revoker', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FileSuperseded',
+        values: [
+            { name: 'oldCidKey', type: ABIDataTypes.UINT256 },
+            { name: 'newCidKey', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RecordTransferInitiated',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'currentOwner', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingOwner', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RecordTransferred',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'previousOwner', type: ABIDataTypes.ADDRESS },
+            { name: 'newOwner', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AttestationAdded',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'attester', type: ABIDataTypes.ADDRESS },
+            { name: 'statementHash', type: ABIDataTypes.UINT256 },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'MetadataUpdated',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'metadataKey', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'mutable', type: ABIDataTypes.BOOL },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'CollectionCreated',
+        values: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'CollectionFileAdded',
+        values: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'memberIndex', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AgreementCreated',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'creator', type: ABIDataTypes.ADDRESS },
+            { name: 'signerCount', type: ABIDataTypes.UINT32 },
+            { name: 'deadline', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AgreementSigned',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'signer', type: ABIDataTypes.ADDRESS },
+            { name: 'signedCount', type: ABIDataTypes.UINT32 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AgreementCompleted',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'signerCount', type: ABIDataTypes.UINT32 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FileFlagged',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'flagger', type: ABIDataTypes.ADDRESS },
+            { name: 'reasonCode', type: ABIDataTypes.UINT8 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FileHidden',
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'hidden', type: ABIDataTypes.BOOL },
+            { name: 'moderator', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'MerkleRootAnchored',
+        values: [
+            { name: 'root', type: ABIDataTypes.UINT256 },
+            { name: 'leafCount', type: ABIDataTypes.UINT256 },
+            { name: 'anchorer', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FeeConfigUpdated',
+        values: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'registrationFee', type: ABIDataTypes.UINT256 },
+            { name: 'perByteFee', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FeesWithdrawn',
+        values: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'to', type: ABIDataTypes.ADDRESS },
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RateLimitsUpdated',
+        values: [
+            { name: 'windowBlocks', type: ABIDataTypes.UINT256 },
+            { name: 'maxPerWindow', type: ABIDataTypes.UINT256 },
+            { name: 'lifetimeQuota', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'OwnershipTransferStarted',
+        values: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingOwner', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'OwnershipTransferred',
+        values: [
+            { name: 'previousOwner', type: ABIDataTypes.ADDRESS },
+            { name: 'newOwner', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RoleUpdated',
+        values: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'enabled', type: ABIDataTypes.BOOL },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'Paused',
+        values: [{ name: 'account', type: ABIDataTypes.ADDRESS }],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'Unpaused',
+        values: [{ name: 'account', type: ABIDataTypes.ADDRESS }],
+        type: BitcoinAbiTypes.Event,
+    },
+];
+
+export const OPScribeAbi = [
+    {
+        name: 'registerFile',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'registerFileWithHash',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'registerFileWithCertificate',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [{ name: 'tokenId', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'registerFileWithExpiry',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'tokenURI',
+        inputs: [{ name: 'tokenId', type: ABIDataTypes.UINT256 }],
+        outputs: [{ name: 'uri', type: ABIDataTypes.STRING }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'changeMetadata',
+        inputs: [
+            { name: 'icon', type: ABIDataTypes.STRING },
+            { name: 'banner', type: ABIDataTypes.STRING },
+            { name: 'description', type: ABIDataTypes.STRING },
+            { name: 'website', type: ABIDataTypes.STRING },
+        ],
+        outputs: [],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setBaseURI',
+        inputs: [{ name: 'baseURI', type: ABIDataTypes.STRING }],
+        outputs: [],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'registerFileWithTags',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'tags', type: ABIDataTypes.ARRAY_OF_STRING },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'registerFileFor',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'signature', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'registrationNonceOf',
+        inputs: [{ name: 'uploader', type: ABIDataTypes.ADDRESS }],
+        outputs: [{ name: 'nonce', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'registerFiles',
+        inputs: [
+            { name: 'cids', type: ABIDataTypes.ARRAY_OF_STRING },
+            { name: 'fileNames', type: ABIDataTypes.ARRAY_OF_STRING },
+            { name: 'fileSizes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'commitRegistration',
+        inputs: [
+            { name: 'commitment', type: ABIDataTypes.BYTES32 },
+            { name: 'cidKey', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [{ name: 'revealAfter', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'revealRegistration',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'salt', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getRegistrationCommitment',
+        inputs: [
+            { name: 'committer', type: ABIDataTypes.ADDRESS },
+            { name: 'commitment', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'committedAt', type: ABIDataTypes.UINT64 },
+            { name: 'revealAfter', type: ABIDataTypes.UINT64 },
+            { name: 'expiresAt', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'registerSealedFile',
+        inputs: [
+            { name: 'commitment', type: ABIDataTypes.BYTES32 },
+            { name: 'contentCommitment', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'unsealFile',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'salt', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getSealedProof',
+        inputs: [
+            { name: 'sealer', type: ABIDataTypes.ADDRESS },
+            { name: 'commitment', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'sealer', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'unsealed', type: ABIDataTypes.BOOL },
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getSealedProofByContent',
+        inputs: [
+            { name: 'sealer', type: ABIDataTypes.ADDRESS },
+            { name: 'contentCommitment', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'sealer', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'unsealed', type: ABIDataTypes.BOOL },
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getFile',
+        inputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
+        outputs: [
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+            { name: 'status', type: ABIDataTypes.UINT8 },
+            { name: 'successor', type: ABIDataTypes.STRING },
+            { name: 'revocationReason', type: ABIDataTypes.STRING },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'pendingOwner', type: ABIDataTypes.UINT256 },
+            { name: 'hasCertificate', type: ABIDataTypes.BOOL },
+            { name: 'certificateId', type: ABIDataTypes.UINT256 },
+            { name: 'hidden', type: ABIDataTypes.BOOL },
+            { name: 'flagCount', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+            { name: 'expired', type: ABIDataTypes.BOOL },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getFileByContentHash',
+        inputs: [{ name: 'contentHash', type: ABIDataTypes.BYTES32 }],
+        outputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'exists', type: ABIDataTypes.BOOL },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'checkFileExists',
+        inputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'exists', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getIndexOfCid',
+        inputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getTotalFiles',
+        inputs: [],
+        outputs: [{ name: 'count', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getFileByIndex',
+        inputs: [{ name: 'index', type: ABIDataTypes.UINT256 }],
+        outputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getFilesRange',
+        inputs: [
+            { name: 'start', type: ABIDataTypes.UINT256 },
+            { name: 'count', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'cids', type: ABIDataTypes.ARRAY_OF_STRING },
+            { name: 'fileNames', type: ABIDataTypes.ARRAY_OF_STRING },
+            { name: 'fileSizes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'uploaders', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'blockNumbers', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'timestamps', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'owners', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'validUntils', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getUploaderFileCount',
+        inputs: [{ name: 'uploader', type: ABIDataTypes.ADDRESS }],
+        outputs: [{ name: 'count', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getUploaderFileByIndex',
         inputs: [
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
             { name: 'cid', type: ABIDataTypes.STRING },
             { name: 'fileName', type: ABIDataTypes.STRING },
             { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'revokeFile',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'reason', type: ABIDataTypes.STRING },
         ],
         outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
         type: BitcoinAbiTypes.Function,
     },
     {
-        name: 'getFile',
+        name: 'renewFile',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'newExpiry', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'supersedeFile',
+        inputs: [
+            { name: 'oldCid', type: ABIDataTypes.STRING },
+            { name: 'newCid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'transferRecord',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'newOwner', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'acceptRecordTransfer',
+        inputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'attestFile',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'statementHash', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [{ name: 'index', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getAttestationCount',
+        inputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'count', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getAttestation',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'attester', type: ABIDataTypes.UINT256 },
+            { name: 'statementHash', type: ABIDataTypes.BYTES32 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setFileMetadata',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'key', type: ABIDataTypes.STRING },
+            { name: 'value', type: ABIDataTypes.STRING },
+            { name: 'mutable', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getFileMetadata',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'key', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'value', type: ABIDataTypes.STRING },
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'mutable', type: ABIDataTypes.BOOL },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'listMetadataKeys',
+        inputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'keys', type: ABIDataTypes.ARRAY_OF_STRING }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'addFileTags',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'tags', type: ABIDataTypes.ARRAY_OF_STRING },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getFileTags',
         inputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'tags', type: ABIDataTypes.ARRAY_OF_STRING }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getTagFileCount',
+        inputs: [{ name: 'tag', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'count', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getTagFileByIndex',
+        inputs: [
+            { name: 'tag', type: ABIDataTypes.STRING },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
         outputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
             { name: 'fileName', type: ABIDataTypes.STRING },
             { name: 'fileSize', type: ABIDataTypes.UINT256 },
             { name: 'uploader', type: ABIDataTypes.UINT256 },
             { name: 'blockNumber', type: ABIDataTypes.UINT256 },
             { name: 'timestamp', type: ABIDataTypes.UINT256 },
-            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
         ],
         type: BitcoinAbiTypes.Function,
     },
     {
-        name: 'checkFileExists',
+        name: 'getVersionChain',
         inputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
-        outputs: [{ name: 'exists', type: ABIDataTypes.BOOL }],
+        outputs: [{ name: 'cids', type: ABIDataTypes.ARRAY_OF_STRING }],
         type: BitcoinAbiTypes.Function,
     },
     {
-        name: 'getTotalFiles',
+        name: 'createCollection',
+        inputs: [
+            { name: 'name', type: ABIDataTypes.STRING },
+            { name: 'description', type: ABIDataTypes.STRING },
+        ],
+        outputs: [{ name: 'collectionId', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'addToCollection',
+        inputs: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [{ name: 'fileCount', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getCollection',
+        inputs: [{ name: 'collectionId', type: ABIDataTypes.UINT256 }],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'name', type: ABIDataTypes.STRING },
+            { name: 'description', type: ABIDataTypes.STRING },
+            { name: 'fileCount', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getTotalCollections',
         inputs: [],
         outputs: [{ name: 'count', type: ABIDataTypes.UINT256 }],
         type: BitcoinAbiTypes.Function,
     },
     {
-        name: 'getFileByIndex',
-        inputs: [{ name: 'index', type: ABIDataTypes.UINT256 }],
+        name: 'getCollectionFileByIndex',
+        inputs: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
         outputs: [
             { name: 'cid', type: ABIDataTypes.STRING },
             { name: 'fileName', type: ABIDataTypes.STRING },
@@ -57,6 +749,225 @@ export const OPScribeAbi = [
             { name: 'uploader', type: ABIDataTypes.UINT256 },
             { name: 'blockNumber', type: ABIDataTypes.UINT256 },
             { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getOwnerCollectionCount',
+        inputs: [{ name: 'owner', type: ABIDataTypes.ADDRESS }],
+        outputs: [{ name: 'count', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getOwnerCollectionByIndex',
+        inputs: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [{ name: 'collectionId', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'createAgreement',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'requiredSigners', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+            { name: 'deadline', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'signAgreement',
+        inputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'complete', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getAgreementStatus',
+        inputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'creator', type: ABIDataTypes.UINT256 },
+            { name: 'deadline', type: ABIDataTypes.UINT256 },
+            { name: 'signers', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'signedBlocks', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'signedTimestamps', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'signedCount', type: ABIDataTypes.UINT256 },
+            { name: 'complete', type: ABIDataTypes.BOOL },
+            { name: 'expired', type: ABIDataTypes.BOOL },
+            { name: 'completedAt', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getSignerAgreementCount',
+        inputs: [{ name: 'signer', type: ABIDataTypes.ADDRESS }],
+        outputs: [{ name: 'count', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getSignerAgreementByIndex',
+        inputs: [
+            { name: 'signer', type: ABIDataTypes.ADDRESS },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [{ name: 'cid', type: ABIDataTypes.STRING }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'flagFile',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'reasonCode', type: ABIDataTypes.UINT8 },
+        ],
+        outputs: [{ name: 'flagCount', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getFlag',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'flagger', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'reasonCode', type: ABIDataTypes.UINT8 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setHidden',
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'hidden', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'anchorMerkleRoot',
+        inputs: [
+            { name: 'root', type: ABIDataTypes.BYTES32 },
+            { name: 'leafCount', type: ABIDataTypes.UINT256 },
+            { name: 'label', type: ABIDataTypes.STRING },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getMerkleRoot',
+        inputs: [{ name: 'root', type: ABIDataTypes.BYTES32 }],
+        outputs: [
+            { name: 'leafCount', type: ABIDataTypes.UINT256 },
+            { name: 'label', type: ABIDataTypes.STRING },
+            { name: 'anchorer', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'exists', type: ABIDataTypes.BOOL },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'verifyInclusion',
+        inputs: [
+            { name: 'root', type: ABIDataTypes.BYTES32 },
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'proof', type: ABIDataTypes.ARRAY_OF_BYTES },
+        ],
+        outputs: [{ name: 'valid', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setFeeConfig',
+        inputs: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'registrationFee', type: ABIDataTypes.UINT256 },
+            { name: 'perByteFee', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'withdrawFees',
+        inputs: [{ name: 'to', type: ABIDataTypes.ADDRESS }],
+        outputs: [{ name: 'amount', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getFeeConfig',
+        inputs: [],
+        outputs: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'registrationFee', type: ABIDataTypes.UINT256 },
+            { name: 'perByteFee', type: ABIDataTypes.UINT256 },
+            { name: 'collectedFees', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setRateLimits',
+        inputs: [
+            { name: 'windowBlocks', type: ABIDataTypes.UINT256 },
+            { name: 'maxPerWindow', type: ABIDataTypes.UINT256 },
+            { name: 'lifetimeQuota', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getQuota',
+        inputs: [{ name: 'uploader', type: ABIDataTypes.ADDRESS }],
+        outputs: [
+            { name: 'windowBlocks', type: ABIDataTypes.UINT256 },
+            { name: 'maxPerWindow', type: ABIDataTypes.UINT256 },
+            { name: 'usedInWindow', type: ABIDataTypes.UINT256 },
+            { name: 'remainingInWindow', type: ABIDataTypes.UINT256 },
+            { name: 'windowResetsAt', type: ABIDataTypes.UINT256 },
+            { name: 'lifetimeQuota', type: ABIDataTypes.UINT256 },
+            { name: 'lifetimeUsed', type: ABIDataTypes.UINT256 },
+            { name: 'lifetimeRemaining', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'transferOwnership',
+        inputs: [{ name: 'newOwner', type: ABIDataTypes.ADDRESS }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'acceptOwnership',
+        inputs: [],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setRole',
+        inputs: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'enabled', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getOwner',
+        inputs: [],
+        outputs: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingOwner', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getRoles',
+        inputs: [{ name: 'account', type: ABIDataTypes.ADDRESS }],
+        outputs: [
+            { name: 'isOwner', type: ABIDataTypes.BOOL },
+            { name: 'isPauser', type: ABIDataTypes.BOOL },
+            { name: 'isFeeManager', type: ABIDataTypes.BOOL },
+            { name: 'isModerator', type: ABIDataTypes.BOOL },
         ],
         type: BitcoinAbiTypes.Function,
     },
@@ -5,9 +5,138 @@ import { CallResult, OPNetEvent, IOP_NETContract } from 'opnet';
 // Event Definitions
 // ------------------------------------------------------------------
 export type FileRegisteredEvent = {
+    readonly cid: string;
+    readonly cidKey: bigint;
+    readonly index: bigint;
+    readonly blockNumber: bigint;
+    readonly nameLength: number;
     readonly fileSize: bigint;
     readonly uploader: Address;
 };
+export type FileExpiryUpdatedEvent = {
+    readonly cidKey: bigint;
+    readonly validUntil: bigint;
+};
+export type TagAddedEvent = {
+    readonly cidKey: bigint;
+    readonly tagKey: bigint;
+};
+export type RegistrationCommittedEvent = {
+    readonly commitment: bigint;
+    readonly committer: Address;
+    readonly blockNumber: bigint;
+};
+export type FileSealedEvent = {
+    readonly commitment: bigint;
+    readonly sealer: Address;
+};
+export type FileUnsealedEvent = {
+    readonly commitment: bigint;
+};
+export type FileRevokedEvent = {
+    readonly cidKey: bigint;
+    readonly revoker: Address;
+};
+export type FileSupersededEvent = {
+    readonly oldCidKey: bigint;
+    readonly newCidKey: bigint;
+    readonly uploader: Address;
+};
+export type RecordTransferInitiatedEvent = {
+    readonly cidKey: bigint;
+    readonly currentOwner: Address;
+    readonly pendingOwner: Address;
+};
+export type RecordTransferredEvent = {
+    readonly cidKey: bigint;
+    readonly previousOwner: Address;
+    readonly newOwner: Address;
+};
+export type AttestationAddedEvent = {
+    readonly cidKey: bigint;
+    readonly attester: Address;
+    readonly statementHash: bigint;
+    readonly index: bigint;
+};
+export type MetadataUpdatedEvent = {
+    readonly cidKey: bigint;
+    readonly metadataKey: bigint;
+    readonly owner: Address;
+    readonly mutable: boolean;
+};
+export type CollectionCreatedEvent = {
+    readonly collectionId: bigint;
+    readonly owner: Address;
+};
+export type CollectionFileAddedEvent = {
+    readonly collectionId: bigint;
+    readonly cidKey: bigint;
+    readonly memberIndex: bigint;
+};
+export type AgreementCreatedEvent = {
+    readonly cidKey: bigint;
+    readonly creator: Address;
+    readonly signerCount: number;
+    readonly deadline: bigint;
+};
+export type AgreementSignedEvent = {
+    readonly cidKey: bigint;
+    readonly signer: Address;
+    readonly signedCount: number;
+};
+export type AgreementCompletedEvent = {
+    readonly cidKey: bigint;
+    readonly signerCount: number;
+};
+export type FileFlaggedEvent = {
+    readonly cidKey: bigint;
+    readonly flagger: Address;
+    readonly reasonCode: number;
+};
+export type FileHiddenEvent = {
+    readonly cidKey: bigint;
+    readonly hidden: boolean;
+    readonly moderator: Address;
+};
+export type MerkleRootAnchoredEvent = {
+    readonly root: bigint;
+    readonly leafCount: bigint;
+    readonly anchorer: Address;
+};
+export type FeeConfigUpdatedEvent = {
+    readonly token: Address;
+    readonly registrationFee: bigint;
+    readonly perByteFee: bigint;
+};
+export type FeesWithdrawnEvent = {
+    readonly token: Address;
+    readonly to: Address;
+    readonly amount: bigint;
+};
+export type RateLimitsUpdatedEvent = {
+    readonly windowBlocks: bigint;
+    readonly maxPerWindow: bigint;
+    readonly lifetimeQuota: bigint;
+};
+export type OwnershipTransferStartedEvent = {
+    readonly owner: Address;
+    readonly pendingOwner: Address;
+};
+export type OwnershipTransferredEvent = {
+    readonly previousOwner: Address;
+    readonly newOwner: Address;
+};
+export type RoleUpdatedEvent = {
+    readonly role: number;
+    readonly account: Address;
+    readonly enabled: boolean;
+};
+export type PausedEvent = {
+    readonly account: Address;
+};
+export type UnpausedEvent = {
+    readonly account: Address;
+};
 
 // ------------------------------------------------------------------
 // Call Results
@@ -23,6 +152,180 @@ export type RegisterFile = CallResult<
     OPNetEvent<FileRegisteredEvent>[]
 >;
 
+/**
+ * @description Represents the result of the registerFileWithHash function call.
+ */
+export type RegisterFileWithHash = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileRegisteredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the registerFileWithCertificate function call.
+ */
+export type RegisterFileWithCertificate = CallResult<
+    {
+        tokenId: bigint;
+    },
+    OPNetEvent<FileRegisteredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the registerFileWithExpiry function call.
+ */
+export type RegisterFileWithExpiry = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileRegisteredEvent | FileExpiryUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the tokenURI function call.
+ */
+export type TokenURI = CallResult<
+    {
+        uri: string;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the changeMetadata function call.
+ */
+export type ChangeMetadata = CallResult<{}, OPNetEvent<never>[]>;
+
+/**
+ * @description Represents the result of the setBaseURI function call.
+ */
+export type SetBaseURI = CallResult<{}, OPNetEvent<never>[]>;
+
+/**
+ * @description Represents the result of the registerFileWithTags function call.
+ */
+export type RegisterFileWithTags = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileRegisteredEvent | TagAddedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the registerFileFor function call.
+ */
+export type RegisterFileFor = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileRegisteredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the registrationNonceOf function call.
+ */
+export type RegistrationNonceOf = CallResult<
+    {
+        nonce: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the registerFiles function call.
+ */
+export type RegisterFiles = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileRegisteredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the commitRegistration function call.
+ */
+export type CommitRegistration = CallResult<
+    {
+        revealAfter: bigint;
+    },
+    OPNetEvent<RegistrationCommittedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the revealRegistration function call.
+ */
+export type RevealRegistration = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileRegisteredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getRegistrationCommitment function call.
+ */
+export type GetRegistrationCommitment = CallResult<
+    {
+        committedAt: bigint;
+        revealAfter: bigint;
+        expiresAt: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the registerSealedFile function call.
+ */
+export type RegisterSealedFile = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileSealedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the unsealFile function call.
+ */
+export type UnsealFile = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileUnsealedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getSealedProof function call.
+ */
+export type GetSealedProof = CallResult<
+    {
+        exists: boolean;
+        sealer: bigint;
+        blockNumber: bigint;
+        timestamp: bigint;
+        unsealed: boolean;
+        cid: string;
+        fileName: string;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getSealedProofByContent function call.
+ */
+export type GetSealedProofByContent = CallResult<
+    {
+        exists: boolean;
+        sealer: bigint;
+        blockNumber: bigint;
+        timestamp: bigint;
+        unsealed: boolean;
+        cid: string;
+        fileName: string;
+    },
+    OPNetEvent<never>[]
+>;
+
 /**
  * @description Represents the result of the getFile function call.
  */
@@ -34,6 +337,34 @@ export type GetFile = CallResult<
         blockNumber: bigint;
         timestamp: bigint;
         exists: boolean;
+        contentHash: Uint8Array;
+        status: number;
+        successor: string;
+        revocationReason: string;
+        owner: bigint;
+        pendingOwner: bigint;
+        hasCertificate: boolean;
+        certificateId: bigint;
+        hidden: boolean;
+        flagCount: bigint;
+        validUntil: bigint;
+        expired: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getFileByContentHash function call.
+ */
+export type GetFileByContentHash = CallResult<
+    {
+        cid: string;
+        fileName: string;
+        fileSize: bigint;
+        uploader: bigint;
+        blockNumber: bigint;
+        timestamp: bigint;
+        exists: boolean;
     },
     OPNetEvent<never>[]
 >;
@@ -48,6 +379,17 @@ export type CheckFileExists = CallResult<
     OPNetEvent<never>[]
 >;
 
+/**
+ * @description Represents the result of the getIndexOfCid function call.
+ */
+export type GetIndexOfCid = CallResult<
+    {
+        exists: boolean;
+        index: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
 /**
  * @description Represents the result of the getTotalFiles function call.
  */
@@ -69,6 +411,544 @@ export type GetFileByIndex = CallResult<
         uploader: bigint;
         blockNumber: bigint;
         timestamp: bigint;
+        owner: bigint;
+        validUntil: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getFilesRange function call.
+ */
+export type GetFilesRange = CallResult<
+    {
+        cids: string[];
+        fileNames: string[];
+        fileSizes: bigint[];
+        uploaders: bigint[];
+        blockNumbers: bigint[];
+        timestamps: bigint[];
+        owners: bigint[];
+        validUntils: bigint[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getUploaderFileCount function call.
+ */
+export type GetUploaderFileCount = CallResult<
+    {
+        count: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getUploaderFileByIndex function call.
+ */
+export type GetUploaderFileByIndex = CallResult<
+    {
+        cid: string;
+        fileName: string;
+        fileSize: bigint;
+        uploader: bigint;
+        blockNumber: bigint;
+        timestamp: bigint;
+        owner: bigint;
+        validUntil: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the revokeFile function call.
+ */
+export type RevokeFile = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileRevokedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the renewFile function call.
+ */
+export type RenewFile = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileExpiryUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the supersedeFile function call.
+ */
+export type SupersedeFile = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileSupersededEvent>[]
+>;
+
+/**
+ * @description Represents the result of the transferRecord function call.
+ */
+export type TransferRecord = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<RecordTransferInitiatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the acceptRecordTransfer function call.
+ */
+export type AcceptRecordTransfer = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<RecordTransferredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the attestFile function call.
+ */
+export type AttestFile = CallResult<
+    {
+        index: bigint;
+    },
+    OPNetEvent<AttestationAddedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getAttestationCount function call.
+ */
+export type GetAttestationCount = CallResult<
+    {
+        count: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getAttestation function call.
+ */
+export type GetAttestation = CallResult<
+    {
+        attester: bigint;
+        statementHash: Uint8Array;
+        blockNumber: bigint;
+        timestamp: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setFileMetadata function call.
+ */
+export type SetFileMetadata = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<MetadataUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getFileMetadata function call.
+ */
+export type GetFileMetadata = CallResult<
+    {
+        value: string;
+        exists: boolean;
+        mutable: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the listMetadataKeys function call.
+ */
+export type ListMetadataKeys = CallResult<
+    {
+        keys: string[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the addFileTags function call.
+ */
+export type AddFileTags = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<TagAddedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getFileTags function call.
+ */
+export type GetFileTags = CallResult<
+    {
+        tags: string[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getTagFileCount function call.
+ */
+export type GetTagFileCount = CallResult<
+    {
+        count: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getTagFileByIndex function call.
+ */
+export type GetTagFileByIndex = CallResult<
+    {
+        cid: string;
+        fileName: string;
+        fileSize: bigint;
+        uploader: bigint;
+        blockNumber: bigint;
+        timestamp: bigint;
+        owner: bigint;
+        validUntil: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getVersionChain function call.
+ */
+export type GetVersionChain = CallResult<
+    {
+        cids: string[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the createCollection function call.
+ */
+export type CreateCollection = CallResult<
+    {
+        collectionId: bigint;
+    },
+    OPNetEvent<CollectionCreatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the addToCollection function call.
+ */
+export type AddToCollection = CallResult<
+    {
+        fileCount: bigint;
+    },
+    OPNetEvent<CollectionFileAddedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getCollection function call.
+ */
+export type GetCollection = CallResult<
+    {
+        exists: boolean;
+        owner: bigint;
+        name: string;
+        description: string;
+        fileCount: bigint;
+        blockNumber: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getTotalCollections function call.
+ */
+export type GetTotalCollections = CallResult<
+    {
+        count: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getCollectionFileByIndex function call.
+ */
+export type GetCollectionFileByIndex = CallResult<
+    {
+        cid: string;
+        fileName: string;
+        fileSize: bigint;
+        uploader: bigint;
+        blockNumber: bigint;
+        timestamp: bigint;
+        owner: bigint;
+        validUntil: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getOwnerCollectionCount function call.
+ */
+export type GetOwnerCollectionCount = CallResult<
+    {
+        count: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getOwnerCollectionByIndex function call.
+ */
+export type GetOwnerCollectionByIndex = CallResult<
+    {
+        collectionId: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the createAgreement function call.
+ */
+export type CreateAgreement = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<AgreementCreatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the signAgreement function call.
+ */
+export type SignAgreement = CallResult<
+    {
+        complete: boolean;
+    },
+    OPNetEvent<AgreementSignedEvent | AgreementCompletedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getAgreementStatus function call.
+ */
+export type GetAgreementStatus = CallResult<
+    {
+        exists: boolean;
+        creator: bigint;
+        deadline: bigint;
+        signers: bigint[];
+        signedBlocks: bigint[];
+        signedTimestamps: bigint[];
+        signedCount: bigint;
+        complete: boolean;
+        expired: boolean;
+        completedAt: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getSignerAgreementCount function call.
+ */
+export type GetSignerAgreementCount = CallResult<
+    {
+        count: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getSignerAgreementByIndex function call.
+ */
+export type GetSignerAgreementByIndex = CallResult<
+    {
+        cid: string;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the flagFile function call.
+ */
+export type FlagFile = CallResult<
+    {
+        flagCount: bigint;
+    },
+    OPNetEvent<FileFlaggedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getFlag function call.
+ */
+export type GetFlag = CallResult<
+    {
+        reasonCode: number;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setHidden function call.
+ */
+export type SetHidden = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FileHiddenEvent>[]
+>;
+
+/**
+ * @description Represents the result of the anchorMerkleRoot function call.
+ */
+export type AnchorMerkleRoot = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<MerkleRootAnchoredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getMerkleRoot function call.
+ */
+export type GetMerkleRoot = CallResult<
+    {
+        leafCount: bigint;
+        label: string;
+        anchorer: bigint;
+        blockNumber: bigint;
+        timestamp: bigint;
+        exists: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the verifyInclusion function call.
+ */
+export type VerifyInclusion = CallResult<
+    {
+        valid: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setFeeConfig function call.
+ */
+export type SetFeeConfig = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FeeConfigUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the withdrawFees function call.
+ */
+export type WithdrawFees = CallResult<
+    {
+        amount: bigint;
+    },
+    OPNetEvent<FeesWithdrawnEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getFeeConfig function call.
+ */
+export type GetFeeConfig = CallResult<
+    {
+        token: Address;
+        registrationFee: bigint;
+        perByteFee: bigint;
+        collectedFees: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setRateLimits function call.
+ */
+export type SetRateLimits = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<RateLimitsUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getQuota function call.
+ */
+export type GetQuota = CallResult<
+    {
+        windowBlocks: bigint;
+        maxPerWindow: bigint;
+        usedInWindow: bigint;
+        remainingInWindow: bigint;
+        windowResetsAt: bigint;
+        lifetimeQuota: bigint;
+        lifetimeUsed: bigint;
+        lifetimeRemaining: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the transferOwnership function call.
+ */
+export type TransferOwnership = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OwnershipTransferStartedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the acceptOwnership function call.
+ */
+export type AcceptOwnership = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OwnershipTransferredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setRole function call.
+ */
+export type SetRole = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<RoleUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getOwner function call.
+ */
+export type GetOwner = CallResult<
+    {
+        owner: Address;
+        pendingOwner: Address;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getRoles function call.
+ */
+export type GetRoles = CallResult<
+    {
+        isOwner: boolean;
+        isPauser: boolean;
+        isFeeManager: boolean;
+        isModerator: boolean;
     },
     OPNetEvent<never>[]
 >;
@@ -76,12 +956,12 @@ export type GetFileByIndex = CallResult<
 /**
  * @description Represents the result of the pause function call.
  */
-export type Pause = CallResult<{}, OPNetEvent<never>[]>;
+export type Pause = CallResult<{}, OPNetEvent<PausedEvent>[]>;
 
 /**
  * @description Represents the result of the unpause function call.
  */
-export type Unpause = CallResult<{}, OPNetEvent<never>[]>;
+export type Unpause = CallResult<{}, OPNetEvent<UnpausedEvent>[]>;
 
 /**
  * @description Represents the result of the getIsPaused function call.
@@ -98,10 +978,104 @@ export type GetIsPaused = CallResult<
 // ------------------------------------------------------------------
 export interface IOPScribe extends IOP_NETContract {
     registerFile(cid: string, fileName: string, fileSize: bigint): Promise<RegisterFile>;
+    registerFileWithHash(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        contentHash: Uint8Array,
+    ): Promise<RegisterFileWithHash>;
+    registerFileWithCertificate(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        contentHash: Uint8Array,
+    ): Promise<RegisterFileWithCertificate>;
+    registerFileWithExpiry(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        contentHash: Uint8Array,
+        validUntil: bigint,
+    ): Promise<RegisterFileWithExpiry>;
+    tokenURI(tokenId: bigint): Promise<TokenURI>;
+    changeMetadata(icon: string, banner: string, description: string, website: string): Promise<ChangeMetadata>;
+    setBaseURI(baseURI: string): Promise<SetBaseURI>;
+    registerFileWithTags(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        tags: string[],
+    ): Promise<RegisterFileWithTags>;
+    registerFileFor(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        uploader: Address,
+        deadline: bigint,
+        signature: Uint8Array,
+    ): Promise<RegisterFileFor>;
+    registrationNonceOf(uploader: Address): Promise<RegistrationNonceOf>;
+    registerFiles(cids: string[], fileNames: string[], fileSizes: bigint[]): Promise<RegisterFiles>;
+    commitRegistration(commitment: Uint8Array, cidKey: Uint8Array): Promise<CommitRegistration>;
+    revealRegistration(cid: string, fileName: string, fileSize: bigint, salt: Uint8Array): Promise<RevealRegistration>;
+    getRegistrationCommitment(committer: Address, commitment: Uint8Array): Promise<GetRegistrationCommitment>;
+    registerSealedFile(commitment: Uint8Array, contentCommitment: Uint8Array): Promise<RegisterSealedFile>;
+    unsealFile(cid: string, fileName: string, salt: Uint8Array): Promise<UnsealFile>;
+    getSealedProof(sealer: Address, commitment: Uint8Array): Promise<GetSealedProof>;
+    getSealedProofByContent(sealer: Address, contentCommitment: Uint8Array): Promise<GetSealedProofByContent>;
     getFile(cid: string): Promise<GetFile>;
+    getFileByContentHash(contentHash: Uint8Array): Promise<GetFileByContentHash>;
     checkFileExists(cid: string): Promise<CheckFileExists>;
+    getIndexOfCid(cid: string): Promise<GetIndexOfCid>;
     getTotalFiles(): Promise<GetTotalFiles>;
     getFileByIndex(index: bigint): Promise<GetFileByIndex>;
+    getFilesRange(start: bigint, count: bigint): Promise<GetFilesRange>;
+    getUploaderFileCount(uploader: Address): Promise<GetUploaderFileCount>;
+    getUploaderFileByIndex(uploader: Address, index: bigint): Promise<GetUploaderFileByIndex>;
+    revokeFile(cid: string, reason: string): Promise<RevokeFile>;
+    renewFile(cid: string, newExpiry: bigint): Promise<RenewFile>;
+    supersedeFile(oldCid: string, newCid: string): Promise<SupersedeFile>;
+    transferRecord(cid: string, newOwner: Address): Promise<TransferRecord>;
+    acceptRecordTransfer(cid: string): Promise<AcceptRecordTransfer>;
+    attestFile(cid: string, statementHash: Uint8Array): Promise<AttestFile>;
+    getAttestationCount(cid: string): Promise<GetAttestationCount>;
+    getAttestation(cid: string, index: bigint): Promise<GetAttestation>;
+    setFileMetadata(cid: string, key: string, value: string, mutable: boolean): Promise<SetFileMetadata>;
+    getFileMetadata(cid: string, key: string): Promise<GetFileMetadata>;
+    listMetadataKeys(cid: string): Promise<ListMetadataKeys>;
+    addFileTags(cid: string, tags: string[]): Promise<AddFileTags>;
+    getFileTags(cid: string): Promise<GetFileTags>;
+    getTagFileCount(tag: string): Promise<GetTagFileCount>;
+    getTagFileByIndex(tag: string, index: bigint): Promise<GetTagFileByIndex>;
+    getVersionChain(cid: string): Promise<GetVersionChain>;
+    createCollection(name: string, description: string): Promise<CreateCollection>;
+    addToCollection(collectionId: bigint, cid: string): Promise<AddToCollection>;
+    getCollection(collectionId: bigint): Promise<GetCollection>;
+    getTotalCollections(): Promise<GetTotalCollections>;
+    getCollectionFileByIndex(collectionId: bigint, index: bigint): Promise<GetCollectionFileByIndex>;
+    getOwnerCollectionCount(owner: Address): Promise<GetOwnerCollectionCount>;
+    getOwnerCollectionByIndex(owner: Address, index: bigint): Promise<GetOwnerCollectionByIndex>;
+    createAgreement(cid: string, requiredSigners: Address[], deadline: bigint): Promise<CreateAgreement>;
+    signAgreement(cid: string): Promise<SignAgreement>;
+    getAgreementStatus(cid: string): Promise<GetAgreementStatus>;
+    getSignerAgreementCount(signer: Address): Promise<GetSignerAgreementCount>;
+    getSignerAgreementByIndex(signer: Address, index: bigint): Promise<GetSignerAgreementByIndex>;
+    flagFile(cid: string, reasonCode: number): Promise<FlagFile>;
+    getFlag(cid: string, flagger: Address): Promise<GetFlag>;
+    setHidden(cid: string, hidden: boolean): Promise<SetHidden>;
+    anchorMerkleRoot(root: Uint8Array, leafCount: bigint, label: string): Promise<AnchorMerkleRoot>;
+    getMerkleRoot(root: Uint8Array): Promise<GetMerkleRoot>;
+    verifyInclusion(root: Uint8Array, cid: string, proof: Uint8Array[]): Promise<VerifyInclusion>;
+    setFeeConfig(token: Address, registrationFee: bigint, perByteFee: bigint): Promise<SetFeeConfig>;
+    withdrawFees(to: Address): Promise<WithdrawFees>;
+    getFeeConfig(): Promise<GetFeeConfig>;
+    setRateLimits(windowBlocks: bigint, maxPerWindow: bigint, lifetimeQuota: bigint): Promise<SetRateLimits>;
+    getQuota(uploader: Address): Promise<GetQuota>;
+    transferOwnership(newOwner: Address): Promise<TransferOwnership>;
+    acceptOwnership(): Promise<AcceptOwnership>;
+    setRole(role: number, account: Address, enabled: boolean): Promise<SetRole>;
+    getOwner(): Promise<GetOwner>;
+    getRoles(account: Address): Promise<GetRoles>;
     pause(): Promise<Pause>;
     unpause(): Promise<Unpause>;
     getIsPaused(): Promise<GetIsPaused>;
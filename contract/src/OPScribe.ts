@@ -5,44 +5,574 @@ import {
     BytesWriter,
     Calldata,
     NetEvent,
-    OP_NET,
+    OP721,
+    OP721InitParameters,
     Revert,
     SafeMath,
     StoredBoolean,
     StoredU256,
     StoredMapU256,
+    TransferHelper,
     EMPTY_POINTER,
+    MAX_URI_LENGTH,
+    MLDSAMetadata,
+    MLDSAPublicKeyMetadata,
+    MLDSASecurityLevel,
+    ADDRESS_BYTE_LENGTH,
     U256_BYTE_LENGTH,
+    U64_BYTE_LENGTH,
 } from '@btc-vision/btc-runtime/runtime';
+import { cidEquals, decodeCid } from './cid';
 
 // ABIDataTypes is provided as an ambient declaration by the opnet-transform plugin.
 
+/** Maximum number of files accepted by a single registerFiles call. */
+const MAX_BATCH_SIZE: i32 = 50;
+
+/** Maximum number of records returned by a single getFilesRange call. */
+const MAX_RANGE_SIZE: i32 = 50;
+
+/** Maximum number of sibling hashes accepted in a Merkle inclusion proof. */
+const MAX_PROOF_LENGTH: i32 = 64;
+
+/** Domain-separation prefixes for Merkle leaf and interior node hashes. */
+const MERKLE_LEAF_PREFIX: u8 = 0x00;
+const MERKLE_NODE_PREFIX: u8 = 0x01;
+
+/** Record lifecycle states stored in fileStatuses. */
+const STATUS_ACTIVE: u8 = 0;
+const STATUS_REVOKED: u8 = 1;
+const STATUS_SUPERSEDED: u8 = 2;
+
+/** Maximum UTF8 byte length of a revocation reason. */
+const MAX_REASON_LENGTH: i32 = 256;
+
+/** Maximum number of versions returned by getVersionChain. */
+const MAX_VERSION_CHAIN: i32 = 32;
+
+/** Limits for per-file key/value metadata (UTF8 bytes / entries). */
+const MAX_METADATA_KEYS: u32 = 16;
+const MAX_METADATA_KEY_LENGTH: i32 = 32;
+const MAX_METADATA_VALUE_LENGTH: i32 = 256;
+
+/** Metadata entry states stored in metadataFlags. */
+const METADATA_UNSET: u32 = 0;
+const METADATA_LOCKED: u32 = 1;
+const METADATA_MUTABLE: u32 = 2;
+
+/** Limits for tags: entries per file and UTF8 bytes per tag. */
+const MAX_TAGS_PER_FILE: u32 = 8;
+const MAX_TAG_LENGTH: i32 = 32;
+
+/** Limits for collections: UTF8 bytes of name and description, and files per collection. */
+const MAX_COLLECTION_NAME_LENGTH: i32 = 64;
+const MAX_COLLECTION_DESCRIPTION_LENGTH: i32 = 256;
+const MAX_COLLECTION_SIZE: u32 = 256;
+
+/** Most parties an agreement can require signatures from. */
+const MAX_AGREEMENT_SIGNERS: u32 = 16;
+
+/**
+ * Highest flagFile reason code. Codes: 1 spam, 2 illegal content, 3 copyright,
+ * 4 malware, 5 other.
+ */
+const MAX_FLAG_REASON: u8 = 5;
+
+/** Administrative roles granted with setRole. The contract owner implicitly holds all of them. */
+const ROLE_PAUSER: u8 = 1;
+const ROLE_FEE_MANAGER: u8 = 2;
+const ROLE_MODERATOR: u8 = 3;
+
+/** Blocks a registration commitment must wait before reveal, and blocks until it expires. */
+const MIN_REVEAL_DELAY: u64 = 1;
+const COMMITMENT_EXPIRY: u64 = 144;
+
+/** Blocks after a reservation expires before the same committer can reserve that CID again. */
+const RESERVATION_COOLDOWN: u64 = 144;
+
+/**
+ * Type hash for delegated registrations, signed under the OP712 domain separator:
+ * sha256("OPScribeRegisterFile(string cid,string fileName,uint256 fileSize,address uploader,
+ * uint256 nonce,uint64 deadline)"), without the line break.
+ */
+const REGISTER_FILE_TYPE_HASH: u8[] = [
+    0xe3, 0x11, 0xc4, 0x3d, 0xd2, 0x35, 0xc7, 0x4b, 0xff, 0x0f, 0xde, 0x02, 0x36, 0x6c, 0x93, 0xe1,
+    0xad, 0x8e, 0xba, 0x73, 0x9e, 0x6c, 0xed, 0x35, 0x91, 0xd5, 0x6f, 0xd2, 0xe4, 0xe7, 0x36, 0x2a,
+];
+
+/** OP721 collection details for proof certificates. */
+const CERTIFICATE_NAME: string = 'OP_Scribe Certificate';
+const CERTIFICATE_SYMBOL: string = 'SCRIBE';
+const CERTIFICATE_URI_PREFIX: string = 'ipfs://';
+
 /**
- * Event emitted when a new file record is registered on-chain.
+ * Event emitted when a new file record is registered on-chain. Carries enough to
+ * index the record without reading it back; the file name itself is left out to
+ * stay within the event size limit (a 160-character CID makes this 304 bytes).
  */
 @final
 export class FileRegisteredEvent extends NetEvent {
     constructor(
+        cid: string,
+        cidKey: u256,
+        index: u256,
+        blockNumber: u64,
+        nameLength: u32,
         fileSize: u256,
         uploader: Address,
     ) {
-        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 32);
+        const data: BytesWriter = new BytesWriter(
+            4 + String.UTF8.byteLength(cid) + U256_BYTE_LENGTH * 2 + 8 + 4 + U256_BYTE_LENGTH + 32,
+        );
+        data.writeStringWithLength(cid);
+        data.writeU256(cidKey);
+        data.writeU256(index);
+        data.writeU64(blockNumber);
+        data.writeU32(nameLength);
         data.writeU256(fileSize);
         data.writeAddress(uploader);
         super('FileRegistered', data);
     }
 }
 
+/**
+ * Event emitted when a pauser pauses the contract.
+ */
+@final
+export class PausedEvent extends NetEvent {
+    constructor(account: Address) {
+        const data: BytesWriter = new BytesWriter(32);
+        data.writeAddress(account);
+        super('Paused', data);
+    }
+}
+
+/**
+ * Event emitted when a pauser unpauses the contract.
+ */
+@final
+export class UnpausedEvent extends NetEvent {
+    constructor(account: Address) {
+        const data: BytesWriter = new BytesWriter(32);
+        data.writeAddress(account);
+        super('Unpaused', data);
+    }
+}
+
+/**
+ * Event emitted when a Merkle root over many CIDs is anchored on-chain.
+ */
+@final
+export class MerkleRootAnchoredEvent extends NetEvent {
+    constructor(
+        root: u256,
+        leafCount: u256,
+        anchorer: Address,
+    ) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2 + 32);
+        data.writeU256(root);
+        data.writeU256(leafCount);
+        data.writeAddress(anchorer);
+        super('MerkleRootAnchored', data);
+    }
+}
+
+/**
+ * Event emitted when a file's expiry is set at registration or renewed
+ * (zero means the proof no longer expires).
+ */
+@final
+export class FileExpiryUpdatedEvent extends NetEvent {
+    constructor(cidKey: u256, validUntil: u256) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2);
+        data.writeU256(cidKey);
+        data.writeU256(validUntil);
+        super('FileExpiryUpdated', data);
+    }
+}
+
+/**
+ * Event emitted when an uploader revokes a file record.
+ */
+@final
+export class FileRevokedEvent extends NetEvent {
+    constructor(
+        cidKey: u256,
+        revoker: Address,
+    ) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 32);
+        data.writeU256(cidKey);
+        data.writeAddress(revoker);
+        super('FileRevoked', data);
+    }
+}
+
+/**
+ * Event emitted when a file record is superseded by a newer version.
+ */
+@final
+export class FileSupersededEvent extends NetEvent {
+    constructor(
+        oldCidKey: u256,
+        newCidKey: u256,
+        uploader: Address,
+    ) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2 + 32);
+        data.writeU256(oldCidKey);
+        data.writeU256(newCidKey);
+        data.writeAddress(uploader);
+        super('FileSuperseded', data);
+    }
+}
+
+/**
+ * Event emitted when the owner of a file record nominates a new owner.
+ */
+@final
+export class RecordTransferInitiatedEvent extends NetEvent {
+    constructor(
+        cidKey: u256,
+        currentOwner: Address,
+        pendingOwner: Address,
+    ) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 32 * 2);
+        data.writeU256(cidKey);
+        data.writeAddress(currentOwner);
+        data.writeAddress(pendingOwner);
+        super('RecordTransferInitiated', data);
+    }
+}
+
+/**
+ * Event emitted when a nominated owner accepts a file record.
+ */
+@final
+export class RecordTransferredEvent extends NetEvent {
+    constructor(
+        cidKey: u256,
+        previousOwner: Address,
+        newOwner: Address,
+    ) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 32 * 2);
+        data.writeU256(cidKey);
+        data.writeAddress(previousOwner);
+        data.writeAddress(newOwner);
+        super('RecordTransferred', data);
+    }
+}
+
+/**
+ * Event emitted when a third party attests to a file record.
+ */
+@final
+export class AttestationAddedEvent extends NetEvent {
+    constructor(cidKey: u256, attester: Address, statementHash: u256, index: u256) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 3 + 32);
+        data.writeU256(cidKey);
+        data.writeAddress(attester);
+        data.writeU256(statementHash);
+        data.writeU256(index);
+        super('AttestationAdded', data);
+    }
+}
+
+/**
+ * Event emitted when a fee manager changes the registration fee configuration.
+ */
+@final
+export class FeeConfigUpdatedEvent extends NetEvent {
+    constructor(token: Address, registrationFee: u256, perByteFee: u256) {
+        const data: BytesWriter = new BytesWriter(32 + U256_BYTE_LENGTH * 2);
+        data.writeAddress(token);
+        data.writeU256(registrationFee);
+        data.writeU256(perByteFee);
+        super('FeeConfigUpdated', data);
+    }
+}
+
+/**
+ * Event emitted when collected registration fees are withdrawn.
+ */
+@final
+export class FeesWithdrawnEvent extends NetEvent {
+    constructor(token: Address, to: Address, amount: u256) {
+        const data: BytesWriter = new BytesWriter(32 * 2 + U256_BYTE_LENGTH);
+        data.writeAddress(token);
+        data.writeAddress(to);
+        data.writeU256(amount);
+        super('FeesWithdrawn', data);
+    }
+}
+
+/**
+ * Event emitted when a metadata entry is written on a file record.
+ */
+@final
+export class MetadataUpdatedEvent extends NetEvent {
+    constructor(cidKey: u256, metadataKey: u256, owner: Address, mutable: boolean) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2 + 32 + 1);
+        data.writeU256(cidKey);
+        data.writeU256(metadataKey);
+        data.writeAddress(owner);
+        data.writeBoolean(mutable);
+        super('MetadataUpdated', data);
+    }
+}
+
+/**
+ * Event emitted when a tag is added to a file record.
+ */
+@final
+export class TagAddedEvent extends NetEvent {
+    constructor(cidKey: u256, tagKey: u256) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2);
+        data.writeU256(cidKey);
+        data.writeU256(tagKey);
+        super('TagAdded', data);
+    }
+}
+
+/**
+ * Event emitted when a registration commitment is recorded.
+ */
+@final
+export class RegistrationCommittedEvent extends NetEvent {
+    constructor(commitment: u256, committer: Address, blockNumber: u64) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 32 + 8);
+        data.writeU256(commitment);
+        data.writeAddress(committer);
+        data.writeU64(blockNumber);
+        super('RegistrationCommitted', data);
+    }
+}
+
+/**
+ * Event emitted when a sealed proof is registered. Only the commitment is published.
+ */
+@final
+export class FileSealedEvent extends NetEvent {
+    constructor(commitment: u256, sealer: Address) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 32);
+        data.writeU256(commitment);
+        data.writeAddress(sealer);
+        super('FileSealed', data);
+    }
+}
+
+/**
+ * Event emitted when the sealer publishes the CID and name behind a sealed proof.
+ */
+@final
+export class FileUnsealedEvent extends NetEvent {
+    constructor(commitment: u256) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        data.writeU256(commitment);
+        super('FileUnsealed', data);
+    }
+}
+
+/**
+ * Event emitted when a collection is created.
+ */
+@final
+export class CollectionCreatedEvent extends NetEvent {
+    constructor(collectionId: u256, owner: Address) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 32);
+        data.writeU256(collectionId);
+        data.writeAddress(owner);
+        super('CollectionCreated', data);
+    }
+}
+
+/**
+ * Event emitted when a file is added to a collection.
+ */
+@final
+export class CollectionFileAddedEvent extends NetEvent {
+    constructor(collectionId: u256, cidKey: u256, memberIndex: u256) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 3);
+        data.writeU256(collectionId);
+        data.writeU256(cidKey);
+        data.writeU256(memberIndex);
+        super('CollectionFileAdded', data);
+    }
+}
+
+/**
+ * Event emitted when a file's owner opens an agreement on it.
+ */
+@final
+export class AgreementCreatedEvent extends NetEvent {
+    constructor(cidKey: u256, creator: Address, signerCount: u32, deadline: u256) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 32 + 4 + U256_BYTE_LENGTH);
+        data.writeU256(cidKey);
+        data.writeAddress(creator);
+        data.writeU32(signerCount);
+        data.writeU256(deadline);
+        super('AgreementCreated', data);
+    }
+}
+
+/**
+ * Event emitted when a required party signs an agreement.
+ */
+@final
+export class AgreementSignedEvent extends NetEvent {
+    constructor(cidKey: u256, signer: Address, signedCount: u32) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 32 + 4);
+        data.writeU256(cidKey);
+        data.writeAddress(signer);
+        data.writeU32(signedCount);
+        super('AgreementSigned', data);
+    }
+}
+
+/**
+ * Event emitted when the last required party signs an agreement.
+ */
+@final
+export class AgreementCompletedEvent extends NetEvent {
+    constructor(cidKey: u256, signerCount: u32) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 4);
+        data.writeU256(cidKey);
+        data.writeU32(signerCount);
+        super('AgreementCompleted', data);
+    }
+}
+
+/**
+ * Event emitted when a user flags a file for moderation.
+ */
+@final
+export class FileFlaggedEvent extends NetEvent {
+    constructor(cidKey: u256, flagger: Address, reasonCode: u8) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 32 + 1);
+        data.writeU256(cidKey);
+        data.writeAddress(flagger);
+        data.writeU8(reasonCode);
+        super('FileFlagged', data);
+    }
+}
+
+/**
+ * Event emitted when a moderator hides or unhides a file.
+ */
+@final
+export class FileHiddenEvent extends NetEvent {
+    constructor(cidKey: u256, hidden: boolean, moderator: Address) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + 1 + 32);
+        data.writeU256(cidKey);
+        data.writeBoolean(hidden);
+        data.writeAddress(moderator);
+        super('FileHidden', data);
+    }
+}
+
+/**
+ * Event emitted when the contract owner changes the registration rate limits.
+ */
+@final
+export class RateLimitsUpdatedEvent extends NetEvent {
+    constructor(windowBlocks: u256, maxPerWindow: u256, lifetimeQuota: u256) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 3);
+        data.writeU256(windowBlocks);
+        data.writeU256(maxPerWindow);
+        data.writeU256(lifetimeQuota);
+        super('RateLimitsUpdated', data);
+    }
+}
+
+/**
+ * Event emitted when the contract owner grants or revokes an administrative role.
+ */
+@final
+export class RoleUpdatedEvent extends NetEvent {
+    constructor(role: u8, account: Address, enabled: boolean) {
+        const data: BytesWriter = new BytesWriter(1 + 32 + 1);
+        data.writeU8(role);
+        data.writeAddress(account);
+        data.writeBoolean(enabled);
+        super('RoleUpdated', data);
+    }
+}
+
+/**
+ * Event emitted when the contract owner nominates a new owner (zero cancels).
+ */
+@final
+export class OwnershipTransferStartedEvent extends NetEvent {
+    constructor(owner: Address, pendingOwner: Address) {
+        const data: BytesWriter = new BytesWriter(32 * 2);
+        data.writeAddress(owner);
+        data.writeAddress(pendingOwner);
+        super('OwnershipTransferStarted', data);
+    }
+}
+
+/**
+ * Event emitted when the nominated owner accepts contract ownership.
+ */
+@final
+export class OwnershipTransferredEvent extends NetEvent {
+    constructor(previousOwner: Address, newOwner: Address) {
+        const data: BytesWriter = new BytesWriter(32 * 2);
+        data.writeAddress(previousOwner);
+        data.writeAddress(newOwner);
+        super('OwnershipTransferred', data);
+    }
+}
+
 /**
  * OP_Scribe -- On-chain proof of file existence contract.
  *
- * Stores file records keyed by a deterministic hash of the IPFS CID.
- * Each record contains: fileName, fileSize, uploader address, block number, timestamp.
+ * Stores file records keyed by the SHA-256 hash of the IPFS CID's canonical CIDv1
+ * bytes (see cid.ts), so a CIDv0 and its CIDv1 form name the same record and
+ * malformed CIDs are rejected. Each record contains: fileName, fileSize, uploader
+ * address, block number, timestamp. The CID is stored as submitted alongside each
+ * key so lookups can reject hash collisions.
  *
  * The contract does NOT hold BTC. Users sign the registerFile transaction
- * via OPWallet and pay their own fees.
+ * via OPWallet and pay their own fees. When a fee manager configures a fee token,
+ * registrations also pull an OP20 fee that a fee manager can withdraw.
+ *
+ * Administration is role-based. The contract owner (the deployer at first) can
+ * hand ownership to another address in two steps (transferOwnership, then
+ * acceptOwnership) and grants the pauser, fee manager and moderator roles with
+ * setRole. The owner implicitly holds every role. The inherited OP721 changeMetadata
+ * and setBaseURI are overridden so they follow the owner instead of the deployer.
+ *
+ * The owner can throttle registrations per uploader: at most maxPerWindow
+ * records per fixed window of windowBlocks blocks, and optionally a lifetime
+ * quota. A limit of zero is disabled.
+ *
+ * A record can carry a validUntil block (registerFileWithExpiry). After that block
+ * the proof is reported as expired but stays readable; the owner can push the
+ * expiry back with renewFile.
+ *
+ * Collections group files under a name and description. Anyone can create one;
+ * only its creator can add files, and only files the creator currently owns.
+ *
+ * A file's owner can open an agreement on it (createAgreement) that lists the
+ * addresses whose signatures are required and a deadline block. Each listed
+ * party signs once with signAgreement; the agreement is complete when all have
+ * signed, and expired if the deadline passes first.
+ *
+ * Anyone can flag a file once. Moderators can hide a file:
+ * enumeration views then return it with an empty cid and fileName, while
+ * getFile still returns the full record so the proof is never destroyed.
+ *
+ * Sealed proofs store only sha256(UTF8(cid) || sealer || salt) (and optionally
+ * sha256(contentHash || sealer || salt)) with the sealer, block and timestamp; the
+ * sealer may later publish the CID and name with unsealFile. Both commitments bind
+ * the sealer and proofs are stored per sealer, so copying a pending registerSealedFile
+ * neither claims the proof nor blocks it.
  *
- * Storage layout (pointers are auto-allocated via Blockchain.nextPointer):
+ * The contract is also an OP721 collection: registerFileWithCertificate mints a
+ * certificate whose token id is the file index and whose URI is ipfs://<cid>.
+ * Certificates are collectibles; record ownership is managed by transferRecord.
+ *
+ * Storage layout (pointers are auto-allocated via Blockchain.nextPointer, after the
+ * pointers of the OP721 base class; numbers below are OPScribe's own, in order):
  *  0: paused (bool)
  *  1: totalFiles (u256)
  *  2: fileSizes (cidHash -> u256)
@@ -52,9 +582,89 @@ export class FileRegisteredEvent extends NetEvent {
  *  6: fileExists (cidHash -> u256 0 or 1)
  *  7: fileNameChunks (cidHash * 256 + slot -> u256 chunk)
  *  8: cidChunks (index * 256 + slot -> u256 chunk)
+ *  9: fileCidChunks (cidHash + slot -> u256 chunk)
+ * 10: uploaderFileCounts (u256-encoded address -> u256 count)
+ * 11: uploaderFileIndexes (hash(address, ordinal) -> u256 file index)
+ * 12: merkleLeafCounts (root -> u256 leaf count, non-zero when anchored)
+ * 13: merkleAnchorers (root -> u256-encoded address)
+ * 14: merkleBlocks (root -> u256 block number)
+ * 15: merkleTimestamps (root -> u256 timestamp)
+ * 16: merkleLabelChunks (root + slot -> u256 chunk)
+ * 17: fileContentHashes (cidHash -> u256 sha256 of raw file bytes)
+ * 18: contentHashCidChunks (contentHash + slot -> u256 chunk)
+ * 19: fileStatuses (cidHash -> u256 STATUS_ACTIVE / STATUS_REVOKED / STATUS_SUPERSEDED)
+ * 20: revocationReasonChunks (cidHash + slot -> u256 chunk)
+ * 21: successorChunks (cidHash + slot -> u256 chunk of successor CID)
+ * 22: predecessorChunks (cidHash + slot -> u256 chunk of predecessor CID)
+ * 23: fileOwners (cidHash -> u256-encoded current owner; fileUploaders keeps the registrant)
+ * 24: pendingOwners (cidHash -> u256-encoded nominated owner, zero if none)
+ * 25: attestationCounts (cidHash -> u256 count)
+ * 26: attestationAttesters (hash(cidHash, ordinal) -> u256-encoded attester)
+ * 27: attestationStatements (hash(cidHash, ordinal) -> u256 statement hash)
+ * 28: attestationBlocks (hash(cidHash, ordinal) -> u256 block number)
+ * 29: attestationTimestamps (hash(cidHash, ordinal) -> u256 timestamp)
+ * 30: feeToken (u256-encoded OP20 address, zero when fees are disabled)
+ * 31: registrationFee (u256 flat fee per registration)
+ * 32: perByteFee (u256 fee per declared byte)
+ * 33: collectedFees (u256 fees held for withdrawal)
+ * 34: fileIndexes (cidHash -> u256 file index, also the certificate token id)
+ * 35: metadataValueChunks (hash(cidHash, key) + slot -> u256 chunk of value)
+ * 36: metadataFlags (hash(cidHash, key) -> METADATA_UNSET / LOCKED / MUTABLE)
+ * 37: metadataKeyCounts (cidHash -> u256 number of keys)
+ * 38: metadataKeyChunks (hash(cidHash, ordinal) + slot -> u256 chunk of key)
+ * 39: tagFileCounts (tagHash -> u256 number of files with the tag)
+ * 40: tagFileIndexes (hash(tagHash, ordinal) -> u256 file index)
+ * 41: fileTagFlags (hash(cidHash, tagHash) -> u256 0 or 1)
+ * 42: fileTagCounts (cidHash -> u256 number of tags on the file)
+ * 43: fileTagChunks (hash(cidHash, ordinal) + slot -> u256 chunk of tag)
+ * 44: registrationCommitments (hash(address, commitment) -> u256 commit block, zero if none)
+ * 45: sealedSealers (hash(sealer, commitment) -> u256-encoded sealer, non-zero when sealed)
+ * 46: sealedBlocks (hash(sealer, commitment) -> u256 block number)
+ * 47: sealedTimestamps (hash(sealer, commitment) -> u256 timestamp)
+ * 48: sealedContentIndex (hash(sealer, content commitment) -> u256 sealed commitment)
+ * 49: sealedCidChunks (hash(sealer, commitment) + slot -> u256 chunk, set on unseal)
+ * 50: sealedNameChunks (hash(sealer, commitment) + slot -> u256 chunk, set on unseal)
+ * 51: registrationNonces (u256-encoded uploader -> u256 next registerFileFor nonce)
+ * 52: fileHidden (cidHash -> u256 0 or 1)
+ * 53: fileFlagCounts (cidHash -> u256 number of flags)
+ * 54: fileFlags (hash(cidHash, flagger) -> u256 reason code, zero if not flagged)
+ * 55: moderators (u256-encoded address -> u256 0 or 1)
+ * 56: totalCollections (u256 counter; collection ids start at 1)
+ * 57: collectionOwners (collectionId -> u256-encoded creator)
+ * 58: collectionBlocks (collectionId -> u256 block number)
+ * 59: collectionNameChunks (collectionId * 256 + slot -> u256 chunk)
+ * 60: collectionDescriptionChunks (collectionId * 256 + slot -> u256 chunk)
+ * 61: collectionFileCounts (collectionId -> u256 number of files)
+ * 62: collectionFileIndexes (hash(collectionId, ordinal) -> u256 file index)
+ * 63: collectionFileFlags (hash(collectionId, cidHash) -> u256 0 or 1)
+ * 64: ownerCollectionCounts (u256-encoded creator -> u256 number of collections)
+ * 65: ownerCollectionIds (hash(creator, ordinal) -> u256 collectionId)
+ * 66: contractOwner (u256-encoded address)
+ * 67: pendingContractOwner (u256-encoded nominated owner, zero if none)
+ * 68: pausers (u256-encoded address -> u256 0 or 1)
+ * 69: feeManagers (u256-encoded address -> u256 0 or 1)
+ * 70: rateLimitWindow (u256 window length in blocks, zero when disabled)
+ * 71: rateLimitMax (u256 registrations per window, zero when disabled)
+ * 72: lifetimeQuota (u256 registrations per uploader, zero when unlimited)
+ * 73: windowRegistrationCounts (hash(uploader, window number) -> u256 count)
+ * 74: fileExpiries (cidHash -> u256 last valid block, zero if the proof never expires)
+ * 75: agreementCreators (cidHash -> u256-encoded creator, non-zero when an agreement exists)
+ * 76: agreementDeadlines (cidHash -> u256 last block signatures are accepted in)
+ * 77: agreementSignerCounts (cidHash -> u256 number of required signers)
+ * 78: agreementSigners (hash(cidHash, ordinal) -> u256-encoded signer)
+ * 79: agreementSignerFlags (hash(cidHash, signer) -> u256 0 or 1)
+ * 80: agreementSignedBlocks (hash(cidHash, signer) -> u256 block number, zero until signed)
+ * 81: agreementSignedTimestamps (hash(cidHash, signer) -> u256 timestamp)
+ * 82: agreementSignedCounts (cidHash -> u256 number of signatures so far)
+ * 83: agreementCompletedBlocks (cidHash -> u256 block of the last signature, zero until complete)
+ * 84: signerAgreementCounts (u256-encoded signer -> u256 number of agreements)
+ * 85: signerAgreementIndexes (hash(signer, ordinal) -> u256 file index)
+ * 86: cidReservations (cidHash -> u256 last block of the latest reservation of the CID)
+ * 87: sealedProofCounts (u256-encoded sealer -> u256 number of sealed proofs)
+ * 88: committerReservations (hash(address, cidHash) -> u256 block the address last reserved it)
  */
 @final
-export class OPScribe extends OP_NET {
+export class OPScribe extends OP721 {
     /** Storage pointers -- allocated sequentially at class level. */
     private readonly pausedPointer: u16 = Blockchain.nextPointer;
     private readonly totalFilesPointer: u16 = Blockchain.nextPointer;
@@ -65,6 +675,86 @@ export class OPScribe extends OP_NET {
     private readonly fileExistsPointer: u16 = Blockchain.nextPointer;
     private readonly fileNameChunksPointer: u16 = Blockchain.nextPointer;
     private readonly cidChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly fileCidChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly uploaderFileCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly uploaderFileIndexesPointer: u16 = Blockchain.nextPointer;
+    private readonly merkleLeafCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly merkleAnchorersPointer: u16 = Blockchain.nextPointer;
+    private readonly merkleBlocksPointer: u16 = Blockchain.nextPointer;
+    private readonly merkleTimestampsPointer: u16 = Blockchain.nextPointer;
+    private readonly merkleLabelChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly fileContentHashesPointer: u16 = Blockchain.nextPointer;
+    private readonly contentHashCidChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly fileStatusesPointer: u16 = Blockchain.nextPointer;
+    private readonly revocationReasonChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly successorChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly predecessorChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly fileOwnersPointer: u16 = Blockchain.nextPointer;
+    private readonly pendingOwnersPointer: u16 = Blockchain.nextPointer;
+    private readonly attestationCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly attestationAttestersPointer: u16 = Blockchain.nextPointer;
+    private readonly attestationStatementsPointer: u16 = Blockchain.nextPointer;
+    private readonly attestationBlocksPointer: u16 = Blockchain.nextPointer;
+    private readonly attestationTimestampsPointer: u16 = Blockchain.nextPointer;
+    private readonly feeTokenPointer: u16 = Blockchain.nextPointer;
+    private readonly registrationFeePointer: u16 = Blockchain.nextPointer;
+    private readonly perByteFeePointer: u16 = Blockchain.nextPointer;
+    private readonly collectedFeesPointer: u16 = Blockchain.nextPointer;
+    private readonly fileIndexesPointer: u16 = Blockchain.nextPointer;
+    private readonly metadataValueChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly metadataFlagsPointer: u16 = Blockchain.nextPointer;
+    private readonly metadataKeyCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly metadataKeyChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly tagFileCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly tagFileIndexesPointer: u16 = Blockchain.nextPointer;
+    private readonly fileTagFlagsPointer: u16 = Blockchain.nextPointer;
+    private readonly fileTagCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly fileTagChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly registrationCommitmentsPointer: u16 = Blockchain.nextPointer;
+    private readonly sealedSealersPointer: u16 = Blockchain.nextPointer;
+    private readonly sealedBlocksPointer: u16 = Blockchain.nextPointer;
+    private readonly sealedTimestampsPointer: u16 = Blockchain.nextPointer;
+    private readonly sealedContentIndexPointer: u16 = Blockchain.nextPointer;
+    private readonly sealedCidChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly sealedNameChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly registrationNoncesPointer: u16 = Blockchain.nextPointer;
+    private readonly fileHiddenPointer: u16 = Blockchain.nextPointer;
+    private readonly fileFlagCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly fileFlagsPointer: u16 = Blockchain.nextPointer;
+    private readonly moderatorsPointer: u16 = Blockchain.nextPointer;
+    private readonly totalCollectionsPointer: u16 = Blockchain.nextPointer;
+    private readonly collectionOwnersPointer: u16 = Blockchain.nextPointer;
+    private readonly collectionBlocksPointer: u16 = Blockchain.nextPointer;
+    private readonly collectionNameChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly collectionDescriptionChunksPointer: u16 = Blockchain.nextPointer;
+    private readonly collectionFileCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly collectionFileIndexesPointer: u16 = Blockchain.nextPointer;
+    private readonly collectionFileFlagsPointer: u16 = Blockchain.nextPointer;
+    private readonly ownerCollectionCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly ownerCollectionIdsPointer: u16 = Blockchain.nextPointer;
+    private readonly contractOwnerPointer: u16 = Blockchain.nextPointer;
+    private readonly pendingContractOwnerPointer: u16 = Blockchain.nextPointer;
+    private readonly pausersPointer: u16 = Blockchain.nextPointer;
+    private readonly feeManagersPointer: u16 = Blockchain.nextPointer;
+    private readonly rateLimitWindowPointer: u16 = Blockchain.nextPointer;
+    private readonly rateLimitMaxPointer: u16 = Blockchain.nextPointer;
+    private readonly lifetimeQuotaPointer: u16 = Blockchain.nextPointer;
+    private readonly windowRegistrationCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly fileExpiriesPointer: u16 = Blockchain.nextPointer;
+    private readonly agreementCreatorsPointer: u16 = Blockchain.nextPointer;
+    private readonly agreementDeadlinesPointer: u16 = Blockchain.nextPointer;
+    private readonly agreementSignerCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly agreementSignersPointer: u16 = Blockchain.nextPointer;
+    private readonly agreementSignerFlagsPointer: u16 = Blockchain.nextPointer;
+    private readonly agreementSignedBlocksPointer: u16 = Blockchain.nextPointer;
+    private readonly agreementSignedTimestampsPointer: u16 = Blockchain.nextPointer;
+    private readonly agreementSignedCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly agreementCompletedBlocksPointer: u16 = Blockchain.nextPointer;
+    private readonly signerAgreementCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly signerAgreementIndexesPointer: u16 = Blockchain.nextPointer;
+    private readonly cidReservationsPointer: u16 = Blockchain.nextPointer;
+    private readonly sealedProofCountsPointer: u16 = Blockchain.nextPointer;
+    private readonly committerReservationsPointer: u16 = Blockchain.nextPointer;
 
     /** Storage instances -- initialized inline (AssemblyScript requirement). */
     private readonly paused: StoredBoolean = new StoredBoolean(this.pausedPointer, false);
@@ -85,67 +775,441 @@ export class OPScribe extends OP_NET {
         this.fileNameChunksPointer,
     );
     private readonly cidChunks: StoredMapU256 = new StoredMapU256(this.cidChunksPointer);
-
-    public constructor() {
-        super();
-    }
-
-    /**
-     * One-time initialization on first deployment.
-     */
-    public override onDeployment(_calldata: Calldata): void {
-        this.totalFiles.value = u256.Zero;
-    }
-
-    /**
-     * Ensures the contract is not paused.
-     *
-     * @throws {Revert} If the contract is paused.
-     */
-    private ensureNotPaused(): void {
-        if (this.paused.value) {
-            throw new Revert('Contract paused');
-        }
-    }
-
-    /**
-     * Converts a CID string to a deterministic u256 storage key.
-     * Uses a simple hash mixing to produce a collision-resistant key.
-     *
-     * @param cid - The IPFS Content Identifier string.
-     * @returns A deterministic u256 key derived from the CID.
-     */
-    private cidToKey(cid: string): u256 {
-        // Encode the CID string to UTF8 bytes
-        const cidBuffer: ArrayBuffer = String.UTF8.encode(cid);
-        const cidBytes: Uint8Array = Uint8Array.wrap(cidBuffer);
-        const len: i32 = cidBytes.length;
-
-        // Simple deterministic mixing: two 64-bit accumulators
-        let hi: u64 = 0xcbf29ce484222325; // FNV offset basis
-        let lo: u64 = 0x100000001b3; // FNV prime
-        for (let i: i32 = 0; i < len; i++) {
-            const b: u64 = <u64>unchecked(cidBytes[i]);
-            hi = (hi ^ b) * 0x100000001b3;
-            lo = (lo ^ (b + <u64>i)) * 0xcbf29ce484222325;
-        }
-
-        // Build u256 from the two u64 values
-        return new u256(lo, hi, ~hi, ~lo);
-    }
-
-    /**
-     * Stores a UTF8 string into chunked u256 slots in a StoredMapU256.
-     * Slot 0 (baseKey) holds the byte length, subsequent slots hold 32-byte chunks.
-     *
-     * @param map - The storage map to write into.
-     * @param baseKey - The base key for slot 0 (length).
-     * @param value - The string to store.
-     */
-    private storeString(map: StoredMapU256, baseKey: u256, value: string): void {
-        const buf: ArrayBuffer = String.UTF8.encode(value);
-        const bytes: Uint8Array = Uint8Array.wrap(buf);
-        const totalLen: u32 = <u32>bytes.length;
+    private readonly fileCidChunks: StoredMapU256 = new StoredMapU256(
+        this.fileCidChunksPointer,
+    );
+    private readonly uploaderFileCounts: StoredMapU256 = new StoredMapU256(
+        this.uploaderFileCountsPointer,
+    );
+    private readonly uploaderFileIndexes: StoredMapU256 = new StoredMapU256(
+        this.uploaderFileIndexesPointer,
+    );
+    private readonly merkleLeafCounts: StoredMapU256 = new StoredMapU256(
+        this.merkleLeafCountsPointer,
+    );
+    private readonly merkleAnchorers: StoredMapU256 = new StoredMapU256(
+        this.merkleAnchorersPointer,
+    );
+    private readonly merkleBlocks: StoredMapU256 = new StoredMapU256(this.merkleBlocksPointer);
+    private readonly merkleTimestamps: StoredMapU256 = new StoredMapU256(
+        this.merkleTimestampsPointer,
+    );
+    private readonly merkleLabelChunks: StoredMapU256 = new StoredMapU256(
+        this.merkleLabelChunksPointer,
+    );
+    private readonly fileContentHashes: StoredMapU256 = new StoredMapU256(
+        this.fileContentHashesPointer,
+    );
+    private readonly contentHashCidChunks: StoredMapU256 = new StoredMapU256(
+        this.contentHashCidChunksPointer,
+    );
+    private readonly fileStatuses: StoredMapU256 = new StoredMapU256(this.fileStatusesPointer);
+    private readonly revocationReasonChunks: StoredMapU256 = new StoredMapU256(
+        this.revocationReasonChunksPointer,
+    );
+    private readonly successorChunks: StoredMapU256 = new StoredMapU256(
+        this.successorChunksPointer,
+    );
+    private readonly predecessorChunks: StoredMapU256 = new StoredMapU256(
+        this.predecessorChunksPointer,
+    );
+    private readonly fileOwners: StoredMapU256 = new StoredMapU256(this.fileOwnersPointer);
+    private readonly pendingOwners: StoredMapU256 = new StoredMapU256(
+        this.pendingOwnersPointer,
+    );
+    private readonly attestationCounts: StoredMapU256 = new StoredMapU256(
+        this.attestationCountsPointer,
+    );
+    private readonly attestationAttesters: StoredMapU256 = new StoredMapU256(
+        this.attestationAttestersPointer,
+    );
+    private readonly attestationStatements: StoredMapU256 = new StoredMapU256(
+        this.attestationStatementsPointer,
+    );
+    private readonly attestationBlocks: StoredMapU256 = new StoredMapU256(
+        this.attestationBlocksPointer,
+    );
+    private readonly attestationTimestamps: StoredMapU256 = new StoredMapU256(
+        this.attestationTimestampsPointer,
+    );
+    private readonly feeToken: StoredU256 = new StoredU256(this.feeTokenPointer, EMPTY_POINTER);
+    private readonly registrationFee: StoredU256 = new StoredU256(
+        this.registrationFeePointer,
+        EMPTY_POINTER,
+    );
+    private readonly perByteFee: StoredU256 = new StoredU256(
+        this.perByteFeePointer,
+        EMPTY_POINTER,
+    );
+    private readonly collectedFees: StoredU256 = new StoredU256(
+        this.collectedFeesPointer,
+        EMPTY_POINTER,
+    );
+    private readonly fileIndexes: StoredMapU256 = new StoredMapU256(this.fileIndexesPointer);
+    private readonly metadataValueChunks: StoredMapU256 = new StoredMapU256(
+        this.metadataValueChunksPointer,
+    );
+    private readonly metadataFlags: StoredMapU256 = new StoredMapU256(this.metadataFlagsPointer);
+    private readonly metadataKeyCounts: StoredMapU256 = new StoredMapU256(
+        this.metadataKeyCountsPointer,
+    );
+    private readonly metadataKeyChunks: StoredMapU256 = new StoredMapU256(
+        this.metadataKeyChunksPointer,
+    );
+    private readonly tagFileCounts: StoredMapU256 = new StoredMapU256(this.tagFileCountsPointer);
+    private readonly tagFileIndexes: StoredMapU256 = new StoredMapU256(
+        this.tagFileIndexesPointer,
+    );
+    private readonly fileTagFlags: StoredMapU256 = new StoredMapU256(this.fileTagFlagsPointer);
+    private readonly fileTagCounts: StoredMapU256 = new StoredMapU256(this.fileTagCountsPointer);
+    private readonly fileTagChunks: StoredMapU256 = new StoredMapU256(this.fileTagChunksPointer);
+    private readonly registrationCommitments: StoredMapU256 = new StoredMapU256(
+        this.registrationCommitmentsPointer,
+    );
+    private readonly sealedSealers: StoredMapU256 = new StoredMapU256(this.sealedSealersPointer);
+    private readonly sealedBlocks: StoredMapU256 = new StoredMapU256(this.sealedBlocksPointer);
+    private readonly sealedTimestamps: StoredMapU256 = new StoredMapU256(
+        this.sealedTimestampsPointer,
+    );
+    private readonly sealedContentIndex: StoredMapU256 = new StoredMapU256(
+        this.sealedContentIndexPointer,
+    );
+    private readonly sealedCidChunks: StoredMapU256 = new StoredMapU256(
+        this.sealedCidChunksPointer,
+    );
+    private readonly sealedNameChunks: StoredMapU256 = new StoredMapU256(
+        this.sealedNameChunksPointer,
+    );
+    private readonly registrationNonces: StoredMapU256 = new StoredMapU256(
+        this.registrationNoncesPointer,
+    );
+    private readonly fileHidden: StoredMapU256 = new StoredMapU256(this.fileHiddenPointer);
+    private readonly fileFlagCounts: StoredMapU256 = new StoredMapU256(
+        this.fileFlagCountsPointer,
+    );
+    private readonly fileFlags: StoredMapU256 = new StoredMapU256(this.fileFlagsPointer);
+    private readonly moderators: StoredMapU256 = new StoredMapU256(this.moderatorsPointer);
+    private readonly totalCollections: StoredU256 = new StoredU256(
+        this.totalCollectionsPointer,
+        EMPTY_POINTER,
+    );
+    private readonly collectionOwners: StoredMapU256 = new StoredMapU256(
+        this.collectionOwnersPointer,
+    );
+    private readonly collectionBlocks: StoredMapU256 = new StoredMapU256(
+        this.collectionBlocksPointer,
+    );
+    private readonly collectionNameChunks: StoredMapU256 = new StoredMapU256(
+        this.collectionNameChunksPointer,
+    );
+    private readonly collectionDescriptionChunks: StoredMapU256 = new StoredMapU256(
+        this.collectionDescriptionChunksPointer,
+    );
+    private readonly collectionFileCounts: StoredMapU256 = new StoredMapU256(
+        this.collectionFileCountsPointer,
+    );
+    private readonly collectionFileIndexes: StoredMapU256 = new StoredMapU256(
+        this.collectionFileIndexesPointer,
+    );
+    private readonly collectionFileFlags: StoredMapU256 = new StoredMapU256(
+        this.collectionFileFlagsPointer,
+    );
+    private readonly ownerCollectionCounts: StoredMapU256 = new StoredMapU256(
+        this.ownerCollectionCountsPointer,
+    );
+    private readonly ownerCollectionIds: StoredMapU256 = new StoredMapU256(
+        this.ownerCollectionIdsPointer,
+    );
+    private readonly contractOwner: StoredU256 = new StoredU256(
+        this.contractOwnerPointer,
+        EMPTY_POINTER,
+    );
+    private readonly pendingContractOwner: StoredU256 = new StoredU256(
+        this.pendingContractOwnerPointer,
+        EMPTY_POINTER,
+    );
+    private readonly pausers: StoredMapU256 = new StoredMapU256(this.pausersPointer);
+    private readonly feeManagers: StoredMapU256 = new StoredMapU256(this.feeManagersPointer);
+    private readonly rateLimitWindow: StoredU256 = new StoredU256(
+        this.rateLimitWindowPointer,
+        EMPTY_POINTER,
+    );
+    private readonly rateLimitMax: StoredU256 = new StoredU256(
+        this.rateLimitMaxPointer,
+        EMPTY_POINTER,
+    );
+    private readonly lifetimeQuota: StoredU256 = new StoredU256(
+        this.lifetimeQuotaPointer,
+        EMPTY_POINTER,
+    );
+    private readonly windowRegistrationCounts: StoredMapU256 = new StoredMapU256(
+        this.windowRegistrationCountsPointer,
+    );
+    private readonly fileExpiries: StoredMapU256 = new StoredMapU256(this.fileExpiriesPointer);
+    private readonly agreementCreators: StoredMapU256 = new StoredMapU256(
+        this.agreementCreatorsPointer,
+    );
+    private readonly agreementDeadlines: StoredMapU256 = new StoredMapU256(
+        this.agreementDeadlinesPointer,
+    );
+    private readonly agreementSignerCounts: StoredMapU256 = new StoredMapU256(
+        this.agreementSignerCountsPointer,
+    );
+    private readonly agreementSigners: StoredMapU256 = new StoredMapU256(
+        this.agreementSignersPointer,
+    );
+    private readonly agreementSignerFlags: StoredMapU256 = new StoredMapU256(
+        this.agreementSignerFlagsPointer,
+    );
+    private readonly agreementSignedBlocks: StoredMapU256 = new StoredMapU256(
+        this.agreementSignedBlocksPointer,
+    );
+    private readonly agreementSignedTimestamps: StoredMapU256 = new StoredMapU256(
+        this.agreementSignedTimestampsPointer,
+    );
+    private readonly agreementSignedCounts: StoredMapU256 = new StoredMapU256(
+        this.agreementSignedCountsPointer,
+    );
+    private readonly agreementCompletedBlocks: StoredMapU256 = new StoredMapU256(
+        this.agreementCompletedBlocksPointer,
+    );
+    private readonly signerAgreementCounts: StoredMapU256 = new StoredMapU256(
+        this.signerAgreementCountsPointer,
+    );
+    private readonly signerAgreementIndexes: StoredMapU256 = new StoredMapU256(
+        this.signerAgreementIndexesPointer,
+    );
+    private readonly cidReservations: StoredMapU256 = new StoredMapU256(
+        this.cidReservationsPointer,
+    );
+    private readonly sealedProofCounts: StoredMapU256 = new StoredMapU256(
+        this.sealedProofCountsPointer,
+    );
+    private readonly committerReservations: StoredMapU256 = new StoredMapU256(
+        this.committerReservationsPointer,
+    );
+
+    public constructor() {
+        super();
+    }
+
+    /**
+     * One-time initialization on first deployment.
+     */
+    public override onDeployment(_calldata: Calldata): void {
+        this.totalFiles.value = u256.Zero;
+        this.contractOwner.value = this.addressToU256(Blockchain.contractDeployer);
+        this.instantiate(
+            new OP721InitParameters(
+                CERTIFICATE_NAME,
+                CERTIFICATE_SYMBOL,
+                CERTIFICATE_URI_PREFIX,
+                u256.Max,
+            ),
+        );
+    }
+
+    /**
+     * Ensures the contract is not paused.
+     *
+     * @throws {Revert} If the contract is paused.
+     */
+    private ensureNotPaused(): void {
+        if (this.paused.value) {
+            throw new Revert('Contract paused');
+        }
+    }
+
+    /**
+     * Converts a CID string to a deterministic u256 storage key.
+     * The key is the SHA-256 digest of the CID's canonical CIDv1 bytes, read
+     * big-endian, so every encoding of the same CID maps to the same key.
+     *
+     * @param cid - The IPFS Content Identifier string.
+     * @returns A deterministic u256 key derived from the CID.
+     * @throws {Revert} If the CID is malformed or unsupported.
+     */
+    private cidToKey(cid: string): u256 {
+        return u256.fromUint8ArrayBE(Blockchain.sha256(decodeCid(cid)));
+    }
+
+    /**
+     * Checks whether a record exists under the given key for this CID in any encoding.
+     * A record stored under the same key for a different CID is treated as absent.
+     *
+     * @param cidKey - The storage key derived from the CID.
+     * @param cid - The IPFS Content Identifier string.
+     * @returns True if a record for this CID is stored under the key.
+     */
+    private recordExists(cidKey: u256, cid: string): boolean {
+        if (!u256.eq(this.fileExists.get(cidKey), u256.One)) {
+            return false;
+        }
+        return cidEquals(this.readString(this.fileCidChunks, cidKey), cid);
+    }
+
+    /**
+     * Ensures a record exists for exactly this CID.
+     *
+     * @param cidKey - The storage key derived from the CID.
+     * @param cid - The IPFS Content Identifier string.
+     * @throws {Revert} If the CID is not registered.
+     */
+    private ensureRecordExists(cidKey: u256, cid: string): void {
+        if (!this.recordExists(cidKey, cid)) {
+            throw new Revert('File not registered');
+        }
+    }
+
+    /**
+     * Ensures the caller is the current owner of a record.
+     *
+     * @param cidKey - The storage key derived from the CID.
+     * @param caller - The address to check.
+     * @throws {Revert} If the caller does not own the record.
+     */
+    private ensureOwner(cidKey: u256, caller: Address): void {
+        if (!u256.eq(this.fileOwners.get(cidKey), this.addressToU256(caller))) {
+            throw new Revert('Caller is not the file owner');
+        }
+    }
+
+    /**
+     * Encodes an address as a big-endian u256 for storage.
+     *
+     * @param address - The 32-byte address.
+     * @returns The address bytes as a u256.
+     */
+    private addressToU256(address: Address): u256 {
+        const addressBytes: u8[] = new Array<u8>(32);
+        for (let i: i32 = 0; i < 32; i++) {
+            unchecked((addressBytes[i] = address[i]));
+        }
+        return u256.fromBytesBE(addressBytes);
+    }
+
+    /**
+     * Decodes a u256-encoded address from storage.
+     *
+     * @param value - The stored u256.
+     * @returns The 32-byte address.
+     */
+    private u256ToAddress(value: u256): Address {
+        return Address.fromUint8Array(value.toUint8Array(true));
+    }
+
+    /**
+     * Derives the storage key for the n-th entry of a per-key list, such as an
+     * uploader's registrations or a file's attestations.
+     *
+     * @param base - The list owner (u256-encoded address or cidKey).
+     * @param ordinal - Zero-based position in the list.
+     * @returns SHA-256 of base || ordinal as a u256 key.
+     */
+    private ordinalKey(base: u256, ordinal: u256): u256 {
+        const writer: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2);
+        writer.writeU256(base);
+        writer.writeU256(ordinal);
+        return u256.fromUint8ArrayBE(Blockchain.sha256(writer.getBuffer()));
+    }
+
+    /**
+     * Derives the index key for a tag.
+     *
+     * @param tag - The tag string.
+     * @returns SHA-256 of UTF8(tag) as a u256 key.
+     */
+    private tagToKey(tag: string): u256 {
+        const tagBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(tag));
+        return u256.fromUint8ArrayBE(Blockchain.sha256(tagBytes));
+    }
+
+    /**
+     * Derives the storage key for one metadata entry of a file.
+     *
+     * @param cidKey - The storage key derived from the CID.
+     * @param key - The metadata key.
+     * @returns SHA-256 of cidKey || UTF8(key) as a u256 key.
+     */
+    private metadataKey(cidKey: u256, key: string): u256 {
+        const keyBytes: ArrayBuffer = String.UTF8.encode(key);
+        const writer: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + keyBytes.byteLength);
+        writer.writeU256(cidKey);
+        writer.writeBytes(Uint8Array.wrap(keyBytes));
+        return u256.fromUint8ArrayBE(Blockchain.sha256(writer.getBuffer()));
+    }
+
+    /**
+     * Hashes a CID into a Merkle leaf: sha256(0x00 || binary CIDv1), so every
+     * encoding of a CID gives the same leaf.
+     *
+     * @param cid - The IPFS Content Identifier string.
+     * @returns The 32-byte leaf hash.
+     * @throws {Revert} If the CID is malformed.
+     */
+    private merkleLeaf(cid: string): Uint8Array {
+        const cidBytes: Uint8Array = decodeCid(cid);
+        const data: Uint8Array = new Uint8Array(cidBytes.length + 1);
+        data[0] = MERKLE_LEAF_PREFIX;
+        data.set(cidBytes, 1);
+        return Blockchain.sha256(data);
+    }
+
+    /**
+     * Hashes two child nodes into their parent: sha256(0x01 || min(a, b) || max(a, b)).
+     * Children are ordered bytewise so proofs need no left/right flags.
+     *
+     * @param a - First 32-byte child hash.
+     * @param b - Second 32-byte child hash.
+     * @returns The 32-byte parent hash.
+     */
+    private merkleNode(a: Uint8Array, b: Uint8Array): Uint8Array {
+        let aFirst: boolean = true;
+        for (let i: i32 = 0; i < 32; i++) {
+            const x: u8 = a[i];
+            const y: u8 = b[i];
+            if (x !== y) {
+                aFirst = x < y;
+                break;
+            }
+        }
+
+        const data: Uint8Array = new Uint8Array(65);
+        data[0] = MERKLE_NODE_PREFIX;
+        data.set(aFirst ? a : b, 1);
+        data.set(aFirst ? b : a, 33);
+        return Blockchain.sha256(data);
+    }
+
+    /**
+     * Returns the height of a Merkle tree with the given number of leaves,
+     * ceil(log2(leafCount)): the most siblings an inclusion proof can have.
+     *
+     * @param leafCount - Number of leaves anchored with the root.
+     * @returns The tree height, at most MAX_PROOF_LENGTH.
+     */
+    private merkleHeight(leafCount: u256): i32 {
+        let height: i32 = 0;
+        let capacity: u256 = u256.One;
+        while (u256.lt(capacity, leafCount) && height < MAX_PROOF_LENGTH) {
+            capacity = SafeMath.mul(capacity, u256.fromU32(2));
+            height++;
+        }
+        return height;
+    }
+
+    /**
+     * Stores a UTF8 string into chunked u256 slots in a StoredMapU256.
+     * Slot 0 (baseKey) holds the byte length, subsequent slots hold 32-byte chunks.
+     *
+     * @param map - The storage map to write into.
+     * @param baseKey - The base key for slot 0 (length).
+     * @param value - The string to store.
+     */
+    private storeString(map: StoredMapU256, baseKey: u256, value: string): void {
+        const buf: ArrayBuffer = String.UTF8.encode(value);
+        const bytes: Uint8Array = Uint8Array.wrap(buf);
+        const totalLen: u32 = <u32>bytes.length;
 
         // Store length in base slot
         map.set(baseKey, u256.fromU32(totalLen));
@@ -166,109 +1230,3192 @@ export class OPScribe extends OP_NET {
     }
 
     /**
-     * Reads a UTF8 string from chunked u256 slots in a StoredMapU256.
+     * Reads a UTF8 string from chunked u256 slots in a StoredMapU256.
+     *
+     * @param map - The storage map to read from.
+     * @param baseKey - The base key for slot 0 (length).
+     * @returns The decoded string.
+     */
+    private readString(map: StoredMapU256, baseKey: u256): string {
+        const lengthVal: u256 = map.get(baseKey);
+        if (u256.eq(lengthVal, u256.Zero)) {
+            return '';
+        }
+
+        const totalLen: i32 = <i32>lengthVal.toU32();
+        const buf: Uint8Array = new Uint8Array(totalLen);
+        const chunks: i32 = (totalLen + 31) / 32;
+
+        for (let i: i32 = 0; i < chunks; i++) {
+            const slotKey: u256 = SafeMath.add(baseKey, u256.fromU32(<u32>(i + 1)));
+            const slotVal: u256 = map.get(slotKey);
+            const slotBytes: Uint8Array = slotVal.toUint8Array(true); // big-endian
+            const start: i32 = i * 32;
+            const end: i32 = start + 32 > totalLen ? totalLen : start + 32;
+            for (let j: i32 = start; j < end; j++) {
+                unchecked((buf[j] = slotBytes[j - start]));
+            }
+        }
+
+        return String.UTF8.decodeUnsafe(changetype<usize>(buf.buffer), totalLen);
+    }
+
+    /**
+     * Registers a new file record on-chain.
+     * Pulls the registration fee via transferFrom when fees are enabled.
+     *
+     * @param calldata - Contains: cid (string), fileName (string), fileSize (uint256).
+     * @emits FileRegistered
+     * @throws {Revert} If contract is paused, inputs invalid, or file already registered.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+    )
+    @emit('FileRegistered')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public registerFile(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const fileName: string = calldata.readStringWithLength();
+        const fileSize: u256 = calldata.readU256();
+
+        const sender: Address = Blockchain.tx.sender;
+        this.registerRecord(cid, fileName, fileSize, u256.Zero, sender);
+        this.collectFee(sender, this.feeFor(fileSize));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Registers a new file record together with the SHA-256 of the raw file bytes,
+     * so the record can later be found from the file itself regardless of CID settings.
+     *
+     * @param calldata - Contains: cid (string), fileName (string), fileSize (uint256),
+     *                   contentHash (bytes32).
+     * @emits FileRegistered
+     * @throws {Revert} If contract is paused, inputs invalid, file or content already registered.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+    )
+    @emit('FileRegistered')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public registerFileWithHash(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const fileName: string = calldata.readStringWithLength();
+        const fileSize: u256 = calldata.readU256();
+        const contentHash: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+
+        if (u256.eq(contentHash, u256.Zero)) {
+            throw new Revert('Content hash cannot be zero');
+        }
+
+        const sender: Address = Blockchain.tx.sender;
+        this.registerRecord(cid, fileName, fileSize, contentHash, sender);
+        this.collectFee(sender, this.feeFor(fileSize));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Registers a new file record and mints an OP721 certificate for it to the caller.
+     * The certificate token id is the file index and its URI is ipfs://<cid>.
+     *
+     * @param calldata - Contains: cid (string), fileName (string), fileSize (uint256),
+     *                   contentHash (bytes32, zero if not provided).
+     * @emits FileRegistered
+     * @throws {Revert} If contract is paused, inputs invalid, file or content already registered.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+    )
+    @emit('FileRegistered')
+    @returns({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    public registerFileWithCertificate(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const fileName: string = calldata.readStringWithLength();
+        const fileSize: u256 = calldata.readU256();
+        const contentHash: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+
+        const sender: Address = Blockchain.tx.sender;
+        const tokenId: u256 = this.registerRecord(cid, fileName, fileSize, contentHash, sender);
+        this._mint(sender, tokenId);
+        this.collectFee(sender, this.feeFor(fileSize));
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(tokenId);
+        return response;
+    }
+
+    /**
+     * Registers a new file record that expires after a given block, e.g. a tender
+     * submission or a temporary license. The proof stays readable after expiry.
+     *
+     * @param calldata - Contains: cid (string), fileName (string), fileSize (uint256),
+     *                   contentHash (bytes32, zero if not provided), validUntil (uint256,
+     *                   last block at which the proof is active).
+     * @emits FileRegistered, FileExpiryUpdated
+     * @throws {Revert} If contract is paused, inputs invalid, file or content already
+     *                  registered, or validUntil is not a future block.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+        { name: 'validUntil', type: ABIDataTypes.UINT256 },
+    )
+    @emit('FileRegistered', 'FileExpiryUpdated')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public registerFileWithExpiry(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const fileName: string = calldata.readStringWithLength();
+        const fileSize: u256 = calldata.readU256();
+        const contentHash: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+        const validUntil: u256 = calldata.readU256();
+
+        this.ensureFutureBlock(validUntil);
+
+        const sender: Address = Blockchain.tx.sender;
+        this.registerRecord(cid, fileName, fileSize, contentHash, sender);
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.fileExpiries.set(cidKey, validUntil);
+        this.emitEvent(new FileExpiryUpdatedEvent(cidKey, validUntil));
+
+        this.collectFee(sender, this.feeFor(fileSize));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Returns the metadata URI of a certificate: ipfs://<cid> of the certified file.
+     *
+     * @param calldata - Contains: tokenId (uint256).
+     * @returns uri (string).
+     * @throws {Revert} If the certificate does not exist.
+     */
+    @method({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'uri', type: ABIDataTypes.STRING })
+    public override tokenURI(calldata: Calldata): BytesWriter {
+        const tokenId: u256 = calldata.readU256();
+        if (!this._exists(tokenId)) {
+            throw new Revert('Token does not exist');
+        }
+
+        const cidBaseKey: u256 = SafeMath.mul(tokenId, u256.fromU32(256));
+        const uri: string = CERTIFICATE_URI_PREFIX + this.readString(this.cidChunks, cidBaseKey);
+
+        const response: BytesWriter = new BytesWriter(4 + String.UTF8.byteLength(uri));
+        response.writeStringWithLength(uri);
+        return response;
+    }
+
+    /**
+     * Updates the certificate collection's icon, banner, description and website.
+     * Replaces the deployer-only OP721 method with a contract owner check.
+     *
+     * @param calldata - Contains: icon, banner, description, website (strings).
+     * @throws {Revert} If the caller is not the contract owner or a field is empty.
+     */
+    @method(
+        { name: 'icon', type: ABIDataTypes.STRING },
+        { name: 'banner', type: ABIDataTypes.STRING },
+        { name: 'description', type: ABIDataTypes.STRING },
+        { name: 'website', type: ABIDataTypes.STRING },
+    )
+    public override changeMetadata(calldata: Calldata): BytesWriter {
+        this.ensureContractOwner(Blockchain.tx.sender);
+
+        const icon: string = calldata.readStringWithLength();
+        const banner: string = calldata.readStringWithLength();
+        const description: string = calldata.readStringWithLength();
+        const website: string = calldata.readStringWithLength();
+
+        if (icon.length === 0) throw new Revert('Icon cannot be empty');
+        if (banner.length === 0) throw new Revert('Banner cannot be empty');
+        if (description.length === 0) throw new Revert('Description cannot be empty');
+        if (website.length === 0) throw new Revert('Website cannot be empty');
+
+        this._icon.value = icon;
+        this._banner.value = banner;
+        this._description.value = description;
+        this._website.value = website;
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Sets the collection's base URI. Certificates keep their ipfs://<cid> URIs
+     * (see tokenURI); this only changes what the collection metadata reports.
+     * Replaces the deployer-only OP721 method with a contract owner check.
+     *
+     * @param calldata - Contains: baseURI (string).
+     * @throws {Revert} If the caller is not the contract owner, or the URI is empty
+     *                  or too long.
+     */
+    @method({ name: 'baseURI', type: ABIDataTypes.STRING })
+    public override setBaseURI(calldata: Calldata): BytesWriter {
+        this.ensureContractOwner(Blockchain.tx.sender);
+
+        const baseURI: string = calldata.readStringWithLength();
+        if (baseURI.length === 0) {
+            throw new Revert('Base URI cannot be empty');
+        }
+        if (<u32>baseURI.length > MAX_URI_LENGTH) {
+            throw new Revert('Base URI exceeds maximum length');
+        }
+
+        this._setBaseURI(baseURI);
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Registers a new file record and tags it in the same transaction.
+     *
+     * @param calldata - Contains: cid (string), fileName (string), fileSize (uint256),
+     *                   tags (string[]).
+     * @emits FileRegistered, TagAdded (once per tag)
+     * @throws {Revert} If contract is paused, inputs or tags invalid, or file already registered.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'tags', type: ABIDataTypes.ARRAY_OF_STRING },
+    )
+    @emit('FileRegistered', 'TagAdded')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public registerFileWithTags(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const fileName: string = calldata.readStringWithLength();
+        const fileSize: u256 = calldata.readU256();
+        const tags: string[] = this.readStringArray(calldata);
+
+        const sender: Address = Blockchain.tx.sender;
+        const index: u256 = this.registerRecord(cid, fileName, fileSize, u256.Zero, sender);
+        this.addTags(this.cidToKey(cid), index, tags);
+        this.collectFee(sender, this.feeFor(fileSize));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Registers a file on behalf of an uploader who signed the request off-chain,
+     * so a relayer can submit and pay for the transaction. The uploader is recorded
+     * as uploader and owner; any registration fee is pulled from the relayer.
+     * The signature covers the OP712 domain separator and the uploader's current
+     * registration nonce, following the OP721 approveBySignature scheme.
+     * It must be an ML-DSA-44 signature checked against the ML-DSA key the uploader
+     * address is derived from, so only the owner of that address can authorize it.
+     *
+     * @param calldata - Contains: cid (string), fileName (string), fileSize (uint256),
+     *                   uploader (address), deadline (uint64, last valid block),
+     *                   signature (bytes).
+     * @emits FileRegistered
+     * @throws {Revert} If paused, the signature is invalid or expired, or inputs are invalid.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'uploader', type: ABIDataTypes.ADDRESS },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @emit('FileRegistered')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public registerFileFor(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const fileName: string = calldata.readStringWithLength();
+        const fileSize: u256 = calldata.readU256();
+        const uploader: Address = calldata.readAddress();
+        const deadline: u64 = calldata.readU64();
+        const signature: Uint8Array = calldata.readBytesWithLength();
+
+        this.verifyRegistrationSignature(cid, fileName, fileSize, uploader, deadline, signature);
+
+        this.registerRecord(cid, fileName, fileSize, u256.Zero, uploader);
+        this.collectFee(Blockchain.tx.sender, this.feeFor(fileSize));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Returns the nonce the uploader's next registerFileFor signature must use.
+     *
+     * @param calldata - Contains: uploader (address).
+     * @returns nonce (uint256).
+     */
+    @method({ name: 'uploader', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'nonce', type: ABIDataTypes.UINT256 })
+    public registrationNonceOf(calldata: Calldata): BytesWriter {
+        const uploader: Address = calldata.readAddress();
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(this.registrationNonces.get(this.addressToU256(uploader)));
+        return response;
+    }
+
+    /**
+     * Verifies a delegated registration signature and consumes the uploader's nonce.
+     *
+     * @param cid - The IPFS Content Identifier string.
+     * @param fileName - The original file name.
+     * @param fileSize - The file size in bytes.
+     * @param uploader - The signing uploader.
+     * @param deadline - Last block at which the signature is valid.
+     * @param signature - The uploader's ML-DSA-44 signature.
+     * @throws {Revert} If the signature has the wrong length, is expired or does not verify.
+     */
+    private verifyRegistrationSignature(
+        cid: string,
+        fileName: string,
+        fileSize: u256,
+        uploader: Address,
+        deadline: u64,
+        signature: Uint8Array,
+    ): void {
+        if (signature.length !== MLDSAMetadata.signatureLen(MLDSAPublicKeyMetadata.MLDSA44)) {
+            throw new Revert('Invalid signature length');
+        }
+        if (Blockchain.block.number > deadline) {
+            throw new Revert('Signature expired');
+        }
+
+        const uploaderKey: u256 = this.addressToU256(uploader);
+        const nonce: u256 = this.registrationNonces.get(uploaderKey);
+
+        const structWriter: BytesWriter = new BytesWriter(
+            32 * 3 + U256_BYTE_LENGTH + ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH + U64_BYTE_LENGTH,
+        );
+        structWriter.writeBytesU8Array(REGISTER_FILE_TYPE_HASH);
+        structWriter.writeBytes(Blockchain.sha256(Uint8Array.wrap(String.UTF8.encode(cid))));
+        structWriter.writeBytes(Blockchain.sha256(Uint8Array.wrap(String.UTF8.encode(fileName))));
+        structWriter.writeU256(fileSize);
+        structWriter.writeAddress(uploader);
+        structWriter.writeU256(nonce);
+        structWriter.writeU64(deadline);
+        const structHash: Uint8Array = Blockchain.sha256(structWriter.getBuffer());
+
+        const messageWriter: BytesWriter = new BytesWriter(2 + 32 + 32);
+        messageWriter.writeU16(0x1901);
+        messageWriter.writeBytes(this._buildDomainSeparator());
+        messageWriter.writeBytes(structHash);
+
+        const messageHash: Uint8Array = Blockchain.sha256(messageWriter.getBuffer());
+        // The address is the hash of its ML-DSA key, which binds the signer to the uploader;
+        // a Schnorr key supplied with the call would not be tied to the address
+        if (
+            !Blockchain.verifyMLDSASignature(
+                MLDSASecurityLevel.Level2,
+                uploader.mldsaPublicKey,
+                signature,
+                messageHash,
+            )
+        ) {
+            throw new Revert('Invalid signature');
+        }
+
+        this.registrationNonces.set(uploaderKey, SafeMath.add(nonce, u256.One));
+    }
+
+    /**
+     * Registers several file records in one transaction.
+     * Each entry is validated like registerFile; any failure reverts the whole batch.
+     * The fees for all entries are pulled in a single transferFrom.
+     *
+     * @param calldata - Contains: cids (string[]), fileNames (string[]), fileSizes (uint256[]).
+     * @emits FileRegistered (once per file)
+     * @throws {Revert} If paused, arrays mismatch or exceed MAX_BATCH_SIZE, or an entry is invalid.
+     */
+    @method(
+        { name: 'cids', type: ABIDataTypes.ARRAY_OF_STRING },
+        { name: 'fileNames', type: ABIDataTypes.ARRAY_OF_STRING },
+        { name: 'fileSizes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    @emit('FileRegistered')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public registerFiles(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cids: string[] = this.readStringArray(calldata);
+        const fileNames: string[] = this.readStringArray(calldata);
+        const fileSizes: u256[] = calldata.readU256Array();
+
+        const count: i32 = cids.length;
+        if (count === 0) {
+            throw new Revert('Batch cannot be empty');
+        }
+        if (count > MAX_BATCH_SIZE) {
+            throw new Revert('Batch too large');
+        }
+        if (fileNames.length !== count || fileSizes.length !== count) {
+            throw new Revert('Batch array length mismatch');
+        }
+
+        const sender: Address = Blockchain.tx.sender;
+        let fee: u256 = u256.Zero;
+        for (let i: i32 = 0; i < count; i++) {
+            const fileSize: u256 = unchecked(fileSizes[i]);
+            this.registerRecord(
+                unchecked(cids[i]),
+                unchecked(fileNames[i]),
+                fileSize,
+                u256.Zero,
+                sender,
+            );
+            fee = SafeMath.add(fee, this.feeFor(fileSize));
+        }
+        this.collectFee(sender, fee);
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Records a commitment to register a CID without revealing it, and reserves the CID
+     * until the commitment expires: only a committer can register it in the meantime, so
+     * copying the CID from the reveal transaction is useless.
+     * The commitment is sha256(UTF8(cid) || sender || salt); it is stored per committer,
+     * so a copied commitment cannot block the original. The CID is reserved by its
+     * storage key, sha256 of the binary CID, which does not disclose the CID to anyone
+     * who does not already know it. Several committers may reserve the same CID; the
+     * first valid reveal registers it, and a reservation never blocks another commit.
+     *
+     * Reserving pulls the flat registration fee and counts against the committer's rate
+     * limit; the reveal pulls the per-byte fee only. A committer cannot reserve the same
+     * CID again until RESERVATION_COOLDOWN blocks after its last reservation expired.
+     *
+     * @param calldata - Contains: commitment (bytes32), cidKey (bytes32).
+     * @emits RegistrationCommitted
+     * @throws {Revert} If contract is paused, the commitment or key is zero, the commitment
+     *                  is still pending, the CID is registered, the sender reserved the
+     *                  CID too recently, or the sender is over its registration limits.
+     */
+    @method(
+        { name: 'commitment', type: ABIDataTypes.BYTES32 },
+        { name: 'cidKey', type: ABIDataTypes.BYTES32 },
+    )
+    @emit('RegistrationCommitted')
+    @returns({ name: 'revealAfter', type: ABIDataTypes.UINT64 })
+    public commitRegistration(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const commitment: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+        const cidKey: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+        if (u256.eq(commitment, u256.Zero)) {
+            throw new Revert('Commitment cannot be zero');
+        }
+        if (u256.eq(cidKey, u256.Zero)) {
+            throw new Revert('CID key cannot be zero');
+        }
+        if (u256.eq(this.fileExists.get(cidKey), u256.One)) {
+            throw new Revert('File already registered');
+        }
+
+        const sender: Address = Blockchain.tx.sender;
+        const committer: u256 = this.addressToU256(sender);
+        const slot: u256 = this.ordinalKey(committer, commitment);
+        const current: u64 = Blockchain.block.number;
+        const existing: u64 = this.registrationCommitments.get(slot).toU64();
+        if (existing !== 0 && current <= existing + COMMITMENT_EXPIRY) {
+            throw new Revert('Commitment already pending');
+        }
+
+        const reservationKey: u256 = this.ordinalKey(committer, cidKey);
+        const lastReserved: u64 = this.committerReservations.get(reservationKey).toU64();
+        if (
+            lastReserved !== 0 &&
+            current <= lastReserved + COMMITMENT_EXPIRY + RESERVATION_COOLDOWN
+        ) {
+            throw new Revert('CID reserved too recently');
+        }
+
+        this.consumeRegistrationAllowance(committer);
+
+        this.registrationCommitments.set(slot, u256.fromU64(current));
+        this.committerReservations.set(reservationKey, u256.fromU64(current));
+        this.cidReservations.set(cidKey, u256.fromU64(current + COMMITMENT_EXPIRY));
+        this.emitEvent(new RegistrationCommittedEvent(commitment, sender, current));
+        this.collectFee(sender, this.feeFor(u256.Zero));
+
+        const response: BytesWriter = new BytesWriter(8);
+        response.writeU64(current + MIN_REVEAL_DELAY);
+        return response;
+    }
+
+    /**
+     * Completes a committed registration by revealing the CID and salt.
+     * Must be called by the committer at least MIN_REVEAL_DELAY blocks after the commit
+     * and at most COMMITMENT_EXPIRY blocks after it. The commitment is consumed; the
+     * flat fee and the rate limit were already charged by commitRegistration.
+     *
+     * @param calldata - Contains: cid (string), fileName (string), fileSize (uint256),
+     *                   salt (bytes32).
+     * @emits FileRegistered
+     * @throws {Revert} If paused, no matching commitment, too early, expired, the commitment
+     *                  reserved a different CID, or inputs invalid.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'salt', type: ABIDataTypes.BYTES32 },
+    )
+    @emit('FileRegistered')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public revealRegistration(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const fileName: string = calldata.readStringWithLength();
+        const fileSize: u256 = calldata.readU256();
+        const salt: Uint8Array = calldata.readBytes(32);
+
+        const sender: Address = Blockchain.tx.sender;
+        const commitment: u256 = this.registrationCommitment(cid, sender, salt);
+        const slot: u256 = this.ordinalKey(this.addressToU256(sender), commitment);
+        const committedAt: u64 = this.registrationCommitments.get(slot).toU64();
+        if (committedAt === 0) {
+            throw new Revert('No matching commitment');
+        }
+
+        const current: u64 = Blockchain.block.number;
+        if (current < committedAt + MIN_REVEAL_DELAY) {
+            throw new Revert('Reveal too early');
+        }
+        if (current > committedAt + COMMITMENT_EXPIRY) {
+            throw new Revert('Commitment expired');
+        }
+
+        // The commitment must have been sent with this CID's key
+        const cidKey: u256 = this.cidToKey(cid);
+        const reservationKey: u256 = this.ordinalKey(this.addressToU256(sender), cidKey);
+        if (this.committerReservations.get(reservationKey).toU64() !== committedAt) {
+            throw new Revert('Commitment does not reserve this CID');
+        }
+
+        this.registrationCommitments.set(slot, u256.Zero);
+        this.registerRecord(cid, fileName, fileSize, u256.Zero, sender, true);
+        this.collectFee(sender, SafeMath.sub(this.feeFor(fileSize), this.feeFor(u256.Zero)));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Returns the reveal window of a pending registration commitment.
+     *
+     * @param calldata - Contains: committer (address), commitment (bytes32).
+     * @returns committedAt, revealAfter, expiresAt (uint64, all zero if there is no commitment).
+     */
+    @method(
+        { name: 'committer', type: ABIDataTypes.ADDRESS },
+        { name: 'commitment', type: ABIDataTypes.BYTES32 },
+    )
+    @returns(
+        { name: 'committedAt', type: ABIDataTypes.UINT64 },
+        { name: 'revealAfter', type: ABIDataTypes.UINT64 },
+        { name: 'expiresAt', type: ABIDataTypes.UINT64 },
+    )
+    public getRegistrationCommitment(calldata: Calldata): BytesWriter {
+        const committer: Address = calldata.readAddress();
+        const commitment: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+
+        const slot: u256 = this.ordinalKey(this.addressToU256(committer), commitment);
+        const committedAt: u64 = this.registrationCommitments.get(slot).toU64();
+
+        const response: BytesWriter = new BytesWriter(8 * 3);
+        response.writeU64(committedAt);
+        response.writeU64(committedAt === 0 ? 0 : committedAt + MIN_REVEAL_DELAY);
+        response.writeU64(committedAt === 0 ? 0 : committedAt + COMMITMENT_EXPIRY);
+        return response;
+    }
+
+    /**
+     * Computes the registration commitment for a CID: sha256(UTF8(cid) || sender || salt).
+     *
+     * @param cid - The IPFS Content Identifier string.
+     * @param sender - The committing address.
+     * @param salt - 32 random bytes chosen by the committer.
+     * @returns The commitment as a u256.
+     */
+    private registrationCommitment(cid: string, sender: Address, salt: Uint8Array): u256 {
+        const cidBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(cid));
+        const writer: BytesWriter = new BytesWriter(cidBytes.length + 32 + 32);
+        writer.writeBytes(cidBytes);
+        writer.writeAddress(sender);
+        writer.writeBytes(salt);
+        return u256.fromUint8ArrayBE(Blockchain.sha256(writer.getBuffer()));
+    }
+
+    /**
+     * Checks whether a CID is reserved by a commitment that has not expired yet.
+     *
+     * @param cidKey - The storage key derived from the CID.
+     * @returns True if the latest reservation of the CID is still within its expiry.
+     */
+    private isReserved(cidKey: u256): boolean {
+        return Blockchain.block.number <= this.cidReservations.get(cidKey).toU64();
+    }
+
+    /**
+     * Registers a sealed proof: only a salted commitment to the CID is stored, so the
+     * existence of the file is not disclosed. Pulls the flat registration fee, if any,
+     * and counts against the sealer's registration limits like a file record.
+     *
+     * @param calldata - Contains: commitment (bytes32, sha256(UTF8(cid) || sender || salt)),
+     *                   contentCommitment (bytes32, sha256(contentHash || sender || salt),
+     *                   or zero).
+     * @emits FileSealed
+     * @throws {Revert} If paused, the commitment is zero, the sender already sealed either
+     *                  commitment, or the sender is over its registration limits.
+     */
+    @method(
+        { name: 'commitment', type: ABIDataTypes.BYTES32 },
+        { name: 'contentCommitment', type: ABIDataTypes.BYTES32 },
+    )
+    @emit('FileSealed')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public registerSealedFile(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const commitment: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+        const contentCommitment: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+
+        if (u256.eq(commitment, u256.Zero)) {
+            throw new Revert('Commitment cannot be zero');
+        }
+
+        // Keyed per sealer: a copy sent by someone else lands under their own key
+        const sender: Address = Blockchain.tx.sender;
+        const sealer: u256 = this.addressToU256(sender);
+        const sealKey: u256 = this.ordinalKey(sealer, commitment);
+        if (!u256.eq(this.sealedSealers.get(sealKey), u256.Zero)) {
+            throw new Revert('Proof already sealed');
+        }
+        if (!u256.eq(contentCommitment, u256.Zero)) {
+            const contentKey: u256 = this.ordinalKey(sealer, contentCommitment);
+            if (!u256.eq(this.sealedContentIndex.get(contentKey), u256.Zero)) {
+                throw new Revert('Content already sealed');
+            }
+            this.sealedContentIndex.set(contentKey, commitment);
+        }
+
+        this.consumeRegistrationAllowance(sealer);
+        this.sealedProofCounts.set(
+            sealer,
+            SafeMath.add(this.sealedProofCounts.get(sealer), u256.One),
+        );
+
+        this.sealedSealers.set(sealKey, sealer);
+        this.sealedBlocks.set(sealKey, u256.fromU64(Blockchain.block.number));
+        this.sealedTimestamps.set(sealKey, u256.fromU64(Blockchain.block.medianTimestamp));
+
+        this.emitEvent(new FileSealedEvent(commitment, sender));
+        this.collectFee(sender, this.feeFor(u256.Zero));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Publishes the CID and file name behind a sealed proof. The original block and
+     * timestamp are kept; the proof does not become a regular file record.
+     *
+     * @param calldata - Contains: cid (string), fileName (string), salt (bytes32).
+     * @emits FileUnsealed
+     * @throws {Revert} If paused, the caller sealed no proof matching the CID and salt, or it is
+     *                  already unsealed.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'salt', type: ABIDataTypes.BYTES32 },
+    )
+    @emit('FileUnsealed')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public unsealFile(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const fileName: string = calldata.readStringWithLength();
+        const salt: Uint8Array = calldata.readBytes(32);
+
+        if (fileName.length === 0) {
+            throw new Revert('File name cannot be empty');
+        }
+
+        // Reject malformed CIDs; the commitment still covers the string as sealed
+        decodeCid(cid);
+
+        // Only the sealer's own commitment is found, so no separate sealer check is needed
+        const sender: Address = Blockchain.tx.sender;
+        const commitment: u256 = this.sealedCommitment(cid, sender, salt);
+        const sealKey: u256 = this.ordinalKey(this.addressToU256(sender), commitment);
+        if (u256.eq(this.sealedSealers.get(sealKey), u256.Zero)) {
+            throw new Revert('Sealed proof not found');
+        }
+        if (!u256.eq(this.sealedCidChunks.get(sealKey), u256.Zero)) {
+            throw new Revert('Proof already unsealed');
+        }
+
+        this.storeString(this.sealedCidChunks, sealKey, cid);
+        this.storeString(this.sealedNameChunks, sealKey, fileName);
+        this.emitEvent(new FileUnsealedEvent(commitment));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Retrieves a sealed proof by its sealer and commitment.
+     *
+     * @param calldata - Contains: sealer (address), commitment (bytes32).
+     * @returns exists, sealer, blockNumber, timestamp, unsealed, cid and fileName
+     *          (cid and fileName are empty until unsealed).
+     */
+    @method(
+        { name: 'sealer', type: ABIDataTypes.ADDRESS },
+        { name: 'commitment', type: ABIDataTypes.BYTES32 },
+    )
+    @returns(
+        { name: 'exists', type: ABIDataTypes.BOOL },
+        { name: 'sealer', type: ABIDataTypes.UINT256 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        { name: 'unsealed', type: ABIDataTypes.BOOL },
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+    )
+    public getSealedProof(calldata: Calldata): BytesWriter {
+        const sealer: u256 = this.addressToU256(calldata.readAddress());
+        const commitment: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+        return this.writeSealedProof(sealer, commitment);
+    }
+
+    /**
+     * Retrieves a sealed proof by its sealer and content commitment,
+     * sha256(contentHash || sealer || salt).
+     *
+     * @param calldata - Contains: sealer (address), contentCommitment (bytes32).
+     * @returns The same fields as getSealedProof.
+     */
+    @method(
+        { name: 'sealer', type: ABIDataTypes.ADDRESS },
+        { name: 'contentCommitment', type: ABIDataTypes.BYTES32 },
+    )
+    @returns(
+        { name: 'exists', type: ABIDataTypes.BOOL },
+        { name: 'sealer', type: ABIDataTypes.UINT256 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        { name: 'unsealed', type: ABIDataTypes.BOOL },
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+    )
+    public getSealedProofByContent(calldata: Calldata): BytesWriter {
+        const sealer: u256 = this.addressToU256(calldata.readAddress());
+        const contentCommitment: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+        const commitment: u256 = this.sealedContentIndex.get(
+            this.ordinalKey(sealer, contentCommitment),
+        );
+        return this.writeSealedProof(sealer, commitment);
+    }
+
+    /**
+     * Serializes a sealed proof for getSealedProof and getSealedProofByContent.
+     *
+     * @param sealer - The u256-encoded sealer.
+     * @param commitment - The sealed commitment; zero or unknown yields exists = false.
+     * @returns The encoded sealed proof.
+     */
+    private writeSealedProof(sealer: u256, commitment: u256): BytesWriter {
+        const sealKey: u256 = this.ordinalKey(sealer, commitment);
+        const exists: boolean =
+            !u256.eq(commitment, u256.Zero) && !u256.eq(this.sealedSealers.get(sealKey), u256.Zero);
+        const cid: string = exists ? this.readString(this.sealedCidChunks, sealKey) : '';
+        const fileName: string = exists ? this.readString(this.sealedNameChunks, sealKey) : '';
+
+        const response: BytesWriter = new BytesWriter(
+            1 +
+                U256_BYTE_LENGTH * 3 +
+                1 +
+                4 +
+                String.UTF8.byteLength(cid) +
+                4 +
+                String.UTF8.byteLength(fileName),
+        );
+        response.writeBoolean(exists);
+        response.writeU256(exists ? sealer : u256.Zero);
+        response.writeU256(exists ? this.sealedBlocks.get(sealKey) : u256.Zero);
+        response.writeU256(exists ? this.sealedTimestamps.get(sealKey) : u256.Zero);
+        response.writeBoolean(cid.length > 0);
+        response.writeStringWithLength(cid);
+        response.writeStringWithLength(fileName);
+        return response;
+    }
+
+    /**
+     * Computes the commitment of a sealed proof: sha256(UTF8(cid) || sealer || salt).
+     *
+     * @param cid - The IPFS Content Identifier string.
+     * @param sealer - The sealer's address.
+     * @param salt - 32 random bytes chosen by the sealer.
+     * @returns The commitment as a u256.
+     */
+    private sealedCommitment(cid: string, sealer: Address, salt: Uint8Array): u256 {
+        const cidBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(cid));
+        const writer: BytesWriter = new BytesWriter(cidBytes.length + 32 + 32);
+        writer.writeBytes(cidBytes);
+        writer.writeAddress(sealer);
+        writer.writeBytes(salt);
+        return u256.fromUint8ArrayBE(Blockchain.sha256(writer.getBuffer()));
+    }
+
+    /**
+     * Reads a u16-length-prefixed array of length-prefixed strings from calldata.
+     *
+     * @param calldata - The calldata reader.
+     * @returns The decoded strings.
+     */
+    private readStringArray(calldata: Calldata): string[] {
+        const length: u16 = calldata.readU16();
+        const values: string[] = new Array<string>(<i32>length);
+        for (let i: i32 = 0; i < <i32>length; i++) {
+            unchecked((values[i] = calldata.readStringWithLength()));
+        }
+        return values;
+    }
+
+    /**
+     * Validates and stores a single file record, then emits FileRegistered.
+     *
+     * @param cid - The IPFS Content Identifier string.
+     * @param fileName - The original file name.
+     * @param fileSize - The file size in bytes.
+     * @param contentHash - SHA-256 of the raw file bytes, or zero if not provided.
+     * @param sender - The address recorded as uploader.
+     * @param revealed - True for revealRegistration, whose commitment holds the reservation
+     *                   and was already counted against the rate limit.
+     * @returns The global index assigned to the record.
+     * @throws {Revert} If inputs are invalid, the file or content is already registered,
+     *                  the CID is reserved by a pending commitment, or the uploader is over
+     *                  its rate limit or lifetime quota.
+     */
+    private registerRecord(
+        cid: string,
+        fileName: string,
+        fileSize: u256,
+        contentHash: u256,
+        sender: Address,
+        revealed: boolean = false,
+    ): u256 {
+        // Validate inputs
+        if (cid.length === 0) {
+            throw new Revert('CID cannot be empty');
+        }
+        if (fileName.length === 0) {
+            throw new Revert('File name cannot be empty');
+        }
+        if (u256.eq(fileSize, u256.Zero)) {
+            throw new Revert('File size cannot be zero');
+        }
+
+        // Derive storage key from CID
+        const cidKey: u256 = this.cidToKey(cid);
+
+        // Check if already registered
+        const existsVal: u256 = this.fileExists.get(cidKey);
+        if (u256.eq(existsVal, u256.One)) {
+            if (!cidEquals(this.readString(this.fileCidChunks, cidKey), cid)) {
+                throw new Revert('CID key collision');
+            }
+            throw new Revert('File already registered');
+        }
+
+        if (revealed) {
+            // Counted by commitRegistration; only the lifetime quota is left to check
+            this.ensureWithinLifetimeQuota(this.addressToU256(sender));
+        } else {
+            if (this.isReserved(cidKey)) {
+                throw new Revert('CID reserved by a pending commitment');
+            }
+            this.consumeRegistrationAllowance(this.addressToU256(sender));
+        }
+
+        // Index by raw content hash when provided
+        if (!u256.eq(contentHash, u256.Zero)) {
+            if (!u256.eq(this.contentHashCidChunks.get(contentHash), u256.Zero)) {
+                throw new Revert('Content already registered');
+            }
+            this.fileContentHashes.set(cidKey, contentHash);
+            this.storeString(this.contentHashCidChunks, contentHash, cid);
+        }
+
+        // Store file metadata
+        this.fileSizes.set(cidKey, fileSize);
+
+        // Store uploader address as u256 (Address is a 32-byte u8 array).
+        // The registrant never changes; the owner can be transferred later.
+        const uploader: u256 = this.addressToU256(sender);
+        this.fileUploaders.set(cidKey, uploader);
+        this.fileOwners.set(cidKey, uploader);
+
+        // Store block number and timestamp
+        this.fileBlocks.set(cidKey, u256.fromU64(Blockchain.block.number));
+        this.fileTimestamps.set(cidKey, u256.fromU64(Blockchain.block.medianTimestamp));
+
+        // Mark as existing
+        this.fileExists.set(cidKey, u256.One);
+
+        // Store file name and full CID in chunked storage
+        this.storeString(this.fileNameChunks, cidKey, fileName);
+        this.storeString(this.fileCidChunks, cidKey, cid);
+
+        // Store CID string by index for enumeration
+        const currentIndex: u256 = this.totalFiles.value;
+        // Use index * 256 to space out chunk slots and avoid collisions
+        const cidBaseKey: u256 = SafeMath.mul(currentIndex, u256.fromU32(256));
+        this.storeString(this.cidChunks, cidBaseKey, cid);
+        this.fileIndexes.set(cidKey, currentIndex);
+
+        // Append to the uploader's own index
+        const uploaderCount: u256 = this.uploaderFileCounts.get(uploader);
+        this.uploaderFileIndexes.set(
+            this.ordinalKey(uploader, uploaderCount),
+            currentIndex,
+        );
+        this.uploaderFileCounts.set(uploader, SafeMath.add(uploaderCount, u256.One));
+
+        // Increment total file count
+        this.totalFiles.value = SafeMath.add(currentIndex, u256.One);
+
+        // Emit event
+        this.emitEvent(
+            new FileRegisteredEvent(
+                cid,
+                cidKey,
+                currentIndex,
+                Blockchain.block.number,
+                <u32>String.UTF8.byteLength(fileName),
+                fileSize,
+                sender,
+            ),
+        );
+
+        return currentIndex;
+    }
+
+    /**
+     * Counts one registration against an uploader's rate limit and lifetime quota.
+     * The lifetime count covers file records and sealed proofs; registerRecord and
+     * registerSealedFile increment it afterwards.
+     *
+     * @param uploader - The u256-encoded uploader address.
+     * @throws {Revert} If the uploader has used up the current window or its quota.
+     */
+    private consumeRegistrationAllowance(uploader: u256): void {
+        this.ensureWithinLifetimeQuota(uploader);
+
+        const maxPerWindow: u256 = this.rateLimitMax.value;
+        if (u256.eq(maxPerWindow, u256.Zero)) {
+            return;
+        }
+
+        const windowKey: u256 = this.ordinalKey(uploader, this.currentWindow());
+        const used: u256 = this.windowRegistrationCounts.get(windowKey);
+        if (u256.ge(used, maxPerWindow)) {
+            throw new Revert('Rate limit exceeded');
+        }
+        this.windowRegistrationCounts.set(windowKey, SafeMath.add(used, u256.One));
+    }
+
+    /**
+     * Checks that an uploader has not used up its lifetime quota.
+     *
+     * @param uploader - The u256-encoded uploader address.
+     * @throws {Revert} If the quota is set and already reached.
+     */
+    private ensureWithinLifetimeQuota(uploader: u256): void {
+        const quota: u256 = this.lifetimeQuota.value;
+        if (!u256.eq(quota, u256.Zero) && u256.ge(this.lifetimeRegistrations(uploader), quota)) {
+            throw new Revert('Lifetime quota exceeded');
+        }
+    }
+
+    /**
+     * Returns how many registrations count against an uploader's lifetime quota:
+     * its file records plus its sealed proofs.
+     *
+     * @param uploader - The u256-encoded uploader address.
+     * @returns The lifetime registration count.
+     */
+    private lifetimeRegistrations(uploader: u256): u256 {
+        return SafeMath.add(
+            this.uploaderFileCounts.get(uploader),
+            this.sealedProofCounts.get(uploader),
+        );
+    }
+
+    /**
+     * Returns the number of the current rate-limit window (block number / window length).
+     * Only meaningful while rate limiting is enabled.
+     *
+     * @returns The window number.
+     */
+    private currentWindow(): u256 {
+        return SafeMath.div(u256.fromU64(Blockchain.block.number), this.rateLimitWindow.value);
+    }
+
+    /**
+     * Computes the fee owed for one registration: flat fee plus per-byte fee.
+     *
+     * @param fileSize - The declared file size in bytes.
+     * @returns The fee in fee-token units, zero when fees are disabled.
+     */
+    private feeFor(fileSize: u256): u256 {
+        if (u256.eq(this.feeToken.value, u256.Zero)) {
+            return u256.Zero;
+        }
+        return SafeMath.add(
+            this.registrationFee.value,
+            SafeMath.mul(this.perByteFee.value, fileSize),
+        );
+    }
+
+    /**
+     * Pulls a fee from the payer into the contract. The payer must have approved
+     * this contract on the fee token beforehand.
+     *
+     * @param payer - The address paying the fee.
+     * @param amount - The fee amount; nothing happens when zero.
+     * @throws {Revert} If the token transfer fails.
+     */
+    private collectFee(payer: Address, amount: u256): void {
+        if (u256.eq(amount, u256.Zero)) {
+            return;
+        }
+
+        this.collectedFees.value = SafeMath.add(this.collectedFees.value, amount);
+        TransferHelper.transferFrom(
+            this.u256ToAddress(this.feeToken.value),
+            payer,
+            Blockchain.contractAddress,
+            amount,
+        );
+    }
+
+    /**
+     * Adds tags to a file and appends the file to each tag's index.
+     * Tags already on the file are skipped.
+     *
+     * @param cidKey - The storage key derived from the CID.
+     * @param index - The file's global index.
+     * @param tags - Tags of 1 to MAX_TAG_LENGTH bytes from [a-z0-9-].
+     * @throws {Revert} If a tag is malformed or the file would exceed MAX_TAGS_PER_FILE.
+     */
+    private addTags(cidKey: u256, index: u256, tags: string[]): void {
+        let tagCount: u256 = this.fileTagCounts.get(cidKey);
+
+        for (let i: i32 = 0; i < tags.length; i++) {
+            const tag: string = unchecked(tags[i]);
+            if (!this.isValidTag(tag)) {
+                throw new Revert('Invalid tag');
+            }
+
+            const tagKey: u256 = this.tagToKey(tag);
+            const flagKey: u256 = this.ordinalKey(cidKey, tagKey);
+            if (u256.eq(this.fileTagFlags.get(flagKey), u256.One)) {
+                continue;
+            }
+            if (tagCount >= u256.fromU32(MAX_TAGS_PER_FILE)) {
+                throw new Revert('Too many tags');
+            }
+
+            this.fileTagFlags.set(flagKey, u256.One);
+            this.storeString(this.fileTagChunks, this.ordinalKey(cidKey, tagCount), tag);
+            tagCount = SafeMath.add(tagCount, u256.One);
+
+            const tagFileCount: u256 = this.tagFileCounts.get(tagKey);
+            this.tagFileIndexes.set(this.ordinalKey(tagKey, tagFileCount), index);
+            this.tagFileCounts.set(tagKey, SafeMath.add(tagFileCount, u256.One));
+
+            this.emitEvent(new TagAddedEvent(cidKey, tagKey));
+        }
+
+        this.fileTagCounts.set(cidKey, tagCount);
+    }
+
+    /**
+     * Checks that a tag is 1 to MAX_TAG_LENGTH characters from [a-z0-9-], so the
+     * same category always maps to the same index.
+     *
+     * @param tag - The tag to check.
+     * @returns Whether the tag is well-formed.
+     */
+    private isValidTag(tag: string): boolean {
+        if (tag.length === 0 || tag.length > MAX_TAG_LENGTH) {
+            return false;
+        }
+        for (let i: i32 = 0; i < tag.length; i++) {
+            const c: i32 = tag.charCodeAt(i);
+            const isLower: boolean = c >= 0x61 && c <= 0x7a;
+            const isDigit: boolean = c >= 0x30 && c <= 0x39;
+            if (!isLower && !isDigit && c !== 0x2d) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Retrieves a file record by its IPFS CID.
+     *
+     * @param calldata - Contains: cid (string).
+     * @returns fileName, fileSize, uploader, blockNumber, timestamp, exists, followed by
+     *          content hash, lifecycle, ownership, certificate, moderation and expiry fields.
+     */
+    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @returns(
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'uploader', type: ABIDataTypes.UINT256 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        { name: 'exists', type: ABIDataTypes.BOOL },
+        { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+        { name: 'status', type: ABIDataTypes.UINT8 },
+        { name: 'successor', type: ABIDataTypes.STRING },
+        { name: 'revocationReason', type: ABIDataTypes.STRING },
+        { name: 'owner', type: ABIDataTypes.UINT256 },
+        { name: 'pendingOwner', type: ABIDataTypes.UINT256 },
+        { name: 'hasCertificate', type: ABIDataTypes.BOOL },
+        { name: 'certificateId', type: ABIDataTypes.UINT256 },
+        { name: 'hidden', type: ABIDataTypes.BOOL },
+        { name: 'flagCount', type: ABIDataTypes.UINT256 },
+        { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        { name: 'expired', type: ABIDataTypes.BOOL },
+    )
+    public getFile(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        const cidKey: u256 = this.cidToKey(cid);
+        const exists: boolean = this.recordExists(cidKey, cid);
+
+        if (!exists) {
+            const response: BytesWriter = new BytesWriter(
+                4 + U256_BYTE_LENGTH * 4 + 1 + 32 + 1 + 4 + 4 + U256_BYTE_LENGTH * 2 + 1 +
+                    U256_BYTE_LENGTH + 1 + U256_BYTE_LENGTH + U256_BYTE_LENGTH + 1,
+            );
+            response.writeStringWithLength('');
+            response.writeU256(u256.Zero);
+            response.writeU256(u256.Zero);
+            response.writeU256(u256.Zero);
+            response.writeU256(u256.Zero);
+            response.writeBoolean(false);
+            response.writeBytes(u256.Zero.toUint8Array(true));
+            response.writeU8(STATUS_ACTIVE);
+            response.writeStringWithLength('');
+            response.writeStringWithLength('');
+            response.writeU256(u256.Zero);
+            response.writeU256(u256.Zero);
+            response.writeBoolean(false);
+            response.writeU256(u256.Zero);
+            response.writeBoolean(false);
+            response.writeU256(u256.Zero);
+            response.writeU256(u256.Zero);
+            response.writeBoolean(false);
+            return response;
+        }
+
+        const fileName: string = this.readString(this.fileNameChunks, cidKey);
+        const fileSize: u256 = this.fileSizes.get(cidKey);
+        const uploader: u256 = this.fileUploaders.get(cidKey);
+        const blockNumber: u256 = this.fileBlocks.get(cidKey);
+        const timestamp: u256 = this.fileTimestamps.get(cidKey);
+        const contentHash: u256 = this.fileContentHashes.get(cidKey);
+        const status: u8 = <u8>this.fileStatuses.get(cidKey).toU32();
+        const successor: string = this.readString(this.successorChunks, cidKey);
+        const revocationReason: string = this.readString(this.revocationReasonChunks, cidKey);
+        const index: u256 = this.fileIndexes.get(cidKey);
+        const hasCertificate: boolean = this._exists(index);
+
+        const response: BytesWriter = new BytesWriter(
+            4 +
+                String.UTF8.byteLength(fileName) +
+                U256_BYTE_LENGTH * 4 +
+                1 +
+                32 +
+                1 +
+                4 +
+                String.UTF8.byteLength(successor) +
+                4 +
+                String.UTF8.byteLength(revocationReason) +
+                U256_BYTE_LENGTH * 2 +
+                1 +
+                U256_BYTE_LENGTH +
+                1 +
+                U256_BYTE_LENGTH +
+                U256_BYTE_LENGTH +
+                1,
+        );
+        response.writeStringWithLength(fileName);
+        response.writeU256(fileSize);
+        response.writeU256(uploader);
+        response.writeU256(blockNumber);
+        response.writeU256(timestamp);
+        response.writeBoolean(true);
+        response.writeBytes(contentHash.toUint8Array(true));
+        response.writeU8(status);
+        response.writeStringWithLength(successor);
+        response.writeStringWithLength(revocationReason);
+        response.writeU256(this.fileOwners.get(cidKey));
+        response.writeU256(this.pendingOwners.get(cidKey));
+        response.writeBoolean(hasCertificate);
+        response.writeU256(hasCertificate ? index : u256.Zero);
+        response.writeBoolean(this.isHidden(cidKey));
+        response.writeU256(this.fileFlagCounts.get(cidKey));
+        response.writeU256(this.fileExpiries.get(cidKey));
+        response.writeBoolean(this.isExpired(cidKey));
+        return response;
+    }
+
+    /**
+     * Retrieves a file record by the SHA-256 of its raw bytes.
+     *
+     * @param calldata - Contains: contentHash (bytes32).
+     * @returns cid, fileName, fileSize, uploader, blockNumber, timestamp, exists.
+     */
+    @method({ name: 'contentHash', type: ABIDataTypes.BYTES32 })
+    @returns(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'uploader', type: ABIDataTypes.UINT256 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        { name: 'exists', type: ABIDataTypes.BOOL },
+    )
+    public getFileByContentHash(calldata: Calldata): BytesWriter {
+        const contentHash: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+        const cid: string = this.readString(this.contentHashCidChunks, contentHash);
+
+        if (cid.length === 0) {
+            const response: BytesWriter = new BytesWriter(4 + 4 + U256_BYTE_LENGTH * 4 + 1);
+            response.writeStringWithLength('');
+            response.writeStringWithLength('');
+            response.writeU256(u256.Zero);
+            response.writeU256(u256.Zero);
+            response.writeU256(u256.Zero);
+            response.writeU256(u256.Zero);
+            response.writeBoolean(false);
+            return response;
+        }
+
+        const cidKey: u256 = this.cidToKey(cid);
+        const fileName: string = this.readString(this.fileNameChunks, cidKey);
+
+        const response: BytesWriter = new BytesWriter(
+            4 +
+                String.UTF8.byteLength(cid) +
+                4 +
+                String.UTF8.byteLength(fileName) +
+                U256_BYTE_LENGTH * 4 +
+                1,
+        );
+        response.writeStringWithLength(cid);
+        response.writeStringWithLength(fileName);
+        response.writeU256(this.fileSizes.get(cidKey));
+        response.writeU256(this.fileUploaders.get(cidKey));
+        response.writeU256(this.fileBlocks.get(cidKey));
+        response.writeU256(this.fileTimestamps.get(cidKey));
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Checks whether a file CID has been registered.
+     *
+     * @param calldata - Contains: cid (string).
+     * @returns exists (bool).
+     */
+    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @returns({ name: 'exists', type: ABIDataTypes.BOOL })
+    public checkFileExists(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        const cidKey: u256 = this.cidToKey(cid);
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(this.recordExists(cidKey, cid));
+        return response;
+    }
+
+    /**
+     * Returns the sequential index of a registered file, the inverse of
+     * getFileByIndex. The index is also the file's certificate token id.
+     *
+     * @param calldata - Contains: cid (string).
+     * @returns exists (bool), index (uint256, zero if not registered).
+     */
+    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @returns(
+        { name: 'exists', type: ABIDataTypes.BOOL },
+        { name: 'index', type: ABIDataTypes.UINT256 },
+    )
+    public getIndexOfCid(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        const cidKey: u256 = this.cidToKey(cid);
+        const exists: boolean = this.recordExists(cidKey, cid);
+
+        const response: BytesWriter = new BytesWriter(1 + U256_BYTE_LENGTH);
+        response.writeBoolean(exists);
+        response.writeU256(exists ? this.fileIndexes.get(cidKey) : u256.Zero);
+        return response;
+    }
+
+    /**
+     * Returns the total number of registered files.
+     *
+     * @returns count (uint256).
+     */
+    @method()
+    @returns({ name: 'count', type: ABIDataTypes.UINT256 })
+    public getTotalFiles(_calldata: Calldata): BytesWriter {
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(this.totalFiles.value);
+        return response;
+    }
+
+    /**
+     * Returns file CID and full metadata by sequential index.
+     *
+     * @param calldata - Contains: index (uint256).
+     * @returns cid, fileName, fileSize, uploader, blockNumber, timestamp, owner, validUntil.
+     * @throws {Revert} If index is out of bounds.
+     */
+    @method({ name: 'index', type: ABIDataTypes.UINT256 })
+    @returns(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'uploader', type: ABIDataTypes.UINT256 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        { name: 'owner', type: ABIDataTypes.UINT256 },
+        { name: 'validUntil', type: ABIDataTypes.UINT256 },
+    )
+    public getFileByIndex(calldata: Calldata): BytesWriter {
+        const index: u256 = calldata.readU256();
+
+        if (index >= this.totalFiles.value) {
+            throw new Revert('Index out of bounds');
+        }
+
+        return this.writeIndexedRecord(index);
+    }
+
+    /**
+     * Returns up to MAX_RANGE_SIZE consecutive records starting at a global index,
+     * as parallel arrays. The range is clipped to the total number of files, so a
+     * start at or past the end returns empty arrays. Hidden records keep their
+     * position but have an empty cid and fileName.
+     *
+     * @param calldata - Contains: start (uint256), count (uint256).
+     * @returns cids, fileNames, fileSizes, uploaders, blockNumbers, timestamps, owners,
+     *          validUntils (zero for proofs that never expire).
+     * @throws {Revert} If count is zero or exceeds MAX_RANGE_SIZE.
+     */
+    @method(
+        { name: 'start', type: ABIDataTypes.UINT256 },
+        { name: 'count', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'cids', type: ABIDataTypes.ARRAY_OF_STRING },
+        { name: 'fileNames', type: ABIDataTypes.ARRAY_OF_STRING },
+        { name: 'fileSizes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'uploaders', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'blockNumbers', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'timestamps', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'owners', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'validUntils', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    public getFilesRange(calldata: Calldata): BytesWriter {
+        const start: u256 = calldata.readU256();
+        const count: u256 = calldata.readU256();
+
+        if (u256.eq(count, u256.Zero)) {
+            throw new Revert('Count cannot be zero');
+        }
+        if (count > u256.fromU32(<u32>MAX_RANGE_SIZE)) {
+            throw new Revert('Range too large');
+        }
+
+        const total: u256 = this.totalFiles.value;
+        let length: i32 = 0;
+        if (start < total) {
+            const available: u256 = SafeMath.sub(total, start);
+            length = available < count ? <i32>available.toU32() : <i32>count.toU32();
+        }
+
+        const cids: string[] = [];
+        const fileNames: string[] = [];
+        const fileSizes: u256[] = [];
+        const uploaders: u256[] = [];
+        const blockNumbers: u256[] = [];
+        const timestamps: u256[] = [];
+        const owners: u256[] = [];
+        const validUntils: u256[] = [];
+        let stringBytes: i32 = 0;
+
+        for (let i: i32 = 0; i < length; i++) {
+            const index: u256 = SafeMath.add(start, u256.fromU32(<u32>i));
+            const cid: string = this.readString(
+                this.cidChunks,
+                SafeMath.mul(index, u256.fromU32(256)),
+            );
+            const cidKey: u256 = this.cidToKey(cid);
+            const hidden: boolean = this.isHidden(cidKey);
+            const fileName: string = hidden ? '' : this.readString(this.fileNameChunks, cidKey);
+            const shownCid: string = hidden ? '' : cid;
+
+            cids.push(shownCid);
+            fileNames.push(fileName);
+            fileSizes.push(this.fileSizes.get(cidKey));
+            uploaders.push(this.fileUploaders.get(cidKey));
+            blockNumbers.push(this.fileBlocks.get(cidKey));
+            timestamps.push(this.fileTimestamps.get(cidKey));
+            owners.push(this.fileOwners.get(cidKey));
+            validUntils.push(this.fileExpiries.get(cidKey));
+            stringBytes +=
+                8 + String.UTF8.byteLength(shownCid) + String.UTF8.byteLength(fileName);
+        }
+
+        const response: BytesWriter = new BytesWriter(
+            2 * 8 + stringBytes + U256_BYTE_LENGTH * 6 * length,
+        );
+        response.writeU16(<u16>length);
+        for (let i: i32 = 0; i < length; i++) {
+            response.writeStringWithLength(unchecked(cids[i]));
+        }
+        response.writeU16(<u16>length);
+        for (let i: i32 = 0; i < length; i++) {
+            response.writeStringWithLength(unchecked(fileNames[i]));
+        }
+        response.writeU256Array(fileSizes);
+        response.writeU256Array(uploaders);
+        response.writeU256Array(blockNumbers);
+        response.writeU256Array(timestamps);
+        response.writeU256Array(owners);
+        response.writeU256Array(validUntils);
+        return response;
+    }
+
+    /**
+     * Returns the number of files registered by an address.
+     *
+     * @param calldata - Contains: uploader (address).
+     * @returns count (uint256).
+     */
+    @method({ name: 'uploader', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'count', type: ABIDataTypes.UINT256 })
+    public getUploaderFileCount(calldata: Calldata): BytesWriter {
+        const uploader: u256 = this.addressToU256(calldata.readAddress());
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(this.uploaderFileCounts.get(uploader));
+        return response;
+    }
+
+    /**
+     * Returns file CID and full metadata by an uploader's own sequential index.
+     *
+     * @param calldata - Contains: uploader (address), index (uint256).
+     * @returns cid, fileName, fileSize, uploader, blockNumber, timestamp, owner, validUntil.
+     * @throws {Revert} If index is out of bounds for this uploader.
+     */
+    @method(
+        { name: 'uploader', type: ABIDataTypes.ADDRESS },
+        { name: 'index', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'uploader', type: ABIDataTypes.UINT256 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        { name: 'owner', type: ABIDataTypes.UINT256 },
+        { name: 'validUntil', type: ABIDataTypes.UINT256 },
+    )
+    public getUploaderFileByIndex(calldata: Calldata): BytesWriter {
+        const uploader: u256 = this.addressToU256(calldata.readAddress());
+        const ordinal: u256 = calldata.readU256();
+
+        if (ordinal >= this.uploaderFileCounts.get(uploader)) {
+            throw new Revert('Index out of bounds');
+        }
+
+        const index: u256 = this.uploaderFileIndexes.get(
+            this.ordinalKey(uploader, ordinal),
+        );
+        return this.writeIndexedRecord(index);
+    }
+
+    /**
+     * Encodes the record at a global file index as returned by getFileByIndex.
+     * A hidden record is returned with an empty cid and fileName.
+     *
+     * @param index - Global sequential file index (must be in bounds).
+     * @returns Writer containing cid, fileName, fileSize, uploader, blockNumber, timestamp,
+     *          owner, validUntil.
+     */
+    private writeIndexedRecord(index: u256): BytesWriter {
+        const cidBaseKey: u256 = SafeMath.mul(index, u256.fromU32(256));
+        const storedCid: string = this.readString(this.cidChunks, cidBaseKey);
+        const cidKey: u256 = this.cidToKey(storedCid);
+        const hidden: boolean = this.isHidden(cidKey);
+
+        const cid: string = hidden ? '' : storedCid;
+        const fileName: string = hidden ? '' : this.readString(this.fileNameChunks, cidKey);
+        const fileSize: u256 = this.fileSizes.get(cidKey);
+        const uploader: u256 = this.fileUploaders.get(cidKey);
+        const blockNumber: u256 = this.fileBlocks.get(cidKey);
+        const timestamp: u256 = this.fileTimestamps.get(cidKey);
+        const owner: u256 = this.fileOwners.get(cidKey);
+        const validUntil: u256 = this.fileExpiries.get(cidKey);
+
+        const response: BytesWriter = new BytesWriter(
+            4 +
+                String.UTF8.byteLength(cid) +
+                4 +
+                String.UTF8.byteLength(fileName) +
+                U256_BYTE_LENGTH * 6,
+        );
+        response.writeStringWithLength(cid);
+        response.writeStringWithLength(fileName);
+        response.writeU256(fileSize);
+        response.writeU256(uploader);
+        response.writeU256(blockNumber);
+        response.writeU256(timestamp);
+        response.writeU256(owner);
+        response.writeU256(validUntil);
+        return response;
+    }
+
+    /**
+     * Marks a file record as revoked. The proof stays readable but is flagged as withdrawn.
+     * Only the current owner can revoke.
+     *
+     * @param calldata - Contains: cid (string), reason (string).
+     * @emits FileRevoked
+     * @throws {Revert} If paused, not registered, caller is not the owner, or already revoked.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'reason', type: ABIDataTypes.STRING },
+    )
+    @emit('FileRevoked')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public revokeFile(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const reason: string = calldata.readStringWithLength();
+
+        if (String.UTF8.byteLength(reason) > MAX_REASON_LENGTH) {
+            throw new Revert('Reason too long');
+        }
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+
+        const sender: Address = Blockchain.tx.sender;
+        this.ensureOwner(cidKey, sender);
+
+        if (u256.eq(this.fileStatuses.get(cidKey), u256.fromU32(STATUS_REVOKED))) {
+            throw new Revert('File already revoked');
+        }
+
+        this.fileStatuses.set(cidKey, u256.fromU32(STATUS_REVOKED));
+        this.storeString(this.revocationReasonChunks, cidKey, reason);
+
+        this.emitEvent(new FileRevokedEvent(cidKey, sender));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Moves the expiry of a file record to a later block, also after it has
+     * expired. A newExpiry of zero makes the proof permanent. Only the current
+     * owner can renew.
+     *
+     * @param calldata - Contains: cid (string), newExpiry (uint256, last valid block).
+     * @emits FileExpiryUpdated
+     * @throws {Revert} If paused, not registered, caller is not the owner, the file has
+     *                  no expiry, or newExpiry is not a future block after the current expiry.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'newExpiry', type: ABIDataTypes.UINT256 },
+    )
+    @emit('FileExpiryUpdated')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public renewFile(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const newExpiry: u256 = calldata.readU256();
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+        this.ensureOwner(cidKey, Blockchain.tx.sender);
+
+        const currentExpiry: u256 = this.fileExpiries.get(cidKey);
+        if (u256.eq(currentExpiry, u256.Zero)) {
+            throw new Revert('File does not expire');
+        }
+        if (!u256.eq(newExpiry, u256.Zero)) {
+            this.ensureFutureBlock(newExpiry);
+            if (newExpiry <= currentExpiry) {
+                throw new Revert('New expiry must be later');
+            }
+        }
+
+        this.fileExpiries.set(cidKey, newExpiry);
+        this.emitEvent(new FileExpiryUpdatedEvent(cidKey, newExpiry));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Checks whether a file record is past its expiry block.
+     *
+     * @param cidKey - The storage key derived from the CID.
+     * @returns True if the record has an expiry and the current block is after it.
+     */
+    private isExpired(cidKey: u256): boolean {
+        const validUntil: u256 = this.fileExpiries.get(cidKey);
+        return (
+            !u256.eq(validUntil, u256.Zero) &&
+            u256.fromU64(Blockchain.block.number) > validUntil
+        );
+    }
+
+    /**
+     * Ensures an expiry block lies in the future.
+     *
+     * @param validUntil - The last block at which a proof should be active.
+     * @throws {Revert} If the block is not after the current one.
+     */
+    private ensureFutureBlock(validUntil: u256): void {
+        if (validUntil <= u256.fromU64(Blockchain.block.number)) {
+            throw new Revert('Expiry must be in the future');
+        }
+    }
+
+    /**
+     * Marks a file record as superseded by a newer registered version.
+     * Both records must belong to the caller, be active, and the new one must not
+     * already continue another version chain. A chain holds at most MAX_VERSION_CHAIN
+     * versions, so getVersionChain can always return it.
+     *
+     * @param calldata - Contains: oldCid (string), newCid (string).
+     * @emits FileSuperseded
+     * @throws {Revert} If paused, either CID is unregistered or not owned, not active, or
+     *                  the chain already holds MAX_VERSION_CHAIN versions.
+     */
+    @method(
+        { name: 'oldCid', type: ABIDataTypes.STRING },
+        { name: 'newCid', type: ABIDataTypes.STRING },
+    )
+    @emit('FileSuperseded')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public supersedeFile(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const oldCid: string = calldata.readStringWithLength();
+        const newCid: string = calldata.readStringWithLength();
+
+        // Compare keys, not strings, so another encoding of the same CID is caught too
+        const oldKey: u256 = this.cidToKey(oldCid);
+        const newKey: u256 = this.cidToKey(newCid);
+        if (u256.eq(oldKey, newKey)) {
+            throw new Revert('A file cannot supersede itself');
+        }
+
+        this.ensureRecordExists(oldKey, oldCid);
+        this.ensureRecordExists(newKey, newCid);
+
+        const sender: Address = Blockchain.tx.sender;
+        this.ensureOwner(oldKey, sender);
+        this.ensureOwner(newKey, sender);
+
+        const active: u256 = u256.fromU32(STATUS_ACTIVE);
+        if (!u256.eq(this.fileStatuses.get(oldKey), active)) {
+            throw new Revert('Old file is not active');
+        }
+        if (!u256.eq(this.fileStatuses.get(newKey), active)) {
+            throw new Revert('New file is not active');
+        }
+        if (this.readString(this.predecessorChunks, newKey).length !== 0) {
+            throw new Revert('New file already supersedes another');
+        }
+        if (this.versionsUpTo(oldKey) >= MAX_VERSION_CHAIN) {
+            throw new Revert('Version chain too long');
+        }
+
+        this.fileStatuses.set(oldKey, u256.fromU32(STATUS_SUPERSEDED));
+        this.storeString(this.successorChunks, oldKey, newCid);
+        this.storeString(this.predecessorChunks, newKey, oldCid);
+
+        this.emitEvent(new FileSupersededEvent(oldKey, newKey, sender));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Counts the versions of a file from the first one up to and including the given
+     * record, stopping at MAX_VERSION_CHAIN.
+     *
+     * @param cidKey - The storage key derived from the CID.
+     * @returns The number of versions, at most MAX_VERSION_CHAIN.
+     */
+    private versionsUpTo(cidKey: u256): i32 {
+        let count: i32 = 1;
+        let previous: string = this.readString(this.predecessorChunks, cidKey);
+        while (previous.length !== 0 && count < MAX_VERSION_CHAIN) {
+            count++;
+            previous = this.readString(this.predecessorChunks, this.cidToKey(previous));
+        }
+        return count;
+    }
+
+    /**
+     * Nominates a new owner for a file record. The transfer completes only when the
+     * nominee calls acceptRecordTransfer. Calling again replaces the pending nominee.
+     *
+     * @param calldata - Contains: cid (string), newOwner (address).
+     * @emits RecordTransferInitiated
+     * @throws {Revert} If paused, not registered, caller is not the owner, or nominee invalid.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'newOwner', type: ABIDataTypes.ADDRESS },
+    )
+    @emit('RecordTransferInitiated')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public transferRecord(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const newOwner: Address = calldata.readAddress();
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+
+        const sender: Address = Blockchain.tx.sender;
+        this.ensureOwner(cidKey, sender);
+
+        const nominee: u256 = this.addressToU256(newOwner);
+        if (u256.eq(nominee, u256.Zero)) {
+            throw new Revert('New owner cannot be zero');
+        }
+        if (u256.eq(nominee, this.fileOwners.get(cidKey))) {
+            throw new Revert('New owner is already the owner');
+        }
+
+        this.pendingOwners.set(cidKey, nominee);
+
+        this.emitEvent(new RecordTransferInitiatedEvent(cidKey, sender, newOwner));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Completes a pending record transfer. Only the nominated owner can accept.
+     * The original registrant stored in fileUploaders is left unchanged.
+     *
+     * @param calldata - Contains: cid (string).
+     * @emits RecordTransferred
+     * @throws {Revert} If paused, not registered, or caller is not the pending owner.
+     */
+    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @emit('RecordTransferred')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public acceptRecordTransfer(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+
+        const sender: Address = Blockchain.tx.sender;
+        const senderValue: u256 = this.addressToU256(sender);
+        const pending: u256 = this.pendingOwners.get(cidKey);
+        if (u256.eq(pending, u256.Zero) || !u256.eq(pending, senderValue)) {
+            throw new Revert('Caller is not the pending owner');
+        }
+
+        const previousOwner: Address = this.u256ToAddress(this.fileOwners.get(cidKey));
+        this.fileOwners.set(cidKey, senderValue);
+        this.pendingOwners.set(cidKey, u256.Zero);
+
+        this.emitEvent(new RecordTransferredEvent(cidKey, previousOwner, sender));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Adds a third-party attestation to a registered file. The statement itself lives
+     * off-chain; only its hash is recorded together with the attester and block.
+     *
+     * @param calldata - Contains: cid (string), statementHash (bytes32).
+     * @emits AttestationAdded
+     * @throws {Revert} If paused, not registered, revoked, or the statement hash is zero.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'statementHash', type: ABIDataTypes.BYTES32 },
+    )
+    @emit('AttestationAdded')
+    @returns({ name: 'index', type: ABIDataTypes.UINT256 })
+    public attestFile(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const statementHash: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+
+        if (u256.eq(statementHash, u256.Zero)) {
+            throw new Revert('Statement hash cannot be zero');
+        }
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+
+        if (u256.eq(this.fileStatuses.get(cidKey), u256.fromU32(STATUS_REVOKED))) {
+            throw new Revert('Cannot attest a revoked file');
+        }
+
+        const sender: Address = Blockchain.tx.sender;
+        const index: u256 = this.attestationCounts.get(cidKey);
+        const attestationKey: u256 = this.ordinalKey(cidKey, index);
+
+        this.attestationAttesters.set(attestationKey, this.addressToU256(sender));
+        this.attestationStatements.set(attestationKey, statementHash);
+        this.attestationBlocks.set(attestationKey, u256.fromU64(Blockchain.block.number));
+        this.attestationTimestamps.set(
+            attestationKey,
+            u256.fromU64(Blockchain.block.medianTimestamp),
+        );
+        this.attestationCounts.set(cidKey, SafeMath.add(index, u256.One));
+
+        this.emitEvent(new AttestationAddedEvent(cidKey, sender, statementHash, index));
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(index);
+        return response;
+    }
+
+    /**
+     * Returns the number of attestations on a file.
+     *
+     * @param calldata - Contains: cid (string).
+     * @returns count (u256) -- zero for unregistered CIDs.
+     */
+    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @returns({ name: 'count', type: ABIDataTypes.UINT256 })
+    public getAttestationCount(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        const cidKey: u256 = this.cidToKey(cid);
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(
+            this.recordExists(cidKey, cid) ? this.attestationCounts.get(cidKey) : u256.Zero,
+        );
+        return response;
+    }
+
+    /**
+     * Returns one attestation on a file by its position, oldest first.
+     *
+     * @param calldata - Contains: cid (string), index (u256).
+     * @returns attester, statementHash, blockNumber, timestamp.
+     * @throws {Revert} If the CID is not registered or index is out of bounds.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'index', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'attester', type: ABIDataTypes.UINT256 },
+        { name: 'statementHash', type: ABIDataTypes.BYTES32 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+    )
+    public getAttestation(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        const index: u256 = calldata.readU256();
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+
+        if (index >= this.attestationCounts.get(cidKey)) {
+            throw new Revert('Index out of bounds');
+        }
+
+        const attestationKey: u256 = this.ordinalKey(cidKey, index);
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 3 + 32);
+        response.writeU256(this.attestationAttesters.get(attestationKey));
+        response.writeBytes(this.attestationStatements.get(attestationKey).toUint8Array(true));
+        response.writeU256(this.attestationBlocks.get(attestationKey));
+        response.writeU256(this.attestationTimestamps.get(attestationKey));
+        return response;
+    }
+
+    /**
+     * Writes a key/value metadata entry on a file record. Only the current owner can
+     * write. An entry written with mutable=false is locked for good; a mutable entry
+     * can be rewritten, and locked by rewriting it with mutable=false.
+     *
+     * @param calldata - Contains: cid (string), key (string), value (string), mutable (bool).
+     * @emits MetadataUpdated
+     * @throws {Revert} If paused, not registered, not the owner, limits exceeded, or locked.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'key', type: ABIDataTypes.STRING },
+        { name: 'value', type: ABIDataTypes.STRING },
+        { name: 'mutable', type: ABIDataTypes.BOOL },
+    )
+    @emit('MetadataUpdated')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public setFileMetadata(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const key: string = calldata.readStringWithLength();
+        const value: string = calldata.readStringWithLength();
+        const mutable: boolean = calldata.readBoolean();
+
+        const keyLength: i32 = String.UTF8.byteLength(key);
+        if (keyLength === 0) {
+            throw new Revert('Metadata key cannot be empty');
+        }
+        if (keyLength > MAX_METADATA_KEY_LENGTH) {
+            throw new Revert('Metadata key too long');
+        }
+        if (value.length === 0) {
+            throw new Revert('Metadata value cannot be empty');
+        }
+        if (String.UTF8.byteLength(value) > MAX_METADATA_VALUE_LENGTH) {
+            throw new Revert('Metadata value too long');
+        }
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+
+        const sender: Address = Blockchain.tx.sender;
+        this.ensureOwner(cidKey, sender);
+
+        const entryKey: u256 = this.metadataKey(cidKey, key);
+        const flag: u32 = this.metadataFlags.get(entryKey).toU32();
+        if (flag === METADATA_LOCKED) {
+            throw new Revert('Metadata value locked');
+        }
+
+        if (flag === METADATA_UNSET) {
+            const keyCount: u256 = this.metadataKeyCounts.get(cidKey);
+            if (keyCount >= u256.fromU32(MAX_METADATA_KEYS)) {
+                throw new Revert('Too many metadata keys');
+            }
+            this.storeString(this.metadataKeyChunks, this.ordinalKey(cidKey, keyCount), key);
+            this.metadataKeyCounts.set(cidKey, SafeMath.add(keyCount, u256.One));
+        }
+
+        this.storeString(this.metadataValueChunks, entryKey, value);
+        this.metadataFlags.set(
+            entryKey,
+            u256.fromU32(mutable ? METADATA_MUTABLE : METADATA_LOCKED),
+        );
+
+        this.emitEvent(new MetadataUpdatedEvent(cidKey, entryKey, sender, mutable));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Returns one metadata entry of a file.
+     *
+     * @param calldata - Contains: cid (string), key (string).
+     * @returns value (string), exists (bool), mutable (bool).
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'key', type: ABIDataTypes.STRING },
+    )
+    @returns(
+        { name: 'value', type: ABIDataTypes.STRING },
+        { name: 'exists', type: ABIDataTypes.BOOL },
+        { name: 'mutable', type: ABIDataTypes.BOOL },
+    )
+    public getFileMetadata(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        const key: string = calldata.readStringWithLength();
+
+        const cidKey: u256 = this.cidToKey(cid);
+        let value: string = '';
+        let flag: u32 = METADATA_UNSET;
+        if (this.recordExists(cidKey, cid)) {
+            const entryKey: u256 = this.metadataKey(cidKey, key);
+            flag = this.metadataFlags.get(entryKey).toU32();
+            if (flag !== METADATA_UNSET) {
+                value = this.readString(this.metadataValueChunks, entryKey);
+            }
+        }
+
+        const response: BytesWriter = new BytesWriter(4 + String.UTF8.byteLength(value) + 2);
+        response.writeStringWithLength(value);
+        response.writeBoolean(flag !== METADATA_UNSET);
+        response.writeBoolean(flag === METADATA_MUTABLE);
+        return response;
+    }
+
+    /**
+     * Lists the metadata keys set on a file, in the order they were first written.
+     *
+     * @param calldata - Contains: cid (string).
+     * @returns keys (string[]) -- empty for unregistered CIDs.
+     */
+    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @returns({ name: 'keys', type: ABIDataTypes.ARRAY_OF_STRING })
+    public listMetadataKeys(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        const cidKey: u256 = this.cidToKey(cid);
+
+        const keys: string[] = [];
+        let size: i32 = 2;
+        if (this.recordExists(cidKey, cid)) {
+            const count: u32 = this.metadataKeyCounts.get(cidKey).toU32();
+            for (let i: u32 = 0; i < count; i++) {
+                const key: string = this.readString(
+                    this.metadataKeyChunks,
+                    this.ordinalKey(cidKey, u256.fromU32(i)),
+                );
+                keys.push(key);
+                size += 4 + String.UTF8.byteLength(key);
+            }
+        }
+
+        const response: BytesWriter = new BytesWriter(size);
+        response.writeU16(<u16>keys.length);
+        for (let i: i32 = 0; i < keys.length; i++) {
+            response.writeStringWithLength(unchecked(keys[i]));
+        }
+        return response;
+    }
+
+    /**
+     * Adds tags to an existing file. Only the current owner can tag.
+     *
+     * @param calldata - Contains: cid (string), tags (string[]).
+     * @emits TagAdded (once per new tag)
+     * @throws {Revert} If paused, not registered, not the owner, or tags invalid.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'tags', type: ABIDataTypes.ARRAY_OF_STRING },
+    )
+    @emit('TagAdded')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public addFileTags(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const tags: string[] = this.readStringArray(calldata);
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+        this.ensureOwner(cidKey, Blockchain.tx.sender);
+
+        this.addTags(cidKey, this.fileIndexes.get(cidKey), tags);
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Lists the tags on a file, in the order they were added.
+     *
+     * @param calldata - Contains: cid (string).
+     * @returns tags (string[]) -- empty for unregistered CIDs.
+     */
+    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @returns({ name: 'tags', type: ABIDataTypes.ARRAY_OF_STRING })
+    public getFileTags(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        const cidKey: u256 = this.cidToKey(cid);
+
+        const tags: string[] = [];
+        let size: i32 = 2;
+        if (this.recordExists(cidKey, cid)) {
+            const count: u32 = this.fileTagCounts.get(cidKey).toU32();
+            for (let i: u32 = 0; i < count; i++) {
+                const tag: string = this.readString(
+                    this.fileTagChunks,
+                    this.ordinalKey(cidKey, u256.fromU32(i)),
+                );
+                tags.push(tag);
+                size += 4 + String.UTF8.byteLength(tag);
+            }
+        }
+
+        const response: BytesWriter = new BytesWriter(size);
+        response.writeU16(<u16>tags.length);
+        for (let i: i32 = 0; i < tags.length; i++) {
+            response.writeStringWithLength(unchecked(tags[i]));
+        }
+        return response;
+    }
+
+    /**
+     * Returns the number of files carrying a tag.
+     *
+     * @param calldata - Contains: tag (string).
+     * @returns count (u256).
+     */
+    @method({ name: 'tag', type: ABIDataTypes.STRING })
+    @returns({ name: 'count', type: ABIDataTypes.UINT256 })
+    public getTagFileCount(calldata: Calldata): BytesWriter {
+        const tagKey: u256 = this.tagToKey(calldata.readStringWithLength());
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(this.tagFileCounts.get(tagKey));
+        return response;
+    }
+
+    /**
+     * Returns a file carrying a tag by its position in the tag's index, oldest first.
+     *
+     * @param calldata - Contains: tag (string), index (u256).
+     * @returns cid, fileName, fileSize, uploader, blockNumber, timestamp, owner, validUntil.
+     * @throws {Revert} If index is out of bounds for this tag.
+     */
+    @method(
+        { name: 'tag', type: ABIDataTypes.STRING },
+        { name: 'index', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'uploader', type: ABIDataTypes.UINT256 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        { name: 'owner', type: ABIDataTypes.UINT256 },
+        { name: 'validUntil', type: ABIDataTypes.UINT256 },
+    )
+    public getTagFileByIndex(calldata: Calldata): BytesWriter {
+        const tagKey: u256 = this.tagToKey(calldata.readStringWithLength());
+        const ordinal: u256 = calldata.readU256();
+
+        if (ordinal >= this.tagFileCounts.get(tagKey)) {
+            throw new Revert('Index out of bounds');
+        }
+
+        const index: u256 = this.tagFileIndexes.get(this.ordinalKey(tagKey, ordinal));
+        return this.writeIndexedRecord(index);
+    }
+
+    /**
+     * Returns every version of a file, oldest first, that the given CID belongs to.
+     *
+     * @param calldata - Contains: cid (string).
+     * @returns cids (string[]) -- the full version chain, including the queried CID.
+     * @throws {Revert} If the CID is not registered or the chain exceeds MAX_VERSION_CHAIN.
+     */
+    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @returns({ name: 'cids', type: ABIDataTypes.ARRAY_OF_STRING })
+    public getVersionChain(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        this.ensureRecordExists(this.cidToKey(cid), cid);
+
+        // Walk back to the first version
+        let first: string = cid;
+        let steps: i32 = 0;
+        let previous: string = this.readString(this.predecessorChunks, this.cidToKey(first));
+        while (previous.length !== 0) {
+            steps++;
+            if (steps >= MAX_VERSION_CHAIN) {
+                throw new Revert('Version chain too long');
+            }
+            first = previous;
+            previous = this.readString(this.predecessorChunks, this.cidToKey(first));
+        }
+
+        // Walk forward collecting every version
+        const chain: string[] = [];
+        let size: i32 = 2;
+        let current: string = first;
+        while (current.length !== 0) {
+            if (chain.length >= MAX_VERSION_CHAIN) {
+                throw new Revert('Version chain too long');
+            }
+            chain.push(current);
+            size += 4 + String.UTF8.byteLength(current);
+            current = this.readString(this.successorChunks, this.cidToKey(current));
+        }
+
+        const response: BytesWriter = new BytesWriter(size);
+        response.writeU16(<u16>chain.length);
+        for (let i: i32 = 0; i < chain.length; i++) {
+            response.writeStringWithLength(unchecked(chain[i]));
+        }
+        return response;
+    }
+
+    /**
+     * Creates a named collection owned by the caller.
+     *
+     * @param calldata - Contains: name (string), description (string).
+     * @emits CollectionCreated
+     * @throws {Revert} If paused, the name is empty, or either string is too long.
+     */
+    @method(
+        { name: 'name', type: ABIDataTypes.STRING },
+        { name: 'description', type: ABIDataTypes.STRING },
+    )
+    @emit('CollectionCreated')
+    @returns({ name: 'collectionId', type: ABIDataTypes.UINT256 })
+    public createCollection(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const name: string = calldata.readStringWithLength();
+        const description: string = calldata.readStringWithLength();
+
+        if (name.length === 0) {
+            throw new Revert('Collection name cannot be empty');
+        }
+        if (String.UTF8.byteLength(name) > MAX_COLLECTION_NAME_LENGTH) {
+            throw new Revert('Collection name too long');
+        }
+        if (String.UTF8.byteLength(description) > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+            throw new Revert('Collection description too long');
+        }
+
+        const sender: Address = Blockchain.tx.sender;
+        const owner: u256 = this.addressToU256(sender);
+        const collectionId: u256 = SafeMath.add(this.totalCollections.value, u256.One);
+        const baseKey: u256 = SafeMath.mul(collectionId, u256.fromU32(256));
+
+        this.collectionOwners.set(collectionId, owner);
+        this.collectionBlocks.set(collectionId, u256.fromU64(Blockchain.block.number));
+        this.storeString(this.collectionNameChunks, baseKey, name);
+        this.storeString(this.collectionDescriptionChunks, baseKey, description);
+
+        const ownerCount: u256 = this.ownerCollectionCounts.get(owner);
+        this.ownerCollectionIds.set(this.ordinalKey(owner, ownerCount), collectionId);
+        this.ownerCollectionCounts.set(owner, SafeMath.add(ownerCount, u256.One));
+
+        this.totalCollections.value = collectionId;
+        this.emitEvent(new CollectionCreatedEvent(collectionId, sender));
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(collectionId);
+        return response;
+    }
+
+    /**
+     * Adds a registered file to a collection. Only the collection's creator can add
+     * files, and only files they currently own.
+     *
+     * @param calldata - Contains: collectionId (u256), cid (string).
+     * @emits CollectionFileAdded
+     * @throws {Revert} If paused, the collection does not exist, the caller does not
+     *                  own the collection or the file, the file is already in the
+     *                  collection, or the collection is full.
+     */
+    @method(
+        { name: 'collectionId', type: ABIDataTypes.UINT256 },
+        { name: 'cid', type: ABIDataTypes.STRING },
+    )
+    @emit('CollectionFileAdded')
+    @returns({ name: 'fileCount', type: ABIDataTypes.UINT256 })
+    public addToCollection(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const collectionId: u256 = calldata.readU256();
+        const cid: string = calldata.readStringWithLength();
+
+        const collectionOwner: u256 = this.collectionOwners.get(collectionId);
+        if (u256.eq(collectionOwner, u256.Zero)) {
+            throw new Revert('Collection not found');
+        }
+
+        const sender: Address = Blockchain.tx.sender;
+        if (!u256.eq(collectionOwner, this.addressToU256(sender))) {
+            throw new Revert('Caller is not the collection owner');
+        }
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+        this.ensureOwner(cidKey, sender);
+
+        const memberKey: u256 = this.ordinalKey(collectionId, cidKey);
+        if (u256.eq(this.collectionFileFlags.get(memberKey), u256.One)) {
+            throw new Revert('File already in collection');
+        }
+
+        const count: u256 = this.collectionFileCounts.get(collectionId);
+        if (count >= u256.fromU32(MAX_COLLECTION_SIZE)) {
+            throw new Revert('Collection full');
+        }
+
+        this.collectionFileFlags.set(memberKey, u256.One);
+        this.collectionFileIndexes.set(
+            this.ordinalKey(collectionId, count),
+            this.fileIndexes.get(cidKey),
+        );
+        const fileCount: u256 = SafeMath.add(count, u256.One);
+        this.collectionFileCounts.set(collectionId, fileCount);
+
+        this.emitEvent(new CollectionFileAddedEvent(collectionId, cidKey, count));
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(fileCount);
+        return response;
+    }
+
+    /**
+     * Returns a collection's details.
+     *
+     * @param calldata - Contains: collectionId (u256).
+     * @returns exists, owner, name, description, fileCount, blockNumber.
+     */
+    @method({ name: 'collectionId', type: ABIDataTypes.UINT256 })
+    @returns(
+        { name: 'exists', type: ABIDataTypes.BOOL },
+        { name: 'owner', type: ABIDataTypes.UINT256 },
+        { name: 'name', type: ABIDataTypes.STRING },
+        { name: 'description', type: ABIDataTypes.STRING },
+        { name: 'fileCount', type: ABIDataTypes.UINT256 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+    )
+    public getCollection(calldata: Calldata): BytesWriter {
+        const collectionId: u256 = calldata.readU256();
+
+        const owner: u256 = this.collectionOwners.get(collectionId);
+        const exists: boolean = !u256.eq(owner, u256.Zero);
+        // Only existing ids are small enough to scale without overflow
+        const baseKey: u256 = exists
+            ? SafeMath.mul(collectionId, u256.fromU32(256))
+            : u256.Zero;
+        const name: string = exists ? this.readString(this.collectionNameChunks, baseKey) : '';
+        const description: string = exists
+            ? this.readString(this.collectionDescriptionChunks, baseKey)
+            : '';
+
+        const response: BytesWriter = new BytesWriter(
+            1 +
+                U256_BYTE_LENGTH +
+                4 +
+                String.UTF8.byteLength(name) +
+                4 +
+                String.UTF8.byteLength(description) +
+                U256_BYTE_LENGTH * 2,
+        );
+        response.writeBoolean(exists);
+        response.writeU256(owner);
+        response.writeStringWithLength(name);
+        response.writeStringWithLength(description);
+        response.writeU256(this.collectionFileCounts.get(collectionId));
+        response.writeU256(this.collectionBlocks.get(collectionId));
+        return response;
+    }
+
+    /**
+     * Returns the number of collections created so far (also the highest collection id).
+     *
+     * @returns count (u256).
+     */
+    @method()
+    @returns({ name: 'count', type: ABIDataTypes.UINT256 })
+    public getTotalCollections(_calldata: Calldata): BytesWriter {
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(this.totalCollections.value);
+        return response;
+    }
+
+    /**
+     * Returns a file in a collection by its position, in the order it was added.
+     *
+     * @param calldata - Contains: collectionId (u256), index (u256).
+     * @returns cid, fileName, fileSize, uploader, blockNumber, timestamp, owner, validUntil.
+     * @throws {Revert} If index is out of bounds for this collection.
+     */
+    @method(
+        { name: 'collectionId', type: ABIDataTypes.UINT256 },
+        { name: 'index', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'fileName', type: ABIDataTypes.STRING },
+        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'uploader', type: ABIDataTypes.UINT256 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        { name: 'owner', type: ABIDataTypes.UINT256 },
+        { name: 'validUntil', type: ABIDataTypes.UINT256 },
+    )
+    public getCollectionFileByIndex(calldata: Calldata): BytesWriter {
+        const collectionId: u256 = calldata.readU256();
+        const ordinal: u256 = calldata.readU256();
+
+        if (ordinal >= this.collectionFileCounts.get(collectionId)) {
+            throw new Revert('Index out of bounds');
+        }
+
+        const index: u256 = this.collectionFileIndexes.get(
+            this.ordinalKey(collectionId, ordinal),
+        );
+        return this.writeIndexedRecord(index);
+    }
+
+    /**
+     * Returns the number of collections created by an address.
+     *
+     * @param calldata - Contains: owner (address).
+     * @returns count (u256).
+     */
+    @method({ name: 'owner', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'count', type: ABIDataTypes.UINT256 })
+    public getOwnerCollectionCount(calldata: Calldata): BytesWriter {
+        const owner: u256 = this.addressToU256(calldata.readAddress());
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(this.ownerCollectionCounts.get(owner));
+        return response;
+    }
+
+    /**
+     * Returns the id of a collection created by an address, oldest first.
+     *
+     * @param calldata - Contains: owner (address), index (u256).
+     * @returns collectionId (u256).
+     * @throws {Revert} If index is out of bounds for this owner.
+     */
+    @method(
+        { name: 'owner', type: ABIDataTypes.ADDRESS },
+        { name: 'index', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'collectionId', type: ABIDataTypes.UINT256 })
+    public getOwnerCollectionByIndex(calldata: Calldata): BytesWriter {
+        const owner: u256 = this.addressToU256(calldata.readAddress());
+        const ordinal: u256 = calldata.readU256();
+
+        if (ordinal >= this.ownerCollectionCounts.get(owner)) {
+            throw new Revert('Index out of bounds');
+        }
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(this.ownerCollectionIds.get(this.ordinalKey(owner, ordinal)));
+        return response;
+    }
+
+    /**
+     * Opens an agreement on a registered file: every listed address must sign it
+     * with signAgreement by the deadline block. Only the file's current owner can
+     * open it, and a file can carry one agreement.
+     *
+     * @param calldata - Contains: cid (string), requiredSigners (address[]),
+     *                   deadline (uint256, last block signatures are accepted in).
+     * @emits AgreementCreated
+     * @throws {Revert} If paused, the file is not registered or not owned by the
+     *                  caller, it already has an agreement, the signer list is empty,
+     *                  too long or has a zero or duplicate address, or the deadline
+     *                  is not a future block.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'requiredSigners', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'deadline', type: ABIDataTypes.UINT256 },
+    )
+    @emit('AgreementCreated')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public createAgreement(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const signers: Address[] = calldata.readAddressArray();
+        const deadline: u256 = calldata.readU256();
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+
+        const sender: Address = Blockchain.tx.sender;
+        this.ensureOwner(cidKey, sender);
+
+        if (!u256.eq(this.agreementCreators.get(cidKey), u256.Zero)) {
+            throw new Revert('Agreement already exists');
+        }
+        if (signers.length === 0) {
+            throw new Revert('Agreement needs at least one signer');
+        }
+        if (<u32>signers.length > MAX_AGREEMENT_SIGNERS) {
+            throw new Revert('Too many signers');
+        }
+        if (deadline <= u256.fromU64(Blockchain.block.number)) {
+            throw new Revert('Deadline must be in the future');
+        }
+
+        const index: u256 = this.fileIndexes.get(cidKey);
+        for (let i: i32 = 0; i < signers.length; i++) {
+            const signer: u256 = this.addressToU256(unchecked(signers[i]));
+            if (u256.eq(signer, u256.Zero)) {
+                throw new Revert('Invalid signer');
+            }
+
+            const flagKey: u256 = this.ordinalKey(cidKey, signer);
+            if (u256.eq(this.agreementSignerFlags.get(flagKey), u256.One)) {
+                throw new Revert('Duplicate signer');
+            }
+            this.agreementSignerFlags.set(flagKey, u256.One);
+            this.agreementSigners.set(this.ordinalKey(cidKey, u256.fromI32(i)), signer);
+
+            const signerCount: u256 = this.signerAgreementCounts.get(signer);
+            this.signerAgreementIndexes.set(this.ordinalKey(signer, signerCount), index);
+            this.signerAgreementCounts.set(signer, SafeMath.add(signerCount, u256.One));
+        }
+
+        this.agreementCreators.set(cidKey, this.addressToU256(sender));
+        this.agreementDeadlines.set(cidKey, deadline);
+        this.agreementSignerCounts.set(cidKey, u256.fromI32(signers.length));
+
+        this.emitEvent(new AgreementCreatedEvent(cidKey, sender, <u32>signers.length, deadline));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Signs an agreement as one of its required parties. Each party signs once;
+     * the signature that completes the set also emits AgreementCompleted.
+     *
+     * @param calldata - Contains: cid (string).
+     * @returns complete (bool) -- whether every required party has now signed.
+     * @emits AgreementSigned, AgreementCompleted
+     * @throws {Revert} If paused, there is no agreement on the file, the caller is
+     *                  not a required signer or has already signed, or the deadline
+     *                  has passed.
+     */
+    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @emit('AgreementSigned', 'AgreementCompleted')
+    @returns({ name: 'complete', type: ABIDataTypes.BOOL })
+    public signAgreement(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureAgreementExists(cidKey, cid);
+
+        const sender: Address = Blockchain.tx.sender;
+        const signKey: u256 = this.ordinalKey(cidKey, this.addressToU256(sender));
+        if (!u256.eq(this.agreementSignerFlags.get(signKey), u256.One)) {
+            throw new Revert('Caller is not a required signer');
+        }
+        if (!u256.eq(this.agreementSignedBlocks.get(signKey), u256.Zero)) {
+            throw new Revert('Already signed');
+        }
+
+        const blockNumber: u256 = u256.fromU64(Blockchain.block.number);
+        if (blockNumber > this.agreementDeadlines.get(cidKey)) {
+            throw new Revert('Agreement expired');
+        }
+
+        this.agreementSignedBlocks.set(signKey, blockNumber);
+        this.agreementSignedTimestamps.set(
+            signKey,
+            u256.fromU64(Blockchain.block.medianTimestamp),
+        );
+
+        const signedCount: u256 = SafeMath.add(this.agreementSignedCounts.get(cidKey), u256.One);
+        this.agreementSignedCounts.set(cidKey, signedCount);
+        this.emitEvent(new AgreementSignedEvent(cidKey, sender, signedCount.toU32()));
+
+        const signerCount: u256 = this.agreementSignerCounts.get(cidKey);
+        const complete: boolean = u256.eq(signedCount, signerCount);
+        if (complete) {
+            this.agreementCompletedBlocks.set(cidKey, blockNumber);
+            this.emitEvent(new AgreementCompletedEvent(cidKey, signerCount.toU32()));
+        }
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(complete);
+        return response;
+    }
+
+    /**
+     * Returns an agreement's signers and who has signed when. signedBlocks and
+     * signedTimestamps line up with signers and are zero for parties that have not
+     * signed. An agreement is expired when its deadline has passed before it was
+     * complete.
+     *
+     * @param calldata - Contains: cid (string).
+     * @returns exists, creator, deadline, signers, signedBlocks, signedTimestamps,
+     *          signedCount, complete, expired, completedAt (zero until complete).
+     */
+    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @returns(
+        { name: 'exists', type: ABIDataTypes.BOOL },
+        { name: 'creator', type: ABIDataTypes.UINT256 },
+        { name: 'deadline', type: ABIDataTypes.UINT256 },
+        { name: 'signers', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'signedBlocks', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'signedTimestamps', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'signedCount', type: ABIDataTypes.UINT256 },
+        { name: 'complete', type: ABIDataTypes.BOOL },
+        { name: 'expired', type: ABIDataTypes.BOOL },
+        { name: 'completedAt', type: ABIDataTypes.UINT256 },
+    )
+    public getAgreementStatus(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        const cidKey: u256 = this.cidToKey(cid);
+
+        const creator: u256 = this.agreementCreators.get(cidKey);
+        const exists: boolean = !u256.eq(creator, u256.Zero) && this.recordExists(cidKey, cid);
+        const deadline: u256 = this.agreementDeadlines.get(cidKey);
+        const count: u32 = exists ? this.agreementSignerCounts.get(cidKey).toU32() : 0;
+
+        const signers: u256[] = [];
+        const signedBlocks: u256[] = [];
+        const signedTimestamps: u256[] = [];
+        for (let i: u32 = 0; i < count; i++) {
+            const signer: u256 = this.agreementSigners.get(
+                this.ordinalKey(cidKey, u256.fromU32(i)),
+            );
+            const signKey: u256 = this.ordinalKey(cidKey, signer);
+            signers.push(signer);
+            signedBlocks.push(this.agreementSignedBlocks.get(signKey));
+            signedTimestamps.push(this.agreementSignedTimestamps.get(signKey));
+        }
+
+        const completedAt: u256 = this.agreementCompletedBlocks.get(cidKey);
+        const complete: boolean = exists && !u256.eq(completedAt, u256.Zero);
+        const expired: boolean =
+            exists && !complete && u256.fromU64(Blockchain.block.number) > deadline;
+
+        const response: BytesWriter = new BytesWriter(
+            1 +
+                U256_BYTE_LENGTH * 2 +
+                3 * (2 + U256_BYTE_LENGTH * count) +
+                U256_BYTE_LENGTH +
+                2 +
+                U256_BYTE_LENGTH,
+        );
+        response.writeBoolean(exists);
+        response.writeU256(exists ? creator : u256.Zero);
+        response.writeU256(exists ? deadline : u256.Zero);
+        response.writeU256Array(signers);
+        response.writeU256Array(signedBlocks);
+        response.writeU256Array(signedTimestamps);
+        response.writeU256(exists ? this.agreementSignedCounts.get(cidKey) : u256.Zero);
+        response.writeBoolean(complete);
+        response.writeBoolean(expired);
+        response.writeU256(exists ? completedAt : u256.Zero);
+        return response;
+    }
+
+    /**
+     * Returns the number of agreements an address has been asked to sign.
+     *
+     * @param calldata - Contains: signer (address).
+     * @returns count (u256).
+     */
+    @method({ name: 'signer', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'count', type: ABIDataTypes.UINT256 })
+    public getSignerAgreementCount(calldata: Calldata): BytesWriter {
+        const signer: u256 = this.addressToU256(calldata.readAddress());
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(this.signerAgreementCounts.get(signer));
+        return response;
+    }
+
+    /**
+     * Returns the CID of an agreement an address has been asked to sign, oldest
+     * first. The CID is returned even if a moderator has hidden the file, since
+     * the signer is a party to it.
+     *
+     * @param calldata - Contains: signer (address), index (u256).
+     * @returns cid (string).
+     * @throws {Revert} If index is out of bounds for this signer.
+     */
+    @method(
+        { name: 'signer', type: ABIDataTypes.ADDRESS },
+        { name: 'index', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'cid', type: ABIDataTypes.STRING })
+    public getSignerAgreementByIndex(calldata: Calldata): BytesWriter {
+        const signer: u256 = this.addressToU256(calldata.readAddress());
+        const ordinal: u256 = calldata.readU256();
+
+        if (ordinal >= this.signerAgreementCounts.get(signer)) {
+            throw new Revert('Index out of bounds');
+        }
+
+        const index: u256 = this.signerAgreementIndexes.get(this.ordinalKey(signer, ordinal));
+        const cidBaseKey: u256 = SafeMath.mul(index, u256.fromU32(256));
+        const cid: string = this.readString(this.cidChunks, cidBaseKey);
+
+        const response: BytesWriter = new BytesWriter(4 + String.UTF8.byteLength(cid));
+        response.writeStringWithLength(cid);
+        return response;
+    }
+
+    /**
+     * Ensures a registered file carries an agreement.
+     *
+     * @param cidKey - The storage key derived from the CID.
+     * @param cid - The CID as submitted, checked against the stored one.
+     * @throws {Revert} If the file is not registered or has no agreement.
+     */
+    private ensureAgreementExists(cidKey: u256, cid: string): void {
+        if (
+            u256.eq(this.agreementCreators.get(cidKey), u256.Zero) ||
+            !this.recordExists(cidKey, cid)
+        ) {
+            throw new Revert('Agreement not found');
+        }
+    }
+
+    /**
+     * Flags a file for moderation. Each address can flag a file once.
+     *
+     * @param calldata - Contains: cid (string), reasonCode (uint8, 1..MAX_FLAG_REASON).
+     * @emits FileFlagged
+     * @throws {Revert} If paused, the reason code is invalid, the file is not
+     *                  registered, or the caller already flagged it.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'reasonCode', type: ABIDataTypes.UINT8 },
+    )
+    @emit('FileFlagged')
+    @returns({ name: 'flagCount', type: ABIDataTypes.UINT256 })
+    public flagFile(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const cid: string = calldata.readStringWithLength();
+        const reasonCode: u8 = calldata.readU8();
+
+        if (reasonCode === 0 || reasonCode > MAX_FLAG_REASON) {
+            throw new Revert('Invalid reason code');
+        }
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+
+        const sender: Address = Blockchain.tx.sender;
+        const flagKey: u256 = this.ordinalKey(cidKey, this.addressToU256(sender));
+        if (!u256.eq(this.fileFlags.get(flagKey), u256.Zero)) {
+            throw new Revert('Already flagged');
+        }
+
+        const flagCount: u256 = SafeMath.add(this.fileFlagCounts.get(cidKey), u256.One);
+        this.fileFlags.set(flagKey, u256.fromU32(reasonCode));
+        this.fileFlagCounts.set(cidKey, flagCount);
+
+        this.emitEvent(new FileFlaggedEvent(cidKey, sender, reasonCode));
+
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(flagCount);
+        return response;
+    }
+
+    /**
+     * Returns the reason code an address flagged a file with.
+     *
+     * @param calldata - Contains: cid (string), flagger (address).
+     * @returns reasonCode (uint8, zero if the address has not flagged the file).
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'flagger', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'reasonCode', type: ABIDataTypes.UINT8 })
+    public getFlag(calldata: Calldata): BytesWriter {
+        const cid: string = calldata.readStringWithLength();
+        const flagger: Address = calldata.readAddress();
+
+        const cidKey: u256 = this.cidToKey(cid);
+        const reasonCode: u256 = this.fileFlags.get(
+            this.ordinalKey(cidKey, this.addressToU256(flagger)),
+        );
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeU8(<u8>reasonCode.toU32());
+        return response;
+    }
+
+    /**
+     * Hides or unhides a file in enumeration views. The record stays readable
+     * through getFile. Only a moderator (or the contract owner) can call this,
+     * also while the contract is paused.
+     *
+     * @param calldata - Contains: cid (string), hidden (bool).
+     * @emits FileHidden
+     * @throws {Revert} If the caller is not a moderator, the file is not registered,
+     *                  or it is already in the requested state.
+     */
+    @method(
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'hidden', type: ABIDataTypes.BOOL },
+    )
+    @emit('FileHidden')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public setHidden(calldata: Calldata): BytesWriter {
+        const sender: Address = Blockchain.tx.sender;
+        this.ensureRole(ROLE_MODERATOR, sender);
+
+        const cid: string = calldata.readStringWithLength();
+        const hidden: boolean = calldata.readBoolean();
+
+        const cidKey: u256 = this.cidToKey(cid);
+        this.ensureRecordExists(cidKey, cid);
+
+        if (this.isHidden(cidKey) === hidden) {
+            throw new Revert(hidden ? 'File already hidden' : 'File not hidden');
+        }
+
+        this.fileHidden.set(cidKey, hidden ? u256.One : u256.Zero);
+        this.emitEvent(new FileHiddenEvent(cidKey, hidden, sender));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Checks whether a file is hidden from enumeration views.
+     *
+     * @param cidKey - The storage key derived from the CID.
+     * @returns True if a moderator has hidden the file.
+     */
+    private isHidden(cidKey: u256): boolean {
+        return u256.eq(this.fileHidden.get(cidKey), u256.One);
+    }
+
+    /**
+     * Anchors a Merkle root committing to many CIDs without storing each one.
+     *
+     * @param calldata - Contains: root (bytes32), leafCount (uint256), label (string).
+     * @emits MerkleRootAnchored
+     * @throws {Revert} If contract is paused, inputs invalid, or root already anchored.
+     */
+    @method(
+        { name: 'root', type: ABIDataTypes.BYTES32 },
+        { name: 'leafCount', type: ABIDataTypes.UINT256 },
+        { name: 'label', type: ABIDataTypes.STRING },
+    )
+    @emit('MerkleRootAnchored')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public anchorMerkleRoot(calldata: Calldata): BytesWriter {
+        this.ensureNotPaused();
+
+        const root: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+        const leafCount: u256 = calldata.readU256();
+        const label: string = calldata.readStringWithLength();
+
+        if (u256.eq(root, u256.Zero)) {
+            throw new Revert('Root cannot be zero');
+        }
+        if (u256.eq(leafCount, u256.Zero)) {
+            throw new Revert('Leaf count cannot be zero');
+        }
+        if (!u256.eq(this.merkleLeafCounts.get(root), u256.Zero)) {
+            throw new Revert('Root already anchored');
+        }
+
+        const sender: Address = Blockchain.tx.sender;
+        this.merkleLeafCounts.set(root, leafCount);
+        this.merkleAnchorers.set(root, this.addressToU256(sender));
+        this.merkleBlocks.set(root, u256.fromU64(Blockchain.block.number));
+        this.merkleTimestamps.set(root, u256.fromU64(Blockchain.block.medianTimestamp));
+        this.storeString(this.merkleLabelChunks, root, label);
+
+        this.emitEvent(new MerkleRootAnchoredEvent(root, leafCount, sender));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
+
+    /**
+     * Retrieves an anchored Merkle root record.
+     *
+     * @param calldata - Contains: root (bytes32).
+     * @returns leafCount, label, anchorer, blockNumber, timestamp, exists.
+     */
+    @method({ name: 'root', type: ABIDataTypes.BYTES32 })
+    @returns(
+        { name: 'leafCount', type: ABIDataTypes.UINT256 },
+        { name: 'label', type: ABIDataTypes.STRING },
+        { name: 'anchorer', type: ABIDataTypes.UINT256 },
+        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        { name: 'exists', type: ABIDataTypes.BOOL },
+    )
+    public getMerkleRoot(calldata: Calldata): BytesWriter {
+        const root: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+        const leafCount: u256 = this.merkleLeafCounts.get(root);
+        const exists: boolean = !u256.eq(leafCount, u256.Zero);
+        const label: string = exists ? this.readString(this.merkleLabelChunks, root) : '';
+
+        const response: BytesWriter = new BytesWriter(
+            U256_BYTE_LENGTH + 4 + String.UTF8.byteLength(label) + U256_BYTE_LENGTH * 3 + 1,
+        );
+        response.writeU256(leafCount);
+        response.writeStringWithLength(label);
+        response.writeU256(this.merkleAnchorers.get(root));
+        response.writeU256(this.merkleBlocks.get(root));
+        response.writeU256(this.merkleTimestamps.get(root));
+        response.writeBoolean(exists);
+        return response;
+    }
+
+    /**
+     * Verifies that a CID is included under an anchored Merkle root. Any encoding of
+     * the CID proves the same leaf.
      *
-     * @param map - The storage map to read from.
-     * @param baseKey - The base key for slot 0 (length).
-     * @returns The decoded string.
+     * @param calldata - Contains: root (bytes32), cid (string), proof (bytes[] of 32-byte hashes).
+     * @returns valid (bool) -- false if the root is not anchored, the proof has more
+     *          siblings than a tree of the anchored leafCount, or it does not match.
+     * @throws {Revert} If the proof is too long, contains a malformed sibling hash, or the
+     *                  CID is malformed.
      */
-    private readString(map: StoredMapU256, baseKey: u256): string {
-        const lengthVal: u256 = map.get(baseKey);
-        if (u256.eq(lengthVal, u256.Zero)) {
-            return '';
+    @method(
+        { name: 'root', type: ABIDataTypes.BYTES32 },
+        { name: 'cid', type: ABIDataTypes.STRING },
+        { name: 'proof', type: ABIDataTypes.ARRAY_OF_BYTES },
+    )
+    @returns({ name: 'valid', type: ABIDataTypes.BOOL })
+    public verifyInclusion(calldata: Calldata): BytesWriter {
+        const root: u256 = u256.fromUint8ArrayBE(calldata.readBytes(32));
+        const cid: string = calldata.readStringWithLength();
+        const proof: Uint8Array[] = calldata.readArrayOfBuffer();
+
+        if (proof.length > MAX_PROOF_LENGTH) {
+            throw new Revert('Proof too long');
         }
 
-        const totalLen: i32 = <i32>lengthVal.toU32();
-        const buf: Uint8Array = new Uint8Array(totalLen);
-        const chunks: i32 = (totalLen + 31) / 32;
+        const leafCount: u256 = this.merkleLeafCounts.get(root);
+        if (u256.eq(leafCount, u256.Zero) || proof.length > this.merkleHeight(leafCount)) {
+            const rejected: BytesWriter = new BytesWriter(1);
+            rejected.writeBoolean(false);
+            return rejected;
+        }
 
-        for (let i: i32 = 0; i < chunks; i++) {
-            const slotKey: u256 = SafeMath.add(baseKey, u256.fromU32(<u32>(i + 1)));
-            const slotVal: u256 = map.get(slotKey);
-            const slotBytes: Uint8Array = slotVal.toUint8Array(true); // big-endian
-            const start: i32 = i * 32;
-            const end: i32 = start + 32 > totalLen ? totalLen : start + 32;
-            for (let j: i32 = start; j < end; j++) {
-                unchecked((buf[j] = slotBytes[j - start]));
+        let node: Uint8Array = this.merkleLeaf(cid);
+        for (let i: i32 = 0; i < proof.length; i++) {
+            const sibling: Uint8Array = unchecked(proof[i]);
+            if (sibling.length !== 32) {
+                throw new Revert('Invalid proof element');
             }
+            node = this.merkleNode(node, sibling);
         }
 
-        return String.UTF8.decodeUnsafe(changetype<usize>(buf.buffer), totalLen);
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(u256.eq(u256.fromUint8ArrayBE(node), root));
+        return response;
     }
 
     /**
-     * Registers a new file record on-chain.
+     * Configures the registration fee. Only a fee manager can call this.
+     * A zero token address disables fees.
      *
-     * @param calldata - Contains: cid (string), fileName (string), fileSize (uint256).
-     * @emits FileRegistered
-     * @throws {Revert} If contract is paused, inputs invalid, or file already registered.
+     * @param calldata - Contains: token (address), registrationFee (uint256),
+     *                   perByteFee (uint256).
+     * @emits FeeConfigUpdated
+     * @throws {Revert} If not a fee manager, fees are set without a token, or the token
+     *                  changes while collected fees are still held.
      */
     @method(
-        { name: 'cid', type: ABIDataTypes.STRING },
-        { name: 'fileName', type: ABIDataTypes.STRING },
-        { name: 'fileSize', type: ABIDataTypes.UINT256 },
+        { name: 'token', type: ABIDataTypes.ADDRESS },
+        { name: 'registrationFee', type: ABIDataTypes.UINT256 },
+        { name: 'perByteFee', type: ABIDataTypes.UINT256 },
     )
-    @emit('FileRegistered')
+    @emit('FeeConfigUpdated')
     @returns({ name: 'success', type: ABIDataTypes.BOOL })
-    public registerFile(calldata: Calldata): BytesWriter {
-        this.ensureNotPaused();
+    public setFeeConfig(calldata: Calldata): BytesWriter {
+        this.ensureRole(ROLE_FEE_MANAGER, Blockchain.tx.sender);
 
-        const cid: string = calldata.readStringWithLength();
-        const fileName: string = calldata.readStringWithLength();
-        const fileSize: u256 = calldata.readU256();
+        const token: Address = calldata.readAddress();
+        const registrationFee: u256 = calldata.readU256();
+        const perByteFee: u256 = calldata.readU256();
 
-        // Validate inputs
-        if (cid.length === 0) {
-            throw new Revert('CID cannot be empty');
+        const tokenValue: u256 = this.addressToU256(token);
+        if (
+            u256.eq(tokenValue, u256.Zero) &&
+            (!u256.eq(registrationFee, u256.Zero) || !u256.eq(perByteFee, u256.Zero))
+        ) {
+            throw new Revert('Fee token required');
         }
-        if (fileName.length === 0) {
-            throw new Revert('File name cannot be empty');
-        }
-        if (u256.eq(fileSize, u256.Zero)) {
-            throw new Revert('File size cannot be zero');
+        if (
+            !u256.eq(tokenValue, this.feeToken.value) &&
+            !u256.eq(this.collectedFees.value, u256.Zero)
+        ) {
+            throw new Revert('Withdraw collected fees first');
         }
 
-        // Derive storage key from CID
-        const cidKey: u256 = this.cidToKey(cid);
+        this.feeToken.value = tokenValue;
+        this.registrationFee.value = registrationFee;
+        this.perByteFee.value = perByteFee;
 
-        // Check if already registered
-        const existsVal: u256 = this.fileExists.get(cidKey);
-        if (u256.eq(existsVal, u256.One)) {
-            throw new Revert('File already registered');
-        }
+        this.emitEvent(new FeeConfigUpdatedEvent(token, registrationFee, perByteFee));
 
-        // Store file metadata
-        this.fileSizes.set(cidKey, fileSize);
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
+        return response;
+    }
 
-        // Store uploader address as u256 (Address is a 32-byte u8 array)
-        const sender: Address = Blockchain.tx.sender;
-        const senderBytes: u8[] = new Array<u8>(32);
-        for (let i: i32 = 0; i < 32; i++) {
-            unchecked((senderBytes[i] = sender[i]));
+    /**
+     * Sends all collected fees to the given address. Only a fee manager can call this.
+     *
+     * @param calldata - Contains: to (address).
+     * @emits FeesWithdrawn
+     * @throws {Revert} If not a fee manager, the recipient is zero, or nothing is collected.
+     */
+    @method({ name: 'to', type: ABIDataTypes.ADDRESS })
+    @emit('FeesWithdrawn')
+    @returns({ name: 'amount', type: ABIDataTypes.UINT256 })
+    public withdrawFees(calldata: Calldata): BytesWriter {
+        this.ensureRole(ROLE_FEE_MANAGER, Blockchain.tx.sender);
+
+        const to: Address = calldata.readAddress();
+        if (u256.eq(this.addressToU256(to), u256.Zero)) {
+            throw new Revert('Recipient cannot be zero');
         }
-        this.fileUploaders.set(cidKey, u256.fromBytesBE(senderBytes));
 
-        // Store block number and timestamp
-        this.fileBlocks.set(cidKey, u256.fromU64(Blockchain.block.number));
-        this.fileTimestamps.set(cidKey, u256.fromU64(Blockchain.block.medianTimestamp));
+        const amount: u256 = this.collectedFees.value;
+        if (u256.eq(amount, u256.Zero)) {
+            throw new Revert('No fees to withdraw');
+        }
 
-        // Mark as existing
-        this.fileExists.set(cidKey, u256.One);
+        // Clear the balance before the external call
+        this.collectedFees.value = u256.Zero;
 
-        // Store file name in chunked storage
-        this.storeString(this.fileNameChunks, cidKey, fileName);
+        const token: Address = this.u256ToAddress(this.feeToken.value);
+        TransferHelper.transfer(token, to, amount);
 
-        // Store CID string by index for enumeration
-        const currentIndex: u256 = this.totalFiles.value;
-        // Use index * 256 to space out chunk slots and avoid collisions
-        const cidBaseKey: u256 = SafeMath.mul(currentIndex, u256.fromU32(256));
-        this.storeString(this.cidChunks, cidBaseKey, cid);
+        this.emitEvent(new FeesWithdrawnEvent(token, to, amount));
 
-        // Increment total file count
-        this.totalFiles.value = SafeMath.add(currentIndex, u256.One);
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(amount);
+        return response;
+    }
 
-        // Emit event
-        this.emitEvent(new FileRegisteredEvent(fileSize, sender));
+    /**
+     * Returns the current fee configuration and the fees awaiting withdrawal.
+     *
+     * @returns token, registrationFee, perByteFee, collectedFees.
+     */
+    @method()
+    @returns(
+        { name: 'token', type: ABIDataTypes.ADDRESS },
+        { name: 'registrationFee', type: ABIDataTypes.UINT256 },
+        { name: 'perByteFee', type: ABIDataTypes.UINT256 },
+        { name: 'collectedFees', type: ABIDataTypes.UINT256 },
+    )
+    public getFeeConfig(_calldata: Calldata): BytesWriter {
+        const response: BytesWriter = new BytesWriter(32 + U256_BYTE_LENGTH * 3);
+        response.writeAddress(this.u256ToAddress(this.feeToken.value));
+        response.writeU256(this.registrationFee.value);
+        response.writeU256(this.perByteFee.value);
+        response.writeU256(this.collectedFees.value);
+        return response;
+    }
+
+    /**
+     * Configures the per-uploader registration limits. Only the contract owner can
+     * call this. Zero disables a limit.
+     *
+     * @param calldata - Contains: windowBlocks (uint256), maxPerWindow (uint256),
+     *                   lifetimeQuota (uint256).
+     * @emits RateLimitsUpdated
+     * @throws {Revert} If the caller is not the contract owner, or a per-window maximum
+     *                  is set without a window length.
+     */
+    @method(
+        { name: 'windowBlocks', type: ABIDataTypes.UINT256 },
+        { name: 'maxPerWindow', type: ABIDataTypes.UINT256 },
+        { name: 'lifetimeQuota', type: ABIDataTypes.UINT256 },
+    )
+    @emit('RateLimitsUpdated')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public setRateLimits(calldata: Calldata): BytesWriter {
+        this.ensureContractOwner(Blockchain.tx.sender);
+
+        const windowBlocks: u256 = calldata.readU256();
+        const maxPerWindow: u256 = calldata.readU256();
+        const lifetimeQuota: u256 = calldata.readU256();
+
+        if (!u256.eq(maxPerWindow, u256.Zero) && u256.eq(windowBlocks, u256.Zero)) {
+            throw new Revert('Rate limit window required');
+        }
+
+        this.rateLimitWindow.value = windowBlocks;
+        this.rateLimitMax.value = maxPerWindow;
+        this.lifetimeQuota.value = lifetimeQuota;
+
+        this.emitEvent(new RateLimitsUpdatedEvent(windowBlocks, maxPerWindow, lifetimeQuota));
 
         const response: BytesWriter = new BytesWriter(1);
         response.writeBoolean(true);
@@ -276,155 +4423,287 @@ export class OPScribe extends OP_NET {
     }
 
     /**
-     * Retrieves a file record by its IPFS CID.
+     * Returns the registration limits and how much of them an uploader has used.
+     * Remaining values are u256 max when the limit is disabled.
      *
-     * @param calldata - Contains: cid (string).
-     * @returns fileName, fileSize, uploader, blockNumber, timestamp, exists.
+     * @param calldata - Contains: uploader (address).
+     * @returns windowBlocks, maxPerWindow, usedInWindow, remainingInWindow,
+     *          windowResetsAt (first block of the next window, zero when disabled),
+     *          lifetimeQuota, lifetimeUsed, lifetimeRemaining.
      */
-    @method({ name: 'cid', type: ABIDataTypes.STRING })
+    @method({ name: 'uploader', type: ABIDataTypes.ADDRESS })
     @returns(
-        { name: 'fileName', type: ABIDataTypes.STRING },
-        { name: 'fileSize', type: ABIDataTypes.UINT256 },
-        { name: 'uploader', type: ABIDataTypes.UINT256 },
-        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
-        { name: 'timestamp', type: ABIDataTypes.UINT256 },
-        { name: 'exists', type: ABIDataTypes.BOOL },
+        { name: 'windowBlocks', type: ABIDataTypes.UINT256 },
+        { name: 'maxPerWindow', type: ABIDataTypes.UINT256 },
+        { name: 'usedInWindow', type: ABIDataTypes.UINT256 },
+        { name: 'remainingInWindow', type: ABIDataTypes.UINT256 },
+        { name: 'windowResetsAt', type: ABIDataTypes.UINT256 },
+        { name: 'lifetimeQuota', type: ABIDataTypes.UINT256 },
+        { name: 'lifetimeUsed', type: ABIDataTypes.UINT256 },
+        { name: 'lifetimeRemaining', type: ABIDataTypes.UINT256 },
     )
-    public getFile(calldata: Calldata): BytesWriter {
-        const cid: string = calldata.readStringWithLength();
-        const cidKey: u256 = this.cidToKey(cid);
+    public getQuota(calldata: Calldata): BytesWriter {
+        const uploader: u256 = this.addressToU256(calldata.readAddress());
 
-        const existsVal: u256 = this.fileExists.get(cidKey);
-        const exists: boolean = u256.eq(existsVal, u256.One);
+        const windowBlocks: u256 = this.rateLimitWindow.value;
+        const maxPerWindow: u256 = this.rateLimitMax.value;
+        let usedInWindow: u256 = u256.Zero;
+        let remainingInWindow: u256 = u256.Max;
+        let windowResetsAt: u256 = u256.Zero;
+        if (!u256.eq(maxPerWindow, u256.Zero)) {
+            const window: u256 = this.currentWindow();
+            usedInWindow = this.windowRegistrationCounts.get(this.ordinalKey(uploader, window));
+            remainingInWindow = u256.ge(usedInWindow, maxPerWindow)
+                ? u256.Zero
+                : SafeMath.sub(maxPerWindow, usedInWindow);
+            windowResetsAt = SafeMath.mul(SafeMath.add(window, u256.One), windowBlocks);
+        }
 
-        if (!exists) {
-            const response: BytesWriter = new BytesWriter(
-                4 + U256_BYTE_LENGTH * 4 + 1,
-            );
-            response.writeStringWithLength('');
-            response.writeU256(u256.Zero);
-            response.writeU256(u256.Zero);
-            response.writeU256(u256.Zero);
-            response.writeU256(u256.Zero);
-            response.writeBoolean(false);
-            return response;
+        const quota: u256 = this.lifetimeQuota.value;
+        const lifetimeUsed: u256 = this.lifetimeRegistrations(uploader);
+        let lifetimeRemaining: u256 = u256.Max;
+        if (!u256.eq(quota, u256.Zero)) {
+            lifetimeRemaining = u256.ge(lifetimeUsed, quota)
+                ? u256.Zero
+                : SafeMath.sub(quota, lifetimeUsed);
         }
 
-        const fileName: string = this.readString(this.fileNameChunks, cidKey);
-        const fileSize: u256 = this.fileSizes.get(cidKey);
-        const uploader: u256 = this.fileUploaders.get(cidKey);
-        const blockNumber: u256 = this.fileBlocks.get(cidKey);
-        const timestamp: u256 = this.fileTimestamps.get(cidKey);
+        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 8);
+        response.writeU256(windowBlocks);
+        response.writeU256(maxPerWindow);
+        response.writeU256(usedInWindow);
+        response.writeU256(remainingInWindow);
+        response.writeU256(windowResetsAt);
+        response.writeU256(quota);
+        response.writeU256(lifetimeUsed);
+        response.writeU256(lifetimeRemaining);
+        return response;
+    }
 
-        const response: BytesWriter = new BytesWriter(
-            4 + fileName.length + U256_BYTE_LENGTH * 4 + 1,
-        );
-        response.writeStringWithLength(fileName);
-        response.writeU256(fileSize);
-        response.writeU256(uploader);
-        response.writeU256(blockNumber);
-        response.writeU256(timestamp);
+    /**
+     * Nominates a new contract owner, who must call acceptOwnership to take over.
+     * Only the contract owner can call this; the zero address cancels a pending
+     * nomination.
+     *
+     * @param calldata - Contains: newOwner (address).
+     * @emits OwnershipTransferStarted
+     * @throws {Revert} If the caller is not the contract owner or nominates themselves.
+     */
+    @method({ name: 'newOwner', type: ABIDataTypes.ADDRESS })
+    @emit('OwnershipTransferStarted')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public transferOwnership(calldata: Calldata): BytesWriter {
+        const sender: Address = Blockchain.tx.sender;
+        this.ensureContractOwner(sender);
+
+        const newOwner: Address = calldata.readAddress();
+        if (newOwner.equals(sender)) {
+            throw new Revert('Already the contract owner');
+        }
+
+        this.pendingContractOwner.value = this.addressToU256(newOwner);
+        this.emitEvent(new OwnershipTransferStartedEvent(sender, newOwner));
+
+        const response: BytesWriter = new BytesWriter(1);
         response.writeBoolean(true);
         return response;
     }
 
     /**
-     * Checks whether a file CID has been registered.
+     * Accepts a pending contract ownership nomination.
      *
-     * @param calldata - Contains: cid (string).
-     * @returns exists (bool).
+     * @emits OwnershipTransferred
+     * @throws {Revert} If the caller is not the nominated owner.
      */
-    @method({ name: 'cid', type: ABIDataTypes.STRING })
-    @returns({ name: 'exists', type: ABIDataTypes.BOOL })
-    public checkFileExists(calldata: Calldata): BytesWriter {
-        const cid: string = calldata.readStringWithLength();
-        const cidKey: u256 = this.cidToKey(cid);
-        const existsVal: u256 = this.fileExists.get(cidKey);
+    @method()
+    @emit('OwnershipTransferred')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public acceptOwnership(_calldata: Calldata): BytesWriter {
+        const sender: Address = Blockchain.tx.sender;
+        const senderValue: u256 = this.addressToU256(sender);
+        const pending: u256 = this.pendingContractOwner.value;
+        if (u256.eq(pending, u256.Zero) || !u256.eq(pending, senderValue)) {
+            throw new Revert('Caller is not the pending owner');
+        }
+
+        const previousOwner: Address = this.u256ToAddress(this.contractOwner.value);
+        this.contractOwner.value = senderValue;
+        this.pendingContractOwner.value = u256.Zero;
+
+        this.emitEvent(new OwnershipTransferredEvent(previousOwner, sender));
 
         const response: BytesWriter = new BytesWriter(1);
-        response.writeBoolean(u256.eq(existsVal, u256.One));
+        response.writeBoolean(true);
         return response;
     }
 
     /**
-     * Returns the total number of registered files.
+     * Grants or revokes an administrative role. Only the contract owner can call this.
      *
-     * @returns count (uint256).
+     * @param calldata - Contains: role (uint8; 1 pauser, 2 fee manager, 3 moderator),
+     *                   account (address), enabled (bool).
+     * @emits RoleUpdated
+     * @throws {Revert} If the caller is not the contract owner or the role is unknown.
      */
-    @method()
-    @returns({ name: 'count', type: ABIDataTypes.UINT256 })
-    public getTotalFiles(_calldata: Calldata): BytesWriter {
-        const response: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
-        response.writeU256(this.totalFiles.value);
+    @method(
+        { name: 'role', type: ABIDataTypes.UINT8 },
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+        { name: 'enabled', type: ABIDataTypes.BOOL },
+    )
+    @emit('RoleUpdated')
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public setRole(calldata: Calldata): BytesWriter {
+        this.ensureContractOwner(Blockchain.tx.sender);
+
+        const role: u8 = calldata.readU8();
+        const account: Address = calldata.readAddress();
+        const enabled: boolean = calldata.readBoolean();
+
+        this.roleMembers(role).set(this.addressToU256(account), enabled ? u256.One : u256.Zero);
+        this.emitEvent(new RoleUpdatedEvent(role, account, enabled));
+
+        const response: BytesWriter = new BytesWriter(1);
+        response.writeBoolean(true);
         return response;
     }
 
     /**
-     * Returns file CID and full metadata by sequential index.
+     * Returns the contract owner and the pending owner nomination.
      *
-     * @param calldata - Contains: index (uint256).
-     * @returns cid, fileName, fileSize, uploader, blockNumber, timestamp.
-     * @throws {Revert} If index is out of bounds.
+     * @returns owner (address), pendingOwner (address; zero if none).
      */
-    @method({ name: 'index', type: ABIDataTypes.UINT256 })
+    @method()
     @returns(
-        { name: 'cid', type: ABIDataTypes.STRING },
-        { name: 'fileName', type: ABIDataTypes.STRING },
-        { name: 'fileSize', type: ABIDataTypes.UINT256 },
-        { name: 'uploader', type: ABIDataTypes.UINT256 },
-        { name: 'blockNumber', type: ABIDataTypes.UINT256 },
-        { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        { name: 'owner', type: ABIDataTypes.ADDRESS },
+        { name: 'pendingOwner', type: ABIDataTypes.ADDRESS },
     )
-    public getFileByIndex(calldata: Calldata): BytesWriter {
-        const index: u256 = calldata.readU256();
+    public getOwner(_calldata: Calldata): BytesWriter {
+        const response: BytesWriter = new BytesWriter(32 * 2);
+        response.writeAddress(this.u256ToAddress(this.contractOwner.value));
+        response.writeAddress(this.u256ToAddress(this.pendingContractOwner.value));
+        return response;
+    }
 
-        if (index >= this.totalFiles.value) {
-            throw new Revert('Index out of bounds');
-        }
+    /**
+     * Returns the administrative rights an address holds. The contract owner
+     * holds every role; isOwner alone also covers setRole, setRateLimits,
+     * transferOwnership, changeMetadata and setBaseURI.
+     *
+     * @param calldata - Contains: account (address).
+     * @returns isOwner, isPauser, isFeeManager, isModerator (bools).
+     */
+    @method({ name: 'account', type: ABIDataTypes.ADDRESS })
+    @returns(
+        { name: 'isOwner', type: ABIDataTypes.BOOL },
+        { name: 'isPauser', type: ABIDataTypes.BOOL },
+        { name: 'isFeeManager', type: ABIDataTypes.BOOL },
+        { name: 'isModerator', type: ABIDataTypes.BOOL },
+    )
+    public getRoles(calldata: Calldata): BytesWriter {
+        const account: Address = calldata.readAddress();
 
-        const cidBaseKey: u256 = SafeMath.mul(index, u256.fromU32(256));
-        const cid: string = this.readString(this.cidChunks, cidBaseKey);
-        const cidKey: u256 = this.cidToKey(cid);
+        const response: BytesWriter = new BytesWriter(4);
+        response.writeBoolean(this.isContractOwner(account));
+        response.writeBoolean(this.hasRole(ROLE_PAUSER, account));
+        response.writeBoolean(this.hasRole(ROLE_FEE_MANAGER, account));
+        response.writeBoolean(this.hasRole(ROLE_MODERATOR, account));
+        return response;
+    }
 
-        const fileName: string = this.readString(this.fileNameChunks, cidKey);
-        const fileSize: u256 = this.fileSizes.get(cidKey);
-        const uploader: u256 = this.fileUploaders.get(cidKey);
-        const blockNumber: u256 = this.fileBlocks.get(cidKey);
-        const timestamp: u256 = this.fileTimestamps.get(cidKey);
+    /**
+     * Checks whether an address is the contract owner.
+     *
+     * @param account - The address to check.
+     * @returns True if the address owns the contract.
+     */
+    private isContractOwner(account: Address): boolean {
+        return u256.eq(this.contractOwner.value, this.addressToU256(account));
+    }
 
-        const response: BytesWriter = new BytesWriter(
-            4 + cid.length + 4 + fileName.length + U256_BYTE_LENGTH * 4,
+    /**
+     * Checks whether an address holds a role, directly or as the contract owner.
+     *
+     * @param role - ROLE_PAUSER, ROLE_FEE_MANAGER or ROLE_MODERATOR.
+     * @param account - The address to check.
+     * @returns True if the address may act with the role.
+     */
+    private hasRole(role: u8, account: Address): boolean {
+        return (
+            this.isContractOwner(account) ||
+            u256.eq(this.roleMembers(role).get(this.addressToU256(account)), u256.One)
         );
-        response.writeStringWithLength(cid);
-        response.writeStringWithLength(fileName);
-        response.writeU256(fileSize);
-        response.writeU256(uploader);
-        response.writeU256(blockNumber);
-        response.writeU256(timestamp);
-        return response;
     }
 
     /**
-     * Pauses the contract. Only the deployer can call this.
+     * Returns the member set of a role.
+     *
+     * @param role - ROLE_PAUSER, ROLE_FEE_MANAGER or ROLE_MODERATOR.
+     * @returns The map of u256-encoded addresses to 0 or 1.
+     * @throws {Revert} If the role is unknown.
+     */
+    private roleMembers(role: u8): StoredMapU256 {
+        if (role === ROLE_PAUSER) return this.pausers;
+        if (role === ROLE_FEE_MANAGER) return this.feeManagers;
+        if (role === ROLE_MODERATOR) return this.moderators;
+        throw new Revert('Invalid role');
+    }
+
+    /**
+     * Ensures the caller is the contract owner.
+     *
+     * @param caller - The address to check.
+     * @throws {Revert} If the caller does not own the contract.
+     */
+    private ensureContractOwner(caller: Address): void {
+        if (!this.isContractOwner(caller)) {
+            throw new Revert('Caller is not the contract owner');
+        }
+    }
+
+    /**
+     * Ensures the caller holds a role.
      *
-     * @throws {Revert} If the caller is not the deployer.
+     * @param role - ROLE_PAUSER, ROLE_FEE_MANAGER or ROLE_MODERATOR.
+     * @param caller - The address to check.
+     * @throws {Revert} If the caller does not hold the role.
+     */
+    private ensureRole(role: u8, caller: Address): void {
+        if (!this.hasRole(role, caller)) {
+            if (role === ROLE_PAUSER) throw new Revert('Caller is not a pauser');
+            if (role === ROLE_FEE_MANAGER) throw new Revert('Caller is not a fee manager');
+            throw new Revert('Caller is not a moderator');
+        }
+    }
+
+    /**
+     * Pauses the contract. Only a pauser can call this.
+     *
+     * @emits Paused
+     * @throws {Revert} If the caller is not a pauser.
      */
     @method()
+    @emit('Paused')
     public pause(_calldata: Calldata): BytesWriter {
-        this.onlyDeployer(Blockchain.tx.sender);
+        const sender: Address = Blockchain.tx.sender;
+        this.ensureRole(ROLE_PAUSER, sender);
         this.paused.value = true;
+        this.emitEvent(new PausedEvent(sender));
         return new BytesWriter(0);
     }
 
     /**
-     * Unpauses the contract. Only the deployer can call this.
+     * Unpauses the contract. Only a pauser can call this.
      *
-     * @throws {Revert} If the caller is not the deployer.
+     * @emits Unpaused
+     * @throws {Revert} If the caller is not a pauser.
      */
     @method()
+    @emit('Unpaused')
     public unpause(_calldata: Calldata): BytesWriter {
-        this.onlyDeployer(Blockchain.tx.sender);
+        const sender: Address = Blockchain.tx.sender;
+        this.ensureRole(ROLE_PAUSER, sender);
         this.paused.value = false;
+        this.emitEvent(new UnpausedEvent(sender));
         return new BytesWriter(0);
     }
 
@@ -0,0 +1,333 @@
+import { Revert } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * CID decoding and canonicalization.
+ *
+ * Accepts CIDv0 (base58btc "Qm...") and CIDv1 in base32 ("b"/"B"), base58btc ("z")
+ * or base16 ("f"/"F") multibase, and reduces every form to the canonical CIDv1
+ * binary: 0x01 || codec varint || multihash. A CIDv0 is the dag-pb CIDv1 with
+ * the same sha2-256 digest, so "Qm..." and its "bafy..." form decode to the same
+ * bytes. Mirrored off-chain by shared/cid.ts.
+ */
+
+/** Multicodec content types accepted in a CID. */
+const CODEC_RAW: u32 = 0x55;
+const CODEC_DAG_PB: u32 = 0x70;
+const CODEC_DAG_CBOR: u32 = 0x71;
+const CODEC_DAG_JSON: u32 = 0x0129;
+
+/** Multihash functions accepted in a CID. */
+const MULTIHASH_SHA2_256: u32 = 0x12;
+const MULTIHASH_SHA2_512: u32 = 0x13;
+const MULTIHASH_BLAKE3: u32 = 0x1e;
+const MULTIHASH_BLAKE2B_256: u32 = 0xb220;
+
+/** Longest accepted CID string (base16 of the largest supported CID is 145). */
+export const MAX_CID_LENGTH: i32 = 160;
+
+/** A CIDv0 is always 46 base58btc characters starting with "Qm". */
+const CIDV0_LENGTH: i32 = 46;
+
+/** Varints are limited to 4 bytes (28 bits), enough for every supported code. */
+const MAX_VARINT_BYTES: i32 = 4;
+
+const BASE58_ALPHABET: string = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE32_ALPHABET: string = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/**
+ * Sequential reader over decoded CID bytes.
+ */
+class CidReader {
+    private readonly bytes: Uint8Array;
+    private offset: i32 = 0;
+
+    public constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+    }
+
+    /**
+     * Reads an unsigned LEB128 varint in its minimal encoding.
+     *
+     * @returns The decoded value.
+     * @throws {Revert} If the varint is truncated, too long or not minimal.
+     */
+    public readVarint(): u32 {
+        let value: u32 = 0;
+        for (let i: i32 = 0; i < MAX_VARINT_BYTES; i++) {
+            if (this.offset >= this.bytes.length) {
+                throw new Revert('Invalid CID');
+            }
+            const byte: u8 = this.bytes[this.offset++];
+            value |= (<u32>(byte & 0x7f)) << (<u32>(i * 7));
+            if ((byte & 0x80) === 0) {
+                if (byte === 0 && i > 0) {
+                    throw new Revert('Invalid CID');
+                }
+                return value;
+            }
+        }
+        throw new Revert('Invalid CID');
+    }
+
+    /**
+     * @returns Number of bytes not read yet.
+     */
+    public remaining(): i32 {
+        return this.bytes.length - this.offset;
+    }
+}
+
+/**
+ * Decodes a CID string into its canonical CIDv1 binary form.
+ *
+ * @param cid - The IPFS Content Identifier string.
+ * @returns 0x01 || codec varint || multihash.
+ * @throws {Revert} If the CID is malformed or uses an unsupported encoding,
+ *         version, codec or hash function.
+ */
+export function decodeCid(cid: string): Uint8Array {
+    const length: i32 = cid.length;
+    if (length === 0) {
+        throw new Revert('CID cannot be empty');
+    }
+    if (length > MAX_CID_LENGTH) {
+        throw new Revert('CID too long');
+    }
+
+    // CIDv0: a bare base58btc sha2-256 multihash, implicitly dag-pb
+    if (length === CIDV0_LENGTH && cid.charCodeAt(0) === 0x51 && cid.charCodeAt(1) === 0x6d) {
+        const multihash: Uint8Array = decodeBase58(cid, 0);
+        if (
+            multihash.length !== 34 ||
+            <u32>multihash[0] !== MULTIHASH_SHA2_256 ||
+            multihash[1] !== 32
+        ) {
+            throw new Revert('Invalid CID');
+        }
+        const canonical: Uint8Array = new Uint8Array(36);
+        canonical[0] = 0x01;
+        canonical[1] = <u8>CODEC_DAG_PB;
+        canonical.set(multihash, 2);
+        return canonical;
+    }
+
+    const prefix: i32 = cid.charCodeAt(0);
+    let bytes: Uint8Array;
+    if (prefix === 0x62) {
+        bytes = decodeBase32(cid, false);
+    } else if (prefix === 0x42) {
+        bytes = decodeBase32(cid, true);
+    } else if (prefix === 0x7a) {
+        bytes = decodeBase58(cid, 1);
+    } else if (prefix === 0x66) {
+        bytes = decodeBase16(cid, false);
+    } else if (prefix === 0x46) {
+        bytes = decodeBase16(cid, true);
+    } else {
+        throw new Revert('Unsupported CID multibase');
+    }
+
+    const reader: CidReader = new CidReader(bytes);
+    if (reader.readVarint() !== 1) {
+        throw new Revert('Unsupported CID version');
+    }
+
+    const codec: u32 = reader.readVarint();
+    if (
+        codec !== CODEC_RAW &&
+        codec !== CODEC_DAG_PB &&
+        codec !== CODEC_DAG_CBOR &&
+        codec !== CODEC_DAG_JSON
+    ) {
+        throw new Revert('Unsupported CID codec');
+    }
+
+    const hashCode: u32 = reader.readVarint();
+    const digestLength: u32 = reader.readVarint();
+    if (digestLength !== multihashDigestLength(hashCode)) {
+        throw new Revert('Unsupported CID multihash');
+    }
+    if (reader.remaining() !== <i32>digestLength) {
+        throw new Revert('Invalid CID');
+    }
+
+    // Minimal varints and an exact digest length leave a single binary form
+    return bytes;
+}
+
+/**
+ * Checks whether two CID strings name the same content, e.g. a CIDv0 and its
+ * CIDv1 form.
+ *
+ * @param a - First CID string.
+ * @param b - Second CID string.
+ * @returns True if both decode to the same canonical bytes.
+ * @throws {Revert} If either CID is malformed.
+ */
+export function cidEquals(a: string, b: string): boolean {
+    if (a == b) {
+        return true;
+    }
+    const x: Uint8Array = decodeCid(a);
+    const y: Uint8Array = decodeCid(b);
+    if (x.length !== y.length) {
+        return false;
+    }
+    for (let i: i32 = 0; i < x.length; i++) {
+        if (x[i] !== y[i]) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Returns the digest length required for a supported multihash function.
+ *
+ * @param hashCode - The multihash function code.
+ * @returns The digest length in bytes, or 0 if the function is not supported.
+ */
+function multihashDigestLength(hashCode: u32): u32 {
+    if (hashCode === MULTIHASH_SHA2_256) return 32;
+    if (hashCode === MULTIHASH_SHA2_512) return 64;
+    if (hashCode === MULTIHASH_BLAKE3) return 32;
+    if (hashCode === MULTIHASH_BLAKE2B_256) return 32;
+    return 0;
+}
+
+/**
+ * Decodes base58btc (Bitcoin alphabet).
+ *
+ * @param input - The encoded string.
+ * @param start - Index of the first encoded character (skips a multibase prefix).
+ * @returns The decoded bytes.
+ * @throws {Revert} If the input is empty or contains a character outside the alphabet.
+ */
+function decodeBase58(input: string, start: i32): Uint8Array {
+    const length: i32 = input.length;
+    if (start >= length) {
+        throw new Revert('Invalid CID encoding');
+    }
+
+    // Each leading '1' encodes one zero byte
+    let zeros: i32 = 0;
+    let i: i32 = start;
+    while (i < length && input.charCodeAt(i) === 0x31) {
+        zeros++;
+        i++;
+    }
+
+    // log(58) / log(256) ~= 0.733, rounded up
+    const size: i32 = ((length - i) * 733) / 1000 + 1;
+    const buffer: Uint8Array = new Uint8Array(size);
+    let used: i32 = 0;
+    for (; i < length; i++) {
+        let carry: u32 = <u32>alphabetIndex(BASE58_ALPHABET, input.charCodeAt(i));
+        let j: i32 = 0;
+        let k: i32 = size - 1;
+        while ((carry !== 0 || j < used) && k >= 0) {
+            carry += 58 * <u32>buffer[k];
+            buffer[k] = <u8>(carry & 0xff);
+            carry >>= 8;
+            j++;
+            k--;
+        }
+        used = j;
+    }
+
+    const output: Uint8Array = new Uint8Array(zeros + used);
+    output.set(buffer.subarray(size - used), zeros);
+    return output;
+}
+
+/**
+ * Decodes unpadded RFC 4648 base32 after a one-character multibase prefix.
+ *
+ * @param input - The encoded string, including its prefix.
+ * @param upper - Whether the alphabet is uppercase ("B") instead of lowercase ("b").
+ * @returns The decoded bytes.
+ * @throws {Revert} If a character is outside the alphabet or the trailing bits are not zero.
+ */
+function decodeBase32(input: string, upper: boolean): Uint8Array {
+    const length: i32 = input.length - 1;
+    const output: Uint8Array = new Uint8Array((length * 5) / 8);
+    let buffer: u32 = 0;
+    let bits: u32 = 0;
+    let written: i32 = 0;
+    for (let i: i32 = 1; i <= length; i++) {
+        let code: i32 = input.charCodeAt(i);
+        if (upper && code >= 0x41 && code <= 0x5a) {
+            code += 0x20;
+        } else if (upper && code >= 0x61 && code <= 0x7a) {
+            throw new Revert('Invalid CID encoding');
+        }
+        buffer = ((buffer << 5) | <u32>alphabetIndex(BASE32_ALPHABET, code)) & 0x1fff;
+        bits += 5;
+        if (bits >= 8) {
+            bits -= 8;
+            output[written++] = <u8>(buffer >> bits);
+        }
+    }
+    if (bits >= 5 || (buffer & ((<u32>1 << bits) - 1)) !== 0) {
+        throw new Revert('Invalid CID encoding');
+    }
+    return output;
+}
+
+/**
+ * Decodes base16 after a one-character multibase prefix.
+ *
+ * @param input - The encoded string, including its prefix.
+ * @param upper - Whether the digits are uppercase ("F") instead of lowercase ("f").
+ * @returns The decoded bytes.
+ * @throws {Revert} If the length is odd or a character is not a hex digit of the right case.
+ */
+function decodeBase16(input: string, upper: boolean): Uint8Array {
+    const length: i32 = input.length - 1;
+    if (length % 2 !== 0) {
+        throw new Revert('Invalid CID encoding');
+    }
+    const output: Uint8Array = new Uint8Array(length / 2);
+    for (let i: i32 = 0; i < output.length; i++) {
+        const high: i32 = hexValue(input.charCodeAt(1 + i * 2), upper);
+        const low: i32 = hexValue(input.charCodeAt(2 + i * 2), upper);
+        output[i] = <u8>((high << 4) | low);
+    }
+    return output;
+}
+
+/**
+ * Decodes one hex digit.
+ *
+ * @param code - The character code.
+ * @param upper - Whether letters must be uppercase.
+ * @returns The digit value.
+ * @throws {Revert} If the character is not a hex digit of the right case.
+ */
+function hexValue(code: i32, upper: boolean): i32 {
+    if (code >= 0x30 && code <= 0x39) {
+        return code - 0x30;
+    }
+    const a: i32 = upper ? 0x41 : 0x61;
+    if (code >= a && code < a + 6) {
+        return code - a + 10;
+    }
+    throw new Revert('Invalid CID encoding');
+}
+
+/**
+ * Finds a character in a multibase alphabet.
+ *
+ * @param alphabet - The alphabet string.
+ * @param code - The character code to look up.
+ * @returns The character's position.
+ * @throws {Revert} If the character is not in the alphabet.
+ */
+function alphabetIndex(alphabet: string, code: i32): i32 {
+    for (let i: i32 = 0; i < alphabet.length; i++) {
+        if (alphabet.charCodeAt(i) === code) {
+            return i;
+        }
+    }
+    throw new Revert('Invalid CID encoding');
+}
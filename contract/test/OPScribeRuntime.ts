@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { resolve } from 'node:path';
+import {
+    Blockchain,
+    BytecodeManager,
+    CallResponse,
+    ContractRuntime,
+    OP20,
+} from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import { toCanonicalCid } from '../../shared/cid.js';
+
+/** Compiled contract produced by `npm run build`, relative to the package root. */
+const WASM_PATH: string = resolve('build/OPScribe.wasm');
+
+/** Test fee token produced by `npm run build:token`, relative to the package root. */
+const FEE_TOKEN_PATH: string = resolve('build/FeeToken.wasm');
+
+/** Gas limit for each call; covers a full registerFiles batch so tests fail on reverts. */
+const GAS_LIMIT: bigint = 500_000_000_000n;
+
+/** Writes a method's arguments after its selector. */
+export type ArgumentWriter = (writer: BinaryWriter) => void;
+
+/** OP_Scribe running in the unit-test VM, called by method signature. */
+export class OPScribeRuntime extends ContractRuntime {
+    public constructor(deployer: Address, address: Address) {
+        super({ address, deployer, gasLimit: GAS_LIMIT });
+    }
+
+    /**
+     * Calls a contract method as `sender`. State changes are kept when the
+     * call succeeds. Not named `call`: ContractRuntime.call carries the
+     * contract's own calls to other contracts, such as the fee token.
+     *
+     * @param signature - Method signature, e.g. "registerFile(string,string,uint256)".
+     * @param write - Writes the arguments.
+     * @param sender - Caller and transaction origin.
+     * @returns The raw call response; check `error` for reverts.
+     */
+    public async callMethod(
+        signature: string,
+        write: ArgumentWriter,
+        sender: Address,
+    ): Promise<CallResponse> {
+        const writer: BinaryWriter = new BinaryWriter();
+        writer.writeSelector(Number(`0x${this.abiCoder.encodeSelector(signature)}`));
+        write(writer);
+
+        Blockchain.msgSender = sender;
+        Blockchain.txOrigin = sender;
+        return this.execute({ calldata: writer.getBuffer(), sender, txOrigin: sender });
+    }
+
+    /**
+     * Calls a method that must succeed.
+     *
+     * @param signature - Method signature.
+     * @param write - Writes the arguments.
+     * @param sender - Caller and transaction origin.
+     * @returns A reader over the return data.
+     */
+    public async expectSuccess(
+        signature: string,
+        write: ArgumentWriter,
+        sender: Address,
+    ): Promise<BinaryReader> {
+        const response: CallResponse = await this.callMethod(signature, write, sender);
+        assert.equal(response.error, undefined, `${signature}: ${response.error?.message}`);
+        return new BinaryReader(response.response);
+    }
+
+    /**
+     * Calls a method that must revert with a matching message.
+     *
+     * @param signature - Method signature.
+     * @param write - Writes the arguments.
+     * @param sender - Caller and transaction origin.
+     * @param message - Expected revert message.
+     */
+    public async expectRevert(
+        signature: string,
+        write: ArgumentWriter,
+        sender: Address,
+        message: RegExp,
+    ): Promise<void> {
+        const response: CallResponse = await this.callMethod(signature, write, sender);
+        assert.ok(response.error, `${signature}: expected a revert matching ${message}`);
+        assert.match(response.error.message, message);
+    }
+
+    protected override defineRequiredBytecodes(): void {
+        BytecodeManager.loadBytecode(WASM_PATH, this.address);
+    }
+
+    protected override handleError(error: Error): Error {
+        return new Error(`(OPScribe) ${error.message}`);
+    }
+}
+
+/**
+ * Resets the test chain and deploys a fresh contract.
+ *
+ * @param deployer - The deployer, who becomes the contract owner.
+ * @returns The deployed contract.
+ */
+export async function deployOPScribe(deployer: Address): Promise<OPScribeRuntime> {
+    Blockchain.dispose();
+    Blockchain.clearContracts();
+    await Blockchain.init();
+    Blockchain.blockNumber = 1n;
+
+    const contract: OPScribeRuntime = new OPScribeRuntime(
+        deployer,
+        Blockchain.generateRandomAddress(),
+    );
+    Blockchain.register(contract);
+    await contract.init();
+    return contract;
+}
+
+/**
+ * Deploys the test fee token on the current test chain. Call after deployOPScribe,
+ * which resets the chain.
+ *
+ * @param deployer - The deployer, who can mint.
+ * @returns The deployed token.
+ */
+export async function deployFeeToken(deployer: Address): Promise<OP20> {
+    const token: OP20 = new OP20({
+        address: Blockchain.generateRandomAddress(),
+        deployer,
+        file: FEE_TOKEN_PATH,
+        decimals: 8,
+        gasLimit: GAS_LIMIT,
+    });
+    Blockchain.register(token);
+    await token.init();
+    return token;
+}
+
+/**
+ * Writes the arguments of registerFile.
+ *
+ * @param cid - The CID.
+ * @param fileName - The file name.
+ * @param fileSize - The file size in bytes.
+ * @returns The argument writer.
+ */
+export function registerFileArgs(cid: string, fileName: string, fileSize: bigint): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(cid);
+        writer.writeStringWithLength(fileName);
+        writer.writeU256(fileSize);
+    };
+}
+
+/**
+ * Writes a single CID argument.
+ *
+ * @param cid - The CID.
+ * @returns The argument writer.
+ */
+export function cidArg(cid: string): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(cid);
+    };
+}
+
+/**
+ * Builds a distinct raw CIDv1 for tests that need many files.
+ *
+ * @param n - Any number; different numbers give different CIDs.
+ * @returns The CID in canonical base32 form.
+ */
+export function numberedCid(n: number): string {
+    const digest: string = createHash('sha256').update(`file ${n}`).digest('hex');
+    return toCanonicalCid(`f01551220${digest}`);
+}
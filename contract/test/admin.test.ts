@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import { ArgumentWriter, deployOPScribe, OPScribeRuntime } from './OPScribeRuntime.js';
+
+/**
+ * Writes the arguments of changeMetadata.
+ *
+ * @returns The argument writer.
+ */
+function metadataArgs(): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength('ipfs://icon');
+        writer.writeStringWithLength('ipfs://banner');
+        writer.writeStringWithLength('Proof certificates');
+        writer.writeStringWithLength('https://example.com');
+    };
+}
+
+/**
+ * Writes a single address argument.
+ *
+ * @param account - The address.
+ * @returns The argument writer.
+ */
+function addressArg(account: Address): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeAddress(account);
+    };
+}
+
+/** Role ids accepted by setRole (match the contract). */
+const ROLE_PAUSER: number = 1;
+const ROLE_MODERATOR: number = 3;
+
+/**
+ * Writes the arguments of setRole.
+ *
+ * @param role - The role id.
+ * @param account - The address granted or revoked.
+ * @param enabled - Whether to grant the role.
+ * @returns The argument writer.
+ */
+function roleArgs(role: number, account: Address, enabled: boolean): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeU8(role);
+        writer.writeAddress(account);
+        writer.writeBoolean(enabled);
+    };
+}
+
+describe('contract ownership', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const bob: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        await contract.expectSuccess('transferOwnership(address)', addressArg(bob), deployer);
+        await contract.expectSuccess('acceptOwnership()', (): void => undefined, bob);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('moves changeMetadata from the deployer to the new owner', async () => {
+        await contract.expectRevert(
+            'changeMetadata(string,string,string,string)',
+            metadataArgs(),
+            deployer,
+            /Caller is not the contract owner/,
+        );
+        await contract.expectSuccess(
+            'changeMetadata(string,string,string,string)',
+            metadataArgs(),
+            bob,
+        );
+    });
+
+    it('moves setBaseURI from the deployer to the new owner', async () => {
+        const baseUri: ArgumentWriter = (writer: BinaryWriter): void => {
+            writer.writeStringWithLength('ipfs://collection/');
+        };
+        await contract.expectRevert(
+            'setBaseURI(string)',
+            baseUri,
+            deployer,
+            /Caller is not the contract owner/,
+        );
+        await contract.expectSuccess('setBaseURI(string)', baseUri, bob);
+    });
+});
+
+describe('roles', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const carol: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Reads the rights an address holds.
+     *
+     * @param account - The address.
+     * @returns isOwner, isPauser, isFeeManager, isModerator.
+     */
+    async function roles(account: Address): Promise<boolean[]> {
+        const result: BinaryReader = await contract.expectSuccess(
+            'getRoles(address)',
+            addressArg(account),
+            account,
+        );
+        return [
+            result.readBoolean(),
+            result.readBoolean(),
+            result.readBoolean(),
+            result.readBoolean(),
+        ];
+    }
+
+    it('grants and revokes a role', async () => {
+        await contract.expectSuccess(
+            'setRole(uint8,address,bool)',
+            roleArgs(ROLE_PAUSER, carol, true),
+            deployer,
+        );
+        assert.deepEqual(await roles(carol), [false, true, false, false]);
+        await contract.expectSuccess('pause()', (): void => undefined, carol);
+        await contract.expectSuccess('unpause()', (): void => undefined, carol);
+
+        await contract.expectSuccess(
+            'setRole(uint8,address,bool)',
+            roleArgs(ROLE_PAUSER, carol, false),
+            deployer,
+        );
+        assert.deepEqual(await roles(carol), [false, false, false, false]);
+        await contract.expectRevert(
+            'pause()',
+            (): void => undefined,
+            carol,
+            /Caller is not a pauser/,
+        );
+    });
+
+    it('lets only the contract owner change roles', async () => {
+        await contract.expectRevert(
+            'setRole(uint8,address,bool)',
+            roleArgs(ROLE_MODERATOR, carol, true),
+            carol,
+            /Caller is not the contract owner/,
+        );
+        await contract.expectRevert(
+            'setRole(uint8,address,bool)',
+            roleArgs(4, carol, true),
+            deployer,
+            /Invalid role/,
+        );
+    });
+
+    it('moves every role with contract ownership', async () => {
+        assert.deepEqual(await roles(deployer), [true, true, true, true]);
+
+        await contract.expectSuccess('transferOwnership(address)', addressArg(carol), deployer);
+        assert.deepEqual(await roles(carol), [false, false, false, false]);
+        await contract.expectSuccess('acceptOwnership()', (): void => undefined, carol);
+
+        assert.deepEqual(await roles(carol), [true, true, true, true]);
+        assert.deepEqual(await roles(deployer), [false, false, false, false]);
+    });
+});
@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/**
+ * Writes the arguments of createAgreement.
+ *
+ * @param signers - The required signers.
+ * @param deadline - Last block signatures are accepted in.
+ * @returns The argument writer.
+ */
+function agreementArgs(signers: Address[], deadline: bigint): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(HELLO_RAW_CID);
+        writer.writeAddressArray(signers);
+        writer.writeU256(deadline);
+    };
+}
+
+describe('agreements', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const bob: Address = Blockchain.generateRandomAddress();
+    const carol: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        Blockchain.blockNumber = 100n;
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'contract.pdf', 11n),
+            alice,
+        );
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Signs the agreement.
+     *
+     * @param signer - The signing party.
+     * @returns Whether every party has now signed.
+     */
+    async function sign(signer: Address): Promise<boolean> {
+        const result: BinaryReader = await contract.expectSuccess(
+            'signAgreement(string)',
+            cidArg(HELLO_RAW_CID),
+            signer,
+        );
+        return result.readBoolean();
+    }
+
+    it('completes once every required party has signed', async () => {
+        await contract.expectSuccess(
+            'createAgreement(string,address[],uint256)',
+            agreementArgs([bob, carol], 200n),
+            alice,
+        );
+
+        Blockchain.blockNumber = 120n;
+        assert.equal(await sign(bob), false);
+        await contract.expectRevert(
+            'signAgreement(string)',
+            cidArg(HELLO_RAW_CID),
+            bob,
+            /Already signed/,
+        );
+        Blockchain.blockNumber = 130n;
+        assert.equal(await sign(carol), true);
+
+        const status: BinaryReader = await contract.expectSuccess(
+            'getAgreementStatus(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        assert.equal(status.readBoolean(), true);
+        assert.equal(status.readU256(), BigInt(alice.toHex()));
+        assert.equal(status.readU256(), 200n);
+        assert.deepEqual(status.readU256Array(), [BigInt(bob.toHex()), BigInt(carol.toHex())]);
+        assert.deepEqual(status.readU256Array(), [120n, 130n]);
+        status.readU256Array();
+        assert.equal(status.readU256(), 2n);
+        assert.equal(status.readBoolean(), true);
+        assert.equal(status.readBoolean(), false);
+        assert.equal(status.readU256(), 130n);
+    });
+
+    it('refuses signatures from other parties and after the deadline', async () => {
+        await contract.expectSuccess(
+            'createAgreement(string,address[],uint256)',
+            agreementArgs([bob], 200n),
+            alice,
+        );
+        await contract.expectRevert(
+            'signAgreement(string)',
+            cidArg(HELLO_RAW_CID),
+            carol,
+            /Caller is not a required signer/,
+        );
+
+        Blockchain.blockNumber = 201n;
+        await contract.expectRevert(
+            'signAgreement(string)',
+            cidArg(HELLO_RAW_CID),
+            bob,
+            /Agreement expired/,
+        );
+    });
+
+    it('rejects invalid signer lists and a second agreement', async () => {
+        await contract.expectRevert(
+            'createAgreement(string,address[],uint256)',
+            agreementArgs([], 200n),
+            alice,
+            /Agreement needs at least one signer/,
+        );
+        await contract.expectRevert(
+            'createAgreement(string,address[],uint256)',
+            agreementArgs([bob, bob], 200n),
+            alice,
+            /Duplicate signer/,
+        );
+        await contract.expectRevert(
+            'createAgreement(string,address[],uint256)',
+            agreementArgs([bob], 100n),
+            alice,
+            /Deadline must be in the future/,
+        );
+
+        await contract.expectSuccess(
+            'createAgreement(string,address[],uint256)',
+            agreementArgs([bob], 200n),
+            alice,
+        );
+        await contract.expectRevert(
+            'createAgreement(string,address[],uint256)',
+            agreementArgs([carol], 200n),
+            alice,
+            /Agreement already exists/,
+        );
+    });
+});
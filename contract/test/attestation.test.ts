@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/**
+ * Hashes an off-chain attestation statement.
+ *
+ * @param statement - The statement text.
+ * @returns The 32-byte statement hash.
+ */
+function statementHash(statement: string): Uint8Array {
+    return new Uint8Array(createHash('sha256').update(statement).digest());
+}
+
+/**
+ * Writes the arguments of attestFile.
+ *
+ * @param hash - The statement hash.
+ * @returns The argument writer.
+ */
+function attestArgs(hash: Uint8Array): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(HELLO_RAW_CID);
+        writer.writeBytes(hash);
+    };
+}
+
+/**
+ * Writes the arguments of getAttestation.
+ *
+ * @param index - Position of the attestation, oldest first.
+ * @returns The argument writer.
+ */
+function attestationIndexArgs(index: bigint): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(HELLO_RAW_CID);
+        writer.writeU256(index);
+    };
+}
+
+describe('attestations', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const auditor: Address = Blockchain.generateRandomAddress();
+    const notary: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('records attestations from any address in order', async () => {
+        Blockchain.blockNumber = 10n;
+        const first: BinaryReader = await contract.expectSuccess(
+            'attestFile(string,bytes32)',
+            attestArgs(statementHash('audited')),
+            auditor,
+        );
+        assert.equal(first.readU256(), 0n);
+        const second: BinaryReader = await contract.expectSuccess(
+            'attestFile(string,bytes32)',
+            attestArgs(statementHash('notarized')),
+            notary,
+        );
+        assert.equal(second.readU256(), 1n);
+
+        const count: BinaryReader = await contract.expectSuccess(
+            'getAttestationCount(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        assert.equal(count.readU256(), 2n);
+
+        const attestation: BinaryReader = await contract.expectSuccess(
+            'getAttestation(string,uint256)',
+            attestationIndexArgs(1n),
+            alice,
+        );
+        assert.equal(attestation.readU256(), BigInt(notary.toHex()));
+        assert.deepEqual(attestation.readBytes(32), statementHash('notarized'));
+        assert.equal(attestation.readU256(), 10n);
+    });
+
+    it('rejects an index past the last attestation', async () => {
+        await contract.expectRevert(
+            'getAttestation(string,uint256)',
+            attestationIndexArgs(0n),
+            alice,
+            /Index out of bounds/,
+        );
+    });
+
+    it('rejects a zero statement hash and attesting a revoked file', async () => {
+        await contract.expectRevert(
+            'attestFile(string,bytes32)',
+            attestArgs(new Uint8Array(32)),
+            auditor,
+            /Statement hash cannot be zero/,
+        );
+
+        await contract.expectSuccess(
+            'revokeFile(string,string)',
+            (writer: BinaryWriter): void => {
+                writer.writeStringWithLength(HELLO_RAW_CID);
+                writer.writeStringWithLength('leaked');
+            },
+            alice,
+        );
+        await contract.expectRevert(
+            'attestFile(string,bytes32)',
+            attestArgs(statementHash('audited')),
+            auditor,
+            /Cannot attest a revoked file/,
+        );
+    });
+});
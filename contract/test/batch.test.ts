@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    numberedCid,
+    OPScribeRuntime,
+} from './OPScribeRuntime.js';
+
+/** Most entries registerFiles accepts (matches the contract). */
+const MAX_BATCH_SIZE: number = 50;
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/**
+ * Writes the arguments of registerFiles.
+ *
+ * @param cids - The CIDs.
+ * @param fileNames - One file name per CID.
+ * @param fileSizes - One file size per CID.
+ * @returns The argument writer.
+ */
+function batchArgs(cids: string[], fileNames: string[], fileSizes: bigint[]): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringArray(cids);
+        writer.writeStringArray(fileNames);
+        writer.writeU256Array(fileSizes);
+    };
+}
+
+/**
+ * Writes registerFiles arguments for `count` distinct files.
+ *
+ * @param count - Number of entries.
+ * @returns The argument writer.
+ */
+function numberedBatchArgs(count: number): ArgumentWriter {
+    const indexes: number[] = Array.from({ length: count }, (_: unknown, i: number): number => i);
+    return batchArgs(
+        indexes.map((i: number): string => numberedCid(i)),
+        indexes.map((i: number): string => `file-${i}.txt`),
+        indexes.map((): bigint => 1n),
+    );
+}
+
+describe('registerFiles', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Reads the total number of registered files.
+     *
+     * @returns The file count.
+     */
+    async function totalFiles(): Promise<bigint> {
+        const total: BinaryReader = await contract.expectSuccess(
+            'getTotalFiles()',
+            (): void => undefined,
+            alice,
+        );
+        return total.readU256();
+    }
+
+    it('registers every entry of a full batch', async () => {
+        await contract.expectSuccess(
+            'registerFiles(string[],string[],uint256[])',
+            numberedBatchArgs(MAX_BATCH_SIZE),
+            alice,
+        );
+
+        assert.equal(await totalFiles(), BigInt(MAX_BATCH_SIZE));
+        const last: BinaryReader = await contract.expectSuccess(
+            'checkFileExists(string)',
+            cidArg(numberedCid(MAX_BATCH_SIZE - 1)),
+            alice,
+        );
+        assert.equal(last.readBoolean(), true);
+    });
+
+    it('rejects a batch over MAX_BATCH_SIZE', async () => {
+        await contract.expectRevert(
+            'registerFiles(string[],string[],uint256[])',
+            numberedBatchArgs(MAX_BATCH_SIZE + 1),
+            alice,
+            /Batch too large/,
+        );
+    });
+
+    it('rejects an empty batch and mismatched arrays', async () => {
+        await contract.expectRevert(
+            'registerFiles(string[],string[],uint256[])',
+            batchArgs([], [], []),
+            alice,
+            /Batch cannot be empty/,
+        );
+        await contract.expectRevert(
+            'registerFiles(string[],string[],uint256[])',
+            batchArgs([HELLO_RAW_CID], ['hello.txt', 'extra.txt'], [11n]),
+            alice,
+            /Batch array length mismatch/,
+        );
+    });
+
+    it('registers nothing when one entry is invalid', async () => {
+        await contract.expectRevert(
+            'registerFiles(string[],string[],uint256[])',
+            batchArgs([HELLO_RAW_CID, HELLO_RAW_CID], ['a.txt', 'b.txt'], [11n, 11n]),
+            alice,
+            /File already registered/,
+        );
+
+        assert.equal(await totalFiles(), 0n);
+        const first: BinaryReader = await contract.expectSuccess(
+            'checkFileExists(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        assert.equal(first.readBoolean(), false);
+    });
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    numberedCid,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/**
+ * Writes a single token id argument.
+ *
+ * @param tokenId - The certificate token id.
+ * @returns The argument writer.
+ */
+function tokenIdArg(tokenId: bigint): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeU256(tokenId);
+    };
+}
+
+describe('registerFileWithCertificate', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(numberedCid(0), 'plain.txt', 1n),
+            alice,
+        );
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('mints a certificate whose id is the file index', async () => {
+        const minted: BinaryReader = await contract.expectSuccess(
+            'registerFileWithCertificate(string,string,uint256,bytes32)',
+            (writer: BinaryWriter): void => {
+                registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n)(writer);
+                writer.writeBytes(new Uint8Array(32));
+            },
+            alice,
+        );
+        assert.equal(minted.readU256(), 1n);
+
+        const owner: BinaryReader = await contract.expectSuccess(
+            'ownerOf(uint256)',
+            tokenIdArg(1n),
+            alice,
+        );
+        assert.equal(owner.readAddress().toHex(), alice.toHex());
+
+        const uri: BinaryReader = await contract.expectSuccess(
+            'tokenURI(uint256)',
+            tokenIdArg(1n),
+            alice,
+        );
+        assert.equal(uri.readStringWithLength(), `ipfs://${HELLO_RAW_CID}`);
+
+        const file: BinaryReader = await contract.expectSuccess(
+            'getFile(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        file.readStringWithLength();
+        file.readU256();
+        file.readU256();
+        file.readU256();
+        file.readU256();
+        file.readBoolean();
+        file.readBytes(32);
+        file.readU8();
+        file.readStringWithLength();
+        file.readStringWithLength();
+        file.readU256();
+        file.readU256();
+        assert.equal(file.readBoolean(), true);
+        assert.equal(file.readU256(), 1n);
+    });
+
+    it('has no certificate for a file registered without one', async () => {
+        await contract.expectRevert(
+            'tokenURI(uint256)',
+            tokenIdArg(0n),
+            alice,
+            /Token does not exist/,
+        );
+    });
+});
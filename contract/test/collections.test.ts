@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    deployOPScribe,
+    numberedCid,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/**
+ * Writes the arguments of addToCollection.
+ *
+ * @param collectionId - The collection.
+ * @param cid - The file to add.
+ * @returns The argument writer.
+ */
+function addArgs(collectionId: bigint, cid: string): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeU256(collectionId);
+        writer.writeStringWithLength(cid);
+    };
+}
+
+describe('collections', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const bob: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(numberedCid(0), 'alice.txt', 1n),
+            alice,
+        );
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(numberedCid(1), 'bob.txt', 1n),
+            bob,
+        );
+        const created: BinaryReader = await contract.expectSuccess(
+            'createCollection(string,string)',
+            (writer: BinaryWriter): void => {
+                writer.writeStringWithLength('Contracts');
+                writer.writeStringWithLength('Signed contracts');
+            },
+            alice,
+        );
+        assert.equal(created.readU256(), 1n);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('adds files the owner holds and lists them', async () => {
+        const added: BinaryReader = await contract.expectSuccess(
+            'addToCollection(uint256,string)',
+            addArgs(1n, numberedCid(0)),
+            alice,
+        );
+        assert.equal(added.readU256(), 1n);
+
+        const collection: BinaryReader = await contract.expectSuccess(
+            'getCollection(uint256)',
+            (writer: BinaryWriter): void => writer.writeU256(1n),
+            alice,
+        );
+        assert.equal(collection.readBoolean(), true);
+        assert.equal(collection.readU256(), BigInt(alice.toHex()));
+        assert.equal(collection.readStringWithLength(), 'Contracts');
+        assert.equal(collection.readStringWithLength(), 'Signed contracts');
+        assert.equal(collection.readU256(), 1n);
+
+        const file: BinaryReader = await contract.expectSuccess(
+            'getCollectionFileByIndex(uint256,uint256)',
+            (writer: BinaryWriter): void => {
+                writer.writeU256(1n);
+                writer.writeU256(0n);
+            },
+            alice,
+        );
+        assert.equal(file.readStringWithLength(), numberedCid(0));
+
+        const owned: BinaryReader = await contract.expectSuccess(
+            'getOwnerCollectionByIndex(address,uint256)',
+            (writer: BinaryWriter): void => {
+                writer.writeAddress(alice);
+                writer.writeU256(0n);
+            },
+            alice,
+        );
+        assert.equal(owned.readU256(), 1n);
+    });
+
+    it('rejects adding a file twice', async () => {
+        await contract.expectSuccess(
+            'addToCollection(uint256,string)',
+            addArgs(1n, numberedCid(0)),
+            alice,
+        );
+        await contract.expectRevert(
+            'addToCollection(uint256,string)',
+            addArgs(1n, numberedCid(0)),
+            alice,
+            /File already in collection/,
+        );
+    });
+
+    it('keeps others out of the collection and their files out of it', async () => {
+        await contract.expectRevert(
+            'addToCollection(uint256,string)',
+            addArgs(1n, numberedCid(1)),
+            bob,
+            /Caller is not the collection owner/,
+        );
+        await contract.expectRevert(
+            'addToCollection(uint256,string)',
+            addArgs(1n, numberedCid(1)),
+            alice,
+            /Caller is not the file owner/,
+        );
+        await contract.expectRevert(
+            'addToCollection(uint256,string)',
+            addArgs(2n, numberedCid(0)),
+            alice,
+            /Collection not found/,
+        );
+    });
+});
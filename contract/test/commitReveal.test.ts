@@ -0,0 +1,311 @@
+import assert from 'node:assert/strict';
+import { createHash, randomBytes } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import { parseCid } from '../../shared/cid.js';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** A CIDv0 and the same CID as base32 CIDv1. */
+const V0_CID: string = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+const V0_AS_V1_CID: string = 'bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34';
+
+/** Blocks until a commitment expires, and before its committer can reserve the CID again. */
+const COMMITMENT_EXPIRY: bigint = 144n;
+const RESERVATION_COOLDOWN: bigint = 144n;
+
+/**
+ * Computes sha256 over the concatenated inputs.
+ *
+ * @param parts - The byte strings to hash.
+ * @returns The 32-byte digest.
+ */
+function sha256(...parts: Uint8Array[]): Uint8Array {
+    const hash = createHash('sha256');
+    parts.forEach((part: Uint8Array): void => {
+        hash.update(part);
+    });
+    return hash.digest();
+}
+
+/**
+ * Writes the arguments of commitRegistration for a CID.
+ *
+ * @param cid - The CID to commit to.
+ * @param sender - The committer.
+ * @param salt - The 32-byte salt.
+ * @param reservedCid - The CID whose key is reserved; defaults to `cid`.
+ * @returns The argument writer.
+ */
+function commitArgs(
+    cid: string,
+    sender: Address,
+    salt: Uint8Array,
+    reservedCid: string = cid,
+): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeBytes(sha256(new TextEncoder().encode(cid), sender, salt));
+        writer.writeBytes(sha256(parseCid(reservedCid).bytes));
+    };
+}
+
+/**
+ * Writes the arguments of revealRegistration.
+ *
+ * @param cid - The committed CID.
+ * @param salt - The salt used in the commitment.
+ * @returns The argument writer.
+ */
+function revealArgs(cid: string, salt: Uint8Array): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        registerFileArgs(cid, 'hello.txt', 11n)(writer);
+        writer.writeBytes(salt);
+    };
+}
+
+describe('commit-reveal registration', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const mallory: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+    let salt: Uint8Array;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        salt = randomBytes(32);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Reads the current owner of a registered CID.
+     *
+     * @param cid - The CID.
+     * @returns The u256-encoded owner.
+     */
+    async function ownerOf(cid: string): Promise<bigint> {
+        const file: BinaryReader = await contract.expectSuccess(
+            'getFile(string)',
+            cidArg(cid),
+            alice,
+        );
+        file.readStringWithLength();
+        file.readU256();
+        file.readU256();
+        file.readU256();
+        file.readU256();
+        file.readBoolean();
+        file.readBytes(32);
+        file.readU8();
+        file.readStringWithLength();
+        file.readStringWithLength();
+        return file.readU256();
+    }
+
+    it('registers the CID for the committer on reveal', async () => {
+        await contract.expectSuccess(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(HELLO_RAW_CID, alice, salt),
+            alice,
+        );
+        await contract.expectRevert(
+            'revealRegistration(string,string,uint256,bytes32)',
+            revealArgs(HELLO_RAW_CID, salt),
+            alice,
+            /Reveal too early/,
+        );
+
+        Blockchain.mineBlock();
+        await contract.expectSuccess(
+            'revealRegistration(string,string,uint256,bytes32)',
+            revealArgs(HELLO_RAW_CID, salt),
+            alice,
+        );
+        assert.equal(await ownerOf(HELLO_RAW_CID), BigInt(alice.toHex()));
+    });
+
+    it('keeps a third party from registering the CID between commit and reveal', async () => {
+        await contract.expectSuccess(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(V0_CID, alice, salt),
+            alice,
+        );
+        Blockchain.mineBlock();
+
+        // Mallory copies the CID from the pending reveal, in any encoding
+        await contract.expectRevert(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(V0_CID, 'copy.txt', 1n),
+            mallory,
+            /CID reserved by a pending commitment/,
+        );
+        await contract.expectRevert(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(V0_AS_V1_CID, 'copy.txt', 1n),
+            mallory,
+            /CID reserved by a pending commitment/,
+        );
+
+        await contract.expectSuccess(
+            'revealRegistration(string,string,uint256,bytes32)',
+            revealArgs(V0_CID, salt),
+            alice,
+        );
+        assert.equal(await ownerOf(V0_CID), BigInt(alice.toHex()));
+    });
+
+    it('lets a second address reserve the same key without blocking the first', async () => {
+        // Mallory copies the key from alice's pending commit and front-runs it
+        await contract.expectSuccess(
+            'commitRegistration(bytes32,bytes32)',
+            (writer: BinaryWriter): void => {
+                writer.writeBytes(randomBytes(32));
+                writer.writeBytes(sha256(parseCid(HELLO_RAW_CID).bytes));
+            },
+            mallory,
+        );
+        await contract.expectSuccess(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(HELLO_RAW_CID, alice, salt),
+            alice,
+        );
+        Blockchain.mineBlock();
+
+        // Without the CID mallory's commitment cannot be revealed, so alice's wins
+        await contract.expectSuccess(
+            'revealRegistration(string,string,uint256,bytes32)',
+            revealArgs(HELLO_RAW_CID, salt),
+            alice,
+        );
+        assert.equal(await ownerOf(HELLO_RAW_CID), BigInt(alice.toHex()));
+    });
+
+    it('keeps a committer from re-reserving a CID right after it expires', async () => {
+        await contract.expectSuccess(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(HELLO_RAW_CID, mallory, randomBytes(32)),
+            mallory,
+        );
+        Blockchain.blockNumber += COMMITMENT_EXPIRY + 1n;
+
+        await contract.expectRevert(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(HELLO_RAW_CID, mallory, randomBytes(32)),
+            mallory,
+            /CID reserved too recently/,
+        );
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+    });
+
+    it('lets a committer reserve a CID again after the cooldown', async () => {
+        await contract.expectSuccess(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(HELLO_RAW_CID, alice, randomBytes(32)),
+            alice,
+        );
+        Blockchain.blockNumber += COMMITMENT_EXPIRY + RESERVATION_COOLDOWN + 1n;
+
+        await contract.expectSuccess(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(HELLO_RAW_CID, alice, salt),
+            alice,
+        );
+    });
+
+    it('counts a commitment, not its reveal, against the rate limit', async () => {
+        await contract.expectSuccess(
+            'setRateLimits(uint256,uint256,uint256)',
+            (writer: BinaryWriter): void => {
+                writer.writeU256(1000n);
+                writer.writeU256(1n);
+                writer.writeU256(0n);
+            },
+            deployer,
+        );
+        await contract.expectSuccess(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(HELLO_RAW_CID, alice, salt),
+            alice,
+        );
+        await contract.expectRevert(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(V0_CID, alice, randomBytes(32)),
+            alice,
+            /Rate limit exceeded/,
+        );
+
+        Blockchain.mineBlock();
+        await contract.expectSuccess(
+            'revealRegistration(string,string,uint256,bytes32)',
+            revealArgs(HELLO_RAW_CID, salt),
+            alice,
+        );
+    });
+
+    it('releases the reservation when the commitment expires', async () => {
+        await contract.expectSuccess(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(HELLO_RAW_CID, alice, salt),
+            alice,
+        );
+        Blockchain.blockNumber += COMMITMENT_EXPIRY + 1n;
+
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'late.txt', 11n),
+            mallory,
+        );
+        await contract.expectRevert(
+            'revealRegistration(string,string,uint256,bytes32)',
+            revealArgs(HELLO_RAW_CID, salt),
+            alice,
+            /Commitment expired/,
+        );
+    });
+
+    it('rejects a reveal for a CID the commitment did not reserve', async () => {
+        await contract.expectSuccess(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(HELLO_RAW_CID, alice, salt, V0_CID),
+            alice,
+        );
+        Blockchain.mineBlock();
+
+        await contract.expectRevert(
+            'revealRegistration(string,string,uint256,bytes32)',
+            revealArgs(HELLO_RAW_CID, salt),
+            alice,
+            /Commitment does not reserve this CID/,
+        );
+    });
+
+    it('refuses to commit to a CID that is already registered', async () => {
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            mallory,
+        );
+        await contract.expectRevert(
+            'commitRegistration(bytes32,bytes32)',
+            commitArgs(HELLO_RAW_CID, alice, salt),
+            alice,
+            /File already registered/,
+        );
+    });
+});
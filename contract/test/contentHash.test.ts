@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import { ArgumentWriter, deployOPScribe, numberedCid, OPScribeRuntime } from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** SHA-256 of the bytes "hello world". */
+const HELLO_CONTENT_HASH: Uint8Array = createHash('sha256').update('hello world').digest();
+
+/**
+ * Writes the arguments of registerFileWithHash.
+ *
+ * @param cid - The CID.
+ * @param contentHash - SHA-256 of the raw file bytes.
+ * @returns The argument writer.
+ */
+function withHashArgs(cid: string, contentHash: Uint8Array): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(cid);
+        writer.writeStringWithLength('hello.txt');
+        writer.writeU256(11n);
+        writer.writeBytes(contentHash);
+    };
+}
+
+/**
+ * Writes a single content hash argument.
+ *
+ * @param contentHash - SHA-256 of the raw file bytes.
+ * @returns The argument writer.
+ */
+function contentHashArg(contentHash: Uint8Array): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeBytes(contentHash);
+    };
+}
+
+describe('registerFileWithHash', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('finds the record from the content hash', async () => {
+        await contract.expectSuccess(
+            'registerFileWithHash(string,string,uint256,bytes32)',
+            withHashArgs(HELLO_RAW_CID, HELLO_CONTENT_HASH),
+            alice,
+        );
+
+        const record: BinaryReader = await contract.expectSuccess(
+            'getFileByContentHash(bytes32)',
+            contentHashArg(HELLO_CONTENT_HASH),
+            alice,
+        );
+        assert.equal(record.readStringWithLength(), HELLO_RAW_CID);
+        assert.equal(record.readStringWithLength(), 'hello.txt');
+        assert.equal(record.readU256(), 11n);
+        assert.equal(record.readU256(), BigInt(alice.toHex()));
+        record.readU256();
+        record.readU256();
+        assert.equal(record.readBoolean(), true);
+    });
+
+    it('reports an unknown content hash as absent', async () => {
+        const record: BinaryReader = await contract.expectSuccess(
+            'getFileByContentHash(bytes32)',
+            contentHashArg(HELLO_CONTENT_HASH),
+            alice,
+        );
+        assert.equal(record.readStringWithLength(), '');
+        record.readStringWithLength();
+        record.readU256();
+        record.readU256();
+        record.readU256();
+        record.readU256();
+        assert.equal(record.readBoolean(), false);
+    });
+
+    it('rejects a zero hash and a hash registered under another CID', async () => {
+        await contract.expectRevert(
+            'registerFileWithHash(string,string,uint256,bytes32)',
+            withHashArgs(HELLO_RAW_CID, new Uint8Array(32)),
+            alice,
+            /Content hash cannot be zero/,
+        );
+
+        await contract.expectSuccess(
+            'registerFileWithHash(string,string,uint256,bytes32)',
+            withHashArgs(HELLO_RAW_CID, HELLO_CONTENT_HASH),
+            alice,
+        );
+        await contract.expectRevert(
+            'registerFileWithHash(string,string,uint256,bytes32)',
+            withHashArgs(numberedCid(1), HELLO_CONTENT_HASH),
+            alice,
+            /Content already registered/,
+        );
+    });
+});
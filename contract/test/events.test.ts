@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader } from '@btc-vision/transaction';
+import {
+    cidArg,
+    deployOPScribe,
+    numberedCid,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** ABI generated by `npm run build`, relative to the package root. */
+const ABI_PATH: string = resolve('abis/OPScribe.abi.json');
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** A CIDv0 and the same CID as base32 CIDv1. */
+const V0_CID: string = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+const V0_AS_V1_CID: string = 'bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34';
+
+/** An event as declared in the generated ABI. */
+interface AbiEvent {
+    readonly name: string;
+    readonly type: string;
+    readonly values: readonly { readonly name: string; readonly type: string }[];
+}
+
+/**
+ * Returns the fields of an event declared in the generated ABI, as
+ * "name:TYPE" in emission order.
+ *
+ * @param name - The event name.
+ * @returns The declared fields.
+ */
+function abiEventFields(name: string): string[] {
+    const abi: { events: AbiEvent[] } = JSON.parse(readFileSync(ABI_PATH, 'utf8'));
+    const event: AbiEvent | undefined = abi.events.find(
+        (entry: AbiEvent): boolean => entry.name === name,
+    );
+    assert.ok(event, `${name} is not declared in the ABI`);
+    return event.values.map((value): string => `${value.name}:${value.type}`);
+}
+
+describe('indexer support', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('declares the FileRegistered, Paused and Unpaused layouts indexers decode', () => {
+        assert.deepEqual(abiEventFields('FileRegistered'), [
+            'cid:STRING',
+            'cidKey:UINT256',
+            'index:UINT256',
+            'blockNumber:UINT64',
+            'nameLength:UINT32',
+            'fileSize:UINT256',
+            'uploader:ADDRESS',
+        ]);
+        assert.deepEqual(abiEventFields('Paused'), ['account:ADDRESS']);
+        assert.deepEqual(abiEventFields('Unpaused'), ['account:ADDRESS']);
+    });
+
+    it('returns the index of a CID in any encoding', async () => {
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(numberedCid(0), 'first.txt', 1n),
+            alice,
+        );
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(V0_CID, 'second.txt', 1n),
+            alice,
+        );
+
+        const index: BinaryReader = await contract.expectSuccess(
+            'getIndexOfCid(string)',
+            cidArg(V0_AS_V1_CID),
+            alice,
+        );
+        assert.equal(index.readBoolean(), true);
+        assert.equal(index.readU256(), 1n);
+
+        const missing: BinaryReader = await contract.expectSuccess(
+            'getIndexOfCid(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        assert.equal(missing.readBoolean(), false);
+        assert.equal(missing.readU256(), 0n);
+    });
+
+    it('blocks registration while paused', async () => {
+        await contract.expectSuccess('pause()', (): void => undefined, deployer);
+        const paused: BinaryReader = await contract.expectSuccess(
+            'getIsPaused()',
+            (): void => undefined,
+            alice,
+        );
+        assert.equal(paused.readBoolean(), true);
+        await contract.expectRevert(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+            /Contract paused/,
+        );
+
+        await contract.expectSuccess('unpause()', (): void => undefined, deployer);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+    });
+
+    it('lets only a pauser pause', async () => {
+        await contract.expectRevert(
+            'pause()',
+            (): void => undefined,
+            alice,
+            /Caller is not a pauser/,
+        );
+    });
+});
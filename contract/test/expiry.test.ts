@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/**
+ * Writes the arguments of registerFileWithExpiry.
+ *
+ * @param validUntil - Last block at which the proof is active.
+ * @returns The argument writer.
+ */
+function expiringArgs(validUntil: bigint): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        registerFileArgs(HELLO_RAW_CID, 'tender.pdf', 11n)(writer);
+        writer.writeBytes(new Uint8Array(32));
+        writer.writeU256(validUntil);
+    };
+}
+
+/**
+ * Writes the arguments of renewFile.
+ *
+ * @param newExpiry - The new last valid block, or zero for a permanent proof.
+ * @returns The argument writer.
+ */
+function renewArgs(newExpiry: bigint): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(HELLO_RAW_CID);
+        writer.writeU256(newExpiry);
+    };
+}
+
+describe('expiring proofs', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const mallory: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        Blockchain.blockNumber = 100n;
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Reads the expiry fields of the record.
+     *
+     * @returns validUntil and whether the record has expired.
+     */
+    async function expiry(): Promise<{ validUntil: bigint; expired: boolean }> {
+        const file: BinaryReader = await contract.expectSuccess(
+            'getFile(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        file.readStringWithLength();
+        file.readU256();
+        file.readU256();
+        file.readU256();
+        file.readU256();
+        file.readBoolean();
+        file.readBytes(32);
+        file.readU8();
+        file.readStringWithLength();
+        file.readStringWithLength();
+        file.readU256();
+        file.readU256();
+        file.readBoolean();
+        file.readU256();
+        file.readBoolean();
+        file.readU256();
+        return { validUntil: file.readU256(), expired: file.readBoolean() };
+    }
+
+    it('expires after the last valid block and revives on renewal', async () => {
+        await contract.expectSuccess(
+            'registerFileWithExpiry(string,string,uint256,bytes32,uint256)',
+            expiringArgs(110n),
+            alice,
+        );
+
+        Blockchain.blockNumber = 110n;
+        assert.deepEqual(await expiry(), { validUntil: 110n, expired: false });
+        Blockchain.blockNumber = 111n;
+        assert.deepEqual(await expiry(), { validUntil: 110n, expired: true });
+
+        await contract.expectSuccess('renewFile(string,uint256)', renewArgs(200n), alice);
+        assert.deepEqual(await expiry(), { validUntil: 200n, expired: false });
+
+        await contract.expectSuccess('renewFile(string,uint256)', renewArgs(0n), alice);
+        Blockchain.blockNumber = 1000n;
+        assert.deepEqual(await expiry(), { validUntil: 0n, expired: false });
+    });
+
+    it('rejects an expiry that is not in the future', async () => {
+        await contract.expectRevert(
+            'registerFileWithExpiry(string,string,uint256,bytes32,uint256)',
+            expiringArgs(100n),
+            alice,
+            /Expiry must be in the future/,
+        );
+    });
+
+    it('rejects renewals that do not extend the proof', async () => {
+        await contract.expectSuccess(
+            'registerFileWithExpiry(string,string,uint256,bytes32,uint256)',
+            expiringArgs(150n),
+            alice,
+        );
+        await contract.expectRevert(
+            'renewFile(string,uint256)',
+            renewArgs(150n),
+            alice,
+            /New expiry must be later/,
+        );
+        await contract.expectRevert(
+            'renewFile(string,uint256)',
+            renewArgs(200n),
+            mallory,
+            /Caller is not the file owner/,
+        );
+    });
+
+    it('rejects renewing a permanent proof', async () => {
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+        await contract.expectRevert(
+            'renewFile(string,uint256)',
+            renewArgs(200n),
+            alice,
+            /File does not expire/,
+        );
+    });
+});
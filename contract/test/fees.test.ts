@@ -0,0 +1,173 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain, OP20 } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployFeeToken,
+    deployOPScribe,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** Flat and per-byte fee used by the tests; registering "hello world" costs 122. */
+const REGISTRATION_FEE: bigint = 100n;
+const PER_BYTE_FEE: bigint = 2n;
+const HELLO_FEE: bigint = REGISTRATION_FEE + PER_BYTE_FEE * 11n;
+
+/**
+ * Writes the arguments of setFeeConfig.
+ *
+ * @param token - The fee token.
+ * @param registrationFee - Flat fee per registration.
+ * @param perByteFee - Fee per declared byte.
+ * @returns The argument writer.
+ */
+function feeConfigArgs(
+    token: Address,
+    registrationFee: bigint,
+    perByteFee: bigint,
+): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeAddress(token);
+        writer.writeU256(registrationFee);
+        writer.writeU256(perByteFee);
+    };
+}
+
+/**
+ * Writes a single address argument.
+ *
+ * @param account - The address.
+ * @returns The argument writer.
+ */
+function addressArg(account: Address): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeAddress(account);
+    };
+}
+
+describe('registration fees', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const treasury: Address = Blockchain.generateRandomAddress();
+    const mallory: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+    let token: OP20;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        token = await deployFeeToken(deployer);
+        await token.mintRaw(alice, 1000n);
+        await contract.expectSuccess(
+            'setFeeConfig(address,uint256,uint256)',
+            feeConfigArgs(token.address, REGISTRATION_FEE, PER_BYTE_FEE),
+            deployer,
+        );
+    });
+
+    afterEach(() => {
+        token.dispose();
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Reads the fees the contract holds for withdrawal.
+     *
+     * @returns The collected fees.
+     */
+    async function collectedFees(): Promise<bigint> {
+        const config: BinaryReader = await contract.expectSuccess(
+            'getFeeConfig()',
+            (): void => undefined,
+            alice,
+        );
+        config.readAddress();
+        config.readU256();
+        config.readU256();
+        return config.readU256();
+    }
+
+    it('pulls the fee with transferFrom and pays it out on withdrawal', async () => {
+        await token.increaseAllowance(alice, contract.address, HELLO_FEE);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+
+        assert.equal(await token.balanceOf(alice), 1000n - HELLO_FEE);
+        assert.equal(await token.balanceOf(contract.address), HELLO_FEE);
+        assert.equal(await collectedFees(), HELLO_FEE);
+
+        const withdrawn: BinaryReader = await contract.expectSuccess(
+            'withdrawFees(address)',
+            addressArg(treasury),
+            deployer,
+        );
+        assert.equal(withdrawn.readU256(), HELLO_FEE);
+        assert.equal(await token.balanceOf(treasury), HELLO_FEE);
+        assert.equal(await token.balanceOf(contract.address), 0n);
+        assert.equal(await collectedFees(), 0n);
+    });
+
+    it('registers nothing when the fee cannot be pulled', async () => {
+        await token.increaseAllowance(alice, contract.address, HELLO_FEE - 1n);
+        await contract.expectRevert(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+            /allowance/i,
+        );
+
+        const exists: BinaryReader = await contract.expectSuccess(
+            'checkFileExists(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        assert.equal(exists.readBoolean(), false);
+        assert.equal(await token.balanceOf(alice), 1000n);
+    });
+
+    it('keeps the fee token while collected fees are held', async () => {
+        await token.increaseAllowance(alice, contract.address, HELLO_FEE);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+
+        await contract.expectRevert(
+            'setFeeConfig(address,uint256,uint256)',
+            feeConfigArgs(Blockchain.generateRandomAddress(), REGISTRATION_FEE, PER_BYTE_FEE),
+            deployer,
+            /Withdraw collected fees first/,
+        );
+    });
+
+    it('lets only a fee manager configure or withdraw fees', async () => {
+        await contract.expectRevert(
+            'setFeeConfig(address,uint256,uint256)',
+            feeConfigArgs(token.address, 0n, 0n),
+            mallory,
+            /Caller is not a fee manager/,
+        );
+        await contract.expectRevert(
+            'withdrawFees(address)',
+            addressArg(mallory),
+            mallory,
+            /Caller is not a fee manager/,
+        );
+        await contract.expectRevert(
+            'withdrawFees(address)',
+            addressArg(treasury),
+            deployer,
+            /No fees to withdraw/,
+        );
+    });
+});
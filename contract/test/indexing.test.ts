@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    deployOPScribe,
+    numberedCid,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** Most records getFilesRange returns (matches the contract). */
+const MAX_RANGE_SIZE: number = 50;
+
+/**
+ * Writes the arguments of getFilesRange.
+ *
+ * @param start - Index of the first record.
+ * @param count - Number of records requested.
+ * @returns The argument writer.
+ */
+function rangeArgs(start: bigint, count: bigint): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeU256(start);
+        writer.writeU256(count);
+    };
+}
+
+describe('getFileByIndex', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('returns records whose file name has multi-byte characters', async () => {
+        const fileName: string = 'résumé-履歴書.pdf';
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, fileName, 11n),
+            alice,
+        );
+
+        const record: BinaryReader = await contract.expectSuccess(
+            'getFileByIndex(uint256)',
+            (writer: BinaryWriter): void => writer.writeU256(0n),
+            alice,
+        );
+        assert.equal(record.readStringWithLength(), HELLO_RAW_CID);
+        assert.equal(record.readStringWithLength(), fileName);
+        assert.equal(record.readU256(), 11n);
+        assert.equal(record.readU256(), BigInt(alice.toHex()));
+        record.readU256();
+        record.readU256();
+        assert.equal(record.readU256(), BigInt(alice.toHex()));
+        assert.equal(record.readU256(), 0n);
+    });
+
+    it('rejects an index past the last record', async () => {
+        await contract.expectRevert(
+            'getFileByIndex(uint256)',
+            (writer: BinaryWriter): void => writer.writeU256(0n),
+            alice,
+            /Index out of bounds/,
+        );
+    });
+});
+
+describe('getFilesRange', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        for (let i: number = 0; i < 3; i++) {
+            await contract.expectSuccess(
+                'registerFile(string,string,uint256)',
+                registerFileArgs(numberedCid(i), `file-${i}.txt`, BigInt(i + 1)),
+                alice,
+            );
+        }
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('stops at the last record', async () => {
+        const range: BinaryReader = await contract.expectSuccess(
+            'getFilesRange(uint256,uint256)',
+            rangeArgs(1n, 5n),
+            alice,
+        );
+        assert.deepEqual(range.readStringArray(), [numberedCid(1), numberedCid(2)]);
+        assert.deepEqual(range.readStringArray(), ['file-1.txt', 'file-2.txt']);
+        assert.deepEqual(range.readU256Array(), [2n, 3n]);
+    });
+
+    it('returns no records when start is past the end', async () => {
+        const range: BinaryReader = await contract.expectSuccess(
+            'getFilesRange(uint256,uint256)',
+            rangeArgs(3n, 1n),
+            alice,
+        );
+        assert.deepEqual(range.readStringArray(), []);
+    });
+
+    it('rejects a zero count and a count over MAX_RANGE_SIZE', async () => {
+        await contract.expectRevert(
+            'getFilesRange(uint256,uint256)',
+            rangeArgs(0n, 0n),
+            alice,
+            /Count cannot be zero/,
+        );
+        await contract.expectRevert(
+            'getFilesRange(uint256,uint256)',
+            rangeArgs(0n, BigInt(MAX_RANGE_SIZE + 1)),
+            alice,
+            /Range too large/,
+        );
+    });
+});
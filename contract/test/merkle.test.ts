@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import { parseCid } from '../../shared/cid.js';
+import { ArgumentWriter, deployOPScribe, OPScribeRuntime } from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** A CIDv0 and the same CID as base32 CIDv1. */
+const V0_CID: string = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+const V0_AS_V1_CID: string = 'bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34';
+
+/**
+ * Computes sha256 over the concatenated inputs.
+ *
+ * @param parts - The byte strings to hash.
+ * @returns The 32-byte digest.
+ */
+function sha256(...parts: Uint8Array[]): Uint8Array {
+    const hash = createHash('sha256');
+    parts.forEach((part: Uint8Array): void => {
+        hash.update(part);
+    });
+    return hash.digest();
+}
+
+/**
+ * Hashes a CID into a Merkle leaf the way the contract does.
+ *
+ * @param cid - The CID in any supported encoding.
+ * @returns The 32-byte leaf hash.
+ */
+function leaf(cid: string): Uint8Array {
+    return sha256(Uint8Array.of(0x00), parseCid(cid).bytes);
+}
+
+/**
+ * Hashes two sibling nodes, smaller first.
+ *
+ * @param a - One child hash.
+ * @param b - The other child hash.
+ * @returns The 32-byte parent hash.
+ */
+function node(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const aFirst: boolean = Buffer.compare(a, b) <= 0;
+    return sha256(Uint8Array.of(0x01), aFirst ? a : b, aFirst ? b : a);
+}
+
+/**
+ * Writes the arguments of verifyInclusion.
+ *
+ * @param root - The anchored root.
+ * @param cid - The CID to prove.
+ * @param proof - The sibling hashes.
+ * @returns The argument writer.
+ */
+function inclusionArgs(root: Uint8Array, cid: string, proof: Uint8Array[]): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeBytes(root);
+        writer.writeStringWithLength(cid);
+        writer.writeArrayOfBuffer(proof);
+    };
+}
+
+describe('Merkle anchoring', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const root: Uint8Array = node(leaf(V0_CID), leaf(HELLO_RAW_CID));
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Anchors the two-leaf root with the given leaf count.
+     *
+     * @param leafCount - Leaf count to anchor the root with.
+     */
+    async function anchor(leafCount: bigint): Promise<void> {
+        await contract.expectSuccess(
+            'anchorMerkleRoot(bytes32,uint256,string)',
+            (writer: BinaryWriter): void => {
+                writer.writeBytes(root);
+                writer.writeU256(leafCount);
+                writer.writeStringWithLength('batch');
+            },
+            alice,
+        );
+    }
+
+    /**
+     * Runs verifyInclusion against the anchored root.
+     *
+     * @param cid - The CID to prove.
+     * @param proof - The sibling hashes.
+     * @returns Whether the proof was accepted.
+     */
+    async function verify(cid: string, proof: Uint8Array[]): Promise<boolean> {
+        const result: BinaryReader = await contract.expectSuccess(
+            'verifyInclusion(bytes32,string,bytes[])',
+            inclusionArgs(root, cid, proof),
+            alice,
+        );
+        return result.readBoolean();
+    }
+
+    it('proves a leaf with any encoding of its CID', async () => {
+        await anchor(2n);
+
+        assert.equal(await verify(V0_CID, [leaf(HELLO_RAW_CID)]), true);
+        assert.equal(await verify(V0_AS_V1_CID, [leaf(HELLO_RAW_CID)]), true);
+        assert.equal(await verify(HELLO_RAW_CID, [leaf(V0_CID)]), true);
+    });
+
+    it('rejects a proof longer than a tree of the anchored leaf count', async () => {
+        await anchor(1n);
+
+        assert.equal(await verify(V0_CID, [leaf(HELLO_RAW_CID)]), false);
+    });
+
+    it('rejects a proof against a root that is not anchored', async () => {
+        assert.equal(await verify(V0_CID, [leaf(HELLO_RAW_CID)]), false);
+    });
+});
@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** Most metadata keys a file can hold (matches the contract). */
+const MAX_METADATA_KEYS: number = 16;
+
+/**
+ * Writes the arguments of setFileMetadata.
+ *
+ * @param key - The metadata key.
+ * @param value - The metadata value.
+ * @param mutable - Whether the entry can be rewritten later.
+ * @returns The argument writer.
+ */
+function metadataArgs(key: string, value: string, mutable: boolean): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(HELLO_RAW_CID);
+        writer.writeStringWithLength(key);
+        writer.writeStringWithLength(value);
+        writer.writeBoolean(mutable);
+    };
+}
+
+describe('file metadata', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const mallory: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Reads one metadata entry of the file.
+     *
+     * @param key - The metadata key.
+     * @returns The value and its flags.
+     */
+    async function entry(
+        key: string,
+    ): Promise<{ value: string; exists: boolean; mutable: boolean }> {
+        const result: BinaryReader = await contract.expectSuccess(
+            'getFileMetadata(string,string)',
+            (writer: BinaryWriter): void => {
+                writer.writeStringWithLength(HELLO_RAW_CID);
+                writer.writeStringWithLength(key);
+            },
+            alice,
+        );
+        return {
+            value: result.readStringWithLength(),
+            exists: result.readBoolean(),
+            mutable: result.readBoolean(),
+        };
+    }
+
+    it('rewrites a mutable entry until it is locked', async () => {
+        await contract.expectSuccess(
+            'setFileMetadata(string,string,string,bool)',
+            metadataArgs('license', 'draft', true),
+            alice,
+        );
+        await contract.expectSuccess(
+            'setFileMetadata(string,string,string,bool)',
+            metadataArgs('license', 'MIT', false),
+            alice,
+        );
+        assert.deepEqual(await entry('license'), { value: 'MIT', exists: true, mutable: false });
+
+        await contract.expectRevert(
+            'setFileMetadata(string,string,string,bool)',
+            metadataArgs('license', 'GPL', true),
+            alice,
+            /Metadata value locked/,
+        );
+    });
+
+    it('lists keys once and caps them at MAX_METADATA_KEYS', async () => {
+        for (let i: number = 0; i < MAX_METADATA_KEYS; i++) {
+            await contract.expectSuccess(
+                'setFileMetadata(string,string,string,bool)',
+                metadataArgs(`key-${i}`, 'value', true),
+                alice,
+            );
+        }
+        await contract.expectSuccess(
+            'setFileMetadata(string,string,string,bool)',
+            metadataArgs('key-0', 'rewritten', true),
+            alice,
+        );
+        await contract.expectRevert(
+            'setFileMetadata(string,string,string,bool)',
+            metadataArgs('one-too-many', 'value', true),
+            alice,
+            /Too many metadata keys/,
+        );
+
+        const keys: BinaryReader = await contract.expectSuccess(
+            'listMetadataKeys(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        assert.equal(keys.readStringArray().length, MAX_METADATA_KEYS);
+    });
+
+    it('lets only the file owner write metadata', async () => {
+        await contract.expectRevert(
+            'setFileMetadata(string,string,string,bool)',
+            metadataArgs('license', 'MIT', false),
+            mallory,
+            /Caller is not the file owner/,
+        );
+        assert.deepEqual(await entry('license'), { value: '', exists: false, mutable: false });
+    });
+});
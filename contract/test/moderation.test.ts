@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** Highest flag reason code (matches the contract). */
+const MAX_FLAG_REASON: number = 5;
+
+/**
+ * Writes the arguments of flagFile.
+ *
+ * @param reasonCode - The reason code.
+ * @returns The argument writer.
+ */
+function flagArgs(reasonCode: number): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(HELLO_RAW_CID);
+        writer.writeU8(reasonCode);
+    };
+}
+
+/**
+ * Writes the arguments of setHidden.
+ *
+ * @param hidden - Whether to hide the file.
+ * @returns The argument writer.
+ */
+function hiddenArgs(hidden: boolean): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(HELLO_RAW_CID);
+        writer.writeBoolean(hidden);
+    };
+}
+
+describe('moderation', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const bob: Address = Blockchain.generateRandomAddress();
+    const carol: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('counts one flag per address', async () => {
+        const first: BinaryReader = await contract.expectSuccess(
+            'flagFile(string,uint8)',
+            flagArgs(2),
+            bob,
+        );
+        assert.equal(first.readU256(), 1n);
+        await contract.expectRevert('flagFile(string,uint8)', flagArgs(3), bob, /Already flagged/);
+        const second: BinaryReader = await contract.expectSuccess(
+            'flagFile(string,uint8)',
+            flagArgs(3),
+            carol,
+        );
+        assert.equal(second.readU256(), 2n);
+
+        const flag: BinaryReader = await contract.expectSuccess(
+            'getFlag(string,address)',
+            (writer: BinaryWriter): void => {
+                writer.writeStringWithLength(HELLO_RAW_CID);
+                writer.writeAddress(bob);
+            },
+            alice,
+        );
+        assert.equal(flag.readU8(), 2);
+    });
+
+    it('rejects reason codes outside 1..MAX_FLAG_REASON', async () => {
+        await contract.expectRevert(
+            'flagFile(string,uint8)',
+            flagArgs(0),
+            bob,
+            /Invalid reason code/,
+        );
+        await contract.expectRevert(
+            'flagFile(string,uint8)',
+            flagArgs(MAX_FLAG_REASON + 1),
+            bob,
+            /Invalid reason code/,
+        );
+    });
+
+    it('hides a file from listings but not from getFile, even while paused', async () => {
+        await contract.expectSuccess('pause()', (): void => undefined, deployer);
+        await contract.expectSuccess('setHidden(string,bool)', hiddenArgs(true), deployer);
+        await contract.expectRevert(
+            'setHidden(string,bool)',
+            hiddenArgs(true),
+            deployer,
+            /File already hidden/,
+        );
+
+        const range: BinaryReader = await contract.expectSuccess(
+            'getFilesRange(uint256,uint256)',
+            (writer: BinaryWriter): void => {
+                writer.writeU256(0n);
+                writer.writeU256(1n);
+            },
+            alice,
+        );
+        assert.deepEqual(range.readStringArray(), ['']);
+
+        const file: BinaryReader = await contract.expectSuccess(
+            'getFile(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        assert.equal(file.readStringWithLength(), 'hello.txt');
+    });
+
+    it('lets only a moderator hide a file', async () => {
+        await contract.expectRevert(
+            'setHidden(string,bool)',
+            hiddenArgs(true),
+            bob,
+            /Caller is not a moderator/,
+        );
+    });
+});
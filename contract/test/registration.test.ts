@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader } from '@btc-vision/transaction';
+import { cidArg, deployOPScribe, OPScribeRuntime, registerFileArgs } from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** CIDv1 (raw, sha2-256) of the empty file. */
+const EMPTY_RAW_CID: string = 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku';
+
+/** A CIDv0 and the same CID as base32 CIDv1. */
+const V0_CID: string = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+const V0_AS_V1_CID: string = 'bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34';
+
+describe('registerFile', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('records the uploader, block and size', async () => {
+        Blockchain.blockNumber = 42n;
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+
+        const file: BinaryReader = await contract.expectSuccess(
+            'getFile(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        assert.equal(file.readStringWithLength(), 'hello.txt');
+        assert.equal(file.readU256(), 11n);
+        assert.equal(file.readU256(), BigInt(alice.toHex()));
+        assert.equal(file.readU256(), 42n);
+
+        const total: BinaryReader = await contract.expectSuccess(
+            'getTotalFiles()',
+            () => {},
+            alice,
+        );
+        assert.equal(total.readU256(), 1n);
+    });
+
+    it('rejects a second registration of the same CID', async () => {
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'a.txt', 1n),
+            alice,
+        );
+        await contract.expectRevert(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'b.txt', 1n),
+            deployer,
+            /File already registered/,
+        );
+    });
+
+    it('reports a CID as absent until that exact CID is registered', async () => {
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+
+        const other: BinaryReader = await contract.expectSuccess(
+            'checkFileExists(string)',
+            cidArg(EMPTY_RAW_CID),
+            alice,
+        );
+        assert.equal(other.readBoolean(), false);
+
+        const registered: BinaryReader = await contract.expectSuccess(
+            'checkFileExists(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        assert.equal(registered.readBoolean(), true);
+    });
+
+    it('rejects a second registration of the same CID in another encoding', async () => {
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(V0_CID, 'a.txt', 1n),
+            alice,
+        );
+        await contract.expectRevert(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(V0_AS_V1_CID, 'b.txt', 1n),
+            deployer,
+            /File already registered/,
+        );
+    });
+
+    it('rejects malformed CIDs', async () => {
+        await contract.expectRevert(
+            'registerFile(string,string,uint256)',
+            registerFileArgs('not-a-cid', 'a.txt', 1n),
+            alice,
+            /CID/,
+        );
+    });
+});
@@ -0,0 +1,160 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import {
+    Address,
+    BinaryReader,
+    BinaryWriter,
+    MessageSigner,
+    Wallet,
+} from '@btc-vision/transaction';
+import { ArgumentWriter, cidArg, deployOPScribe, OPScribeRuntime } from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** Type hash of the signed registration struct (matches the contract). */
+const REGISTER_FILE_TYPE_HASH: Buffer = Buffer.from(
+    'e311c43dd235c74bff0fde02366c93e1ad8eba739e6ced3591d56fd2e4e7362a',
+    'hex',
+);
+
+/** Last block at which the test signatures are valid. */
+const DEADLINE: bigint = 100n;
+
+/**
+ * The prebuilt op-vm 1.0.0 routes ML-DSA key loads to the block hash callback and
+ * rejects ML-DSA verification, so tests that verify a signature cannot run yet.
+ */
+const MLDSA_UNSUPPORTED: string = 'op-vm 1.0.0 cannot load or verify ML-DSA keys';
+
+/**
+ * Computes sha256 over the concatenated inputs.
+ *
+ * @param parts - The byte strings to hash.
+ * @returns The 32-byte digest.
+ */
+function sha256(...parts: Uint8Array[]): Uint8Array {
+    const hash = createHash('sha256');
+    parts.forEach((part: Uint8Array): void => {
+        hash.update(part);
+    });
+    return hash.digest();
+}
+
+/**
+ * Writes the arguments of registerFileFor.
+ *
+ * @param uploader - The uploader named in the request.
+ * @param signature - The signature over the request.
+ * @returns The argument writer.
+ */
+function registerForArgs(uploader: Address, signature: Uint8Array): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(HELLO_RAW_CID);
+        writer.writeStringWithLength('hello.txt');
+        writer.writeU256(11n);
+        writer.writeAddress(uploader);
+        writer.writeU64(DEADLINE);
+        writer.writeBytesWithLength(signature);
+    };
+}
+
+describe('registerFileFor', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const relayer: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+    let alice: Wallet;
+    let mallory: Wallet;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        // Generated after the reset so the test chain knows their ML-DSA keys
+        alice = Blockchain.generateRandomWallet();
+        mallory = Blockchain.generateRandomWallet();
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Signs a registration of HELLO_RAW_CID for `uploader` with `signer`'s ML-DSA key,
+     * as sha256(0x1901 || domainSeparator || structHash) with nonce 0.
+     *
+     * @param signer - The wallet that signs.
+     * @param uploader - The uploader named in the request.
+     * @returns The ML-DSA signature.
+     */
+    async function signRegistration(signer: Wallet, uploader: Address): Promise<Uint8Array> {
+        const domain: BinaryReader = await contract.expectSuccess(
+            'domainSeparator()',
+            (): void => undefined,
+            relayer,
+        );
+        const struct: BinaryWriter = new BinaryWriter();
+        struct.writeBytes(REGISTER_FILE_TYPE_HASH);
+        struct.writeBytes(sha256(new TextEncoder().encode(HELLO_RAW_CID)));
+        struct.writeBytes(sha256(new TextEncoder().encode('hello.txt')));
+        struct.writeU256(11n);
+        struct.writeAddress(uploader);
+        struct.writeU256(0n);
+        struct.writeU64(DEADLINE);
+
+        // signMLDSAMessage signs sha256 of the message, the hash the contract verifies
+        const message: Uint8Array = new Uint8Array([
+            0x19,
+            0x01,
+            ...domain.readBytes(32),
+            ...sha256(struct.getBuffer()),
+        ]);
+        return MessageSigner.signMLDSAMessage(signer.mldsaKeypair, message).signature;
+    }
+
+    it(
+        'records the signing uploader as uploader and owner',
+        { skip: MLDSA_UNSUPPORTED },
+        async () => {
+            const signature: Uint8Array = await signRegistration(alice, alice.address);
+            await contract.expectSuccess(
+                'registerFileFor(string,string,uint256,address,uint64,bytes)',
+                registerForArgs(alice.address, signature),
+                relayer,
+            );
+
+            const file: BinaryReader = await contract.expectSuccess(
+                'getFile(string)',
+                cidArg(HELLO_RAW_CID),
+                relayer,
+            );
+            file.readStringWithLength();
+            file.readU256();
+            assert.equal(file.readU256(), BigInt(alice.address.toHex()));
+        },
+    );
+
+    it(
+        'rejects a signature from a key the uploader address does not belong to',
+        { skip: MLDSA_UNSUPPORTED },
+        async () => {
+            const signature: Uint8Array = await signRegistration(mallory, alice.address);
+            await contract.expectRevert(
+                'registerFileFor(string,string,uint256,address,uint64,bytes)',
+                registerForArgs(alice.address, signature),
+                relayer,
+                /Invalid signature/,
+            );
+        },
+    );
+
+    it('rejects a signature that is not ML-DSA-44 sized', async () => {
+        await contract.expectRevert(
+            'registerFileFor(string,string,uint256,address,uint64,bytes)',
+            registerForArgs(alice.address, new Uint8Array(64)),
+            relayer,
+            /Invalid signature length/,
+        );
+    });
+});
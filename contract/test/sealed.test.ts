@@ -0,0 +1,200 @@
+import assert from 'node:assert/strict';
+import { createHash, randomBytes } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    deployOPScribe,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/**
+ * Computes sha256 over the concatenated inputs.
+ *
+ * @param parts - The byte strings to hash.
+ * @returns The 32-byte digest.
+ */
+function sha256(...parts: Uint8Array[]): Uint8Array {
+    const hash = createHash('sha256');
+    parts.forEach((part: Uint8Array): void => {
+        hash.update(part);
+    });
+    return hash.digest();
+}
+
+/**
+ * Writes the arguments of registerSealedFile as computed by the sealer.
+ *
+ * @param sealer - The address the commitments are bound to.
+ * @param salt - The 32-byte salt.
+ * @returns The argument writer.
+ */
+function sealArgs(sealer: Address, salt: Uint8Array): ArgumentWriter {
+    const contentHash: Uint8Array = sha256(new TextEncoder().encode('hello world'));
+    return (writer: BinaryWriter): void => {
+        writer.writeBytes(sha256(new TextEncoder().encode(HELLO_RAW_CID), sealer, salt));
+        writer.writeBytes(sha256(contentHash, sealer, salt));
+    };
+}
+
+/**
+ * Writes the arguments of setRateLimits.
+ *
+ * @param windowBlocks - Window length in blocks.
+ * @param maxPerWindow - Registrations allowed per window.
+ * @param lifetimeQuota - Registrations allowed in total.
+ * @returns The argument writer.
+ */
+function rateLimitArgs(
+    windowBlocks: bigint,
+    maxPerWindow: bigint,
+    lifetimeQuota: bigint,
+): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeU256(windowBlocks);
+        writer.writeU256(maxPerWindow);
+        writer.writeU256(lifetimeQuota);
+    };
+}
+
+/**
+ * Writes the arguments of unsealFile.
+ *
+ * @param salt - The salt used when sealing.
+ * @returns The argument writer.
+ */
+function unsealArgs(salt: Uint8Array): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(HELLO_RAW_CID);
+        writer.writeStringWithLength('hello.txt');
+        writer.writeBytes(salt);
+    };
+}
+
+describe('sealed proofs', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const mallory: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+    let salt: Uint8Array;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        salt = randomBytes(32);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Looks up alice's proof by its CID commitment.
+     *
+     * @returns A reader positioned at the exists flag.
+     */
+    async function alicesProof(): Promise<BinaryReader> {
+        return contract.expectSuccess(
+            'getSealedProof(address,bytes32)',
+            (writer: BinaryWriter): void => {
+                writer.writeAddress(alice);
+                writer.writeBytes(sha256(new TextEncoder().encode(HELLO_RAW_CID), alice, salt));
+            },
+            alice,
+        );
+    }
+
+    it('lets the sealer unseal the proof', async () => {
+        await contract.expectSuccess(
+            'registerSealedFile(bytes32,bytes32)',
+            sealArgs(alice, salt),
+            alice,
+        );
+        await contract.expectSuccess('unsealFile(string,string,bytes32)', unsealArgs(salt), alice);
+
+        const proof: BinaryReader = await alicesProof();
+        assert.equal(proof.readBoolean(), true);
+        assert.equal(proof.readU256(), BigInt(alice.toHex()));
+        proof.readU256();
+        proof.readU256();
+        assert.equal(proof.readBoolean(), true);
+        assert.equal(proof.readStringWithLength(), HELLO_RAW_CID);
+    });
+
+    it('keeps a copied registerSealedFile from claiming or blocking the proof', async () => {
+        // Mallory front-runs alice's pending transaction with the same calldata
+        await contract.expectSuccess(
+            'registerSealedFile(bytes32,bytes32)',
+            sealArgs(alice, salt),
+            mallory,
+        );
+        await contract.expectSuccess(
+            'registerSealedFile(bytes32,bytes32)',
+            sealArgs(alice, salt),
+            alice,
+        );
+
+        // Once alice unseals, the CID and salt are public, yet mallory's copy cannot be unsealed
+        await contract.expectSuccess('unsealFile(string,string,bytes32)', unsealArgs(salt), alice);
+        await contract.expectRevert(
+            'unsealFile(string,string,bytes32)',
+            unsealArgs(salt),
+            mallory,
+            /Sealed proof not found/,
+        );
+
+        const contentHash: Uint8Array = sha256(new TextEncoder().encode('hello world'));
+        const byContent: BinaryReader = await contract.expectSuccess(
+            'getSealedProofByContent(address,bytes32)',
+            (writer: BinaryWriter): void => {
+                writer.writeAddress(mallory);
+                writer.writeBytes(sha256(contentHash, mallory, salt));
+            },
+            mallory,
+        );
+        assert.equal(byContent.readBoolean(), false);
+    });
+
+    it('counts sealed proofs against the rate limit', async () => {
+        await contract.expectSuccess(
+            'setRateLimits(uint256,uint256,uint256)',
+            rateLimitArgs(100n, 1n, 0n),
+            deployer,
+        );
+        await contract.expectSuccess(
+            'registerSealedFile(bytes32,bytes32)',
+            sealArgs(alice, salt),
+            alice,
+        );
+        await contract.expectRevert(
+            'registerSealedFile(bytes32,bytes32)',
+            sealArgs(alice, randomBytes(32)),
+            alice,
+            /Rate limit exceeded/,
+        );
+    });
+
+    it('counts sealed proofs against the lifetime quota', async () => {
+        await contract.expectSuccess(
+            'setRateLimits(uint256,uint256,uint256)',
+            rateLimitArgs(0n, 0n, 1n),
+            deployer,
+        );
+        await contract.expectSuccess(
+            'registerSealedFile(bytes32,bytes32)',
+            sealArgs(alice, salt),
+            alice,
+        );
+        await contract.expectRevert(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+            /Lifetime quota exceeded/,
+        );
+    });
+});
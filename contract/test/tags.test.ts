@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    numberedCid,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** Most tags a file can carry (matches the contract). */
+const MAX_TAGS_PER_FILE: number = 8;
+
+/**
+ * Writes the arguments of registerFileWithTags.
+ *
+ * @param cid - The CID.
+ * @param tags - The tags.
+ * @returns The argument writer.
+ */
+function taggedArgs(cid: string, tags: string[]): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        registerFileArgs(cid, 'tagged.txt', 1n)(writer);
+        writer.writeStringArray(tags);
+    };
+}
+
+/**
+ * Writes the arguments of addFileTags.
+ *
+ * @param cid - The CID.
+ * @param tags - The tags to add.
+ * @returns The argument writer.
+ */
+function addTagsArgs(cid: string, tags: string[]): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(cid);
+        writer.writeStringArray(tags);
+    };
+}
+
+describe('tag index', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const mallory: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Reads the number of files carrying a tag.
+     *
+     * @param tag - The tag.
+     * @returns The file count.
+     */
+    async function tagFileCount(tag: string): Promise<bigint> {
+        const count: BinaryReader = await contract.expectSuccess(
+            'getTagFileCount(string)',
+            (writer: BinaryWriter): void => writer.writeStringWithLength(tag),
+            alice,
+        );
+        return count.readU256();
+    }
+
+    it('indexes files under each tag in order', async () => {
+        await contract.expectSuccess(
+            'registerFileWithTags(string,string,uint256,string[])',
+            taggedArgs(numberedCid(0), ['invoices', '2024']),
+            alice,
+        );
+        await contract.expectSuccess(
+            'registerFileWithTags(string,string,uint256,string[])',
+            taggedArgs(numberedCid(1), ['invoices']),
+            alice,
+        );
+
+        assert.equal(await tagFileCount('invoices'), 2n);
+        assert.equal(await tagFileCount('2024'), 1n);
+
+        const second: BinaryReader = await contract.expectSuccess(
+            'getTagFileByIndex(string,uint256)',
+            (writer: BinaryWriter): void => {
+                writer.writeStringWithLength('invoices');
+                writer.writeU256(1n);
+            },
+            alice,
+        );
+        assert.equal(second.readStringWithLength(), numberedCid(1));
+
+        await contract.expectRevert(
+            'getTagFileByIndex(string,uint256)',
+            (writer: BinaryWriter): void => {
+                writer.writeStringWithLength('invoices');
+                writer.writeU256(2n);
+            },
+            alice,
+            /Index out of bounds/,
+        );
+    });
+
+    it('skips tags the file already carries', async () => {
+        await contract.expectSuccess(
+            'registerFileWithTags(string,string,uint256,string[])',
+            taggedArgs(numberedCid(0), ['invoices']),
+            alice,
+        );
+        await contract.expectSuccess(
+            'addFileTags(string,string[])',
+            addTagsArgs(numberedCid(0), ['invoices', 'paid']),
+            alice,
+        );
+
+        const tags: BinaryReader = await contract.expectSuccess(
+            'getFileTags(string)',
+            cidArg(numberedCid(0)),
+            alice,
+        );
+        assert.deepEqual(tags.readStringArray(), ['invoices', 'paid']);
+        assert.equal(await tagFileCount('invoices'), 1n);
+    });
+
+    it('rejects malformed tags, too many tags and tagging by a non-owner', async () => {
+        await contract.expectRevert(
+            'registerFileWithTags(string,string,uint256,string[])',
+            taggedArgs(numberedCid(0), ['Invoices']),
+            alice,
+            /Invalid tag/,
+        );
+
+        const tags: string[] = Array.from(
+            { length: MAX_TAGS_PER_FILE + 1 },
+            (_: unknown, i: number): string => `tag-${i}`,
+        );
+        await contract.expectRevert(
+            'registerFileWithTags(string,string,uint256,string[])',
+            taggedArgs(numberedCid(0), tags),
+            alice,
+            /Too many tags/,
+        );
+
+        await contract.expectSuccess(
+            'registerFileWithTags(string,string,uint256,string[])',
+            taggedArgs(numberedCid(0), ['invoices']),
+            alice,
+        );
+        await contract.expectRevert(
+            'addFileTags(string,string[])',
+            addTagsArgs(numberedCid(0), ['spam']),
+            mallory,
+            /Caller is not the file owner/,
+        );
+    });
+});
@@ -0,0 +1,43 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import {
+    Blockchain,
+    BytesWriter,
+    Calldata,
+    OP20,
+    OP20InitParameters,
+} from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * OP20 used as the fee token in the OP_Scribe unit tests. The deployer can mint
+ * any amount; nothing else is added to the standard token.
+ */
+@final
+export class FeeToken extends OP20 {
+    public constructor() {
+        super();
+    }
+
+    /**
+     * One-time initialization on first deployment.
+     */
+    public override onDeployment(_calldata: Calldata): void {
+        this.instantiate(new OP20InitParameters(u256.Max, 8, 'Fee Token', 'FEE'));
+    }
+
+    /**
+     * Mints tokens. Only the deployer can call this.
+     *
+     * @param calldata - Contains: to (address), amount (uint256).
+     * @throws {Revert} If the caller is not the deployer.
+     */
+    @method(
+        { name: 'to', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+    )
+    @emit('Minted')
+    public mint(calldata: Calldata): BytesWriter {
+        this.onlyDeployer(Blockchain.tx.sender);
+        this._mint(calldata.readAddress(), calldata.readU256());
+        return new BytesWriter(0);
+    }
+}
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/**
+ * Writes the arguments of transferRecord.
+ *
+ * @param newOwner - The nominated owner.
+ * @returns The argument writer.
+ */
+function transferArgs(newOwner: Address): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(HELLO_RAW_CID);
+        writer.writeAddress(newOwner);
+    };
+}
+
+describe('record transfer', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    const bob: Address = Blockchain.generateRandomAddress();
+    const mallory: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'hello.txt', 11n),
+            alice,
+        );
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    /**
+     * Reads the uploader, owner and pending owner of the record.
+     *
+     * @returns The three addresses as u256 values.
+     */
+    async function ownership(): Promise<{ uploader: bigint; owner: bigint; pending: bigint }> {
+        const file: BinaryReader = await contract.expectSuccess(
+            'getFile(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        file.readStringWithLength();
+        file.readU256();
+        const uploader: bigint = file.readU256();
+        file.readU256();
+        file.readU256();
+        file.readBoolean();
+        file.readBytes(32);
+        file.readU8();
+        file.readStringWithLength();
+        file.readStringWithLength();
+        return { uploader, owner: file.readU256(), pending: file.readU256() };
+    }
+
+    it('moves ownership only once the nominee accepts', async () => {
+        await contract.expectSuccess('transferRecord(string,address)', transferArgs(bob), alice);
+        assert.deepEqual(await ownership(), {
+            uploader: BigInt(alice.toHex()),
+            owner: BigInt(alice.toHex()),
+            pending: BigInt(bob.toHex()),
+        });
+
+        await contract.expectSuccess('acceptRecordTransfer(string)', cidArg(HELLO_RAW_CID), bob);
+        assert.deepEqual(await ownership(), {
+            uploader: BigInt(alice.toHex()),
+            owner: BigInt(bob.toHex()),
+            pending: 0n,
+        });
+
+        await contract.expectRevert(
+            'transferRecord(string,address)',
+            transferArgs(mallory),
+            alice,
+            /Caller is not the file owner/,
+        );
+    });
+
+    it('lets only the pending owner accept', async () => {
+        await contract.expectRevert(
+            'acceptRecordTransfer(string)',
+            cidArg(HELLO_RAW_CID),
+            bob,
+            /Caller is not the pending owner/,
+        );
+
+        await contract.expectSuccess('transferRecord(string,address)', transferArgs(bob), alice);
+        await contract.expectRevert(
+            'acceptRecordTransfer(string)',
+            cidArg(HELLO_RAW_CID),
+            mallory,
+            /Caller is not the pending owner/,
+        );
+    });
+
+    it('replaces the nominee when the owner nominates again', async () => {
+        await contract.expectSuccess('transferRecord(string,address)', transferArgs(bob), alice);
+        await contract.expectSuccess(
+            'transferRecord(string,address)',
+            transferArgs(mallory),
+            alice,
+        );
+
+        await contract.expectRevert(
+            'acceptRecordTransfer(string)',
+            cidArg(HELLO_RAW_CID),
+            bob,
+            /Caller is not the pending owner/,
+        );
+    });
+
+    it('rejects a nomination by a non-owner or of the current owner', async () => {
+        await contract.expectRevert(
+            'transferRecord(string,address)',
+            transferArgs(mallory),
+            mallory,
+            /Caller is not the file owner/,
+        );
+        await contract.expectRevert(
+            'transferRecord(string,address)',
+            transferArgs(alice),
+            alice,
+            /New owner is already the owner/,
+        );
+    });
+});
@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Blockchain } from '@btc-vision/unit-test-framework';
+import { Address, BinaryReader, BinaryWriter } from '@btc-vision/transaction';
+import {
+    ArgumentWriter,
+    cidArg,
+    deployOPScribe,
+    numberedCid,
+    OPScribeRuntime,
+    registerFileArgs,
+} from './OPScribeRuntime.js';
+
+/** CIDv1 (raw, sha2-256) of the bytes "hello world". */
+const HELLO_RAW_CID: string = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/** A CIDv0 and the same CID as base32 CIDv1. */
+const V0_CID: string = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+const V0_AS_V1_CID: string = 'bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34';
+
+/** Most versions getVersionChain returns (matches the contract). */
+const MAX_VERSION_CHAIN: number = 32;
+
+/**
+ * Writes the arguments of supersedeFile.
+ *
+ * @param oldCid - The superseded CID.
+ * @param newCid - The newer version.
+ * @returns The argument writer.
+ */
+function supersedeArgs(oldCid: string, newCid: string): ArgumentWriter {
+    return (writer: BinaryWriter): void => {
+        writer.writeStringWithLength(oldCid);
+        writer.writeStringWithLength(newCid);
+    };
+}
+
+describe('supersedeFile', () => {
+    const deployer: Address = Blockchain.generateRandomAddress();
+    const alice: Address = Blockchain.generateRandomAddress();
+    let contract: OPScribeRuntime;
+
+    beforeEach(async () => {
+        contract = await deployOPScribe(deployer);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(V0_CID, 'v1.txt', 1n),
+            alice,
+        );
+    });
+
+    afterEach(() => {
+        contract.dispose();
+        Blockchain.dispose();
+    });
+
+    it('links two versions into a chain', async () => {
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(HELLO_RAW_CID, 'v2.txt', 11n),
+            alice,
+        );
+        await contract.expectSuccess(
+            'supersedeFile(string,string)',
+            supersedeArgs(V0_CID, HELLO_RAW_CID),
+            alice,
+        );
+
+        const chain: BinaryReader = await contract.expectSuccess(
+            'getVersionChain(string)',
+            cidArg(HELLO_RAW_CID),
+            alice,
+        );
+        assert.deepEqual(chain.readStringArray(), [V0_CID, HELLO_RAW_CID]);
+    });
+
+    it('rejects superseding a CID with its own CIDv1 form', async () => {
+        await contract.expectRevert(
+            'supersedeFile(string,string)',
+            supersedeArgs(V0_CID, V0_AS_V1_CID),
+            alice,
+            /A file cannot supersede itself/,
+        );
+
+        // A self-loop would make the chain walk run into its length limit
+        await contract.expectSuccess('getVersionChain(string)', cidArg(V0_CID), alice);
+    });
+
+    it('stops a chain at MAX_VERSION_CHAIN versions', async () => {
+        let previous: string = V0_CID;
+        for (let version: number = 2; version <= MAX_VERSION_CHAIN; version++) {
+            const cid: string = numberedCid(version);
+            await contract.expectSuccess(
+                'registerFile(string,string,uint256)',
+                registerFileArgs(cid, `v${version}.txt`, 1n),
+                alice,
+            );
+            await contract.expectSuccess(
+                'supersedeFile(string,string)',
+                supersedeArgs(previous, cid),
+                alice,
+            );
+            previous = cid;
+        }
+
+        const extra: string = numberedCid(MAX_VERSION_CHAIN + 1);
+        await contract.expectSuccess(
+            'registerFile(string,string,uint256)',
+            registerFileArgs(extra, 'extra.txt', 1n),
+            alice,
+        );
+        await contract.expectRevert(
+            'supersedeFile(string,string)',
+            supersedeArgs(previous, extra),
+            alice,
+            /Version chain too long/,
+        );
+
+        const chain: BinaryReader = await contract.expectSuccess(
+            'getVersionChain(string)',
+            cidArg(V0_CID),
+            alice,
+        );
+        assert.equal(chain.readStringArray().length, MAX_VERSION_CHAIN);
+    });
+});
@@ -0,0 +1,21 @@
+import tsPlugin from '@typescript-eslint/eslint-plugin';
+import react from 'eslint-plugin-react';
+import reactHooks from 'eslint-plugin-react-hooks';
+
+export default [
+    { ignores: ['dist/'] },
+    ...tsPlugin.configs['flat/recommended'],
+    react.configs.flat['jsx-runtime'],
+    reactHooks.configs.flat['recommended-latest'],
+    {
+        files: ['**/*.{ts,tsx}'],
+        settings: { react: { version: 'detect' } },
+        rules: {
+            '@typescript-eslint/explicit-function-return-type': 'error',
+            '@typescript-eslint/no-unused-vars': [
+                'error',
+                { argsIgnorePattern: '^_', varsIgnorePattern: '^_' },
+            ],
+        },
+    },
+];
@@ -2,9 +2,12 @@ import React, { useState, useCallback, useMemo } from 'react';
 import { UploadPage } from './components/UploadPage';
 import { BrowsePage } from './components/BrowsePage';
 import { VerifyPage } from './components/VerifyPage';
+import { CollectionPage } from './components/CollectionPage';
+import { AgreementPage } from './components/AgreementPage';
+import { AdminPage } from './components/AdminPage';
 
 /** Navigation tab identifiers. */
-type TabId = 'upload' | 'browse' | 'verify';
+type TabId = 'upload' | 'browse' | 'collections' | 'agreements' | 'verify' | 'admin';
 
 /** Tab configuration. */
 interface TabConfig {
@@ -16,7 +19,10 @@ interface TabConfig {
 const TABS: readonly TabConfig[] = [
     { id: 'upload', label: 'Upload', icon: '\u2B06' },
     { id: 'browse', label: 'Browse', icon: '\uD83D\uDCC2' },
+    { id: 'collections', label: 'Collections', icon: '\uD83D\uDDC2' },
+    { id: 'agreements', label: 'Agreements', icon: '\u270D' },
     { id: 'verify', label: 'Verify', icon: '\u2705' },
+    { id: 'admin', label: 'Admin', icon: '\u2699' },
 ];
 
 /** Trend images for floating background collage. */
@@ -94,8 +100,14 @@ export function App(): React.JSX.Element {
                 return <UploadPage walletAddress={walletAddress} />;
             case 'browse':
                 return <BrowsePage />;
+            case 'collections':
+                return <CollectionPage walletAddress={walletAddress} />;
+            case 'agreements':
+                return <AgreementPage walletAddress={walletAddress} />;
             case 'verify':
                 return <VerifyPage />;
+            case 'admin':
+                return <AdminPage walletAddress={walletAddress} />;
         }
     }, [activeTab, walletAddress]);
 
@@ -1,7 +1,11 @@
+import { Address } from '@btc-vision/transaction';
 import { ABIDataTypes, BitcoinAbiTypes, BitcoinInterfaceAbi, CallResult, BaseContractProperties } from 'opnet';
 
 /**
  * ABI for the OP_Scribe contract.
+ *
+ * The contract is also an OP721 collection of proof certificates; use opnet's
+ * OP_721_ABI at the same address for transfers, balances and ownership.
  */
 export const OP_SCRIBE_ABI: BitcoinInterfaceAbi = [
     {
@@ -17,6 +21,245 @@ export const OP_SCRIBE_ABI: BitcoinInterfaceAbi = [
             { name: 'success', type: ABIDataTypes.BOOL },
         ],
     },
+    {
+        name: 'registerFileWithHash',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'registerFileWithExpiry',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'registerFileWithCertificate',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'tokenURI',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'uri', type: ABIDataTypes.STRING },
+        ],
+    },
+    {
+        name: 'changeMetadata',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'icon', type: ABIDataTypes.STRING },
+            { name: 'banner', type: ABIDataTypes.STRING },
+            { name: 'description', type: ABIDataTypes.STRING },
+            { name: 'website', type: ABIDataTypes.STRING },
+        ],
+        outputs: [],
+    },
+    {
+        name: 'setBaseURI',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'baseURI', type: ABIDataTypes.STRING },
+        ],
+        outputs: [],
+    },
+    {
+        name: 'registerFileWithTags',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'tags', type: ABIDataTypes.ARRAY_OF_STRING },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'registerFileFor',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'signature', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'registrationNonceOf',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'domainSeparator',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [],
+        outputs: [
+            { name: 'domainSeparator', type: ABIDataTypes.BYTES32 },
+        ],
+    },
+    {
+        name: 'registerFiles',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cids', type: ABIDataTypes.ARRAY_OF_STRING },
+            { name: 'fileNames', type: ABIDataTypes.ARRAY_OF_STRING },
+            { name: 'fileSizes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'commitRegistration',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'commitment', type: ABIDataTypes.BYTES32 },
+            { name: 'cidKey', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'revealAfter', type: ABIDataTypes.UINT64 },
+        ],
+    },
+    {
+        name: 'revealRegistration',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'salt', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'getRegistrationCommitment',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'committer', type: ABIDataTypes.ADDRESS },
+            { name: 'commitment', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'committedAt', type: ABIDataTypes.UINT64 },
+            { name: 'revealAfter', type: ABIDataTypes.UINT64 },
+            { name: 'expiresAt', type: ABIDataTypes.UINT64 },
+        ],
+    },
+    {
+        name: 'registerSealedFile',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'commitment', type: ABIDataTypes.BYTES32 },
+            { name: 'contentCommitment', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'unsealFile',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'salt', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'getSealedProof',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'sealer', type: ABIDataTypes.ADDRESS },
+            { name: 'commitment', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'sealer', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'unsealed', type: ABIDataTypes.BOOL },
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+        ],
+    },
+    {
+        name: 'getSealedProofByContent',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'sealer', type: ABIDataTypes.ADDRESS },
+            { name: 'contentCommitment', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'sealer', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'unsealed', type: ABIDataTypes.BOOL },
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+        ],
+    },
     {
         name: 'getFile',
         type: BitcoinAbiTypes.Function,
@@ -24,72 +267,1029 @@ export const OP_SCRIBE_ABI: BitcoinInterfaceAbi = [
         inputs: [
             { name: 'cid', type: ABIDataTypes.STRING },
         ],
-        outputs: [
-            { name: 'fileName', type: ABIDataTypes.STRING },
-            { name: 'fileSize', type: ABIDataTypes.UINT256 },
-            { name: 'uploader', type: ABIDataTypes.UINT256 },
-            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
-            { name: 'timestamp', type: ABIDataTypes.UINT256 },
-            { name: 'exists', type: ABIDataTypes.BOOL },
+        outputs: [
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+            { name: 'status', type: ABIDataTypes.UINT8 },
+            { name: 'successor', type: ABIDataTypes.STRING },
+            { name: 'revocationReason', type: ABIDataTypes.STRING },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'pendingOwner', type: ABIDataTypes.UINT256 },
+            { name: 'hasCertificate', type: ABIDataTypes.BOOL },
+            { name: 'certificateId', type: ABIDataTypes.UINT256 },
+            { name: 'hidden', type: ABIDataTypes.BOOL },
+            { name: 'flagCount', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+            { name: 'expired', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'getFileByContentHash',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'contentHash', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'exists', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'checkFileExists',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'getIndexOfCid',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getTotalFiles',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [],
+        outputs: [
+            { name: 'count', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getFileByIndex',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getFilesRange',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'start', type: ABIDataTypes.UINT256 },
+            { name: 'count', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'cids', type: ABIDataTypes.ARRAY_OF_STRING },
+            { name: 'fileNames', type: ABIDataTypes.ARRAY_OF_STRING },
+            { name: 'fileSizes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'uploaders', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'blockNumbers', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'timestamps', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'owners', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'validUntils', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+    },
+    {
+        name: 'getUploaderFileCount',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'count', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getUploaderFileByIndex',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'renewFile',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'newExpiry', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'revokeFile',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'reason', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'supersedeFile',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'oldCid', type: ABIDataTypes.STRING },
+            { name: 'newCid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'setFileMetadata',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'key', type: ABIDataTypes.STRING },
+            { name: 'value', type: ABIDataTypes.STRING },
+            { name: 'mutable', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'getFileMetadata',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'key', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'value', type: ABIDataTypes.STRING },
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'mutable', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'listMetadataKeys',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'keys', type: ABIDataTypes.ARRAY_OF_STRING },
+        ],
+    },
+    {
+        name: 'addFileTags',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'tags', type: ABIDataTypes.ARRAY_OF_STRING },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'getFileTags',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'tags', type: ABIDataTypes.ARRAY_OF_STRING },
+        ],
+    },
+    {
+        name: 'getTagFileCount',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'tag', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'count', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getTagFileByIndex',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'tag', type: ABIDataTypes.STRING },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getVersionChain',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'cids', type: ABIDataTypes.ARRAY_OF_STRING },
+        ],
+    },
+    {
+        name: 'transferRecord',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'newOwner', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'acceptRecordTransfer',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'attestFile',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'statementHash', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getAttestationCount',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'count', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getAttestation',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'attester', type: ABIDataTypes.UINT256 },
+            { name: 'statementHash', type: ABIDataTypes.BYTES32 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'anchorMerkleRoot',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'root', type: ABIDataTypes.BYTES32 },
+            { name: 'leafCount', type: ABIDataTypes.UINT256 },
+            { name: 'label', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'getMerkleRoot',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'root', type: ABIDataTypes.BYTES32 },
+        ],
+        outputs: [
+            { name: 'leafCount', type: ABIDataTypes.UINT256 },
+            { name: 'label', type: ABIDataTypes.STRING },
+            { name: 'anchorer', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'exists', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'verifyInclusion',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'root', type: ABIDataTypes.BYTES32 },
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'proof', type: ABIDataTypes.ARRAY_OF_BYTES },
+        ],
+        outputs: [
+            { name: 'valid', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'setFeeConfig',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'registrationFee', type: ABIDataTypes.UINT256 },
+            { name: 'perByteFee', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'withdrawFees',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'to', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getFeeConfig',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [],
+        outputs: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'registrationFee', type: ABIDataTypes.UINT256 },
+            { name: 'perByteFee', type: ABIDataTypes.UINT256 },
+            { name: 'collectedFees', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'createCollection',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'name', type: ABIDataTypes.STRING },
+            { name: 'description', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'addToCollection',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'fileCount', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getCollection',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'name', type: ABIDataTypes.STRING },
+            { name: 'description', type: ABIDataTypes.STRING },
+            { name: 'fileCount', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getTotalCollections',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [],
+        outputs: [
+            { name: 'count', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getCollectionFileByIndex',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'fileName', type: ABIDataTypes.STRING },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
+            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getOwnerCollectionCount',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'count', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getOwnerCollectionByIndex',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'createAgreement',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'requiredSigners', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+            { name: 'deadline', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'signAgreement',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'complete', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'getAgreementStatus',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+        outputs: [
+            { name: 'exists', type: ABIDataTypes.BOOL },
+            { name: 'creator', type: ABIDataTypes.UINT256 },
+            { name: 'deadline', type: ABIDataTypes.UINT256 },
+            { name: 'signers', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'signedBlocks', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'signedTimestamps', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'signedCount', type: ABIDataTypes.UINT256 },
+            { name: 'complete', type: ABIDataTypes.BOOL },
+            { name: 'expired', type: ABIDataTypes.BOOL },
+            { name: 'completedAt', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getSignerAgreementCount',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'signer', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'count', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getSignerAgreementByIndex',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'signer', type: ABIDataTypes.ADDRESS },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+        ],
+    },
+    {
+        name: 'flagFile',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'reasonCode', type: ABIDataTypes.UINT8 },
+        ],
+        outputs: [
+            { name: 'flagCount', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'getFlag',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'flagger', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'reasonCode', type: ABIDataTypes.UINT8 },
+        ],
+    },
+    {
+        name: 'setHidden',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'hidden', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'setRateLimits',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'windowBlocks', type: ABIDataTypes.UINT256 },
+            { name: 'maxPerWindow', type: ABIDataTypes.UINT256 },
+            { name: 'lifetimeQuota', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'getQuota',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'windowBlocks', type: ABIDataTypes.UINT256 },
+            { name: 'maxPerWindow', type: ABIDataTypes.UINT256 },
+            { name: 'usedInWindow', type: ABIDataTypes.UINT256 },
+            { name: 'remainingInWindow', type: ABIDataTypes.UINT256 },
+            { name: 'windowResetsAt', type: ABIDataTypes.UINT256 },
+            { name: 'lifetimeQuota', type: ABIDataTypes.UINT256 },
+            { name: 'lifetimeUsed', type: ABIDataTypes.UINT256 },
+            { name: 'lifetimeRemaining', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'transferOwnership',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'newOwner', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'acceptOwnership',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'setRole',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'enabled', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'getOwner',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [],
+        outputs: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingOwner', type: ABIDataTypes.ADDRESS },
+        ],
+    },
+    {
+        name: 'getRoles',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'isOwner', type: ABIDataTypes.BOOL },
+            { name: 'isPauser', type: ABIDataTypes.BOOL },
+            { name: 'isFeeManager', type: ABIDataTypes.BOOL },
+            { name: 'isModerator', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'pause',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [],
+        outputs: [],
+    },
+    {
+        name: 'unpause',
+        type: BitcoinAbiTypes.Function,
+        constant: false,
+        inputs: [],
+        outputs: [],
+    },
+    {
+        name: 'getIsPaused',
+        type: BitcoinAbiTypes.Function,
+        constant: true,
+        inputs: [],
+        outputs: [
+            { name: 'isPaused', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'FileRegistered',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cid', type: ABIDataTypes.STRING },
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'index', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT64 },
+            { name: 'nameLength', type: ABIDataTypes.UINT32 },
+            { name: 'fileSize', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+        ],
+    },
+    {
+        name: 'Paused',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+        ],
+    },
+    {
+        name: 'Unpaused',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+        ],
+    },
+    {
+        name: 'FileExpiryUpdated',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'validUntil', type: ABIDataTypes.UINT256 },
         ],
     },
     {
-        name: 'checkFileExists',
-        type: BitcoinAbiTypes.Function,
-        constant: true,
-        inputs: [
-            { name: 'cid', type: ABIDataTypes.STRING },
+        name: 'FileRevoked',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'revoker', type: ABIDataTypes.ADDRESS },
         ],
-        outputs: [
-            { name: 'exists', type: ABIDataTypes.BOOL },
+    },
+    {
+        name: 'FileSuperseded',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'oldCidKey', type: ABIDataTypes.UINT256 },
+            { name: 'newCidKey', type: ABIDataTypes.UINT256 },
+            { name: 'uploader', type: ABIDataTypes.ADDRESS },
         ],
     },
     {
-        name: 'getTotalFiles',
-        type: BitcoinAbiTypes.Function,
-        constant: true,
-        inputs: [],
-        outputs: [
-            { name: 'count', type: ABIDataTypes.UINT256 },
+        name: 'RecordTransferInitiated',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'currentOwner', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingOwner', type: ABIDataTypes.ADDRESS },
         ],
     },
     {
-        name: 'getFileByIndex',
-        type: BitcoinAbiTypes.Function,
-        constant: true,
-        inputs: [
+        name: 'RecordTransferred',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'previousOwner', type: ABIDataTypes.ADDRESS },
+            { name: 'newOwner', type: ABIDataTypes.ADDRESS },
+        ],
+    },
+    {
+        name: 'AttestationAdded',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'attester', type: ABIDataTypes.ADDRESS },
+            { name: 'statementHash', type: ABIDataTypes.UINT256 },
             { name: 'index', type: ABIDataTypes.UINT256 },
         ],
-        outputs: [
-            { name: 'cid', type: ABIDataTypes.STRING },
-            { name: 'fileName', type: ABIDataTypes.STRING },
-            { name: 'fileSize', type: ABIDataTypes.UINT256 },
-            { name: 'uploader', type: ABIDataTypes.UINT256 },
-            { name: 'blockNumber', type: ABIDataTypes.UINT256 },
-            { name: 'timestamp', type: ABIDataTypes.UINT256 },
+    },
+    {
+        name: 'FeeConfigUpdated',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'registrationFee', type: ABIDataTypes.UINT256 },
+            { name: 'perByteFee', type: ABIDataTypes.UINT256 },
         ],
     },
     {
-        name: 'getIsPaused',
-        type: BitcoinAbiTypes.Function,
-        constant: true,
-        inputs: [],
-        outputs: [
-            { name: 'isPaused', type: ABIDataTypes.BOOL },
+        name: 'FeesWithdrawn',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'to', type: ABIDataTypes.ADDRESS },
+            { name: 'amount', type: ABIDataTypes.UINT256 },
         ],
     },
     {
-        name: 'FileRegistered',
+        name: 'MetadataUpdated',
         type: BitcoinAbiTypes.Event,
         values: [
-            { name: 'fileSize', type: ABIDataTypes.UINT256 },
-            { name: 'uploader', type: ABIDataTypes.ADDRESS },
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'metadataKey', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'mutable', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'RegistrationCommitted',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'commitment', type: ABIDataTypes.UINT256 },
+            { name: 'committer', type: ABIDataTypes.ADDRESS },
+            { name: 'blockNumber', type: ABIDataTypes.UINT64 },
+        ],
+    },
+    {
+        name: 'FileSealed',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'commitment', type: ABIDataTypes.UINT256 },
+            { name: 'sealer', type: ABIDataTypes.ADDRESS },
+        ],
+    },
+    {
+        name: 'FileUnsealed',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'commitment', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'CollectionCreated',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+        ],
+    },
+    {
+        name: 'CollectionFileAdded',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'collectionId', type: ABIDataTypes.UINT256 },
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'memberIndex', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'AgreementCreated',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'creator', type: ABIDataTypes.ADDRESS },
+            { name: 'signerCount', type: ABIDataTypes.UINT32 },
+            { name: 'deadline', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'AgreementSigned',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'signer', type: ABIDataTypes.ADDRESS },
+            { name: 'signedCount', type: ABIDataTypes.UINT32 },
+        ],
+    },
+    {
+        name: 'AgreementCompleted',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'signerCount', type: ABIDataTypes.UINT32 },
+        ],
+    },
+    {
+        name: 'FileFlagged',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'flagger', type: ABIDataTypes.ADDRESS },
+            { name: 'reasonCode', type: ABIDataTypes.UINT8 },
+        ],
+    },
+    {
+        name: 'FileHidden',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'hidden', type: ABIDataTypes.BOOL },
+            { name: 'moderator', type: ABIDataTypes.ADDRESS },
+        ],
+    },
+    {
+        name: 'RateLimitsUpdated',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'windowBlocks', type: ABIDataTypes.UINT256 },
+            { name: 'maxPerWindow', type: ABIDataTypes.UINT256 },
+            { name: 'lifetimeQuota', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'RoleUpdated',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'enabled', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        name: 'OwnershipTransferStarted',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingOwner', type: ABIDataTypes.ADDRESS },
+        ],
+    },
+    {
+        name: 'OwnershipTransferred',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'previousOwner', type: ABIDataTypes.ADDRESS },
+            { name: 'newOwner', type: ABIDataTypes.ADDRESS },
+        ],
+    },
+    {
+        name: 'TagAdded',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'cidKey', type: ABIDataTypes.UINT256 },
+            { name: 'tagKey', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        name: 'MerkleRootAnchored',
+        type: BitcoinAbiTypes.Event,
+        values: [
+            { name: 'root', type: ABIDataTypes.UINT256 },
+            { name: 'leafCount', type: ABIDataTypes.UINT256 },
+            { name: 'anchorer', type: ABIDataTypes.ADDRESS },
         ],
     },
 ];
 
+/** Record lifecycle status returned by getFile (matches the contract). */
+export enum FileStatus {
+    Active = 0,
+    Revoked = 1,
+    Superseded = 2,
+}
+
+/** Reason codes accepted by flagFile (matches the contract). */
+export enum FlagReason {
+    Spam = 1,
+    IllegalContent = 2,
+    Copyright = 3,
+    Malware = 4,
+    Other = 5,
+}
+
+/** Administrative roles granted with setRole (matches the contract). */
+export enum Role {
+    Pauser = 1,
+    FeeManager = 2,
+    Moderator = 3,
+}
+
 /** File record returned by getFile. */
 export interface FileRecord {
+    readonly fileName: string;
+    readonly fileSize: bigint;
+    readonly uploader: bigint;
+    readonly blockNumber: bigint;
+    readonly timestamp: bigint;
+    readonly exists: boolean;
+    readonly contentHash: Uint8Array;
+    readonly status: FileStatus;
+    readonly successor: string;
+    readonly revocationReason: string;
+    /** Current owner; starts as the uploader and changes on accepted transfers. */
+    readonly owner: bigint;
+    /** Nominated owner awaiting acceptance, zero if none. */
+    readonly pendingOwner: bigint;
+    readonly hasCertificate: boolean;
+    /** OP721 certificate token id (the file index); zero when hasCertificate is false. */
+    readonly certificateId: bigint;
+    /** Hidden from enumeration views by a moderator; the record itself stays readable. */
+    readonly hidden: boolean;
+    /** Number of addresses that flagged the file. */
+    readonly flagCount: bigint;
+    /** Last block at which the proof is active; zero if it never expires. */
+    readonly validUntil: bigint;
+    /** Past validUntil; the proof itself stays readable and can be renewed. */
+    readonly expired: boolean;
+    readonly [key: string]: string | bigint | boolean | number | Uint8Array;
+}
+
+/** File record returned by getFileByContentHash. */
+export interface ContentHashFileRecord {
+    readonly cid: string;
     readonly fileName: string;
     readonly fileSize: bigint;
     readonly uploader: bigint;
@@ -99,7 +1299,7 @@ export interface FileRecord {
     readonly [key: string]: string | bigint | boolean;
 }
 
-/** File record returned by getFileByIndex. */
+/** File record returned by getFileByIndex; cid and fileName are empty when hidden. */
 export interface IndexedFileRecord {
     readonly cid: string;
     readonly fileName: string;
@@ -107,30 +1307,521 @@ export interface IndexedFileRecord {
     readonly uploader: bigint;
     readonly blockNumber: bigint;
     readonly timestamp: bigint;
+    readonly owner: bigint;
+    /** Last block at which the proof is active; zero if it never expires. */
+    readonly validUntil: bigint;
     readonly [key: string]: string | bigint;
 }
 
+/** Collection details returned by getCollection. */
+export interface CollectionRecord {
+    readonly exists: boolean;
+    /** u256-encoded creator; only the creator can add files. */
+    readonly owner: bigint;
+    readonly name: string;
+    readonly description: string;
+    readonly fileCount: bigint;
+    readonly blockNumber: bigint;
+    readonly [key: string]: string | bigint | boolean;
+}
+
+/**
+ * Agreement state returned by getAgreementStatus. signedBlocks and
+ * signedTimestamps line up with signers and are zero for parties that have not signed.
+ */
+export interface AgreementStatus {
+    readonly exists: boolean;
+    /** u256-encoded address that opened the agreement. */
+    readonly creator: bigint;
+    /** Last block signatures are accepted in. */
+    readonly deadline: bigint;
+    /** u256-encoded required signers, in the order they were listed. */
+    readonly signers: bigint[];
+    readonly signedBlocks: bigint[];
+    readonly signedTimestamps: bigint[];
+    readonly signedCount: bigint;
+    readonly complete: boolean;
+    /** The deadline passed before every party signed. */
+    readonly expired: boolean;
+    /** Block of the last signature, zero until complete. */
+    readonly completedAt: bigint;
+    readonly [key: string]: bigint | bigint[] | boolean;
+}
+
+/** One required party of an agreement, from decodeAgreementSignatures. */
+export interface AgreementSignature {
+    /** u256-encoded signer address. */
+    readonly signer: bigint;
+    /** Block the party signed in, zero if they have not signed. */
+    readonly signedBlock: bigint;
+    readonly signedTimestamp: bigint;
+}
+
+/** Parallel arrays returned by getFilesRange; entry i of each array is one record. */
+export interface FilesRange {
+    readonly cids: string[];
+    readonly fileNames: string[];
+    readonly fileSizes: bigint[];
+    readonly uploaders: bigint[];
+    readonly blockNumbers: bigint[];
+    readonly timestamps: bigint[];
+    readonly owners: bigint[];
+    readonly validUntils: bigint[];
+    readonly [key: string]: string[] | bigint[];
+}
+
+/** Third-party attestation returned by getAttestation. */
+export interface AttestationRecord {
+    readonly attester: bigint;
+    readonly statementHash: Uint8Array;
+    readonly blockNumber: bigint;
+    readonly timestamp: bigint;
+    readonly [key: string]: bigint | Uint8Array;
+}
+
+/** Anchored Merkle root returned by getMerkleRoot. */
+export interface MerkleRootRecord {
+    readonly leafCount: bigint;
+    readonly label: string;
+    readonly anchorer: bigint;
+    readonly blockNumber: bigint;
+    readonly timestamp: bigint;
+    readonly exists: boolean;
+    readonly [key: string]: string | bigint | boolean;
+}
+
+/** Sealed proof returned by getSealedProof and getSealedProofByContent. */
+export interface SealedProofRecord {
+    readonly exists: boolean;
+    readonly sealer: bigint;
+    readonly blockNumber: bigint;
+    readonly timestamp: bigint;
+    readonly unsealed: boolean;
+    /** Empty until the sealer calls unsealFile. */
+    readonly cid: string;
+    readonly fileName: string;
+    readonly [key: string]: boolean | bigint | string;
+}
+
+/** Registration fee configuration returned by getFeeConfig. */
+export interface FeeConfig {
+    /** OP20 fee token; the zero address means fees are disabled. */
+    readonly token: Address;
+    readonly registrationFee: bigint;
+    readonly perByteFee: bigint;
+    readonly collectedFees: bigint;
+    readonly [key: string]: Address | bigint;
+}
+
+/**
+ * Registration limits and usage returned by getQuota. A zero maxPerWindow or
+ * lifetimeQuota means the limit is disabled, and its remaining value is u256 max.
+ */
+export interface QuotaInfo {
+    readonly windowBlocks: bigint;
+    readonly maxPerWindow: bigint;
+    readonly usedInWindow: bigint;
+    readonly remainingInWindow: bigint;
+    /** First block of the next window; zero when rate limiting is disabled. */
+    readonly windowResetsAt: bigint;
+    readonly lifetimeQuota: bigint;
+    readonly lifetimeUsed: bigint;
+    readonly lifetimeRemaining: bigint;
+    readonly [key: string]: bigint;
+}
+
 /** Typed return for getFile. */
 export type GetFileResult = CallResult<FileRecord, []>;
 
+/** Typed return for getFileByContentHash. */
+export type GetFileByContentHashResult = CallResult<ContentHashFileRecord, []>;
+
 /** Typed return for checkFileExists. */
 export type CheckFileExistsResult = CallResult<{ exists: boolean }, []>;
 
+/** Typed return for getIndexOfCid; index is zero when the CID is not registered. */
+export type GetIndexOfCidResult = CallResult<{ exists: boolean; index: bigint }, []>;
+
 /** Typed return for getTotalFiles. */
 export type GetTotalFilesResult = CallResult<{ count: bigint }, []>;
 
 /** Typed return for getFileByIndex. */
 export type GetFileByIndexResult = CallResult<IndexedFileRecord, []>;
 
+/** Typed return for getFilesRange. */
+export type GetFilesRangeResult = CallResult<FilesRange, []>;
+
+/** Typed return for getUploaderFileCount. */
+export type GetUploaderFileCountResult = CallResult<{ count: bigint }, []>;
+
+/** Typed return for getUploaderFileByIndex. */
+export type GetUploaderFileByIndexResult = CallResult<IndexedFileRecord, []>;
+
+/** Typed return for getAttestationCount. */
+export type GetAttestationCountResult = CallResult<{ count: bigint }, []>;
+
+/** Typed return for getAttestation. */
+export type GetAttestationResult = CallResult<AttestationRecord, []>;
+
+/** Typed return for attestFile. */
+export type AttestFileResult = CallResult<{ index: bigint }, []>;
+
+/** Typed return for getFeeConfig. */
+export type GetFeeConfigResult = CallResult<FeeConfig, []>;
+
+/** Typed return for withdrawFees. */
+export type WithdrawFeesResult = CallResult<{ amount: bigint }, []>;
+
+/** Typed return for registerFileWithCertificate. */
+export type RegisterFileWithCertificateResult = CallResult<{ tokenId: bigint }, []>;
+
+/** Typed return for tokenURI. */
+export type TokenURIResult = CallResult<{ uri: string }, []>;
+
+/** Typed return for getMerkleRoot. */
+export type GetMerkleRootResult = CallResult<MerkleRootRecord, []>;
+
+/** Typed return for verifyInclusion. */
+export type VerifyInclusionResult = CallResult<{ valid: boolean }, []>;
+
+/** Typed return for getFileMetadata. */
+export type GetFileMetadataResult = CallResult<
+    { value: string; exists: boolean; mutable: boolean },
+    []
+>;
+
+/** Typed return for listMetadataKeys. */
+export type ListMetadataKeysResult = CallResult<{ keys: string[] }, []>;
+
+/** Typed return for getFileTags. */
+export type GetFileTagsResult = CallResult<{ tags: string[] }, []>;
+
+/** Typed return for getTagFileCount. */
+export type GetTagFileCountResult = CallResult<{ count: bigint }, []>;
+
+/** Typed return for getTagFileByIndex. */
+export type GetTagFileByIndexResult = CallResult<IndexedFileRecord, []>;
+
+/** Typed return for commitRegistration. */
+export type CommitRegistrationResult = CallResult<{ revealAfter: bigint }, []>;
+
+/** Typed return for getRegistrationCommitment; all zero when there is no commitment. */
+export type GetRegistrationCommitmentResult = CallResult<
+    { committedAt: bigint; revealAfter: bigint; expiresAt: bigint },
+    []
+>;
+
+/** Typed return for getSealedProof and getSealedProofByContent. */
+export type GetSealedProofResult = CallResult<SealedProofRecord, []>;
+
+/** Typed return for registrationNonceOf. */
+export type RegistrationNonceOfResult = CallResult<{ nonce: bigint }, []>;
+
+/** Typed return for domainSeparator (inherited from OP721). */
+export type DomainSeparatorResult = CallResult<{ domainSeparator: Uint8Array }, []>;
+
+/** Typed return for createCollection. */
+export type CreateCollectionResult = CallResult<{ collectionId: bigint }, []>;
+
+/** Typed return for addToCollection. */
+export type AddToCollectionResult = CallResult<{ fileCount: bigint }, []>;
+
+/** Typed return for getCollection. */
+export type GetCollectionResult = CallResult<CollectionRecord, []>;
+
+/** Typed return for getTotalCollections and getOwnerCollectionCount. */
+export type GetCollectionCountResult = CallResult<{ count: bigint }, []>;
+
+/** Typed return for getCollectionFileByIndex. */
+export type GetCollectionFileByIndexResult = CallResult<IndexedFileRecord, []>;
+
+/** Typed return for getOwnerCollectionByIndex. */
+export type GetOwnerCollectionByIndexResult = CallResult<{ collectionId: bigint }, []>;
+
+/** Typed return for signAgreement. */
+export type SignAgreementResult = CallResult<{ complete: boolean }, []>;
+
+/** Typed return for getAgreementStatus. */
+export type GetAgreementStatusResult = CallResult<AgreementStatus, []>;
+
+/** Typed return for getSignerAgreementCount. */
+export type GetSignerAgreementCountResult = CallResult<{ count: bigint }, []>;
+
+/** Typed return for getSignerAgreementByIndex. */
+export type GetSignerAgreementByIndexResult = CallResult<{ cid: string }, []>;
+
+/** Typed return for flagFile. */
+export type FlagFileResult = CallResult<{ flagCount: bigint }, []>;
+
+/** Typed return for getFlag; reasonCode is zero when the address has not flagged the file. */
+export type GetFlagResult = CallResult<{ reasonCode: number }, []>;
+
+/** Typed return for getQuota. */
+export type GetQuotaResult = CallResult<QuotaInfo, []>;
+
+/** Typed return for getOwner; pendingOwner is the zero address when no transfer is pending. */
+export type GetOwnerResult = CallResult<{ owner: Address; pendingOwner: Address }, []>;
+
+/** Typed return for getRoles. The contract owner holds every role. */
+export type GetRolesResult = CallResult<
+    { isOwner: boolean; isPauser: boolean; isFeeManager: boolean; isModerator: boolean },
+    []
+>;
+
+/** Typed return for getVersionChain. */
+export type GetVersionChainResult = CallResult<{ cids: string[] }, []>;
+
 /** Typed return for registerFile. */
 export type RegisterFileResult = CallResult<{ success: boolean }, []>;
 
 /** Contract interface for type-safe interaction. */
 export interface IOPScribeContract extends BaseContractProperties {
     registerFile(cid: string, fileName: string, fileSize: bigint): Promise<RegisterFileResult>;
+    registerFileWithHash(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        contentHash: Uint8Array,
+    ): Promise<RegisterFileResult>;
+    registerFileWithCertificate(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        contentHash: Uint8Array,
+    ): Promise<RegisterFileWithCertificateResult>;
+    registerFileWithExpiry(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        contentHash: Uint8Array,
+        validUntil: bigint,
+    ): Promise<RegisterFileResult>;
+    tokenURI(tokenId: bigint): Promise<TokenURIResult>;
+    changeMetadata(
+        icon: string,
+        banner: string,
+        description: string,
+        website: string,
+    ): Promise<CallResult<Record<string, never>, []>>;
+    setBaseURI(baseURI: string): Promise<CallResult<Record<string, never>, []>>;
+    registerFileWithTags(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        tags: string[],
+    ): Promise<RegisterFileResult>;
+    registerFileFor(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        uploader: Address,
+        deadline: bigint,
+        signature: Uint8Array,
+    ): Promise<RegisterFileResult>;
+    registrationNonceOf(uploader: Address): Promise<RegistrationNonceOfResult>;
+    domainSeparator(): Promise<DomainSeparatorResult>;
+    registerFiles(
+        cids: string[],
+        fileNames: string[],
+        fileSizes: bigint[],
+    ): Promise<RegisterFileResult>;
+    commitRegistration(
+        commitment: Uint8Array,
+        cidKey: Uint8Array,
+    ): Promise<CommitRegistrationResult>;
+    revealRegistration(
+        cid: string,
+        fileName: string,
+        fileSize: bigint,
+        salt: Uint8Array,
+    ): Promise<RegisterFileResult>;
+    getRegistrationCommitment(
+        committer: Address,
+        commitment: Uint8Array,
+    ): Promise<GetRegistrationCommitmentResult>;
+    registerSealedFile(
+        commitment: Uint8Array,
+        contentCommitment: Uint8Array,
+    ): Promise<RegisterFileResult>;
+    unsealFile(cid: string, fileName: string, salt: Uint8Array): Promise<RegisterFileResult>;
+    getSealedProof(sealer: Address, commitment: Uint8Array): Promise<GetSealedProofResult>;
+    getSealedProofByContent(
+        sealer: Address,
+        contentCommitment: Uint8Array,
+    ): Promise<GetSealedProofResult>;
     getFile(cid: string): Promise<GetFileResult>;
+    getFileByContentHash(contentHash: Uint8Array): Promise<GetFileByContentHashResult>;
     checkFileExists(cid: string): Promise<CheckFileExistsResult>;
+    getIndexOfCid(cid: string): Promise<GetIndexOfCidResult>;
     getTotalFiles(): Promise<GetTotalFilesResult>;
     getFileByIndex(index: bigint): Promise<GetFileByIndexResult>;
+    getFilesRange(start: bigint, count: bigint): Promise<GetFilesRangeResult>;
+    getUploaderFileCount(uploader: Address): Promise<GetUploaderFileCountResult>;
+    getUploaderFileByIndex(uploader: Address, index: bigint): Promise<GetUploaderFileByIndexResult>;
+    revokeFile(cid: string, reason: string): Promise<RegisterFileResult>;
+    renewFile(cid: string, newExpiry: bigint): Promise<RegisterFileResult>;
+    supersedeFile(oldCid: string, newCid: string): Promise<RegisterFileResult>;
+    setFileMetadata(
+        cid: string,
+        key: string,
+        value: string,
+        mutable: boolean,
+    ): Promise<RegisterFileResult>;
+    getFileMetadata(cid: string, key: string): Promise<GetFileMetadataResult>;
+    listMetadataKeys(cid: string): Promise<ListMetadataKeysResult>;
+    addFileTags(cid: string, tags: string[]): Promise<RegisterFileResult>;
+    getFileTags(cid: string): Promise<GetFileTagsResult>;
+    getTagFileCount(tag: string): Promise<GetTagFileCountResult>;
+    getTagFileByIndex(tag: string, index: bigint): Promise<GetTagFileByIndexResult>;
+    getVersionChain(cid: string): Promise<GetVersionChainResult>;
+    transferRecord(cid: string, newOwner: Address): Promise<RegisterFileResult>;
+    acceptRecordTransfer(cid: string): Promise<RegisterFileResult>;
+    attestFile(cid: string, statementHash: Uint8Array): Promise<AttestFileResult>;
+    getAttestationCount(cid: string): Promise<GetAttestationCountResult>;
+    getAttestation(cid: string, index: bigint): Promise<GetAttestationResult>;
+    anchorMerkleRoot(
+        root: Uint8Array,
+        leafCount: bigint,
+        label: string,
+    ): Promise<RegisterFileResult>;
+    getMerkleRoot(root: Uint8Array): Promise<GetMerkleRootResult>;
+    verifyInclusion(
+        root: Uint8Array,
+        cid: string,
+        proof: Uint8Array[],
+    ): Promise<VerifyInclusionResult>;
+    setFeeConfig(
+        token: Address,
+        registrationFee: bigint,
+        perByteFee: bigint,
+    ): Promise<RegisterFileResult>;
+    withdrawFees(to: Address): Promise<WithdrawFeesResult>;
+    getFeeConfig(): Promise<GetFeeConfigResult>;
+    createCollection(name: string, description: string): Promise<CreateCollectionResult>;
+    addToCollection(collectionId: bigint, cid: string): Promise<AddToCollectionResult>;
+    getCollection(collectionId: bigint): Promise<GetCollectionResult>;
+    getTotalCollections(): Promise<GetCollectionCountResult>;
+    getCollectionFileByIndex(
+        collectionId: bigint,
+        index: bigint,
+    ): Promise<GetCollectionFileByIndexResult>;
+    getOwnerCollectionCount(owner: Address): Promise<GetCollectionCountResult>;
+    getOwnerCollectionByIndex(
+        owner: Address,
+        index: bigint,
+    ): Promise<GetOwnerCollectionByIndexResult>;
+    createAgreement(
+        cid: string,
+        requiredSigners: Address[],
+        deadline: bigint,
+    ): Promise<RegisterFileResult>;
+    signAgreement(cid: string): Promise<SignAgreementResult>;
+    getAgreementStatus(cid: string): Promise<GetAgreementStatusResult>;
+    getSignerAgreementCount(signer: Address): Promise<GetSignerAgreementCountResult>;
+    getSignerAgreementByIndex(
+        signer: Address,
+        index: bigint,
+    ): Promise<GetSignerAgreementByIndexResult>;
+    flagFile(cid: string, reasonCode: FlagReason): Promise<FlagFileResult>;
+    getFlag(cid: string, flagger: Address): Promise<GetFlagResult>;
+    setHidden(cid: string, hidden: boolean): Promise<RegisterFileResult>;
+    setRateLimits(
+        windowBlocks: bigint,
+        maxPerWindow: bigint,
+        lifetimeQuota: bigint,
+    ): Promise<RegisterFileResult>;
+    getQuota(uploader: Address): Promise<GetQuotaResult>;
+    transferOwnership(newOwner: Address): Promise<RegisterFileResult>;
+    acceptOwnership(): Promise<RegisterFileResult>;
+    setRole(role: Role, account: Address, enabled: boolean): Promise<RegisterFileResult>;
+    getOwner(): Promise<GetOwnerResult>;
+    getRoles(account: Address): Promise<GetRolesResult>;
+    pause(): Promise<CallResult<Record<string, never>, []>>;
+    unpause(): Promise<CallResult<Record<string, never>, []>>;
     getIsPaused(): Promise<CallResult<{ isPaused: boolean }, []>>;
 }
+
+/**
+ * Checks whether an enumerated record was hidden by a moderator. Enumeration views
+ * return hidden records with an empty cid, which a registered record never has.
+ *
+ * @param record - A record from getFileByIndex, getFilesRange or a per-index view.
+ * @returns True if the record is hidden.
+ */
+export function isHiddenRecord(record: IndexedFileRecord): boolean {
+    return record.cid === '';
+}
+
+/**
+ * Checks whether an enumerated record is past its expiry block, matching the
+ * expired flag getFile reports.
+ *
+ * @param record - A record from getFileByIndex, getFilesRange or a per-index view.
+ * @param currentBlock - The current block height.
+ * @returns True if the record has an expiry and the current block is after it.
+ */
+export function isExpiredRecord(record: IndexedFileRecord, currentBlock: bigint): boolean {
+    return record.validUntil !== 0n && currentBlock > record.validUntil;
+}
+
+/**
+ * Zips the parallel arrays returned by getFilesRange into one record per file.
+ *
+ * @param range - Decoded getFilesRange output.
+ * @returns Records in index order.
+ * @throws Error if the arrays have different lengths.
+ */
+export function decodeFilesRange(range: FilesRange): IndexedFileRecord[] {
+    const length: number = range.cids.length;
+    const columns: readonly (readonly unknown[])[] = [
+        range.fileNames,
+        range.fileSizes,
+        range.uploaders,
+        range.blockNumbers,
+        range.timestamps,
+        range.owners,
+        range.validUntils,
+    ];
+    if (columns.some((column: readonly unknown[]): boolean => column.length !== length)) {
+        throw new Error('Malformed getFilesRange result: array lengths differ.');
+    }
+
+    const records: IndexedFileRecord[] = [];
+    for (let i: number = 0; i < length; i++) {
+        records.push({
+            cid: range.cids[i] as string,
+            fileName: range.fileNames[i] as string,
+            fileSize: range.fileSizes[i] as bigint,
+            uploader: range.uploaders[i] as bigint,
+            blockNumber: range.blockNumbers[i] as bigint,
+            timestamp: range.timestamps[i] as bigint,
+            owner: range.owners[i] as bigint,
+            validUntil: range.validUntils[i] as bigint,
+        });
+    }
+    return records;
+}
+
+/**
+ * Zips the parallel signer arrays returned by getAgreementStatus into one entry per party.
+ *
+ * @param status - Decoded getAgreementStatus output.
+ * @returns Signers in the order the agreement listed them.
+ * @throws Error if the arrays have different lengths.
+ */
+export function decodeAgreementSignatures(status: AgreementStatus): AgreementSignature[] {
+    const length: number = status.signers.length;
+    if (status.signedBlocks.length !== length || status.signedTimestamps.length !== length) {
+        throw new Error('Malformed getAgreementStatus result: array lengths differ.');
+    }
+
+    const signatures: AgreementSignature[] = [];
+    for (let i: number = 0; i < length; i++) {
+        signatures.push({
+            signer: status.signers[i] as bigint,
+            signedBlock: status.signedBlocks[i] as bigint,
+            signedTimestamp: status.signedTimestamps[i] as bigint,
+        });
+    }
+    return signatures;
+}
@@ -0,0 +1,793 @@
+import React, { useState, useCallback } from 'react';
+import { Role } from '../abi/OPScribeAbi';
+
+/** Props for AdminPage. */
+interface AdminPageProps {
+    readonly walletAddress: string;
+}
+
+/** Contract administration state shown at the top of the page. */
+interface AdminStatus {
+    readonly isPaused: boolean;
+    readonly owner: string;
+    /** Empty when no ownership transfer is pending. */
+    readonly pendingOwner: string;
+}
+
+/** Roles held by the connected wallet (the owner holds every role). */
+interface WalletRoles {
+    readonly isOwner: boolean;
+    readonly isPauser: boolean;
+    readonly isFeeManager: boolean;
+    readonly isModerator: boolean;
+}
+
+/** Labels for the roles granted with setRole. */
+const ROLE_LABELS: Readonly<Record<Role, string>> = {
+    [Role.Pauser]: 'Pauser',
+    [Role.FeeManager]: 'Fee manager',
+    [Role.Moderator]: 'Moderator',
+};
+
+/** A 32-byte OP_NET address in hex. */
+const ADDRESS_PATTERN: RegExp = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Validates a hex address typed into an admin form.
+ *
+ * @param value - The input value.
+ * @param field - Field name used in the error message.
+ * @returns The trimmed address.
+ * @throws Error if the value is not a 32-byte hex address.
+ */
+function parseAddressInput(value: string, field: string): string {
+    const trimmed: string = value.trim();
+    if (!ADDRESS_PATTERN.test(trimmed)) {
+        throw new Error(`${field} must be a 32-byte hex address (0x + 64 hex digits).`);
+    }
+    return trimmed;
+}
+
+/**
+ * Validates a non-negative integer amount typed into an admin form.
+ *
+ * @param value - The input value.
+ * @param field - Field name used in the error message.
+ * @returns The amount in the token's smallest unit.
+ * @throws Error if the value is not a whole number.
+ */
+function parseAmountInput(value: string, field: string): bigint {
+    const trimmed: string = value.trim();
+    if (!/^\d+$/.test(trimmed)) {
+        throw new Error(`${field} must be a whole number of base units.`);
+    }
+    return BigInt(trimmed);
+}
+
+/**
+ * Admin page -- shows the pause state, the contract owner and the connected
+ * wallet's roles, and lets role holders pause, manage fees, set registration
+ * limits, edit the certificate collection, grant roles and hand over ownership.
+ *
+ * Moderators act from the Verify page (hide/unhide), so they have no form here.
+ *
+ * @param props - Component props containing the connected wallet address.
+ * @returns JSX element for the admin page.
+ */
+export function AdminPage({ walletAddress }: AdminPageProps): React.JSX.Element {
+    const [status, setStatus] = useState<AdminStatus | null>(null);
+    const [roles, setRoles] = useState<WalletRoles | null>(null);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [errorMessage, setErrorMessage] = useState<string>('');
+    const [actionMessage, setActionMessage] = useState<string>('');
+    const [roleSelect, setRoleSelect] = useState<Role>(Role.Pauser);
+    const [roleAccount, setRoleAccount] = useState<string>('');
+    const [newOwner, setNewOwner] = useState<string>('');
+    const [feeToken, setFeeToken] = useState<string>('');
+    const [registrationFee, setRegistrationFee] = useState<string>('');
+    const [perByteFee, setPerByteFee] = useState<string>('');
+    const [withdrawTo, setWithdrawTo] = useState<string>('');
+    const [windowBlocks, setWindowBlocks] = useState<string>('');
+    const [maxPerWindow, setMaxPerWindow] = useState<string>('');
+    const [lifetimeQuota, setLifetimeQuota] = useState<string>('');
+    const [collectionIcon, setCollectionIcon] = useState<string>('');
+    const [collectionBanner, setCollectionBanner] = useState<string>('');
+    const [collectionDescription, setCollectionDescription] = useState<string>('');
+    const [collectionWebsite, setCollectionWebsite] = useState<string>('');
+    const [baseUri, setBaseUri] = useState<string>('');
+
+    const handleRefresh = useCallback(async (): Promise<void> => {
+        setLoading(true);
+        setErrorMessage('');
+
+        try {
+            // NOTE: Contract interaction requires deployment.
+            // Once deployed, use:
+            //
+            // const provider = new JSONRpcProvider(OPNET_RPC_URL, networks.regtest);
+            // const contract = getContract<IOPScribeContract>(...);
+            // const paused = (await contract.getIsPaused()).decoded.isPaused;
+            // const { owner, pendingOwner } = (await contract.getOwner()).decoded;
+            // setStatus({
+            //     isPaused: paused,
+            //     owner: owner.toHex(),
+            //     pendingOwner: pendingOwner.isZero() ? '' : pendingOwner.toHex(),
+            // });
+            // if (walletAddress) {
+            //     setRoles((await contract.getRoles(senderAddress)).decoded);
+            // }
+
+            // Placeholder until contract deployment
+            setStatus(null);
+            setRoles(null);
+            setErrorMessage('Contract deployment pending -- admin status is not available yet.');
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Failed to load';
+            setErrorMessage(message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const handlePauseToggle = useCallback(async (pause: boolean): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            // NOTE: Contract interaction requires deployment. Pausers only.
+            // Once deployed, use:
+            //
+            // const sim = pause ? await contract.pause() : await contract.unpause();
+            // if ('error' in sim) throw new Error(sim.error);
+            // await sim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            // await handleRefresh();
+
+            setActionMessage(
+                `The contract will be ${pause ? 'paused' : 'unpaused'} once it is deployed.`,
+            );
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Action failed';
+            setActionMessage(message);
+        }
+    }, []);
+
+    const handleSetRole = useCallback(
+        async (enabled: boolean): Promise<void> => {
+            setActionMessage('');
+
+            try {
+                const account: string = parseAddressInput(roleAccount, 'Account');
+
+                // NOTE: Contract interaction requires deployment. Contract owner only.
+                // Once deployed, use:
+                //
+                // const sim = await contract.setRole(roleSelect, Address.fromString(account), enabled);
+                // if ('error' in sim) throw new Error(sim.error);
+                // await sim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+
+                setActionMessage(
+                    `${ROLE_LABELS[roleSelect]} role will be ${enabled ? 'granted to' : 'revoked from'} ${account} once the contract is deployed.`,
+                );
+                setRoleAccount('');
+            } catch (err: unknown) {
+                const message: string = err instanceof Error ? err.message : 'Action failed';
+                setActionMessage(message);
+            }
+        },
+        [roleAccount, roleSelect],
+    );
+
+    const handleSetRateLimits = useCallback(async (): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            const window: bigint = parseAmountInput(windowBlocks || '0', 'Window length');
+            const perWindow: bigint = parseAmountInput(
+                maxPerWindow || '0',
+                'Registrations per window',
+            );
+            const quota: bigint = parseAmountInput(lifetimeQuota || '0', 'Lifetime quota');
+            if (perWindow > 0n && window === 0n) {
+                throw new Error('Set a window length for the per-window limit.');
+            }
+
+            // NOTE: Contract interaction requires deployment. Contract owner only.
+            // Once deployed, use:
+            //
+            // const sim = await contract.setRateLimits(window, perWindow, quota);
+            // if ('error' in sim) throw new Error(sim.error);
+            // await sim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+
+            setActionMessage(
+                `Limits (${perWindow.toString()} per ${window.toString()} blocks, lifetime ${quota.toString()}; 0 = off) will be set once the contract is deployed.`,
+            );
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Action failed';
+            setActionMessage(message);
+        }
+    }, [windowBlocks, maxPerWindow, lifetimeQuota]);
+
+    const handleChangeMetadata = useCallback(async (): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            const fields: string[] = [
+                collectionIcon,
+                collectionBanner,
+                collectionDescription,
+                collectionWebsite,
+            ].map((value: string): string => value.trim());
+            if (fields.some((value: string): boolean => value.length === 0)) {
+                throw new Error('Icon, banner, description and website are all required.');
+            }
+
+            // NOTE: Contract interaction requires deployment. Contract owner only.
+            // Once deployed, use:
+            //
+            // const sim = await contract.changeMetadata(fields[0], fields[1], fields[2], fields[3]);
+            // if ('error' in sim) throw new Error(sim.error);
+            // await sim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+
+            setActionMessage(
+                'Certificate collection metadata will be updated once the contract is deployed.',
+            );
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Action failed';
+            setActionMessage(message);
+        }
+    }, [collectionIcon, collectionBanner, collectionDescription, collectionWebsite]);
+
+    const handleSetBaseUri = useCallback(async (): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            const uri: string = baseUri.trim();
+            if (uri.length === 0) {
+                throw new Error('Base URI cannot be empty.');
+            }
+
+            // NOTE: Contract interaction requires deployment. Contract owner only.
+            // Once deployed, use:
+            //
+            // const sim = await contract.setBaseURI(uri);
+            // if ('error' in sim) throw new Error(sim.error);
+            // await sim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+
+            setActionMessage(`Base URI will be set to ${uri} once the contract is deployed.`);
+            setBaseUri('');
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Action failed';
+            setActionMessage(message);
+        }
+    }, [baseUri]);
+
+    const handleTransferOwnership = useCallback(async (): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            const nominee: string = parseAddressInput(newOwner, 'New owner');
+
+            // NOTE: Contract interaction requires deployment. Contract owner only.
+            // The nominee must then call acceptOwnership from their own wallet.
+            // Once deployed, use:
+            //
+            // const sim = await contract.transferOwnership(Address.fromString(nominee));
+            // if ('error' in sim) throw new Error(sim.error);
+            // await sim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            // await handleRefresh();
+
+            setActionMessage(
+                `${nominee} will be nominated as owner once the contract is deployed. They must accept from their own wallet.`,
+            );
+            setNewOwner('');
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Action failed';
+            setActionMessage(message);
+        }
+    }, [newOwner]);
+
+    const handleAcceptOwnership = useCallback(async (): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            // NOTE: Contract interaction requires deployment. Pending owner only.
+            // Once deployed, use:
+            //
+            // const sim = await contract.acceptOwnership();
+            // if ('error' in sim) throw new Error(sim.error);
+            // await sim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            // await handleRefresh();
+
+            setActionMessage('Ownership will be accepted once the contract is deployed.');
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Action failed';
+            setActionMessage(message);
+        }
+    }, []);
+
+    const handleSetFeeConfig = useCallback(async (): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            const token: string = parseAddressInput(feeToken, 'Fee token');
+            const flatFee: bigint = parseAmountInput(registrationFee, 'Registration fee');
+            const byteFee: bigint = parseAmountInput(perByteFee, 'Per-byte fee');
+
+            // NOTE: Contract interaction requires deployment. Fee managers only.
+            // Once deployed, use:
+            //
+            // const sim = await contract.setFeeConfig(Address.fromString(token), flatFee, byteFee);
+            // if ('error' in sim) throw new Error(sim.error);
+            // await sim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+
+            setActionMessage(
+                `Fees (${flatFee.toString()} + ${byteFee.toString()}/byte in ${token}) will be set once the contract is deployed.`,
+            );
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Action failed';
+            setActionMessage(message);
+        }
+    }, [feeToken, registrationFee, perByteFee]);
+
+    const handleWithdrawFees = useCallback(async (): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            const recipient: string = parseAddressInput(withdrawTo, 'Recipient');
+
+            // NOTE: Contract interaction requires deployment. Fee managers only.
+            // Once deployed, use:
+            //
+            // const sim = await contract.withdrawFees(Address.fromString(recipient));
+            // if ('error' in sim) throw new Error(sim.error);
+            // await sim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+
+            setActionMessage(
+                `Collected fees will be sent to ${recipient} once the contract is deployed.`,
+            );
+            setWithdrawTo('');
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Action failed';
+            setActionMessage(message);
+        }
+    }, [withdrawTo]);
+
+    return (
+        <>
+            <div className="card">
+                <div className="card-title">Contract Status</div>
+
+                <button
+                    type="button"
+                    className="btn btn-secondary"
+                    disabled={loading}
+                    onClick={(): void => {
+                        handleRefresh().catch((): undefined => undefined);
+                    }}
+                >
+                    {loading ? (
+                        <>
+                            <span className="spinner" /> Loading...
+                        </>
+                    ) : (
+                        'Refresh'
+                    )}
+                </button>
+
+                {errorMessage && <div className="status status-error">{errorMessage}</div>}
+
+                {status && (
+                    <div className="verify-result">
+                        <div className="verify-field">
+                            <span className="verify-label">Paused</span>
+                            <span className="verify-value">{status.isPaused ? 'Yes' : 'No'}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Owner</span>
+                            <span className="verify-value">{status.owner}</span>
+                        </div>
+                        {status.pendingOwner && (
+                            <div className="verify-field">
+                                <span className="verify-label">Pending Owner</span>
+                                <span className="verify-value">{status.pendingOwner}</span>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {roles && (
+                    <div className="verify-field">
+                        <span className="verify-label">Your Roles</span>
+                        <span className="verify-value">
+                            {[
+                                roles.isOwner && 'Owner',
+                                roles.isPauser && ROLE_LABELS[Role.Pauser],
+                                roles.isFeeManager && ROLE_LABELS[Role.FeeManager],
+                                roles.isModerator && ROLE_LABELS[Role.Moderator],
+                            ]
+                                .filter(Boolean)
+                                .join(', ') || 'None'}
+                        </span>
+                    </div>
+                )}
+            </div>
+
+            <div className="card">
+                <div className="card-title">Pause (pausers)</div>
+                <div style={{ display: 'flex', gap: '12px' }}>
+                    <button
+                        type="button"
+                        className="btn btn-secondary"
+                        disabled={!walletAddress}
+                        onClick={(): void => {
+                            handlePauseToggle(true).catch((): undefined => undefined);
+                        }}
+                    >
+                        Pause
+                    </button>
+                    <button
+                        type="button"
+                        className="btn btn-secondary"
+                        disabled={!walletAddress}
+                        onClick={(): void => {
+                            handlePauseToggle(false).catch((): undefined => undefined);
+                        }}
+                    >
+                        Unpause
+                    </button>
+                </div>
+            </div>
+
+            <div className="card">
+                <div className="card-title">Fees (fee managers)</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="fee-token-input">
+                        Fee token (zero address disables fees)
+                    </label>
+                    <input
+                        id="fee-token-input"
+                        className="input"
+                        type="text"
+                        placeholder="0x..."
+                        value={feeToken}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setFeeToken(e.target.value)
+                        }
+                    />
+                </div>
+                <div className="input-group">
+                    <label className="input-label" htmlFor="registration-fee-input">
+                        Registration fee
+                    </label>
+                    <input
+                        id="registration-fee-input"
+                        className="input"
+                        type="text"
+                        placeholder="0"
+                        value={registrationFee}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setRegistrationFee(e.target.value)
+                        }
+                    />
+                </div>
+                <div className="input-group">
+                    <label className="input-label" htmlFor="per-byte-fee-input">
+                        Per-byte fee
+                    </label>
+                    <input
+                        id="per-byte-fee-input"
+                        className="input"
+                        type="text"
+                        placeholder="0"
+                        value={perByteFee}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setPerByteFee(e.target.value)
+                        }
+                    />
+                </div>
+                <button
+                    type="button"
+                    className="btn btn-secondary"
+                    disabled={!walletAddress}
+                    onClick={(): void => {
+                        handleSetFeeConfig().catch((): undefined => undefined);
+                    }}
+                >
+                    Set Fees
+                </button>
+
+                <div className="input-group" style={{ marginTop: '20px' }}>
+                    <label className="input-label" htmlFor="withdraw-to-input">
+                        Withdraw collected fees to
+                    </label>
+                    <input
+                        id="withdraw-to-input"
+                        className="input"
+                        type="text"
+                        placeholder="0x..."
+                        value={withdrawTo}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setWithdrawTo(e.target.value)
+                        }
+                    />
+                </div>
+                <button
+                    type="button"
+                    className="btn btn-secondary"
+                    disabled={!walletAddress || withdrawTo.trim().length === 0}
+                    onClick={(): void => {
+                        handleWithdrawFees().catch((): undefined => undefined);
+                    }}
+                >
+                    Withdraw
+                </button>
+            </div>
+
+            <div className="card">
+                <div className="card-title">Registration Limits (owner)</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="window-blocks-input">
+                        Window length in blocks
+                    </label>
+                    <input
+                        id="window-blocks-input"
+                        className="input"
+                        type="text"
+                        placeholder="e.g. 144"
+                        value={windowBlocks}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setWindowBlocks(e.target.value)
+                        }
+                    />
+                </div>
+                <div className="input-group">
+                    <label className="input-label" htmlFor="max-per-window-input">
+                        Registrations per address per window (0 = no limit)
+                    </label>
+                    <input
+                        id="max-per-window-input"
+                        className="input"
+                        type="text"
+                        placeholder="0"
+                        value={maxPerWindow}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setMaxPerWindow(e.target.value)
+                        }
+                    />
+                </div>
+                <div className="input-group">
+                    <label className="input-label" htmlFor="lifetime-quota-input">
+                        Lifetime registrations per address (0 = no quota)
+                    </label>
+                    <input
+                        id="lifetime-quota-input"
+                        className="input"
+                        type="text"
+                        placeholder="0"
+                        value={lifetimeQuota}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setLifetimeQuota(e.target.value)
+                        }
+                    />
+                </div>
+                <button
+                    type="button"
+                    className="btn btn-secondary"
+                    disabled={!walletAddress}
+                    onClick={(): void => {
+                        handleSetRateLimits().catch((): undefined => undefined);
+                    }}
+                >
+                    Set Limits
+                </button>
+            </div>
+
+            <div className="card">
+                <div className="card-title">Certificate Collection (owner)</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="collection-icon-input">
+                        Icon URI
+                    </label>
+                    <input
+                        id="collection-icon-input"
+                        className="input"
+                        type="text"
+                        placeholder="ipfs://..."
+                        value={collectionIcon}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setCollectionIcon(e.target.value)
+                        }
+                    />
+                </div>
+                <div className="input-group">
+                    <label className="input-label" htmlFor="collection-banner-input">
+                        Banner URI
+                    </label>
+                    <input
+                        id="collection-banner-input"
+                        className="input"
+                        type="text"
+                        placeholder="ipfs://..."
+                        value={collectionBanner}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setCollectionBanner(e.target.value)
+                        }
+                    />
+                </div>
+                <div className="input-group">
+                    <label className="input-label" htmlFor="collection-description-input">
+                        Description
+                    </label>
+                    <input
+                        id="collection-description-input"
+                        className="input"
+                        type="text"
+                        placeholder="Proof of existence certificates"
+                        value={collectionDescription}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setCollectionDescription(e.target.value)
+                        }
+                    />
+                </div>
+                <div className="input-group">
+                    <label className="input-label" htmlFor="collection-website-input">
+                        Website
+                    </label>
+                    <input
+                        id="collection-website-input"
+                        className="input"
+                        type="text"
+                        placeholder="https://..."
+                        value={collectionWebsite}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setCollectionWebsite(e.target.value)
+                        }
+                    />
+                </div>
+                <button
+                    type="button"
+                    className="btn btn-secondary"
+                    disabled={!walletAddress}
+                    onClick={(): void => {
+                        handleChangeMetadata().catch((): undefined => undefined);
+                    }}
+                >
+                    Update Metadata
+                </button>
+
+                <div className="input-group" style={{ marginTop: '20px' }}>
+                    <label className="input-label" htmlFor="base-uri-input">
+                        Base URI (certificates keep their ipfs:// URIs)
+                    </label>
+                    <input
+                        id="base-uri-input"
+                        className="input"
+                        type="text"
+                        placeholder="ipfs://..."
+                        value={baseUri}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setBaseUri(e.target.value)
+                        }
+                    />
+                </div>
+                <button
+                    type="button"
+                    className="btn btn-secondary"
+                    disabled={!walletAddress || baseUri.trim().length === 0}
+                    onClick={(): void => {
+                        handleSetBaseUri().catch((): undefined => undefined);
+                    }}
+                >
+                    Set Base URI
+                </button>
+            </div>
+
+            <div className="card">
+                <div className="card-title">Roles &amp; Ownership (owner)</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="role-select">
+                        Role
+                    </label>
+                    <select
+                        id="role-select"
+                        className="input"
+                        value={roleSelect}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>): void =>
+                            setRoleSelect(Number(e.target.value) as Role)
+                        }
+                    >
+                        {[Role.Pauser, Role.FeeManager, Role.Moderator].map(
+                            (role: Role): React.JSX.Element => (
+                                <option key={role} value={role}>
+                                    {ROLE_LABELS[role]}
+                                </option>
+                            ),
+                        )}
+                    </select>
+                </div>
+                <div className="input-group">
+                    <label className="input-label" htmlFor="role-account-input">
+                        Account
+                    </label>
+                    <input
+                        id="role-account-input"
+                        className="input"
+                        type="text"
+                        placeholder="0x..."
+                        value={roleAccount}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setRoleAccount(e.target.value)
+                        }
+                    />
+                </div>
+                <div style={{ display: 'flex', gap: '12px' }}>
+                    <button
+                        type="button"
+                        className="btn btn-secondary"
+                        disabled={!walletAddress || roleAccount.trim().length === 0}
+                        onClick={(): void => {
+                            handleSetRole(true).catch((): undefined => undefined);
+                        }}
+                    >
+                        Grant
+                    </button>
+                    <button
+                        type="button"
+                        className="btn btn-secondary"
+                        disabled={!walletAddress || roleAccount.trim().length === 0}
+                        onClick={(): void => {
+                            handleSetRole(false).catch((): undefined => undefined);
+                        }}
+                    >
+                        Revoke
+                    </button>
+                </div>
+
+                <div className="input-group" style={{ marginTop: '20px' }}>
+                    <label className="input-label" htmlFor="new-owner-input">
+                        Nominate new owner (they must accept)
+                    </label>
+                    <input
+                        id="new-owner-input"
+                        className="input"
+                        type="text"
+                        placeholder="0x..."
+                        value={newOwner}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setNewOwner(e.target.value)
+                        }
+                    />
+                </div>
+                <button
+                    type="button"
+                    className="btn btn-secondary"
+                    disabled={!walletAddress || newOwner.trim().length === 0}
+                    onClick={(): void => {
+                        handleTransferOwnership().catch((): undefined => undefined);
+                    }}
+                >
+                    Transfer Ownership
+                </button>
+
+                {/* The contract checks that the caller is the nominated owner */}
+                {status?.pendingOwner && walletAddress && (
+                    <button
+                        type="button"
+                        className="btn btn-primary btn-full"
+                        style={{ marginTop: '12px' }}
+                        onClick={(): void => {
+                            handleAcceptOwnership().catch((): undefined => undefined);
+                        }}
+                    >
+                        Accept Ownership
+                    </button>
+                )}
+            </div>
+
+            {actionMessage && <div className="status status-warning">{actionMessage}</div>}
+        </>
+    );
+}
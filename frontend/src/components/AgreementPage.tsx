@@ -0,0 +1,479 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { parseCid } from '../../../shared/cid';
+import { MAX_AGREEMENT_SIGNERS } from '../types/config';
+
+/** Props for AgreementPage. */
+interface AgreementPageProps {
+    readonly walletAddress: string;
+}
+
+/** One required party and when they signed. */
+interface DisplaySignature {
+    readonly signer: string;
+    /** Empty until the party signs. */
+    readonly signedBlock: string;
+    readonly signedAt: string;
+}
+
+/** Agreement state shown in the inbox and the status lookup. */
+interface DisplayAgreement {
+    readonly cid: string;
+    readonly creator: string;
+    readonly deadline: string;
+    readonly signatures: readonly DisplaySignature[];
+    readonly signedCount: number;
+    readonly complete: boolean;
+    readonly expired: boolean;
+    /** Block of the last signature, empty until complete. */
+    readonly completedAt: string;
+    /** The connected wallet is listed and has already signed. */
+    readonly signedByYou: boolean;
+}
+
+/** A 32-byte OP_NET address in hex. */
+const ADDRESS_PATTERN: RegExp = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Describes where an agreement stands.
+ *
+ * @param agreement - The agreement to describe.
+ * @returns A short status label.
+ */
+function agreementState(agreement: DisplayAgreement): string {
+    if (agreement.complete) {
+        return `Complete at block ${agreement.completedAt}`;
+    }
+    if (agreement.expired) {
+        return `Expired -- deadline block ${agreement.deadline} passed`;
+    }
+    return `Awaiting signatures until block ${agreement.deadline}`;
+}
+
+/**
+ * Parses the signer list typed into the create form, one address per line.
+ *
+ * @param value - The textarea contents.
+ * @returns The addresses in the order given.
+ * @throws Error if the list is empty, too long, or has an invalid or duplicate address.
+ */
+function parseSignerList(value: string): string[] {
+    const signers: string[] = value
+        .split(/[\s,]+/)
+        .map((line: string): string => line.trim())
+        .filter((line: string): boolean => line.length > 0);
+
+    if (signers.length === 0) {
+        throw new Error('List at least one signer.');
+    }
+    if (signers.length > MAX_AGREEMENT_SIGNERS) {
+        throw new Error(`An agreement can require at most ${MAX_AGREEMENT_SIGNERS} signers.`);
+    }
+
+    const seen: Set<string> = new Set();
+    for (const signer of signers) {
+        if (!ADDRESS_PATTERN.test(signer)) {
+            throw new Error(`${signer} is not a 32-byte hex address (0x + 64 hex digits).`);
+        }
+        if (seen.has(signer.toLowerCase())) {
+            throw new Error(`${signer} is listed twice.`);
+        }
+        seen.add(signer.toLowerCase());
+    }
+    return signers;
+}
+
+/**
+ * Agreement page -- open a multi-party agreement on a registered file, see the
+ * agreements the connected wallet is asked to sign, and sign them.
+ *
+ * When the contract is deployed, the inbox is read with getSignerAgreementCount
+ * and getSignerAgreementByIndex, and each agreement's state with getAgreementStatus.
+ *
+ * @param props - Component props containing the connected wallet address.
+ * @returns JSX element for the agreement page.
+ */
+export function AgreementPage({ walletAddress }: AgreementPageProps): React.JSX.Element {
+    const [inbox, setInbox] = useState<readonly DisplayAgreement[]>([]);
+    const [inboxLoading, setInboxLoading] = useState<boolean>(false);
+    const [inboxMessage, setInboxMessage] = useState<string>('');
+    const [lookupCid, setLookupCid] = useState<string>('');
+    const [agreement, setAgreement] = useState<DisplayAgreement | null>(null);
+    const [lookupMessage, setLookupMessage] = useState<string>('');
+    const [newCid, setNewCid] = useState<string>('');
+    const [newSigners, setNewSigners] = useState<string>('');
+    const [newDeadline, setNewDeadline] = useState<string>('');
+    const [actionMessage, setActionMessage] = useState<string>('');
+
+    const loadInbox = useCallback(async (): Promise<void> => {
+        if (!walletAddress) {
+            setInbox([]);
+            return;
+        }
+
+        setInboxLoading(true);
+        setInboxMessage('');
+
+        try {
+            // NOTE: Contract interaction requires deployment.
+            // Once deployed, use:
+            //
+            // const provider = new JSONRpcProvider(OPNET_RPC_URL, networks.regtest);
+            // const contract = getContract<IOPScribeContract>(...);
+            // const self = BigInt(senderAddress.toHex());
+            // const count = (await contract.getSignerAgreementCount(senderAddress)).decoded.count;
+            // const entries: DisplayAgreement[] = [];
+            // for (let i = count; i > 0n; i--) {
+            //     const cid = (await contract.getSignerAgreementByIndex(senderAddress, i - 1n))
+            //         .decoded.cid;
+            //     const status = (await contract.getAgreementStatus(cid)).decoded;
+            //     const signatures = decodeAgreementSignatures(status);
+            //     entries.push({
+            //         cid,
+            //         creator: `0x${status.creator.toString(16)}`,
+            //         deadline: status.deadline.toString(),
+            //         signatures: signatures.map((s) => ({
+            //             signer: `0x${s.signer.toString(16)}`,
+            //             signedBlock: s.signedBlock === 0n ? '' : s.signedBlock.toString(),
+            //             signedAt: s.signedBlock === 0n
+            //                 ? ''
+            //                 : new Date(Number(s.signedTimestamp) * 1000).toISOString(),
+            //         })),
+            //         signedCount: Number(status.signedCount),
+            //         complete: status.complete,
+            //         expired: status.expired,
+            //         completedAt: status.complete ? status.completedAt.toString() : '',
+            //         signedByYou: signatures.some((s) => s.signer === self && s.signedBlock !== 0n),
+            //     });
+            // }
+            // setInbox(entries);
+
+            // Placeholder until contract deployment
+            setInbox([]);
+            setInboxMessage('Agreements will be listed once the contract is deployed.');
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Failed to load';
+            setInboxMessage(message);
+        } finally {
+            setInboxLoading(false);
+        }
+    }, [walletAddress]);
+
+    useEffect((): void => {
+        loadInbox().catch((): undefined => undefined);
+    }, [loadInbox]);
+
+    const handleLookup = useCallback(async (): Promise<void> => {
+        setAgreement(null);
+        setLookupMessage('');
+
+        try {
+            const cid: string = lookupCid.trim();
+            parseCid(cid);
+
+            // NOTE: Contract interaction requires deployment.
+            // Once deployed, read getAgreementStatus(cid) and map it as in loadInbox:
+            //
+            // const status = (await contract.getAgreementStatus(cid)).decoded;
+            // if (!status.exists) throw new Error(`No agreement has been opened on ${cid}.`);
+            // setAgreement({ cid, ... });
+
+            // Placeholder until contract deployment
+            setLookupMessage(`No agreement found for ${cid} (contract deployment pending).`);
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Lookup failed';
+            setLookupMessage(message);
+        }
+    }, [lookupCid]);
+
+    const handleSign = useCallback(async (cid: string): Promise<void> => {
+        setInboxMessage('');
+
+        try {
+            // NOTE: Contract interaction requires deployment.
+            // Only listed signers can sign, once each, up to the deadline block.
+            // Once deployed, use:
+            //
+            // const signSim = await contract.signAgreement(cid);
+            // if ('error' in signSim) throw new Error(signSim.error);
+            // await signSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            // await loadInbox();
+
+            setInboxMessage(`Your signature on ${cid} will be sent once the contract is deployed.`);
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Signing failed';
+            setInboxMessage(message);
+        }
+    }, []);
+
+    const handleCreate = useCallback(async (): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            const cid: string = newCid.trim();
+            parseCid(cid);
+            const signers: string[] = parseSignerList(newSigners);
+
+            const trimmedDeadline: string = newDeadline.trim();
+            if (!/^[1-9]\d*$/.test(trimmedDeadline)) {
+                throw new Error('The deadline must be a block height, e.g. 850000.');
+            }
+            const deadline: bigint = BigInt(trimmedDeadline);
+
+            // NOTE: Contract interaction requires deployment.
+            // Only the file's current owner can open an agreement, once per file,
+            // and the deadline must be a future block. Once deployed, use:
+            //
+            // const createSim = await contract.createAgreement(
+            //     cid, signers.map((s) => Address.fromString(s)), deadline,
+            // );
+            // if ('error' in createSim) throw new Error(createSim.error);
+            // await createSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            // setLookupCid(cid);
+
+            setActionMessage(
+                `An agreement on ${cid} for ${signers.length} signer(s), open until block ${deadline}, will be created once the contract is deployed.`,
+            );
+            setNewSigners('');
+            setNewDeadline('');
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Create failed';
+            setActionMessage(message);
+        }
+    }, [newCid, newSigners, newDeadline]);
+
+    const renderSignatures = (entry: DisplayAgreement): React.JSX.Element => (
+        <table className="file-table">
+            <thead>
+                <tr>
+                    <th>Signer</th>
+                    <th>Signed at Block</th>
+                    <th>Time</th>
+                </tr>
+            </thead>
+            <tbody>
+                {entry.signatures.map(
+                    (signature: DisplaySignature): React.JSX.Element => (
+                        <tr key={signature.signer}>
+                            <td className="cid-cell" title={signature.signer}>
+                                {signature.signer}
+                            </td>
+                            <td>{signature.signedBlock || 'Not signed'}</td>
+                            <td>{signature.signedAt}</td>
+                        </tr>
+                    ),
+                )}
+            </tbody>
+        </table>
+    );
+
+    return (
+        <>
+            <div className="card">
+                <div className="card-title">
+                    Agreements to Sign
+                    <button
+                        type="button"
+                        className="btn btn-secondary"
+                        style={{
+                            float: 'right',
+                            minWidth: 'auto',
+                            padding: '6px 12px',
+                            fontSize: '12px',
+                        }}
+                        disabled={!walletAddress || inboxLoading}
+                        onClick={(): void => {
+                            loadInbox().catch((): undefined => undefined);
+                        }}
+                    >
+                        Refresh
+                    </button>
+                </div>
+
+                {!walletAddress && (
+                    <div className="empty-state">
+                        <div className="empty-state-title">
+                            Connect your wallet to see agreements you are asked to sign
+                        </div>
+                    </div>
+                )}
+
+                {inboxLoading && (
+                    <div className="empty-state">
+                        <span className="spinner" />
+                    </div>
+                )}
+
+                {walletAddress && !inboxLoading && inbox.length === 0 && (
+                    <div className="empty-state">
+                        <div className="empty-state-title">No agreements waiting for you</div>
+                    </div>
+                )}
+
+                {inbox.map(
+                    (entry: DisplayAgreement): React.JSX.Element => (
+                        <div className="verify-result" key={entry.cid}>
+                            <div className="verify-field">
+                                <span className="verify-label">CID</span>
+                                <span className="verify-value">{entry.cid}</span>
+                            </div>
+                            <div className="verify-field">
+                                <span className="verify-label">Status</span>
+                                <span className="verify-value">
+                                    {agreementState(entry)} ({entry.signedCount} of{' '}
+                                    {entry.signatures.length} signed)
+                                </span>
+                            </div>
+                            {!entry.signedByYou && !entry.complete && !entry.expired && (
+                                <button
+                                    type="button"
+                                    className="btn btn-primary"
+                                    onClick={(): void => {
+                                        handleSign(entry.cid).catch((): undefined => undefined);
+                                    }}
+                                >
+                                    Sign Agreement
+                                </button>
+                            )}
+                        </div>
+                    ),
+                )}
+
+                {inboxMessage && (
+                    <div className="status status-warning" style={{ marginTop: '12px' }}>
+                        {inboxMessage}
+                    </div>
+                )}
+            </div>
+
+            <div className="card">
+                <div className="card-title">Agreement Status</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="agreement-lookup-input">
+                        File CID
+                    </label>
+                    <input
+                        id="agreement-lookup-input"
+                        className="input"
+                        type="text"
+                        placeholder="QmXoYp... or bafy..."
+                        value={lookupCid}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setLookupCid(e.target.value)
+                        }
+                        onKeyDown={(e: React.KeyboardEvent): void => {
+                            if (e.key === 'Enter') {
+                                handleLookup().catch((): undefined => undefined);
+                            }
+                        }}
+                    />
+                </div>
+
+                <button
+                    type="button"
+                    className="btn btn-primary btn-full"
+                    disabled={lookupCid.trim().length === 0}
+                    onClick={(): void => {
+                        handleLookup().catch((): undefined => undefined);
+                    }}
+                >
+                    Check Agreement
+                </button>
+
+                {lookupMessage && <div className="status status-error">{lookupMessage}</div>}
+
+                {agreement && (
+                    <div className="verify-result">
+                        <div
+                            className={`status ${
+                                agreement.complete
+                                    ? 'status-success'
+                                    : agreement.expired
+                                      ? 'status-error'
+                                      : 'status-warning'
+                            }`}
+                            style={{ marginBottom: '16px' }}
+                        >
+                            {agreementState(agreement)} ({agreement.signedCount} of{' '}
+                            {agreement.signatures.length} signed)
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Opened by</span>
+                            <span className="verify-value">{agreement.creator}</span>
+                        </div>
+                        {renderSignatures(agreement)}
+                    </div>
+                )}
+            </div>
+
+            <div className="card">
+                <div className="card-title">Open an Agreement</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="agreement-cid-input">
+                        CID of one of your registered files
+                    </label>
+                    <input
+                        id="agreement-cid-input"
+                        className="input"
+                        type="text"
+                        placeholder="QmXoYp... or bafy..."
+                        value={newCid}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setNewCid(e.target.value)
+                        }
+                    />
+                </div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="agreement-signers-input">
+                        Required signers (one address per line, up to {MAX_AGREEMENT_SIGNERS})
+                    </label>
+                    <textarea
+                        id="agreement-signers-input"
+                        className="input"
+                        rows={4}
+                        placeholder="0x..."
+                        value={newSigners}
+                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>): void =>
+                            setNewSigners(e.target.value)
+                        }
+                    />
+                </div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="agreement-deadline-input">
+                        Sign by block
+                    </label>
+                    <input
+                        id="agreement-deadline-input"
+                        className="input"
+                        type="text"
+                        placeholder="e.g. 850000"
+                        value={newDeadline}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setNewDeadline(e.target.value)
+                        }
+                    />
+                </div>
+
+                <button
+                    type="button"
+                    className="btn btn-primary btn-full"
+                    disabled={!walletAddress || newCid.trim().length === 0}
+                    onClick={(): void => {
+                        handleCreate().catch((): undefined => undefined);
+                    }}
+                >
+                    {walletAddress ? 'Open Agreement' : 'Connect wallet to open an agreement'}
+                </button>
+
+                {actionMessage && (
+                    <div className="status status-warning" style={{ marginTop: '12px' }}>
+                        {actionMessage}
+                    </div>
+                )}
+            </div>
+        </>
+    );
+}
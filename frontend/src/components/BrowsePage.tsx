@@ -6,15 +6,23 @@ interface DisplayFile {
     readonly fileName: string;
     readonly fileSize: string;
     readonly uploader: string;
+    readonly owner: string;
     readonly blockNumber: string;
     readonly timestamp: string;
+    readonly tags: readonly string[];
+    /** Last valid block, empty if the proof never expires. */
+    readonly validUntil: string;
+    readonly expired: boolean;
 }
 
 /**
  * Browse page -- displays all registered files.
  *
- * When the contract is deployed, this component will query getFileByIndex
- * in a loop from 0 to totalFiles-1 and display the results.
+ * When the contract is deployed, this component will read records in pages of
+ * MAX_RANGE_SIZE with getFilesRange, one call per page. When a tag filter is set,
+ * it walks the per-tag index with getTagFileByIndex instead. Records hidden by a
+ * moderator come back with an empty CID and are left out of the table. Expired
+ * proofs are listed unless the user chooses to hide them.
  *
  * @returns JSX element for the browse page.
  */
@@ -22,6 +30,13 @@ export function BrowsePage(): React.JSX.Element {
     const [files, setFiles] = useState<readonly DisplayFile[]>([]);
     const [loading, setLoading] = useState<boolean>(false);
     const [_totalFiles, setTotalFiles] = useState<bigint>(0n);
+    const [tagFilter, setTagFilter] = useState<string>('');
+    const [hiddenCount, setHiddenCount] = useState<number>(0);
+    const [hideExpired, setHideExpired] = useState<boolean>(false);
+
+    const shownFiles: readonly DisplayFile[] = hideExpired
+        ? files.filter((file: DisplayFile): boolean => !file.expired)
+        : files;
 
     const loadFiles = useCallback(async (): Promise<void> => {
         setLoading(true);
@@ -31,26 +46,48 @@ export function BrowsePage(): React.JSX.Element {
         //
         // const provider = new JSONRpcProvider(OPNET_RPC_URL, networks.regtest);
         // const contract = getContract<IOPScribeContract>(...);
-        // const totalResult = await contract.getTotalFiles();
-        // const total = totalResult.decoded.count;
-        // setTotalFiles(total);
+        // const records: IndexedFileRecord[] = [];
+        // const tag = normalizeTag(tagFilter);
+        // if (tag !== '') {
+        //     const countResult = await contract.getTagFileCount(tag);
+        //     for (let i = 0n; i < countResult.decoded.count; i++) {
+        //         records.push((await contract.getTagFileByIndex(tag, i)).decoded);
+        //     }
+        // } else {
+        //     const totalResult = await contract.getTotalFiles();
+        //     const total = totalResult.decoded.count;
+        //     setTotalFiles(total);
+        //     for (let start = 0n; start < total; start += BigInt(MAX_RANGE_SIZE)) {
+        //         const result = await contract.getFilesRange(start, BigInt(MAX_RANGE_SIZE));
+        //         records.push(...decodeFilesRange(result.decoded));
+        //     }
+        // }
+        //
+        // const visible = records.filter((record) => !isHiddenRecord(record));
+        // setHiddenCount(records.length - visible.length);
+        // const currentBlock = BigInt(await provider.getBlockNumber());
         //
         // const fileList: DisplayFile[] = [];
-        // for (let i = 0n; i < total; i++) {
-        //     const result = await contract.getFileByIndex(i);
+        // for (const record of visible) {
+        //     const tagsResult = await contract.getFileTags(record.cid);
         //     fileList.push({
-        //         cid: result.decoded.cid,
-        //         fileName: result.decoded.fileName,
-        //         fileSize: formatBytes(result.decoded.fileSize),
-        //         uploader: `0x${result.decoded.uploader.toString(16).slice(0, 16)}...`,
-        //         blockNumber: result.decoded.blockNumber.toString(),
-        //         timestamp: new Date(Number(result.decoded.timestamp) * 1000).toISOString(),
+        //         cid: record.cid,
+        //         fileName: record.fileName,
+        //         fileSize: formatBytes(record.fileSize),
+        //         uploader: `0x${record.uploader.toString(16).slice(0, 16)}...`,
+        //         owner: `0x${record.owner.toString(16).slice(0, 16)}...`,
+        //         blockNumber: record.blockNumber.toString(),
+        //         timestamp: new Date(Number(record.timestamp) * 1000).toISOString(),
+        //         tags: tagsResult.decoded.tags,
+        //         validUntil: record.validUntil === 0n ? '' : record.validUntil.toString(),
+        //         expired: isExpiredRecord(record, currentBlock),
         //     });
         // }
         // setFiles(fileList);
 
         // Placeholder: no contract deployed yet
         setTotalFiles(0n);
+        setHiddenCount(0);
         setFiles([]);
         setLoading(false);
     }, []);
@@ -75,12 +112,45 @@ export function BrowsePage(): React.JSX.Element {
                 </button>
             </div>
 
+            <div className="input-group">
+                <label className="input-label" htmlFor="tag-filter">
+                    Filter by tag
+                </label>
+                <input
+                    id="tag-filter"
+                    className="input"
+                    type="text"
+                    placeholder="e.g. contracts"
+                    value={tagFilter}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                        setTagFilter(e.target.value)
+                    }
+                />
+            </div>
+
+            <label className="input-label" style={{ display: 'block', margin: '0 0 12px' }}>
+                <input
+                    type="checkbox"
+                    checked={hideExpired}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                        setHideExpired(e.target.checked)
+                    }
+                />{' '}
+                Hide expired proofs
+            </label>
+
             {loading && (
                 <div className="empty-state">
                     <span className="spinner" /> Loading files...
                 </div>
             )}
 
+            {!loading && files.length > 0 && shownFiles.length === 0 && (
+                <div className="empty-state">
+                    <div className="empty-state-title">All listed proofs have expired</div>
+                </div>
+            )}
+
             {!loading && files.length === 0 && (
                 <div className="empty-state">
                     <div className="empty-state-title">No files registered yet</div>
@@ -91,7 +161,7 @@ export function BrowsePage(): React.JSX.Element {
                 </div>
             )}
 
-            {!loading && files.length > 0 && (
+            {!loading && shownFiles.length > 0 && (
                 <table className="file-table">
                     <thead>
                         <tr>
@@ -99,10 +169,12 @@ export function BrowsePage(): React.JSX.Element {
                             <th>File Name</th>
                             <th>Size</th>
                             <th>Block</th>
+                            <th>Expires</th>
+                            <th>Tags</th>
                         </tr>
                     </thead>
                     <tbody>
-                        {files.map(
+                        {shownFiles.map(
                             (file: DisplayFile): React.JSX.Element => (
                                 <tr key={file.cid}>
                                     <td className="cid-cell" title={file.cid}>
@@ -111,12 +183,38 @@ export function BrowsePage(): React.JSX.Element {
                                     <td>{file.fileName}</td>
                                     <td>{file.fileSize}</td>
                                     <td>{file.blockNumber}</td>
+                                    <td>
+                                        {file.validUntil === ''
+                                            ? 'Never'
+                                            : `Block ${file.validUntil}${file.expired ? ' (expired)' : ''}`}
+                                    </td>
+                                    <td>
+                                        {file.tags.map(
+                                            (tag: string): React.JSX.Element => (
+                                                <button
+                                                    key={tag}
+                                                    type="button"
+                                                    className="tag-chip"
+                                                    onClick={(): void => setTagFilter(tag)}
+                                                >
+                                                    {tag}
+                                                </button>
+                                            ),
+                                        )}
+                                    </td>
                                 </tr>
                             ),
                         )}
                     </tbody>
                 </table>
             )}
+
+            {!loading && hiddenCount > 0 && (
+                <p style={{ marginTop: '12px', fontSize: '13px' }}>
+                    {hiddenCount} {hiddenCount === 1 ? 'file is' : 'files are'} hidden by
+                    moderators. Hidden proofs can still be checked on the Verify page.
+                </p>
+            )}
         </div>
     );
 }
@@ -0,0 +1,383 @@
+import React, { useState, useCallback } from 'react';
+import { FileStatus } from '../abi/OPScribeAbi';
+import { parseCid } from '../../../shared/cid';
+import {
+    MAX_COLLECTION_DESCRIPTION_LENGTH,
+    MAX_COLLECTION_NAME_LENGTH,
+    MAX_COLLECTION_SIZE,
+} from '../types/config';
+
+/** Props for CollectionPage. */
+interface CollectionPageProps {
+    readonly walletAddress: string;
+}
+
+/** Collection details shown above the member list. */
+interface DisplayCollection {
+    readonly id: string;
+    readonly name: string;
+    readonly description: string;
+    readonly owner: string;
+    readonly fileCount: number;
+    readonly blockNumber: string;
+}
+
+/** One collection member with its individual proof. */
+interface DisplayMember {
+    /** Empty when a moderator has hidden the file. */
+    readonly cid: string;
+    readonly fileName: string;
+    readonly fileSize: string;
+    readonly blockNumber: string;
+    readonly timestamp: string;
+    readonly status: FileStatus;
+    /** OP721 certificate token id, empty if none was minted. */
+    readonly certificateId: string;
+}
+
+/** Labels for the proof status of a member. */
+const STATUS_LABELS: Readonly<Record<FileStatus, string>> = {
+    [FileStatus.Active]: 'Active',
+    [FileStatus.Revoked]: 'Revoked',
+    [FileStatus.Superseded]: 'Superseded',
+};
+
+/**
+ * Collection page -- create collections, add owned files to them, and view a
+ * collection's members with their individual proofs.
+ *
+ * When the contract is deployed, members are read with getCollectionFileByIndex
+ * and each member's proof with getFile.
+ *
+ * @param props - Component props containing the connected wallet address.
+ * @returns JSX element for the collection page.
+ */
+export function CollectionPage({ walletAddress }: CollectionPageProps): React.JSX.Element {
+    const [collectionIdInput, setCollectionIdInput] = useState<string>('');
+    const [collection, setCollection] = useState<DisplayCollection | null>(null);
+    const [members, setMembers] = useState<readonly DisplayMember[]>([]);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [errorMessage, setErrorMessage] = useState<string>('');
+    const [newName, setNewName] = useState<string>('');
+    const [newDescription, setNewDescription] = useState<string>('');
+    const [memberCid, setMemberCid] = useState<string>('');
+    const [actionMessage, setActionMessage] = useState<string>('');
+
+    const handleLoad = useCallback(async (): Promise<void> => {
+        const trimmedId: string = collectionIdInput.trim();
+        if (!/^[1-9]\d*$/.test(trimmedId)) {
+            setErrorMessage('Collection ids are positive whole numbers.');
+            return;
+        }
+
+        setLoading(true);
+        setCollection(null);
+        setMembers([]);
+        setErrorMessage('');
+
+        try {
+            const collectionId: bigint = BigInt(trimmedId);
+
+            // NOTE: Contract interaction requires deployment.
+            // Once deployed, use:
+            //
+            // const provider = new JSONRpcProvider(OPNET_RPC_URL, networks.regtest);
+            // const contract = getContract<IOPScribeContract>(...);
+            // const details = (await contract.getCollection(collectionId)).decoded;
+            // if (!details.exists) throw new Error(`Collection #${trimmedId} does not exist.`);
+            //
+            // const memberList: DisplayMember[] = [];
+            // for (let i = 0n; i < details.fileCount; i++) {
+            //     const record = (await contract.getCollectionFileByIndex(collectionId, i)).decoded;
+            //     const proof = isHiddenRecord(record)
+            //         ? null
+            //         : (await contract.getFile(record.cid)).decoded;
+            //     memberList.push({
+            //         cid: record.cid,
+            //         fileName: record.fileName,
+            //         fileSize: formatBytes(record.fileSize),
+            //         blockNumber: record.blockNumber.toString(),
+            //         timestamp: new Date(Number(record.timestamp) * 1000).toISOString(),
+            //         status: proof?.status ?? FileStatus.Active,
+            //         certificateId: proof?.hasCertificate ? proof.certificateId.toString() : '',
+            //     });
+            // }
+            //
+            // setCollection({
+            //     id: trimmedId,
+            //     name: details.name,
+            //     description: details.description,
+            //     owner: `0x${details.owner.toString(16)}`,
+            //     fileCount: Number(details.fileCount),
+            //     blockNumber: details.blockNumber.toString(),
+            // });
+            // setMembers(memberList);
+
+            // Placeholder until contract deployment
+            setErrorMessage(
+                `Collection #${collectionId.toString()} not found (contract deployment pending).`,
+            );
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Failed to load';
+            setErrorMessage(message);
+        } finally {
+            setLoading(false);
+        }
+    }, [collectionIdInput]);
+
+    const handleCreate = useCallback(async (): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            const name: string = newName.trim();
+            const encoder: TextEncoder = new TextEncoder();
+            if (name.length === 0) {
+                throw new Error('Enter a collection name.');
+            }
+            if (encoder.encode(name).length > MAX_COLLECTION_NAME_LENGTH) {
+                throw new Error(`Name must be at most ${MAX_COLLECTION_NAME_LENGTH} bytes.`);
+            }
+            if (encoder.encode(newDescription).length > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+                throw new Error(
+                    `Description must be at most ${MAX_COLLECTION_DESCRIPTION_LENGTH} bytes.`,
+                );
+            }
+
+            // NOTE: Contract interaction requires deployment.
+            // Once deployed, use:
+            //
+            // const createSim = await contract.createCollection(name, newDescription);
+            // if ('error' in createSim) throw new Error(createSim.error);
+            // await createSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            // setCollectionIdInput(createSim.decoded.collectionId.toString());
+
+            setActionMessage(`Collection "${name}" will be created once the contract is deployed.`);
+            setNewName('');
+            setNewDescription('');
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Create failed';
+            setActionMessage(message);
+        }
+    }, [newName, newDescription]);
+
+    const handleAdd = useCallback(async (): Promise<void> => {
+        setActionMessage('');
+
+        try {
+            if (!collection) {
+                throw new Error('Load a collection first.');
+            }
+            if (collection.fileCount >= MAX_COLLECTION_SIZE) {
+                throw new Error(`A collection holds at most ${MAX_COLLECTION_SIZE} files.`);
+            }
+            const cid: string = memberCid.trim();
+            parseCid(cid);
+
+            // NOTE: Contract interaction requires deployment.
+            // Only the collection creator can add files, and only files they own.
+            // Once deployed, use:
+            //
+            // const addSim = await contract.addToCollection(BigInt(collection.id), cid);
+            // if ('error' in addSim) throw new Error(addSim.error);
+            // await addSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            // await handleLoad();
+
+            setActionMessage(`${cid} will be added once the contract is deployed.`);
+            setMemberCid('');
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Add failed';
+            setActionMessage(message);
+        }
+    }, [collection, memberCid]);
+
+    return (
+        <>
+            <div className="card">
+                <div className="card-title">View Collection</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="collection-id-input">
+                        Collection ID
+                    </label>
+                    <input
+                        id="collection-id-input"
+                        className="input"
+                        type="text"
+                        placeholder="e.g. 1"
+                        value={collectionIdInput}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setCollectionIdInput(e.target.value)
+                        }
+                        onKeyDown={(e: React.KeyboardEvent): void => {
+                            if (e.key === 'Enter') {
+                                handleLoad().catch((): undefined => undefined);
+                            }
+                        }}
+                    />
+                </div>
+
+                <button
+                    type="button"
+                    className="btn btn-primary btn-full"
+                    disabled={loading || collectionIdInput.trim().length === 0}
+                    onClick={(): void => {
+                        handleLoad().catch((): undefined => undefined);
+                    }}
+                >
+                    {loading ? (
+                        <>
+                            <span className="spinner" /> Loading...
+                        </>
+                    ) : (
+                        'Load Collection'
+                    )}
+                </button>
+
+                {errorMessage && <div className="status status-error">{errorMessage}</div>}
+
+                {collection && (
+                    <div className="verify-result">
+                        <div className="verify-field">
+                            <span className="verify-label">Name</span>
+                            <span className="verify-value">{collection.name}</span>
+                        </div>
+                        {collection.description && (
+                            <div className="verify-field">
+                                <span className="verify-label">Description</span>
+                                <span className="verify-value">{collection.description}</span>
+                            </div>
+                        )}
+                        <div className="verify-field">
+                            <span className="verify-label">Owner</span>
+                            <span className="verify-value">{collection.owner}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Created at Block</span>
+                            <span className="verify-value">{collection.blockNumber}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Files</span>
+                            <span className="verify-value">{collection.fileCount}</span>
+                        </div>
+                    </div>
+                )}
+
+                {collection && members.length > 0 && (
+                    <table className="file-table">
+                        <thead>
+                            <tr>
+                                <th>CID</th>
+                                <th>File Name</th>
+                                <th>Size</th>
+                                <th>Block</th>
+                                <th>Proof</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {members.map(
+                                (member: DisplayMember, i: number): React.JSX.Element => (
+                                    <tr key={member.cid || `hidden-${i}`}>
+                                        <td className="cid-cell" title={member.cid}>
+                                            {member.cid || '(hidden by moderators)'}
+                                        </td>
+                                        <td>{member.fileName}</td>
+                                        <td>{member.fileSize}</td>
+                                        <td title={member.timestamp}>{member.blockNumber}</td>
+                                        <td>
+                                            {STATUS_LABELS[member.status]}
+                                            {member.certificateId &&
+                                                ` -- certificate #${member.certificateId}`}
+                                        </td>
+                                    </tr>
+                                ),
+                            )}
+                        </tbody>
+                    </table>
+                )}
+
+                {collection && (
+                    <>
+                        <div className="input-group" style={{ marginTop: '20px' }}>
+                            <label className="input-label" htmlFor="member-cid-input">
+                                Add one of your registered files (collection owner only)
+                            </label>
+                            <input
+                                id="member-cid-input"
+                                className="input"
+                                type="text"
+                                placeholder="QmXoYp... or bafy..."
+                                value={memberCid}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                                    setMemberCid(e.target.value)
+                                }
+                            />
+                        </div>
+                        <button
+                            type="button"
+                            className="btn btn-secondary"
+                            disabled={!walletAddress || memberCid.trim().length === 0}
+                            onClick={(): void => {
+                                handleAdd().catch((): undefined => undefined);
+                            }}
+                        >
+                            Add to Collection
+                        </button>
+                    </>
+                )}
+            </div>
+
+            <div className="card">
+                <div className="card-title">Create Collection</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="collection-name-input">
+                        Name
+                    </label>
+                    <input
+                        id="collection-name-input"
+                        className="input"
+                        type="text"
+                        placeholder="e.g. Purchase agreement 2026-04"
+                        value={newName}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setNewName(e.target.value)
+                        }
+                    />
+                </div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="collection-description-input">
+                        Description (optional)
+                    </label>
+                    <input
+                        id="collection-description-input"
+                        className="input"
+                        type="text"
+                        placeholder="Contract plus exhibits A-C"
+                        value={newDescription}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setNewDescription(e.target.value)
+                        }
+                    />
+                </div>
+
+                <button
+                    type="button"
+                    className="btn btn-primary btn-full"
+                    disabled={!walletAddress || newName.trim().length === 0}
+                    onClick={(): void => {
+                        handleCreate().catch((): undefined => undefined);
+                    }}
+                >
+                    {walletAddress ? 'Create Collection' : 'Connect wallet to create'}
+                </button>
+
+                {actionMessage && (
+                    <div className="status status-warning" style={{ marginTop: '12px' }}>
+                        {actionMessage}
+                    </div>
+                )}
+            </div>
+        </>
+    );
+}
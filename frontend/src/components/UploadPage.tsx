@@ -1,6 +1,21 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { FeeConfig, QuotaInfo } from '../abi/OPScribeAbi';
 import { uploadToIpfs, IpfsUploadResult } from '../services/ipfs';
-import { MAX_FILE_SIZE_DISPLAY } from '../types/config';
+import {
+    checkRegistrationAllowance,
+    describeQuota,
+    explainRegistrationError,
+} from '../services/quota';
+import { generateSalt } from '../services/commitments';
+import { parseTags } from '../services/tags';
+import {
+    MAX_BATCH_SIZE,
+    MAX_FILE_SIZE_DISPLAY,
+    MAX_METADATA_VALUE_LENGTH,
+    METADATA_FIELDS,
+    MIN_REVEAL_DELAY_BLOCKS,
+} from '../types/config';
 
 /** Props for UploadPage. */
 interface UploadPageProps {
@@ -8,26 +23,138 @@ interface UploadPageProps {
 }
 
 /** Upload processing stage. */
-type UploadStage = 'idle' | 'uploading' | 'registering' | 'done' | 'error';
+type UploadStage =
+    | 'idle'
+    | 'uploading'
+    | 'approving'
+    | 'committing'
+    | 'waiting'
+    | 'signing'
+    | 'registering'
+    | 'done'
+    | 'error';
+
+/**
+ * Computes the fee the contract will pull for registering the given files.
+ * A disabled fee config always has zero amounts, so no token check is needed.
+ * Sealed proofs declare no size, so they only pay the flat fee.
+ *
+ * @param config - Fee configuration from getFeeConfig, or null if not loaded.
+ * @param files - The files about to be registered.
+ * @param sealed - Whether the files are registered as sealed proofs.
+ * @returns Total fee in fee-token units.
+ */
+function calculateFee(config: FeeConfig | null, files: readonly File[], sealed: boolean): bigint {
+    if (!config) {
+        return 0n;
+    }
+    let total: bigint = 0n;
+    for (const file of files) {
+        total += config.registrationFee + (sealed ? 0n : config.perByteFee * BigInt(file.size));
+    }
+    return total;
+}
 
 /**
  * Upload page -- handles file selection, IPFS upload, and on-chain registration.
+ * Several files can be selected at once; they are registered in a single
+ * registerFiles transaction. When a registration fee is configured, the fee
+ * token allowance is raised first so the contract can pull the fee.
+ *
+ * A single file without a certificate is registered by commit-reveal by default:
+ * commitRegistration hides the CID behind a salted hash, reserves it by its
+ * storage key and pulls the flat fee, and revealRegistration completes the record
+ * and pulls the per-byte fee once the reveal window opens. The salt is kept in
+ * localStorage until the reveal succeeds.
+ *
+ * A single file can also be registered gaslessly: the user signs a
+ * registerFileFor authorization and the backend relay submits it.
+ *
+ * A single file can be given an expiry block with registerFileWithExpiry. The
+ * proof stays on-chain afterwards but is reported as expired unless the owner
+ * renews it. Expiring registrations are sent directly, not relayed or
+ * committed first.
+ *
+ * A single file can instead be registered as a sealed proof: only salted
+ * commitments to its CID and content hash go on-chain, and the salt is shown
+ * once so the user can keep it for verification.
+ *
+ * When the contract enforces registration limits, the remaining allowance is
+ * shown and a selection that would exceed it is rejected before uploading.
  *
  * @param props - Component props with wallet address.
  * @returns JSX element for the upload page.
  */
 export function UploadPage({ walletAddress }: UploadPageProps): React.JSX.Element {
-    const [selectedFile, setSelectedFile] = useState<File | null>(null);
+    const [selectedFiles, setSelectedFiles] = useState<readonly File[]>([]);
     const [dragOver, setDragOver] = useState<boolean>(false);
     const [stage, setStage] = useState<UploadStage>('idle');
-    const [uploadResult, setUploadResult] = useState<IpfsUploadResult | null>(null);
+    const [uploadResults, setUploadResults] = useState<readonly IpfsUploadResult[]>([]);
     const [errorMessage, setErrorMessage] = useState<string>('');
+    const [feeConfig, setFeeConfig] = useState<FeeConfig | null>(null);
+    const [quota, setQuota] = useState<QuotaInfo | null>(null);
+    const [mintCertificate, setMintCertificate] = useState<boolean>(false);
+    const [metadata, setMetadata] = useState<Readonly<Record<string, string>>>({});
+    const [metadataMutable, setMetadataMutable] = useState<boolean>(false);
+    const [tagInput, setTagInput] = useState<string>('');
+    const [commitReveal, setCommitReveal] = useState<boolean>(true);
+    const [sealed, setSealed] = useState<boolean>(false);
+    const [gasless, setGasless] = useState<boolean>(false);
+    const [sealSalt, setSealSalt] = useState<string>('');
+    const [expiryInput, setExpiryInput] = useState<string>('');
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const handleFileSelect = useCallback((file: File): void => {
-        setSelectedFile(file);
+    const withExpiry: boolean =
+        selectedFiles.length === 1 && !sealed && !mintCertificate && expiryInput.trim() !== '';
+
+    // A relayed registration is paid for by the relayer, so the user approves nothing
+    const relayed: boolean =
+        gasless && selectedFiles.length === 1 && !sealed && !mintCertificate && !withExpiry;
+
+    const totalFee: bigint = useMemo(
+        (): bigint =>
+            relayed
+                ? 0n
+                : calculateFee(feeConfig, selectedFiles, sealed && selectedFiles.length === 1),
+        [feeConfig, selectedFiles, sealed, relayed],
+    );
+
+    useEffect((): void => {
+        // NOTE: Contract interaction requires deployment.
+        // Once deployed, use:
+        //
+        // const feeResult = await contract.getFeeConfig();
+        // setFeeConfig(feeResult.decoded);
+
+        // Placeholder: no contract deployed yet, so no fee applies
+        setFeeConfig(null);
+    }, []);
+
+    useEffect((): void => {
+        // NOTE: Contract interaction requires deployment.
+        // Once deployed, use:
+        //
+        // if (walletAddress) {
+        //     const quotaResult = await contract.getQuota(senderAddress);
+        //     setQuota(quotaResult.decoded);
+        // }
+
+        // Placeholder: no contract deployed yet, so no limits apply
+        setQuota(null);
+    }, [walletAddress]);
+
+    const handleFilesSelect = useCallback((files: FileList): void => {
+        setUploadResults([]);
+
+        if (files.length > MAX_BATCH_SIZE) {
+            setSelectedFiles([]);
+            setErrorMessage(`Select at most ${MAX_BATCH_SIZE} files per registration.`);
+            setStage('error');
+            return;
+        }
+
+        setSelectedFiles(Array.from(files));
         setStage('idle');
-        setUploadResult(null);
         setErrorMessage('');
     }, []);
 
@@ -35,13 +162,10 @@ export function UploadPage({ walletAddress }: UploadPageProps): React.JSX.Elemen
         (event: React.ChangeEvent<HTMLInputElement>): void => {
             const files: FileList | null = event.target.files;
             if (files && files.length > 0) {
-                const file: File | undefined = files[0];
-                if (file) {
-                    handleFileSelect(file);
-                }
+                handleFilesSelect(files);
             }
         },
-        [handleFileSelect],
+        [handleFilesSelect],
     );
 
     const handleDragOver = useCallback((event: React.DragEvent): void => {
@@ -59,13 +183,10 @@ export function UploadPage({ walletAddress }: UploadPageProps): React.JSX.Elemen
             setDragOver(false);
             const files: FileList = event.dataTransfer.files;
             if (files.length > 0) {
-                const file: File | undefined = files[0];
-                if (file) {
-                    handleFileSelect(file);
-                }
+                handleFilesSelect(files);
             }
         },
-        [handleFileSelect],
+        [handleFilesSelect],
     );
 
     const handleZoneClick = useCallback((): void => {
@@ -83,7 +204,7 @@ export function UploadPage({ walletAddress }: UploadPageProps): React.JSX.Elemen
     }, []);
 
     const handleUpload = useCallback(async (): Promise<void> => {
-        if (!selectedFile) {
+        if (selectedFiles.length === 0) {
             return;
         }
 
@@ -93,16 +214,56 @@ export function UploadPage({ walletAddress }: UploadPageProps): React.JSX.Elemen
             return;
         }
 
+        const tooLong: { readonly label: string } | undefined = METADATA_FIELDS.find(
+            (field: { readonly key: string }): boolean =>
+                new TextEncoder().encode(metadata[field.key] ?? '').length >
+                MAX_METADATA_VALUE_LENGTH,
+        );
+        if (tooLong) {
+            setErrorMessage(`${tooLong.label} is longer than ${MAX_METADATA_VALUE_LENGTH} bytes.`);
+            setStage('error');
+            return;
+        }
+
+        try {
+            parseTags(tagInput);
+        } catch (err: unknown) {
+            setErrorMessage(err instanceof Error ? err.message : 'Invalid tags');
+            setStage('error');
+            return;
+        }
+
+        // The contract checks that the block is still in the future
+        if (withExpiry && !/^[1-9]\d*$/.test(expiryInput.trim())) {
+            setErrorMessage('Valid until must be a block height, e.g. 850000.');
+            setStage('error');
+            return;
+        }
+
+        // Sealed proofs count against the registration limits like file records
+        if (quota) {
+            const overLimit: string | null = checkRegistrationAllowance(
+                quota,
+                selectedFiles.length,
+            );
+            if (overLimit) {
+                setErrorMessage(overLimit);
+                setStage('error');
+                return;
+            }
+        }
+
         setStage('uploading');
         setErrorMessage('');
+        setSealSalt('');
 
         try {
-            // Step 1: Upload to IPFS via backend
-            const result: IpfsUploadResult = await uploadToIpfs(selectedFile);
-            setUploadResult(result);
-
-            // Step 2: Register on-chain via OPWallet
-            setStage('registering');
+            // Step 1: Upload each file to IPFS via backend
+            const results: IpfsUploadResult[] = [];
+            for (const file of selectedFiles) {
+                results.push(await uploadToIpfs(file));
+            }
+            setUploadResults(results);
 
             // NOTE: Contract interaction requires deployment.
             // Once the contract is deployed and CONTRACT_ADDRESS is set,
@@ -112,18 +273,185 @@ export function UploadPage({ walletAddress }: UploadPageProps): React.JSX.Elemen
             // const contract = getContract<IOPScribeContract>(
             //     contractAddress, OP_SCRIBE_ABI, provider, networks.regtest, senderAddress
             // );
-            // const simulation = await contract.registerFile(result.cid, result.fileName, BigInt(result.fileSize));
+
+            // Step 2: Approve the registration fee, if any
+            if (totalFee > 0n && feeConfig) {
+                setStage('approving');
+
+                // const token = getContract<IOP20Contract>(
+                //     feeConfig.token, OP_20_ABI, provider, networks.regtest, senderAddress
+                // );
+                // const allowance = (await token.allowance(senderAddress, contractAddress))
+                //     .decoded.remaining;
+                // if (allowance < totalFee) {
+                //     const approval = await token.increaseAllowance(
+                //         contractAddress, totalFee - allowance,
+                //     );
+                //     if ('error' in approval) throw new Error(approval.error);
+                //     await approval.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+                // }
+            }
+
+            // Step 3: Register on-chain via OPWallet
+            if (results.length === 1 && sealed) {
+                // Sealed proof: publish only salted commitments. Metadata and tags are
+                // skipped because both are keyed by the CID and would reveal it.
+                setStage('registering');
+                const salt: Uint8Array = generateSalt();
+
+                // const sealSim = await contract.registerSealedFile(
+                //     computeSealedCommitment(results[0].cid, senderAddress, salt),
+                //     computeContentCommitment(
+                //         hexToBytes(results[0].contentHash), senderAddress, salt,
+                //     ),
+                // );
+                // if ('error' in sealSim) throw new Error(sealSim.error);
+                // await sealSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+
+                setSealSalt(bytesToHex(salt));
+                setStage('done');
+                return;
+            }
+
+            if (relayed) {
+                // Gasless: sign the authorization, then let the relayer submit it
+                setStage('signing');
+
+                // const r = results[0];
+                // const registration = {
+                //     cid: r.cid,
+                //     fileName: r.fileName,
+                //     fileSize: BigInt(r.fileSize),
+                //     uploader: senderAddress,
+                //     nonce: (await contract.registrationNonceOf(senderAddress)).decoded.nonce,
+                //     deadline: BigInt(await provider.getBlockNumber()) + RELAY_SIGNATURE_TTL_BLOCKS,
+                // };
+                // const domainSeparator = (await contract.domainSeparator()).decoded.domainSeparator;
+                // const messageHash = hashDelegatedRegistration(domainSeparator, registration);
+                // const signature = hexToBytes(
+                //     (await window.opnet.web3.signMLDSAMessage(bytesToHex(messageHash))).signature,
+                // );
+
+                setStage('registering');
+
+                // const txId = await submitRelayedRegistration(
+                //     createRelayPayload(registration, signature),
+                // );
+
+                setStage('done');
+                return;
+            }
+
+            if (results.length === 1 && !mintCertificate && !withExpiry && commitReveal) {
+                // Step 3a: Commit to the CID without revealing it
+                setStage('committing');
+
+                // const r = results[0];
+                // const pending = loadPendingReveal(r.cid)
+                //     ?? createPendingReveal(r.cid, r.fileName, r.fileSize, senderAddress);
+                // let window = (await contract.getRegistrationCommitment(
+                //     senderAddress, hexToBytes(pending.commitment),
+                // )).decoded;
+                // if (window.committedAt === 0n) {
+                //     const commitSim = await contract.commitRegistration(
+                //         hexToBytes(pending.commitment), hexToBytes(pending.cidKey),
+                //     );
+                //     if ('error' in commitSim) throw new Error(commitSim.error);
+                //     await commitSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+                //     window = (await contract.getRegistrationCommitment(
+                //         senderAddress, hexToBytes(pending.commitment),
+                //     )).decoded;
+                // }
+
+                // Step 3b: Wait for the reveal window (MIN_REVEAL_DELAY_BLOCKS after the commit)
+                setStage('waiting');
+
+                // while ((await provider.getBlockNumber()) < window.revealAfter) {
+                //     await new Promise((resolve) => setTimeout(resolve, 30_000));
+                // }
+
+                // Step 3c: Reveal and register, then forget the salt
+                setStage('registering');
+
+                // const revealSim = await contract.revealRegistration(
+                //     pending.cid, pending.fileName, BigInt(pending.fileSize), hexToBytes(pending.salt),
+                // );
+                // if ('error' in revealSim) throw new Error(revealSim.error);
+                // await revealSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+                // clearPendingReveal(pending.cid);
+            } else {
+                setStage('registering');
+            }
+
+            // Otherwise register directly:
+            // const simulation = results.length === 1 && mintCertificate
+            //     ? await contract.registerFileWithCertificate(
+            //           results[0].cid, results[0].fileName, BigInt(results[0].fileSize),
+            //           hexToBytes(results[0].contentHash),
+            //       )
+            //     : withExpiry
+            //     ? await contract.registerFileWithExpiry(
+            //           results[0].cid, results[0].fileName, BigInt(results[0].fileSize),
+            //           hexToBytes(results[0].contentHash), BigInt(expiryInput.trim()),
+            //       )
+            //     : results.length === 1
+            //     ? await contract.registerFileWithHash(
+            //           results[0].cid, results[0].fileName, BigInt(results[0].fileSize),
+            //           hexToBytes(results[0].contentHash),
+            //       )
+            //     : await contract.registerFiles(
+            //           results.map((r) => r.cid),
+            //           results.map((r) => r.fileName),
+            //           results.map((r) => BigInt(r.fileSize)),
+            //       );
             // if ('error' in simulation) throw new Error(simulation.error);
             // await simulation.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            //
+            // Step 4: Attach metadata (the owner can add more later from any wallet)
+            // for (const r of results) {
+            //     const entries = [
+            //         ['mimeType', r.mimeType],
+            //         ...METADATA_FIELDS.map((f) => [f.key, metadata[f.key]?.trim() ?? '']),
+            //     ].filter(([, value]) => value.length > 0);
+            //     for (const [key, value] of entries) {
+            //         const metaSim = await contract.setFileMetadata(r.cid, key, value, metadataMutable);
+            //         if ('error' in metaSim) throw new Error(metaSim.error);
+            //         await metaSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            //     }
+            // }
+            //
+            // Step 5: Tag the new records so they show up in tag filters
+            // const tags = parseTags(tagInput);
+            // if (tags.length > 0) {
+            //     for (const r of results) {
+            //         const tagSim = await contract.addFileTags(r.cid, tags);
+            //         if ('error' in tagSim) throw new Error(tagSim.error);
+            //         await tagSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            //     }
+            // }
 
             // For now, mark as done after IPFS upload
             setStage('done');
         } catch (err: unknown) {
             const message: string = err instanceof Error ? err.message : 'Upload failed';
-            setErrorMessage(message);
+            setErrorMessage(explainRegistrationError(message, quota));
             setStage('error');
         }
-    }, [selectedFile, walletAddress]);
+    }, [
+        selectedFiles,
+        walletAddress,
+        feeConfig,
+        quota,
+        totalFee,
+        mintCertificate,
+        commitReveal,
+        sealed,
+        relayed,
+        withExpiry,
+        expiryInput,
+        metadata,
+        tagInput,
+    ]);
 
     return (
         <div>
@@ -141,27 +469,189 @@ export function UploadPage({ walletAddress }: UploadPageProps): React.JSX.Elemen
                 >
                     <span className="upload-zone-icon">[^]</span>
                     <div className="upload-zone-text">
-                        Drop a file here or click to browse
+                        Drop files here or click to browse
                     </div>
                     <div className="upload-zone-hint">
-                        Max {MAX_FILE_SIZE_DISPLAY} per file
+                        Max {MAX_FILE_SIZE_DISPLAY} per file, up to {MAX_BATCH_SIZE} files
                     </div>
                 </div>
 
                 <input
                     ref={fileInputRef}
                     type="file"
+                    multiple
                     onChange={handleInputChange}
                     style={{ display: 'none' }}
                 />
 
-                {selectedFile && (
+                {selectedFiles.map(
+                    (file: File, i: number): React.JSX.Element => (
+                        <div className="file-info" key={`${file.name}-${i}`}>
+                            <div>
+                                <div className="file-info-name">{file.name}</div>
+                                <div className="file-info-size">
+                                    {formatFileSize(file.size)}
+                                    {file.type ? ` -- ${file.type}` : ''}
+                                </div>
+                            </div>
+                        </div>
+                    ),
+                )}
+
+                {selectedFiles.length === 1 && (
+                    <label className="input-label" style={{ display: 'block', margin: '12px 0' }}>
+                        <input
+                            type="checkbox"
+                            checked={sealed}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                                setSealed(e.target.checked)
+                            }
+                        />{' '}
+                        Sealed proof -- store only a salted commitment, not the CID or name
+                    </label>
+                )}
+
+                {selectedFiles.length === 1 && !sealed && (
+                    <label className="input-label" style={{ display: 'block', margin: '12px 0' }}>
+                        <input
+                            type="checkbox"
+                            checked={mintCertificate}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                                setMintCertificate(e.target.checked)
+                            }
+                        />{' '}
+                        Mint an OP721 certificate NFT for this proof
+                    </label>
+                )}
+
+                {selectedFiles.length === 1 && !sealed && !mintCertificate && (
+                    <div className="input-group">
+                        <label className="input-label" htmlFor="expiry-input">
+                            Valid until block (optional -- leave empty for a permanent proof)
+                        </label>
+                        <input
+                            id="expiry-input"
+                            className="input"
+                            type="text"
+                            placeholder="e.g. 850000"
+                            value={expiryInput}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                                setExpiryInput(e.target.value)
+                            }
+                        />
+                    </div>
+                )}
+
+                {selectedFiles.length === 1 && !sealed && !mintCertificate && !withExpiry && (
+                    <label className="input-label" style={{ display: 'block', margin: '12px 0' }}>
+                        <input
+                            type="checkbox"
+                            checked={gasless}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                                setGasless(e.target.checked)
+                            }
+                        />{' '}
+                        Gasless -- sign only and let the OP_Scribe relayer pay the fees
+                    </label>
+                )}
+
+                {selectedFiles.length === 1 &&
+                    !sealed &&
+                    !mintCertificate &&
+                    !gasless &&
+                    !withExpiry && (
+                        <label
+                            className="input-label"
+                            style={{ display: 'block', margin: '12px 0' }}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={commitReveal}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                                    setCommitReveal(e.target.checked)
+                                }
+                            />{' '}
+                            Protect the CID from front-running (commit, then reveal after{' '}
+                            {MIN_REVEAL_DELAY_BLOCKS.toString()} block)
+                        </label>
+                    )}
+
+                {selectedFiles.length > 0 && !(sealed && selectedFiles.length === 1) && (
+                    <div style={{ marginTop: '16px' }}>
+                        {METADATA_FIELDS.map(
+                            (field: {
+                                readonly key: string;
+                                readonly label: string;
+                            }): React.JSX.Element => (
+                                <div className="input-group" key={field.key}>
+                                    <label className="input-label" htmlFor={`meta-${field.key}`}>
+                                        {field.label} (optional)
+                                    </label>
+                                    <input
+                                        id={`meta-${field.key}`}
+                                        className="input"
+                                        type="text"
+                                        value={metadata[field.key] ?? ''}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                                            setMetadata({
+                                                ...metadata,
+                                                [field.key]: e.target.value,
+                                            })
+                                        }
+                                    />
+                                </div>
+                            ),
+                        )}
+                        <div className="input-group">
+                            <label className="input-label" htmlFor="tags-input">
+                                Tags (optional, comma-separated)
+                            </label>
+                            <input
+                                id="tags-input"
+                                className="input"
+                                type="text"
+                                placeholder="contracts, designs, datasets"
+                                value={tagInput}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                                    setTagInput(e.target.value)
+                                }
+                            />
+                        </div>
+                        <label className="input-label" style={{ display: 'block' }}>
+                            <input
+                                type="checkbox"
+                                checked={metadataMutable}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                                    setMetadataMutable(e.target.checked)
+                                }
+                            />{' '}
+                            Allow editing these fields later (otherwise they are locked)
+                        </label>
+                    </div>
+                )}
+
+                {quota && describeQuota(quota).length > 0 && (
+                    <div className="file-info">
+                        <div>
+                            <div className="file-info-name">Registration allowance</div>
+                            {describeQuota(quota).map(
+                                (line: string): React.JSX.Element => (
+                                    <div key={line} className="file-info-size">
+                                        {line}
+                                    </div>
+                                ),
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {totalFee > 0n && (
                     <div className="file-info">
                         <div>
-                            <div className="file-info-name">{selectedFile.name}</div>
+                            <div className="file-info-name">Registration fee</div>
                             <div className="file-info-size">
-                                {formatFileSize(selectedFile.size)}
-                                {selectedFile.type ? ` -- ${selectedFile.type}` : ''}
+                                {totalFee.toString()} fee-token units -- you will be asked to
+                                approve the token before registering
                             </div>
                         </div>
                     </div>
@@ -170,7 +660,15 @@ export function UploadPage({ walletAddress }: UploadPageProps): React.JSX.Elemen
                 <button
                     type="button"
                     className="btn btn-primary btn-full"
-                    disabled={!selectedFile || stage === 'uploading' || stage === 'registering'}
+                    disabled={
+                        selectedFiles.length === 0 ||
+                        stage === 'uploading' ||
+                        stage === 'approving' ||
+                        stage === 'committing' ||
+                        stage === 'waiting' ||
+                        stage === 'signing' ||
+                        stage === 'registering'
+                    }
                     onClick={(): void => {
                         handleUpload().catch((): undefined => undefined);
                     }}
@@ -180,6 +678,26 @@ export function UploadPage({ walletAddress }: UploadPageProps): React.JSX.Elemen
                             <span className="spinner" /> Uploading to IPFS...
                         </>
                     )}
+                    {stage === 'approving' && (
+                        <>
+                            <span className="spinner" /> Approving fee...
+                        </>
+                    )}
+                    {stage === 'committing' && (
+                        <>
+                            <span className="spinner" /> Committing to CID...
+                        </>
+                    )}
+                    {stage === 'waiting' && (
+                        <>
+                            <span className="spinner" /> Waiting for reveal window...
+                        </>
+                    )}
+                    {stage === 'signing' && (
+                        <>
+                            <span className="spinner" /> Waiting for signature...
+                        </>
+                    )}
                     {stage === 'registering' && (
                         <>
                             <span className="spinner" /> Registering on-chain...
@@ -190,13 +708,28 @@ export function UploadPage({ walletAddress }: UploadPageProps): React.JSX.Elemen
                 </button>
             </div>
 
-            {stage === 'done' && uploadResult && (
+            {stage === 'done' && uploadResults.length > 0 && (
                 <div className="status status-success">
-                    File uploaded to IPFS successfully.
-                    <br />
-                    CID: <strong>{uploadResult.cid}</strong>
+                    {uploadResults.length === 1
+                        ? 'File uploaded to IPFS successfully.'
+                        : `${uploadResults.length} files uploaded to IPFS successfully.`}
+                    {uploadResults.map(
+                        (result: IpfsUploadResult, i: number): React.JSX.Element => (
+                            <React.Fragment key={`${result.cid}-${i}`}>
+                                <br />
+                                CID: <strong>{result.cid}</strong>
+                            </React.Fragment>
+                        ),
+                    )}
                     <br />
                     On-chain registration will be available after contract deployment.
+                    {sealSalt && (
+                        <>
+                            <br />
+                            Sealed proof salt (save it -- the proof cannot be verified or unsealed
+                            without it and your address): <strong>{sealSalt}</strong>
+                        </>
+                    )}
                 </div>
             )}
 
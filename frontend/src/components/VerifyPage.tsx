@@ -1,17 +1,105 @@
 import React, { useState, useCallback } from 'react';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { FileStatus, FlagReason } from '../abi/OPScribeAbi';
+import {
+    MerkleProofFile,
+    hashFromHex,
+    parseProofFile,
+    verifyMerkleProof,
+} from '../services/merkle';
+import {
+    computeContentCommitment,
+    computeSealedCommitment,
+    parseSalt,
+    parseSealer,
+} from '../services/sealed';
+import { parseCid } from '../../../shared/cid';
 
 /** Verification result from the contract. */
 interface VerificationResult {
     readonly exists: boolean;
     readonly fileName: string;
     readonly fileSize: string;
+    /** Original registrant; never changes. */
     readonly uploader: string;
+    /** Current owner; differs from uploader after a transfer. */
+    readonly owner: string;
+    /** Nominated owner awaiting acceptance, empty if none. */
+    readonly pendingOwner: string;
+    /** OP721 certificate token id, empty if no certificate was minted. */
+    readonly certificateId: string;
     readonly blockNumber: string;
     readonly timestamp: string;
+    /** Hex SHA-256 of the raw file bytes, empty if none was registered. */
+    readonly contentHash: string;
+    readonly status: FileStatus;
+    readonly successor: string;
+    readonly revocationReason: string;
+    /** Every version of this file, oldest first (from getVersionChain). */
+    readonly versions: readonly string[];
+    /** Attestations from getAttestationCount/getAttestation, oldest first. */
+    readonly attestations: readonly DisplayAttestation[];
+    /** Metadata from listMetadataKeys/getFileMetadata, in insertion order. */
+    readonly metadata: readonly DisplayMetadata[];
+    /** Hidden from browse listings by a moderator. */
+    readonly hidden: boolean;
+    readonly flagCount: string;
+    /** Last block the proof is valid in, empty if it never expires. */
+    readonly validUntil: string;
+    /** The proof is past validUntil; it stays readable but is no longer current. */
+    readonly expired: boolean;
+}
+
+/** Labels for the flagFile reason codes. */
+const FLAG_REASON_LABELS: Readonly<Record<FlagReason, string>> = {
+    [FlagReason.Spam]: 'Spam',
+    [FlagReason.IllegalContent]: 'Illegal content',
+    [FlagReason.Copyright]: 'Copyright infringement',
+    [FlagReason.Malware]: 'Malware',
+    [FlagReason.Other]: 'Other',
+};
+
+/** Third-party attestation shown under the proof details. */
+interface DisplayAttestation {
+    readonly attester: string;
+    /** Hex hash of the off-chain statement. */
+    readonly statementHash: string;
+    readonly blockNumber: string;
+    readonly timestamp: string;
+}
+
+/** Key/value metadata entry shown under the proof details. */
+interface DisplayMetadata {
+    readonly key: string;
+    readonly value: string;
+    readonly mutable: boolean;
+}
+
+/** Result of checking a Merkle inclusion proof file. */
+interface InclusionResult {
+    readonly proof: MerkleProofFile;
+    readonly valid: boolean;
+}
+
+/** Result of looking up a sealed proof by its commitment. */
+interface SealedVerification {
+    /** Hex commitment derived from the CID or file, the sealer and the salt. */
+    readonly commitment: string;
+    readonly exists: boolean;
+    readonly sealer: string;
+    readonly blockNumber: string;
+    readonly timestamp: string;
+    /** CID and name published with unsealFile, empty while sealed. */
+    readonly cid: string;
+    readonly fileName: string;
 }
 
 /**
- * Verify page -- check if a file CID has been registered on-chain.
+ * Verify page -- check if a file CID has been registered on-chain,
+ * either directly, as part of an anchored Merkle batch, or as a sealed proof.
+ * Sealed proofs are checked by recomputing the salted commitment for the claimed
+ * sealer locally, so neither the CID nor the file is sent anywhere.
  *
  * @returns JSX element for the verification page.
  */
@@ -20,6 +108,17 @@ export function VerifyPage(): React.JSX.Element {
     const [loading, setLoading] = useState<boolean>(false);
     const [result, setResult] = useState<VerificationResult | null>(null);
     const [errorMessage, setErrorMessage] = useState<string>('');
+    const [inclusion, setInclusion] = useState<InclusionResult | null>(null);
+    const [proofError, setProofError] = useState<string>('');
+    const [sealedCid, setSealedCid] = useState<string>('');
+    const [sealedSealer, setSealedSealer] = useState<string>('');
+    const [sealedSalt, setSealedSalt] = useState<string>('');
+    const [sealedResult, setSealedResult] = useState<SealedVerification | null>(null);
+    const [sealedError, setSealedError] = useState<string>('');
+    const [flagReason, setFlagReason] = useState<FlagReason>(FlagReason.Spam);
+    const [flagMessage, setFlagMessage] = useState<string>('');
+    const [renewExpiry, setRenewExpiry] = useState<string>('');
+    const [renewMessage, setRenewMessage] = useState<string>('');
 
     const handleVerify = useCallback(async (): Promise<void> => {
         const trimmedCid: string = cidInput.trim();
@@ -28,9 +127,20 @@ export function VerifyPage(): React.JSX.Element {
             return;
         }
 
+        // The contract reverts on malformed CIDs, so reject them before querying
+        try {
+            parseCid(trimmedCid);
+        } catch (err: unknown) {
+            setResult(null);
+            setErrorMessage(err instanceof Error ? err.message : 'Invalid CID');
+            return;
+        }
+
         setLoading(true);
         setResult(null);
         setErrorMessage('');
+        setFlagMessage('');
+        setRenewMessage('');
 
         try {
             // NOTE: Contract interaction requires deployment.
@@ -41,13 +151,51 @@ export function VerifyPage(): React.JSX.Element {
             // const fileResult = await contract.getFile(trimmedCid);
             // const decoded = fileResult.decoded;
             //
+            // const attestations: DisplayAttestation[] = [];
+            // const count = (await contract.getAttestationCount(trimmedCid)).decoded.count;
+            // for (let i = 0n; i < count; i++) {
+            //     const attestation = (await contract.getAttestation(trimmedCid, i)).decoded;
+            //     attestations.push({
+            //         attester: `0x${attestation.attester.toString(16)}`,
+            //         statementHash: bytesToHex(attestation.statementHash),
+            //         blockNumber: attestation.blockNumber.toString(),
+            //         timestamp: new Date(Number(attestation.timestamp) * 1000).toISOString(),
+            //     });
+            // }
+            //
+            // const metadata: DisplayMetadata[] = [];
+            // for (const key of (await contract.listMetadataKeys(trimmedCid)).decoded.keys) {
+            //     const entry = (await contract.getFileMetadata(trimmedCid, key)).decoded;
+            //     metadata.push({ key, value: entry.value, mutable: entry.mutable });
+            // }
+            //
             // setResult({
             //     exists: decoded.exists,
             //     fileName: decoded.fileName,
             //     fileSize: formatBytes(decoded.fileSize),
             //     uploader: `0x${decoded.uploader.toString(16)}`,
+            //     owner: `0x${decoded.owner.toString(16)}`,
+            //     pendingOwner: decoded.pendingOwner === 0n
+            //         ? ''
+            //         : `0x${decoded.pendingOwner.toString(16)}`,
+            //     certificateId: decoded.hasCertificate ? decoded.certificateId.toString() : '',
             //     blockNumber: decoded.blockNumber.toString(),
             //     timestamp: new Date(Number(decoded.timestamp) * 1000).toISOString(),
+            //     contentHash: decoded.contentHash.some((b) => b !== 0)
+            //         ? bytesToHex(decoded.contentHash)
+            //         : '',
+            //     status: decoded.status,
+            //     successor: decoded.successor,
+            //     revocationReason: decoded.revocationReason,
+            //     versions: decoded.exists
+            //         ? (await contract.getVersionChain(trimmedCid)).decoded.cids
+            //         : [],
+            //     attestations,
+            //     metadata,
+            //     hidden: decoded.hidden,
+            //     flagCount: decoded.flagCount.toString(),
+            //     validUntil: decoded.validUntil === 0n ? '' : decoded.validUntil.toString(),
+            //     expired: decoded.expired,
             // });
 
             // Placeholder until contract deployment
@@ -56,8 +204,22 @@ export function VerifyPage(): React.JSX.Element {
                 fileName: '',
                 fileSize: '0',
                 uploader: '',
+                owner: '',
+                pendingOwner: '',
+                certificateId: '',
                 blockNumber: '0',
                 timestamp: '',
+                contentHash: '',
+                status: FileStatus.Active,
+                successor: '',
+                revocationReason: '',
+                versions: [],
+                attestations: [],
+                metadata: [],
+                hidden: false,
+                flagCount: '0',
+                validUntil: '',
+                expired: false,
             });
         } catch (err: unknown) {
             const message: string = err instanceof Error ? err.message : 'Verification failed';
@@ -67,85 +229,686 @@ export function VerifyPage(): React.JSX.Element {
         }
     }, [cidInput]);
 
-    return (
-        <div className="card">
-            <div className="card-title">Verify File Proof</div>
-
-            <div className="input-group">
-                <label className="input-label" htmlFor="cid-input">
-                    IPFS Content Identifier (CID)
-                </label>
-                <input
-                    id="cid-input"
-                    className="input"
-                    type="text"
-                    placeholder="QmXoYp... or bafy..."
-                    value={cidInput}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
-                        setCidInput(e.target.value)
+    const handleVerifyFile = useCallback(async (file: File): Promise<void> => {
+        setLoading(true);
+        setResult(null);
+        setErrorMessage('');
+
+        try {
+            // Hash the raw bytes locally -- the file never leaves the browser.
+            const contentHash: Uint8Array = sha256(new Uint8Array(await file.arrayBuffer()));
+
+            // NOTE: Contract interaction requires deployment.
+            // Once deployed, use:
+            //
+            // const fileResult = await contract.getFileByContentHash(contentHash);
+            // const decoded = fileResult.decoded;
+            // setCidInput(decoded.cid);
+            // setResult({ exists: decoded.exists, ..., contentHash: bytesToHex(contentHash) });
+
+            // Placeholder until contract deployment
+            setResult({
+                exists: false,
+                fileName: '',
+                fileSize: '0',
+                uploader: '',
+                owner: '',
+                pendingOwner: '',
+                certificateId: '',
+                blockNumber: '0',
+                timestamp: '',
+                contentHash: bytesToHex(contentHash),
+                status: FileStatus.Active,
+                successor: '',
+                revocationReason: '',
+                versions: [],
+                attestations: [],
+                metadata: [],
+                hidden: false,
+                flagCount: '0',
+                validUntil: '',
+                expired: false,
+            });
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Verification failed';
+            setErrorMessage(message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const handleFlag = useCallback(async (): Promise<void> => {
+        setFlagMessage('');
+
+        try {
+            // NOTE: Contract interaction requires deployment.
+            // Once deployed, use:
+            //
+            // const cid = cidInput.trim();
+            // const existing = await contract.getFlag(cid, senderAddress);
+            // if (existing.decoded.reasonCode !== 0) {
+            //     throw new Error('You have already reported this file.');
+            // }
+            // const flagSim = await contract.flagFile(cid, flagReason);
+            // if ('error' in flagSim) throw new Error(flagSim.error);
+            // await flagSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+
+            setFlagMessage(
+                `Report (${FLAG_REASON_LABELS[flagReason]}) will be sent once the contract is deployed.`,
+            );
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Report failed';
+            setFlagMessage(message);
+        }
+    }, [flagReason]);
+
+    const handleRenew = useCallback(async (): Promise<void> => {
+        setRenewMessage('');
+
+        try {
+            const trimmedExpiry: string = renewExpiry.trim();
+            if (!/^\d+$/.test(trimmedExpiry)) {
+                throw new Error('Enter a block height, or 0 to make the proof permanent.');
+            }
+            const newExpiry: bigint = BigInt(trimmedExpiry);
+
+            // NOTE: Contract interaction requires deployment.
+            // Only the file's owner can renew, and only to a later block (or 0 for never).
+            // Once deployed, use:
+            //
+            // const renewSim = await contract.renewFile(cidInput.trim(), newExpiry);
+            // if ('error' in renewSim) throw new Error(renewSim.error);
+            // await renewSim.sendTransaction({ signer: null, mldsaSigner: null, refundTo: userAddress });
+            // await handleVerify();
+
+            setRenewMessage(
+                newExpiry === 0n
+                    ? 'The proof will be made permanent once the contract is deployed.'
+                    : `The proof will be renewed until block ${newExpiry} once the contract is deployed.`,
+            );
+            setRenewExpiry('');
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Renewal failed';
+            setRenewMessage(message);
+        }
+    }, [renewExpiry]);
+
+    const handleProofFile = useCallback(async (file: File): Promise<void> => {
+        setInclusion(null);
+        setProofError('');
+
+        try {
+            const proof: MerkleProofFile = parseProofFile(await file.text());
+            const valid: boolean = verifyMerkleProof(
+                hashFromHex(proof.root),
+                proof.cid,
+                proof.proof.map(hashFromHex),
+                proof.leafCount,
+            );
+
+            // NOTE: Contract interaction requires deployment.
+            // Once deployed, also confirm the root is anchored on-chain; the contract
+            // bounds the proof by the anchored leaf count rather than the file's:
+            //
+            // const rootBytes = hashFromHex(proof.root);
+            // const anchored = await contract.verifyInclusion(
+            //     rootBytes, proof.cid, proof.proof.map(hashFromHex),
+            // );
+            // const rootRecord = await contract.getMerkleRoot(rootBytes);
+            // setInclusion({ proof, valid: valid && anchored.decoded.valid });
+
+            setInclusion({ proof, valid });
+        } catch (err: unknown) {
+            const message: string = err instanceof Error ? err.message : 'Invalid proof file';
+            setProofError(message);
+        }
+    }, []);
+
+    const handleVerifySealed = useCallback(
+        async (file: File | null): Promise<void> => {
+            setSealedResult(null);
+            setSealedError('');
+
+            try {
+                const sealer: Uint8Array = parseSealer(sealedSealer);
+                const salt: Uint8Array = parseSalt(sealedSalt);
+                let commitment: Uint8Array;
+                if (file) {
+                    const contentHash: Uint8Array = sha256(
+                        new Uint8Array(await file.arrayBuffer()),
+                    );
+                    commitment = computeContentCommitment(contentHash, sealer, salt);
+                } else {
+                    const cid: string = sealedCid.trim();
+                    if (cid.length === 0) {
+                        throw new Error('Enter the CID or choose the original file.');
                     }
-                    onKeyDown={(e: React.KeyboardEvent): void => {
-                        if (e.key === 'Enter') {
-                            handleVerify().catch((): undefined => undefined);
+                    parseCid(cid);
+                    commitment = computeSealedCommitment(cid, sealer, salt);
+                }
+
+                // NOTE: Contract interaction requires deployment.
+                // Once deployed, use:
+                //
+                // const sealerAddress = Address.fromString(sealedSealer.trim());
+                // const sealedProof = file
+                //     ? await contract.getSealedProofByContent(sealerAddress, commitment)
+                //     : await contract.getSealedProof(sealerAddress, commitment);
+                // const decoded = sealedProof.decoded;
+                // setSealedResult({
+                //     commitment: bytesToHex(commitment),
+                //     exists: decoded.exists,
+                //     sealer: `0x${decoded.sealer.toString(16)}`,
+                //     blockNumber: decoded.blockNumber.toString(),
+                //     timestamp: new Date(Number(decoded.timestamp) * 1000).toISOString(),
+                //     cid: decoded.cid,
+                //     fileName: decoded.fileName,
+                // });
+
+                // Placeholder until contract deployment
+                setSealedResult({
+                    commitment: bytesToHex(commitment),
+                    exists: false,
+                    sealer: '',
+                    blockNumber: '0',
+                    timestamp: '',
+                    cid: '',
+                    fileName: '',
+                });
+            } catch (err: unknown) {
+                const message: string = err instanceof Error ? err.message : 'Verification failed';
+                setSealedError(message);
+            }
+        },
+        [sealedCid, sealedSealer, sealedSalt],
+    );
+
+    return (
+        <>
+            <div className="card">
+                <div className="card-title">Verify File Proof</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="cid-input">
+                        IPFS Content Identifier (CID)
+                    </label>
+                    <input
+                        id="cid-input"
+                        className="input"
+                        type="text"
+                        placeholder="QmXoYp... or bafy..."
+                        value={cidInput}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setCidInput(e.target.value)
                         }
+                        onKeyDown={(e: React.KeyboardEvent): void => {
+                            if (e.key === 'Enter') {
+                                handleVerify().catch((): undefined => undefined);
+                            }
+                        }}
+                    />
+                </div>
+
+                <button
+                    type="button"
+                    className="btn btn-primary btn-full"
+                    disabled={loading || cidInput.trim().length === 0}
+                    onClick={(): void => {
+                        handleVerify().catch((): undefined => undefined);
                     }}
-                />
-            </div>
+                >
+                    {loading ? (
+                        <>
+                            <span className="spinner" /> Verifying...
+                        </>
+                    ) : (
+                        'Verify on Chain'
+                    )}
+                </button>
+
+                <div className="input-group" style={{ marginTop: '20px' }}>
+                    <label className="input-label" htmlFor="original-file-input">
+                        Or verify with the original file
+                    </label>
+                    <input
+                        id="original-file-input"
+                        className="input"
+                        type="file"
+                        disabled={loading}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void => {
+                            const file: File | undefined = e.target.files?.[0];
+                            if (file) {
+                                handleVerifyFile(file).catch((): undefined => undefined);
+                            }
+                        }}
+                    />
+                </div>
 
-            <button
-                type="button"
-                className="btn btn-primary btn-full"
-                disabled={loading || cidInput.trim().length === 0}
-                onClick={(): void => {
-                    handleVerify().catch((): undefined => undefined);
-                }}
-            >
-                {loading ? (
-                    <>
-                        <span className="spinner" /> Verifying...
-                    </>
-                ) : (
-                    'Verify on Chain'
+                {errorMessage && <div className="status status-error">{errorMessage}</div>}
+
+                {result && !result.exists && !errorMessage && (
+                    <div className="status status-error">
+                        No on-chain proof found for this {result.contentHash ? 'file' : 'CID'}.
+                        {' '}(Contract deployment pending -- verification will work after deployment.)
+                    </div>
                 )}
-            </button>
 
-            {errorMessage && <div className="status status-error">{errorMessage}</div>}
+                {result && result.exists && (
+                    <div className="verify-result">
+                        {result.status === FileStatus.Active && !result.expired && (
+                            <div className="status status-success" style={{ marginBottom: '16px' }}>
+                                On-chain proof verified.
+                            </div>
+                        )}
+                        {result.status === FileStatus.Revoked && (
+                            <div className="status status-error" style={{ marginBottom: '16px' }}>
+                                This proof has been REVOKED by its owner and should not be relied
+                                on.
+                                {result.revocationReason && (
+                                    <>
+                                        <br />
+                                        Reason: <strong>{result.revocationReason}</strong>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                        {result.status === FileStatus.Superseded && (
+                            <div className="status status-warning" style={{ marginBottom: '16px' }}>
+                                This proof has been SUPERSEDED by a newer version.
+                                <br />
+                                Newer CID:{' '}
+                                <button
+                                    type="button"
+                                    className="btn btn-secondary"
+                                    style={{
+                                        minWidth: 'auto',
+                                        padding: '2px 8px',
+                                        fontSize: '12px',
+                                    }}
+                                    onClick={(): void => setCidInput(result.successor)}
+                                >
+                                    {result.successor}
+                                </button>
+                            </div>
+                        )}
 
-            {result && !result.exists && !errorMessage && (
-                <div className="status status-error">
-                    No on-chain proof found for this CID.
-                    {' '}(Contract deployment pending -- verification will work after deployment.)
-                </div>
-            )}
+                        {result.expired && (
+                            <div className="status status-error" style={{ marginBottom: '16px' }}>
+                                This proof EXPIRED after block <strong>{result.validUntil}</strong>.
+                                The registration below is kept for the record but is no longer
+                                current.
+                            </div>
+                        )}
+                        {result.validUntil && !result.expired && (
+                            <div className="status status-warning" style={{ marginBottom: '16px' }}>
+                                Proof valid until block <strong>{result.validUntil}</strong>.
+                            </div>
+                        )}
 
-            {result && result.exists && (
-                <div className="verify-result">
-                    <div className="status status-success" style={{ marginBottom: '16px' }}>
-                        On-chain proof verified.
-                    </div>
+                        {result.hidden && (
+                            <div className="status status-warning" style={{ marginBottom: '16px' }}>
+                                This file is hidden from the public listing by a moderator. The
+                                proof itself is unchanged.
+                            </div>
+                        )}
 
-                    <div className="verify-field">
-                        <span className="verify-label">File Name</span>
-                        <span className="verify-value">{result.fileName}</span>
-                    </div>
-                    <div className="verify-field">
-                        <span className="verify-label">File Size</span>
-                        <span className="verify-value">{result.fileSize}</span>
-                    </div>
-                    <div className="verify-field">
-                        <span className="verify-label">Uploader</span>
-                        <span className="verify-value">{result.uploader}</span>
+                        <div className="verify-field">
+                            <span className="verify-label">File Name</span>
+                            <span className="verify-value">{result.fileName}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">File Size</span>
+                            <span className="verify-value">{result.fileSize}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Uploader</span>
+                            <span className="verify-value">{result.uploader}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Current Owner</span>
+                            <span className="verify-value">{result.owner}</span>
+                        </div>
+                        {result.pendingOwner && (
+                            <div className="verify-field">
+                                <span className="verify-label">Pending Owner</span>
+                                <span className="verify-value">{result.pendingOwner}</span>
+                            </div>
+                        )}
+                        <div className="verify-field">
+                            <span className="verify-label">Block Number</span>
+                            <span className="verify-value">{result.blockNumber}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Timestamp</span>
+                            <span className="verify-value">{result.timestamp}</span>
+                        </div>
+                        {result.certificateId && (
+                            <div className="verify-field">
+                                <span className="verify-label">Certificate NFT</span>
+                                <span className="verify-value">#{result.certificateId}</span>
+                            </div>
+                        )}
+                        {result.metadata.map(
+                            (entry: DisplayMetadata): React.JSX.Element => (
+                                <div className="verify-field" key={entry.key}>
+                                    <span className="verify-label">
+                                        {entry.key}
+                                        {entry.mutable ? ' (editable)' : ''}
+                                    </span>
+                                    <span className="verify-value">{entry.value}</span>
+                                </div>
+                            ),
+                        )}
+                        {result.contentHash && (
+                            <div className="verify-field">
+                                <span className="verify-label">Content Hash</span>
+                                <span className="verify-value">{result.contentHash}</span>
+                            </div>
+                        )}
+                        {result.versions.length > 1 && (
+                            <div className="verify-field">
+                                <span className="verify-label">Version History</span>
+                                <span className="verify-value">
+                                    {result.versions.map(
+                                        (version: string, i: number): React.JSX.Element => (
+                                            <div key={version}>
+                                                v{i + 1}: {version}
+                                            </div>
+                                        ),
+                                    )}
+                                </span>
+                            </div>
+                        )}
+                        {result.attestations.length > 0 && (
+                            <div className="verify-field">
+                                <span className="verify-label">
+                                    Attestations ({result.attestations.length})
+                                </span>
+                                <span className="verify-value">
+                                    {result.attestations.map(
+                                        (
+                                            attestation: DisplayAttestation,
+                                            i: number,
+                                        ): React.JSX.Element => (
+                                            <div key={i} style={{ marginBottom: '8px' }}>
+                                                <div>Attester: {attestation.attester}</div>
+                                                <div>Statement: {attestation.statementHash}</div>
+                                                <div>
+                                                    Block {attestation.blockNumber} --{' '}
+                                                    {attestation.timestamp}
+                                                </div>
+                                            </div>
+                                        ),
+                                    )}
+                                </span>
+                            </div>
+                        )}
+                        {result.flagCount !== '0' && (
+                            <div className="verify-field">
+                                <span className="verify-label">Reports</span>
+                                <span className="verify-value">{result.flagCount}</span>
+                            </div>
+                        )}
+
+                        {result.validUntil && (
+                            <>
+                                <div className="input-group" style={{ marginTop: '16px' }}>
+                                    <label className="input-label" htmlFor="renew-expiry-input">
+                                        Renew until block (owner only, 0 = never expires)
+                                    </label>
+                                    <input
+                                        id="renew-expiry-input"
+                                        className="input"
+                                        type="text"
+                                        placeholder={`later than ${result.validUntil}`}
+                                        value={renewExpiry}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                                            setRenewExpiry(e.target.value)
+                                        }
+                                    />
+                                </div>
+                                <button
+                                    type="button"
+                                    className="btn btn-secondary"
+                                    disabled={renewExpiry.trim().length === 0}
+                                    onClick={(): void => {
+                                        handleRenew().catch((): undefined => undefined);
+                                    }}
+                                >
+                                    Renew Proof
+                                </button>
+                                {renewMessage && (
+                                    <div
+                                        className="status status-warning"
+                                        style={{ marginTop: '12px' }}
+                                    >
+                                        {renewMessage}
+                                    </div>
+                                )}
+                            </>
+                        )}
+
+                        <div className="input-group" style={{ marginTop: '16px' }}>
+                            <label className="input-label" htmlFor="flag-reason">
+                                Report this file
+                            </label>
+                            <select
+                                id="flag-reason"
+                                className="input"
+                                value={flagReason}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>): void =>
+                                    setFlagReason(Number(e.target.value) as FlagReason)
+                                }
+                            >
+                                {Object.entries(FLAG_REASON_LABELS).map(
+                                    ([code, label]: [string, string]): React.JSX.Element => (
+                                        <option key={code} value={code}>
+                                            {label}
+                                        </option>
+                                    ),
+                                )}
+                            </select>
+                        </div>
+                        <button
+                            type="button"
+                            className="btn btn-secondary"
+                            onClick={(): void => {
+                                handleFlag().catch((): undefined => undefined);
+                            }}
+                        >
+                            Report
+                        </button>
+                        {flagMessage && (
+                            <div className="status status-warning" style={{ marginTop: '12px' }}>
+                                {flagMessage}
+                            </div>
+                        )}
                     </div>
-                    <div className="verify-field">
-                        <span className="verify-label">Block Number</span>
-                        <span className="verify-value">{result.blockNumber}</span>
+                )}
+            </div>
+
+            <div className="card">
+                <div className="card-title">Verify Sealed Proof</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="sealed-sealer-input">
+                        Sealer address
+                    </label>
+                    <input
+                        id="sealed-sealer-input"
+                        className="input"
+                        type="text"
+                        placeholder="0x + 64 hex characters"
+                        value={sealedSealer}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setSealedSealer(e.target.value)
+                        }
+                    />
+                </div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="sealed-salt-input">
+                        Salt (hex, kept by the sealer)
+                    </label>
+                    <input
+                        id="sealed-salt-input"
+                        className="input"
+                        type="text"
+                        placeholder="64 hex characters"
+                        value={sealedSalt}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setSealedSalt(e.target.value)
+                        }
+                    />
+                </div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="sealed-cid-input">
+                        IPFS Content Identifier (CID)
+                    </label>
+                    <input
+                        id="sealed-cid-input"
+                        className="input"
+                        type="text"
+                        placeholder="QmXoYp... or bafy..."
+                        value={sealedCid}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void =>
+                            setSealedCid(e.target.value)
+                        }
+                    />
+                </div>
+
+                <button
+                    type="button"
+                    className="btn btn-primary btn-full"
+                    disabled={
+                        sealedSealer.trim().length === 0 ||
+                        sealedSalt.trim().length === 0 ||
+                        sealedCid.trim().length === 0
+                    }
+                    onClick={(): void => {
+                        handleVerifySealed(null).catch((): undefined => undefined);
+                    }}
+                >
+                    Verify Sealed Proof
+                </button>
+
+                <div className="input-group" style={{ marginTop: '20px' }}>
+                    <label className="input-label" htmlFor="sealed-file-input">
+                        Or verify with the original file, the sealer and the salt
+                    </label>
+                    <input
+                        id="sealed-file-input"
+                        className="input"
+                        type="file"
+                        disabled={
+                            sealedSealer.trim().length === 0 || sealedSalt.trim().length === 0
+                        }
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void => {
+                            const file: File | undefined = e.target.files?.[0];
+                            if (file) {
+                                handleVerifySealed(file).catch((): undefined => undefined);
+                            }
+                        }}
+                    />
+                </div>
+
+                {sealedError && <div className="status status-error">{sealedError}</div>}
+
+                {sealedResult && !sealedResult.exists && (
+                    <div className="status status-error">
+                        No sealed proof matches this commitment. Check the sealer and the salt.
                     </div>
-                    <div className="verify-field">
-                        <span className="verify-label">Timestamp</span>
-                        <span className="verify-value">{result.timestamp}</span>
+                )}
+
+                {sealedResult && sealedResult.exists && (
+                    <div className="verify-result">
+                        <div className="status status-success" style={{ marginBottom: '16px' }}>
+                            Sealed proof verified.
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Commitment</span>
+                            <span className="verify-value">{sealedResult.commitment}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Sealer</span>
+                            <span className="verify-value">{sealedResult.sealer}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Block Number</span>
+                            <span className="verify-value">{sealedResult.blockNumber}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Timestamp</span>
+                            <span className="verify-value">{sealedResult.timestamp}</span>
+                        </div>
+                        {sealedResult.cid && (
+                            <>
+                                <div className="verify-field">
+                                    <span className="verify-label">Unsealed CID</span>
+                                    <span className="verify-value">{sealedResult.cid}</span>
+                                </div>
+                                <div className="verify-field">
+                                    <span className="verify-label">File Name</span>
+                                    <span className="verify-value">{sealedResult.fileName}</span>
+                                </div>
+                            </>
+                        )}
                     </div>
+                )}
+            </div>
+
+            <div className="card">
+                <div className="card-title">Verify Batch Inclusion</div>
+
+                <div className="input-group">
+                    <label className="input-label" htmlFor="proof-input">
+                        Merkle Proof File (JSON)
+                    </label>
+                    <input
+                        id="proof-input"
+                        className="input"
+                        type="file"
+                        accept=".json,application/json"
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>): void => {
+                            const file: File | undefined = e.target.files?.[0];
+                            if (file) {
+                                handleProofFile(file).catch((): undefined => undefined);
+                            }
+                        }}
+                    />
                 </div>
-            )}
-        </div>
+
+                {proofError && <div className="status status-error">{proofError}</div>}
+
+                {inclusion && (
+                    <div className="verify-result">
+                        <div
+                            className={`status ${inclusion.valid ? 'status-success' : 'status-error'}`}
+                            style={{ marginBottom: '16px' }}
+                        >
+                            {inclusion.valid
+                                ? 'CID is included in this Merkle batch.'
+                                : 'Proof does not match the Merkle root.'}
+                        </div>
+
+                        <div className="verify-field">
+                            <span className="verify-label">CID</span>
+                            <span className="verify-value">{inclusion.proof.cid}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Merkle Root</span>
+                            <span className="verify-value">{inclusion.proof.root}</span>
+                        </div>
+                        <div className="verify-field">
+                            <span className="verify-label">Leaf</span>
+                            <span className="verify-value">
+                                {inclusion.proof.leafIndex + 1} of {inclusion.proof.leafCount}
+                            </span>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </>
     );
 }
@@ -0,0 +1,101 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, concatBytes, randomBytes } from '@noble/hashes/utils.js';
+import { parseCid } from '../../../shared/cid';
+
+/** localStorage key prefix for registrations awaiting reveal. */
+const STORAGE_PREFIX: string = 'opscribe:pending-reveal:';
+
+/** A committed registration whose salt must be kept until revealRegistration succeeds. */
+export interface PendingReveal {
+    readonly cid: string;
+    readonly fileName: string;
+    readonly fileSize: string;
+    /** Hex-encoded 32-byte salt. */
+    readonly salt: string;
+    /** Hex-encoded commitment sent to commitRegistration. */
+    readonly commitment: string;
+    /** Hex-encoded CID storage key sent with the commitment to reserve the CID. */
+    readonly cidKey: string;
+}
+
+/**
+ * Generates a fresh random salt for a registration commitment.
+ *
+ * @returns 32 random bytes.
+ */
+export function generateSalt(): Uint8Array {
+    return randomBytes(32);
+}
+
+/**
+ * Computes a registration commitment: sha256(UTF8(cid) || sender || salt) (matches the contract).
+ *
+ * @param cid - The IPFS Content Identifier string.
+ * @param sender - The 32-byte address that will send both transactions.
+ * @param salt - The 32-byte salt from generateSalt.
+ * @returns The 32-byte commitment.
+ */
+export function computeCommitment(cid: string, sender: Uint8Array, salt: Uint8Array): Uint8Array {
+    return sha256(concatBytes(new TextEncoder().encode(cid), sender, salt));
+}
+
+/**
+ * Computes the storage key the contract reserves a committed CID under:
+ * sha256 of the binary CIDv1, so every encoding of a CID has the same key.
+ *
+ * @param cid - The IPFS Content Identifier string.
+ * @returns The 32-byte key.
+ * @throws Error if the CID is malformed.
+ */
+export function computeCidKey(cid: string): Uint8Array {
+    return sha256(parseCid(cid).bytes);
+}
+
+/**
+ * Creates and stores the pending reveal for a CID before its commitment is sent,
+ * so the salt survives a page reload while waiting for the reveal window.
+ *
+ * @param cid - The IPFS Content Identifier string.
+ * @param fileName - The original file name.
+ * @param fileSize - The file size in bytes.
+ * @param sender - The 32-byte address that will send both transactions.
+ * @returns The stored pending reveal.
+ */
+export function createPendingReveal(
+    cid: string,
+    fileName: string,
+    fileSize: number,
+    sender: Uint8Array,
+): PendingReveal {
+    const salt: Uint8Array = generateSalt();
+    const pending: PendingReveal = {
+        cid,
+        fileName,
+        fileSize: fileSize.toString(),
+        salt: bytesToHex(salt),
+        commitment: bytesToHex(computeCommitment(cid, sender, salt)),
+        cidKey: bytesToHex(computeCidKey(cid)),
+    };
+    localStorage.setItem(STORAGE_PREFIX + cid, JSON.stringify(pending));
+    return pending;
+}
+
+/**
+ * Loads the pending reveal stored for a CID.
+ *
+ * @param cid - The IPFS Content Identifier string.
+ * @returns The pending reveal, or null if none is stored.
+ */
+export function loadPendingReveal(cid: string): PendingReveal | null {
+    const raw: string | null = localStorage.getItem(STORAGE_PREFIX + cid);
+    return raw ? (JSON.parse(raw) as PendingReveal) : null;
+}
+
+/**
+ * Forgets the pending reveal for a CID once it has been revealed or has expired.
+ *
+ * @param cid - The IPFS Content Identifier string.
+ */
+export function clearPendingReveal(cid: string): void {
+    localStorage.removeItem(STORAGE_PREFIX + cid);
+}
@@ -6,6 +6,8 @@ export interface IpfsUploadResult {
     readonly fileName: string;
     readonly fileSize: number;
     readonly mimeType: string;
+    /** Hex-encoded SHA-256 of the raw file bytes. */
+    readonly contentHash: string;
 }
 
 /**
@@ -0,0 +1,236 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { parseCid } from '../../../shared/cid';
+
+/** Prefix byte for leaf hashes (matches the contract). */
+const LEAF_PREFIX: number = 0x00;
+
+/** Prefix byte for interior node hashes (matches the contract). */
+const NODE_PREFIX: number = 0x01;
+
+/** Merkle tree over a list of CIDs, bottom layer first. */
+export interface MerkleTree {
+    readonly root: Uint8Array;
+    readonly leaves: readonly string[];
+    readonly layers: readonly (readonly Uint8Array[])[];
+}
+
+/** JSON proof file proving one CID is part of an anchored batch. */
+export interface MerkleProofFile {
+    readonly root: string;
+    readonly cid: string;
+    readonly leafIndex: number;
+    readonly leafCount: number;
+    readonly proof: readonly string[];
+}
+
+/**
+ * Hashes a CID into a Merkle leaf: sha256(0x00 || binary CIDv1), so every
+ * encoding of a CID gives the same leaf (matches the contract).
+ *
+ * @param cid - The IPFS Content Identifier string.
+ * @returns The 32-byte leaf hash.
+ * @throws Error if the CID is malformed.
+ */
+export function hashLeaf(cid: string): Uint8Array {
+    const cidBytes: Uint8Array = parseCid(cid).bytes;
+    const data: Uint8Array = new Uint8Array(cidBytes.length + 1);
+    data[0] = LEAF_PREFIX;
+    data.set(cidBytes, 1);
+    return sha256(data);
+}
+
+/**
+ * Hashes two children into their parent: sha256(0x01 || min(a, b) || max(a, b)).
+ *
+ * @param a - First 32-byte child hash.
+ * @param b - Second 32-byte child hash.
+ * @returns The 32-byte parent hash.
+ */
+export function hashNode(a: Uint8Array, b: Uint8Array): Uint8Array {
+    let aFirst: boolean = true;
+    for (let i: number = 0; i < 32; i++) {
+        const x: number = a[i] ?? 0;
+        const y: number = b[i] ?? 0;
+        if (x !== y) {
+            aFirst = x < y;
+            break;
+        }
+    }
+
+    const data: Uint8Array = new Uint8Array(65);
+    data[0] = NODE_PREFIX;
+    data.set(aFirst ? a : b, 1);
+    data.set(aFirst ? b : a, 33);
+    return sha256(data);
+}
+
+/**
+ * Builds a Merkle tree over CIDs. An unpaired last node is promoted unchanged.
+ *
+ * @param cids - The CIDs to commit to, in order.
+ * @returns The tree with all layers and the root.
+ * @throws Error if no CIDs are given.
+ */
+export function buildMerkleTree(cids: readonly string[]): MerkleTree {
+    if (cids.length === 0) {
+        throw new Error('Cannot build a Merkle tree with no leaves.');
+    }
+
+    const layers: Uint8Array[][] = [cids.map((cid: string): Uint8Array => hashLeaf(cid))];
+    let current: Uint8Array[] = layers[0] as Uint8Array[];
+
+    while (current.length > 1) {
+        const next: Uint8Array[] = [];
+        for (let i: number = 0; i < current.length; i += 2) {
+            const left: Uint8Array = current[i] as Uint8Array;
+            const right: Uint8Array | undefined = current[i + 1];
+            next.push(right ? hashNode(left, right) : left);
+        }
+        layers.push(next);
+        current = next;
+    }
+
+    return { root: current[0] as Uint8Array, leaves: cids, layers };
+}
+
+/**
+ * Returns the sibling hashes proving the leaf at `index` is part of the tree.
+ *
+ * @param tree - A tree from buildMerkleTree.
+ * @param index - Leaf index.
+ * @returns Sibling hashes from the bottom layer up.
+ * @throws Error if index is out of range.
+ */
+export function getMerkleProof(tree: MerkleTree, index: number): Uint8Array[] {
+    if (index < 0 || index >= tree.leaves.length) {
+        throw new Error(`Leaf index ${index} out of range.`);
+    }
+
+    const proof: Uint8Array[] = [];
+    let position: number = index;
+    for (let level: number = 0; level < tree.layers.length - 1; level++) {
+        const layer: readonly Uint8Array[] = tree.layers[level] as readonly Uint8Array[];
+        const sibling: Uint8Array | undefined = layer[position ^ 1];
+        if (sibling) {
+            proof.push(sibling);
+        }
+        position = Math.floor(position / 2);
+    }
+    return proof;
+}
+
+/**
+ * Returns the height of a tree with `leafCount` leaves: ceil(log2(leafCount)),
+ * the most siblings a proof in it can have.
+ *
+ * @param leafCount - Number of leaves.
+ * @returns The tree height.
+ */
+export function treeHeight(leafCount: number): number {
+    let height: number = 0;
+    while (2 ** height < leafCount) {
+        height++;
+    }
+    return height;
+}
+
+/**
+ * Recomputes the root from a CID and its proof and compares it to `root`.
+ * A proof longer than the tree height is rejected (matches the contract).
+ *
+ * @param root - Expected 32-byte root.
+ * @param cid - The CID being proven.
+ * @param proof - Sibling hashes from getMerkleProof.
+ * @param leafCount - Number of leaves anchored with the root.
+ * @returns Whether the proof is valid for the root.
+ * @throws Error if the CID is malformed.
+ */
+export function verifyMerkleProof(
+    root: Uint8Array,
+    cid: string,
+    proof: readonly Uint8Array[],
+    leafCount: number,
+): boolean {
+    if (proof.length > treeHeight(leafCount)) {
+        return false;
+    }
+
+    let node: Uint8Array = hashLeaf(cid);
+    for (const sibling of proof) {
+        node = hashNode(node, sibling);
+    }
+    return bytesToHex(node) === bytesToHex(root);
+}
+
+/**
+ * Creates the downloadable proof file for one leaf of a tree.
+ *
+ * @param tree - A tree from buildMerkleTree.
+ * @param index - Leaf index.
+ * @returns The proof file contents.
+ */
+export function createProofFile(tree: MerkleTree, index: number): MerkleProofFile {
+    return {
+        root: bytesToHex(tree.root),
+        cid: tree.leaves[index] as string,
+        leafIndex: index,
+        leafCount: tree.leaves.length,
+        proof: getMerkleProof(tree, index).map((hash: Uint8Array): string => bytesToHex(hash)),
+    };
+}
+
+/**
+ * Parses and validates a proof file.
+ *
+ * @param json - Raw JSON text of the proof file.
+ * @returns The parsed proof file.
+ * @throws Error if the file is not a well-formed proof.
+ */
+export function parseProofFile(json: string): MerkleProofFile {
+    const data: Partial<MerkleProofFile> = JSON.parse(json) as Partial<MerkleProofFile>;
+    const isHash = (value: unknown): boolean =>
+        typeof value === 'string' && /^(0x)?[0-9a-fA-F]{64}$/.test(value);
+
+    if (
+        !isHash(data.root) ||
+        typeof data.cid !== 'string' ||
+        data.cid.length === 0 ||
+        typeof data.leafIndex !== 'number' ||
+        typeof data.leafCount !== 'number' ||
+        !Number.isSafeInteger(data.leafCount) ||
+        data.leafCount < 1 ||
+        !Array.isArray(data.proof) ||
+        !data.proof.every(isHash)
+    ) {
+        throw new Error('Invalid Merkle proof file.');
+    }
+
+    return {
+        root: stripHexPrefix(data.root as string),
+        cid: data.cid,
+        leafIndex: data.leafIndex,
+        leafCount: data.leafCount,
+        proof: data.proof.map(stripHexPrefix),
+    };
+}
+
+/**
+ * Converts a hex hash from a proof file to bytes.
+ *
+ * @param hex - 64-character hex string, optionally 0x-prefixed.
+ * @returns The 32 bytes.
+ */
+export function hashFromHex(hex: string): Uint8Array {
+    return hexToBytes(stripHexPrefix(hex));
+}
+
+/**
+ * Removes a leading 0x from a hex string.
+ *
+ * @param hex - Hex string.
+ * @returns Hex string without prefix, lowercased.
+ */
+function stripHexPrefix(hex: string): string {
+    return (hex.startsWith('0x') ? hex.slice(2) : hex).toLowerCase();
+}
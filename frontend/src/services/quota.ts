@@ -0,0 +1,108 @@
+import { QuotaInfo } from '../abi/OPScribeAbi';
+
+/** getQuota reports a disabled limit's remaining allowance as u256 max. */
+const UNLIMITED: bigint = (1n << 256n) - 1n;
+
+/** Revert messages registerRecord uses when an uploader is over its limits. */
+const RATE_LIMIT_REVERT: string = 'Rate limit exceeded';
+const LIFETIME_QUOTA_REVERT: string = 'Lifetime quota exceeded';
+
+/**
+ * Returns how many more files an address can register right now.
+ *
+ * @param quota - The address's limits from getQuota.
+ * @returns The smaller of the window and lifetime allowances, or null if neither limit is set.
+ */
+export function remainingRegistrations(quota: QuotaInfo): bigint | null {
+    const limits: bigint[] = [quota.remainingInWindow, quota.lifetimeRemaining].filter(
+        (remaining: bigint): boolean => remaining !== UNLIMITED,
+    );
+    if (limits.length === 0) {
+        return null;
+    }
+    return limits.reduce((a: bigint, b: bigint): bigint => (a < b ? a : b));
+}
+
+/**
+ * Describes an address's remaining allowance for display.
+ *
+ * @param quota - The address's limits from getQuota.
+ * @returns One line per active limit, e.g. "3 of 5 registrations left until block 1200".
+ */
+export function describeQuota(quota: QuotaInfo): string[] {
+    const lines: string[] = [];
+    if (quota.maxPerWindow > 0n) {
+        lines.push(
+            `${quota.remainingInWindow} of ${quota.maxPerWindow} registrations left until block ${quota.windowResetsAt} (limit per ${quota.windowBlocks} blocks)`,
+        );
+    }
+    if (quota.lifetimeQuota > 0n) {
+        lines.push(
+            `${quota.lifetimeRemaining} of ${quota.lifetimeQuota} registrations left for this address in total`,
+        );
+    }
+    return lines;
+}
+
+/**
+ * Checks a planned registration against an address's allowance before sending it.
+ *
+ * @param quota - The address's limits from getQuota.
+ * @param count - Number of files about to be registered.
+ * @returns An explanation if the registration would revert, or null if it fits.
+ */
+export function checkRegistrationAllowance(quota: QuotaInfo, count: number): string | null {
+    if (quota.lifetimeRemaining === 0n) {
+        return lifetimeQuotaMessage(quota);
+    }
+    if (quota.remainingInWindow === 0n) {
+        return rateLimitMessage(quota);
+    }
+    const remaining: bigint | null = remainingRegistrations(quota);
+    if (remaining !== null && BigInt(count) > remaining) {
+        return `This address can register ${remaining} more file(s) right now. Select fewer files.`;
+    }
+    return null;
+}
+
+/**
+ * Turns a rate-limit or quota revert into an explanation the user can act on.
+ * Other errors are returned unchanged.
+ *
+ * @param message - The error message from the simulation, transaction or relay.
+ * @param quota - The address's limits from getQuota, or null if not loaded.
+ * @returns The message to show.
+ */
+export function explainRegistrationError(message: string, quota: QuotaInfo | null): string {
+    if (message.includes(RATE_LIMIT_REVERT)) {
+        return rateLimitMessage(quota);
+    }
+    if (message.includes(LIFETIME_QUOTA_REVERT)) {
+        return lifetimeQuotaMessage(quota);
+    }
+    return message;
+}
+
+/**
+ * Explains a used-up rate-limit window.
+ *
+ * @param quota - The address's limits from getQuota, or null if not loaded.
+ * @returns The explanation.
+ */
+function rateLimitMessage(quota: QuotaInfo | null): string {
+    return quota
+        ? `This address has reached the limit of ${quota.maxPerWindow} registrations per ${quota.windowBlocks} blocks. You can register again from block ${quota.windowResetsAt}.`
+        : 'This address has reached its registration rate limit. Wait for the next block window and try again.';
+}
+
+/**
+ * Explains a used-up lifetime quota.
+ *
+ * @param quota - The address's limits from getQuota, or null if not loaded.
+ * @returns The explanation.
+ */
+function lifetimeQuotaMessage(quota: QuotaInfo | null): string {
+    return quota
+        ? `This address has used its lifetime quota of ${quota.lifetimeQuota} registrations and cannot register more files.`
+        : 'This address has used its lifetime registration quota and cannot register more files.';
+}
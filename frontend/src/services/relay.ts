@@ -0,0 +1,125 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, concatBytes, hexToBytes } from '@noble/hashes/utils.js';
+import { API_BASE_URL } from '../types/config';
+
+/**
+ * sha256("OPScribeRegisterFile(string cid,string fileName,uint256 fileSize,address uploader,
+ * uint256 nonce,uint64 deadline)") (matches the contract).
+ */
+const REGISTER_FILE_TYPE_HASH: Uint8Array = hexToBytes(
+    'e311c43dd235c74bff0fde02366c93e1ad8eba739e6ced3591d56fd2e4e7362a',
+);
+
+/** Fields the uploader signs for registerFileFor. */
+export interface DelegatedRegistration {
+    readonly cid: string;
+    readonly fileName: string;
+    readonly fileSize: bigint;
+    /** 32-byte uploader address; the contract checks the signature against its ML-DSA key. */
+    readonly uploader: Uint8Array;
+    /** Current value of registrationNonceOf(uploader). */
+    readonly nonce: bigint;
+    /** Last block at which the signature is valid. */
+    readonly deadline: bigint;
+}
+
+/** Payload accepted by the backend relay endpoint. */
+export interface RelayPayload {
+    readonly cid: string;
+    readonly fileName: string;
+    readonly fileSize: string;
+    readonly uploader: string;
+    readonly deadline: string;
+    readonly signature: string;
+}
+
+/**
+ * Encodes an unsigned integer as big-endian bytes.
+ *
+ * @param value - The value to encode.
+ * @param byteLength - Output width in bytes.
+ * @returns The encoded bytes.
+ */
+function toBigEndian(value: bigint, byteLength: number): Uint8Array {
+    const bytes: Uint8Array = new Uint8Array(byteLength);
+    let remaining: bigint = value;
+    for (let i: number = byteLength - 1; i >= 0; i--) {
+        bytes[i] = Number(remaining & 0xffn);
+        remaining >>= 8n;
+    }
+    return bytes;
+}
+
+/**
+ * Computes the hash the uploader signs for registerFileFor:
+ * sha256(0x1901 || domainSeparator || structHash), as in OP721 approveBySignature.
+ *
+ * @param domainSeparator - The contract's domainSeparator() (32 bytes).
+ * @param registration - The registration being authorized.
+ * @returns The 32-byte message hash to sign.
+ */
+export function hashDelegatedRegistration(
+    domainSeparator: Uint8Array,
+    registration: DelegatedRegistration,
+): Uint8Array {
+    const encoder: TextEncoder = new TextEncoder();
+    const structHash: Uint8Array = sha256(
+        concatBytes(
+            REGISTER_FILE_TYPE_HASH,
+            sha256(encoder.encode(registration.cid)),
+            sha256(encoder.encode(registration.fileName)),
+            toBigEndian(registration.fileSize, 32),
+            registration.uploader,
+            toBigEndian(registration.nonce, 32),
+            toBigEndian(registration.deadline, 8),
+        ),
+    );
+    return sha256(concatBytes(new Uint8Array([0x19, 0x01]), domainSeparator, structHash));
+}
+
+/**
+ * Builds the relay payload from a signed registration.
+ *
+ * @param registration - The registration that was signed.
+ * @param signature - The uploader's ML-DSA-44 signature (2420 bytes) of the message hash.
+ * @returns The JSON payload for submitRelayedRegistration.
+ */
+export function createRelayPayload(
+    registration: DelegatedRegistration,
+    signature: Uint8Array,
+): RelayPayload {
+    return {
+        cid: registration.cid,
+        fileName: registration.fileName,
+        fileSize: registration.fileSize.toString(),
+        uploader: bytesToHex(registration.uploader),
+        deadline: registration.deadline.toString(),
+        signature: bytesToHex(signature),
+    };
+}
+
+/**
+ * Sends a signed registration to the backend relay, which submits registerFileFor.
+ *
+ * @param payload - Payload from createRelayPayload.
+ * @returns The id of the relayed transaction.
+ * @throws Error if the relay rejects the payload or fails to broadcast.
+ */
+export async function submitRelayedRegistration(payload: RelayPayload): Promise<string> {
+    const response: Response = await fetch(`${API_BASE_URL}/relay/register`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+        const errorBody: { error?: string } = await response.json().catch(() => ({}));
+        const message: string = errorBody.error ?? `Relay failed with status ${response.status}`;
+        throw new Error(message);
+    }
+
+    const result: { transactionId: string } = (await response.json()) as {
+        transactionId: string;
+    };
+    return result.transactionId;
+}
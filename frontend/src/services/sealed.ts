@@ -0,0 +1,66 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { concatBytes, hexToBytes } from '@noble/hashes/utils.js';
+
+/**
+ * Computes the commitment of a sealed proof: sha256(UTF8(cid) || sealer || salt)
+ * (matches the contract).
+ *
+ * @param cid - The IPFS Content Identifier string.
+ * @param sealer - The 32-byte address that sends registerSealedFile.
+ * @param salt - The 32-byte salt chosen when sealing.
+ * @returns The 32-byte commitment.
+ */
+export function computeSealedCommitment(
+    cid: string,
+    sealer: Uint8Array,
+    salt: Uint8Array,
+): Uint8Array {
+    return sha256(concatBytes(new TextEncoder().encode(cid), sealer, salt));
+}
+
+/**
+ * Computes the content commitment of a sealed proof: sha256(contentHash || sealer || salt),
+ * so the proof can be found from the original file without its CID.
+ *
+ * @param contentHash - SHA-256 of the raw file bytes.
+ * @param sealer - The 32-byte address that sends registerSealedFile.
+ * @param salt - The 32-byte salt chosen when sealing.
+ * @returns The 32-byte content commitment.
+ */
+export function computeContentCommitment(
+    contentHash: Uint8Array,
+    sealer: Uint8Array,
+    salt: Uint8Array,
+): Uint8Array {
+    return sha256(concatBytes(contentHash, sealer, salt));
+}
+
+/**
+ * Parses a sealer address entered by the user.
+ *
+ * @param input - 0x followed by 64 hex characters.
+ * @returns The 32-byte address.
+ * @throws Error if the input is not a 32-byte hex address.
+ */
+export function parseSealer(input: string): Uint8Array {
+    const trimmed: string = input.trim();
+    if (!/^0x[0-9a-fA-F]{64}$/.test(trimmed)) {
+        throw new Error('Sealer must be a 32-byte hex address (0x + 64 hex digits).');
+    }
+    return hexToBytes(trimmed.slice(2));
+}
+
+/**
+ * Parses a salt entered by the user.
+ *
+ * @param input - 64 hex characters, optionally 0x-prefixed.
+ * @returns The 32-byte salt.
+ * @throws Error if the input is not a 32-byte hex string.
+ */
+export function parseSalt(input: string): Uint8Array {
+    const hex: string = input.trim().replace(/^0x/i, '');
+    if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+        throw new Error('Salt must be 64 hex characters (32 bytes).');
+    }
+    return hexToBytes(hex);
+}
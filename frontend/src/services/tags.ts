@@ -0,0 +1,50 @@
+import { MAX_TAGS_PER_FILE, MAX_TAG_LENGTH } from '../types/config';
+
+/** Tag format accepted by the contract: lowercase letters, digits and dashes. */
+const TAG_PATTERN: RegExp = /^[a-z0-9-]+$/;
+
+/**
+ * Normalizes user input into the contract's tag format.
+ *
+ * @param raw - A tag as typed by the user, e.g. " Data Sets ".
+ * @returns The normalized tag, e.g. "data-sets".
+ */
+export function normalizeTag(raw: string): string {
+    return raw.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Checks whether a normalized tag will be accepted by the contract.
+ *
+ * @param tag - A normalized tag.
+ * @returns Whether the tag is 1 to MAX_TAG_LENGTH characters from [a-z0-9-].
+ */
+export function isValidTag(tag: string): boolean {
+    return tag.length > 0 && tag.length <= MAX_TAG_LENGTH && TAG_PATTERN.test(tag);
+}
+
+/**
+ * Parses a comma-separated tag list into unique normalized tags.
+ *
+ * @param input - Comma-separated tags, e.g. "contracts, Designs".
+ * @returns The normalized tags in input order, without duplicates.
+ * @throws Error if a tag is malformed or there are more than MAX_TAGS_PER_FILE.
+ */
+export function parseTags(input: string): string[] {
+    const tags: string[] = [];
+    for (const part of input.split(',')) {
+        const tag: string = normalizeTag(part);
+        if (tag.length === 0 || tags.includes(tag)) {
+            continue;
+        }
+        if (!isValidTag(tag)) {
+            throw new Error(`Invalid tag "${tag}": use letters, digits and dashes only.`);
+        }
+        tags.push(tag);
+    }
+
+    if (tags.length > MAX_TAGS_PER_FILE) {
+        throw new Error(`At most ${MAX_TAGS_PER_FILE} tags per file.`);
+    }
+    return tags;
+}
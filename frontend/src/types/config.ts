@@ -14,3 +14,45 @@ export const MAX_FILE_SIZE: number = 10 * 1024 * 1024;
 
 /** Maximum file size display string. */
 export const MAX_FILE_SIZE_DISPLAY: string = '10 MB';
+
+/** Maximum number of files registered in one registerFiles transaction (matches the contract). */
+export const MAX_BATCH_SIZE: number = 50;
+
+/** Maximum number of records returned by one getFilesRange call (matches the contract). */
+export const MAX_RANGE_SIZE: number = 50;
+
+/** Maximum UTF8 byte length of a metadata value (matches the contract). */
+export const MAX_METADATA_VALUE_LENGTH: number = 256;
+
+/** Optional metadata fields offered on the upload page, stored via setFileMetadata. */
+export const METADATA_FIELDS: readonly { readonly key: string; readonly label: string }[] = [
+    { key: 'description', label: 'Description' },
+    { key: 'author', label: 'Author' },
+    { key: 'license', label: 'License' },
+    { key: 'externalId', label: 'External Reference ID' },
+];
+
+/** Maximum number of tags on one file (matches the contract). */
+export const MAX_TAGS_PER_FILE: number = 8;
+
+/** Maximum length of a tag (matches the contract). */
+export const MAX_TAG_LENGTH: number = 32;
+
+/** Blocks to wait between commitRegistration and revealRegistration (matches the contract). */
+export const MIN_REVEAL_DELAY_BLOCKS: bigint = 1n;
+
+/** Blocks after which an unrevealed commitment expires (matches the contract). */
+export const COMMITMENT_EXPIRY_BLOCKS: bigint = 144n;
+
+/** Blocks a registerFileFor signature stays valid for when sent through the relay. */
+export const RELAY_SIGNATURE_TTL_BLOCKS: bigint = 144n;
+
+/** Maximum UTF8 byte lengths of a collection name and description (matches the contract). */
+export const MAX_COLLECTION_NAME_LENGTH: number = 64;
+export const MAX_COLLECTION_DESCRIPTION_LENGTH: number = 256;
+
+/** Maximum number of files in one collection (matches the contract). */
+export const MAX_COLLECTION_SIZE: number = 256;
+
+/** Maximum number of required signers on one agreement (matches the contract). */
+export const MAX_AGREEMENT_SIGNERS: number = 16;
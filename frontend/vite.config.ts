@@ -71,6 +71,12 @@ export default defineConfig({
         cssCodeSplit: false,
         chunkSizeWarningLimit: 3000,
     },
+    server: {
+        // Allow importing the CID module shared with the backend (../shared)
+        fs: {
+            allow: ['..'],
+        },
+    },
     optimizeDeps: {
         include: ['react', 'react-dom', 'buffer', 'process', 'stream-browserify'],
         exclude: ['@btc-vision/transaction', 'crypto-browserify'],
@@ -0,0 +1,327 @@
+/**
+ * OP_Scribe -- CID parsing and canonicalization, shared by the backend and the frontend
+ *
+ * Mirrors contract/src/cid.ts: accepts CIDv0 (base58btc "Qm...") and CIDv1 in
+ * base32 ("b"/"B"), base58btc ("z") or base16 ("f"/"F") multibase, and reduces
+ * every form to the canonical CIDv1 binary 0x01 || codec varint || multihash.
+ * Anything this module rejects, the contract rejects with the same message.
+ */
+
+/** Multicodec content types accepted in a CID. */
+export const CODEC_RAW: number = 0x55;
+export const CODEC_DAG_PB: number = 0x70;
+export const CODEC_DAG_CBOR: number = 0x71;
+export const CODEC_DAG_JSON: number = 0x0129;
+
+const SUPPORTED_CODECS: ReadonlySet<number> = new Set([
+    CODEC_RAW,
+    CODEC_DAG_PB,
+    CODEC_DAG_CBOR,
+    CODEC_DAG_JSON,
+]);
+
+/** Multihash functions accepted in a CID, with their required digest lengths. */
+const MULTIHASH_SHA2_256: number = 0x12;
+const MULTIHASH_DIGEST_LENGTHS: ReadonlyMap<number, number> = new Map([
+    [MULTIHASH_SHA2_256, 32], // sha2-256
+    [0x13, 64], // sha2-512
+    [0x1e, 32], // blake3
+    [0xb220, 32], // blake2b-256
+]);
+
+/** Longest accepted CID string (base16 of the largest supported CID is 145). */
+export const MAX_CID_LENGTH: number = 160;
+
+/** A CIDv0 is always 46 base58btc characters starting with "Qm". */
+const CIDV0_LENGTH: number = 46;
+
+/** Varints are limited to 4 bytes (28 bits), enough for every supported code. */
+const MAX_VARINT_BYTES: number = 4;
+
+const BASE58_ALPHABET: string = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE32_ALPHABET: string = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/** A decoded CID. */
+export interface ParsedCid {
+    /** Version the CID was written in; v0 CIDs are canonicalized to v1. */
+    readonly version: 0 | 1;
+    readonly codec: number;
+    readonly hashCode: number;
+    readonly digest: Uint8Array;
+    /** Canonical CIDv1 binary: 0x01 || codec varint || multihash. */
+    readonly bytes: Uint8Array;
+}
+
+/**
+ * Decodes and validates a CID string.
+ *
+ * @param cid - The IPFS Content Identifier string.
+ * @returns The decoded CID with its canonical bytes.
+ * @throws Error if the CID is malformed or uses an unsupported encoding,
+ *         version, codec or hash function.
+ */
+export function parseCid(cid: string): ParsedCid {
+    if (cid.length === 0) {
+        throw new Error('CID cannot be empty');
+    }
+    if (cid.length > MAX_CID_LENGTH) {
+        throw new Error('CID too long');
+    }
+
+    // CIDv0: a bare base58btc sha2-256 multihash, implicitly dag-pb
+    if (cid.length === CIDV0_LENGTH && cid.startsWith('Qm')) {
+        const multihash: Uint8Array = decodeBase58(cid);
+        if (multihash.length !== 34 || multihash[0] !== MULTIHASH_SHA2_256 || multihash[1] !== 32) {
+            throw new Error('Invalid CID');
+        }
+        const bytes: Uint8Array = new Uint8Array(36);
+        bytes[0] = 0x01;
+        bytes[1] = CODEC_DAG_PB;
+        bytes.set(multihash, 2);
+        return {
+            version: 0,
+            codec: CODEC_DAG_PB,
+            hashCode: MULTIHASH_SHA2_256,
+            digest: multihash.slice(2),
+            bytes,
+        };
+    }
+
+    const body: string = cid.slice(1);
+    let bytes: Uint8Array;
+    switch (cid[0]) {
+        case 'b':
+            bytes = decodeBase32(body);
+            break;
+        case 'B':
+            if (body !== body.toUpperCase()) {
+                throw new Error('Invalid CID encoding');
+            }
+            bytes = decodeBase32(body.toLowerCase());
+            break;
+        case 'z':
+            bytes = decodeBase58(body);
+            break;
+        case 'f':
+            bytes = decodeBase16(body, /^[0-9a-f]*$/);
+            break;
+        case 'F':
+            bytes = decodeBase16(body, /^[0-9A-F]*$/);
+            break;
+        default:
+            throw new Error('Unsupported CID multibase');
+    }
+
+    const reader: CidReader = new CidReader(bytes);
+    if (reader.readVarint() !== 1) {
+        throw new Error('Unsupported CID version');
+    }
+
+    const codec: number = reader.readVarint();
+    if (!SUPPORTED_CODECS.has(codec)) {
+        throw new Error('Unsupported CID codec');
+    }
+
+    const hashCode: number = reader.readVarint();
+    const digestLength: number = reader.readVarint();
+    if (MULTIHASH_DIGEST_LENGTHS.get(hashCode) !== digestLength) {
+        throw new Error('Unsupported CID multihash');
+    }
+    if (reader.remaining() !== digestLength) {
+        throw new Error('Invalid CID');
+    }
+
+    return { version: 1, codec, hashCode, digest: bytes.slice(bytes.length - digestLength), bytes };
+}
+
+/**
+ * Checks whether a string is a CID the contract accepts.
+ *
+ * @param cid - The string to check.
+ * @returns True if parseCid succeeds.
+ */
+export function isValidCid(cid: string): boolean {
+    try {
+        parseCid(cid);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Formats a CID in its canonical text form: CIDv1, lowercase base32 ("bafy...").
+ *
+ * @param cid - The IPFS Content Identifier string, in any accepted encoding.
+ * @returns The canonical CID string.
+ * @throws Error if the CID is malformed.
+ */
+export function toCanonicalCid(cid: string): string {
+    return 'b' + encodeBase32(parseCid(cid).bytes);
+}
+
+/**
+ * Checks whether two CID strings name the same content, e.g. a CIDv0 and its CIDv1 form.
+ *
+ * @param a - First CID string.
+ * @param b - Second CID string.
+ * @returns True if both decode to the same canonical bytes.
+ * @throws Error if either CID is malformed.
+ */
+export function cidEquals(a: string, b: string): boolean {
+    if (a === b) {
+        return true;
+    }
+    const x: Uint8Array = parseCid(a).bytes;
+    const y: Uint8Array = parseCid(b).bytes;
+    return x.length === y.length && x.every((byte: number, i: number): boolean => byte === y[i]);
+}
+
+/** Sequential reader over decoded CID bytes. */
+class CidReader {
+    private offset: number = 0;
+
+    public constructor(private readonly bytes: Uint8Array) {}
+
+    /**
+     * Reads an unsigned LEB128 varint in its minimal encoding.
+     *
+     * @returns The decoded value.
+     * @throws Error if the varint is truncated, too long or not minimal.
+     */
+    public readVarint(): number {
+        let value: number = 0;
+        for (let i: number = 0; i < MAX_VARINT_BYTES; i++) {
+            if (this.offset >= this.bytes.length) {
+                throw new Error('Invalid CID');
+            }
+            const byte: number = this.bytes[this.offset++];
+            value |= (byte & 0x7f) << (i * 7);
+            if ((byte & 0x80) === 0) {
+                if (byte === 0 && i > 0) {
+                    throw new Error('Invalid CID');
+                }
+                return value;
+            }
+        }
+        throw new Error('Invalid CID');
+    }
+
+    /** Number of bytes not read yet. */
+    public remaining(): number {
+        return this.bytes.length - this.offset;
+    }
+}
+
+/**
+ * Decodes base58btc (Bitcoin alphabet).
+ *
+ * @param input - The encoded string without a multibase prefix.
+ * @returns The decoded bytes.
+ * @throws Error if the input is empty or contains a character outside the alphabet.
+ */
+function decodeBase58(input: string): Uint8Array {
+    if (input.length === 0) {
+        throw new Error('Invalid CID encoding');
+    }
+
+    let value: bigint = 0n;
+    for (const char of input) {
+        const digit: number = BASE58_ALPHABET.indexOf(char);
+        if (digit < 0) {
+            throw new Error('Invalid CID encoding');
+        }
+        value = value * 58n + BigInt(digit);
+    }
+
+    // Each leading '1' encodes one zero byte
+    const zeros: number = input.length - input.replace(/^1+/, '').length;
+    const hex: string = value === 0n ? '' : value.toString(16);
+    const body: Uint8Array = decodeHexDigits(hex.length % 2 === 0 ? hex : '0' + hex);
+    const output: Uint8Array = new Uint8Array(zeros + body.length);
+    output.set(body, zeros);
+    return output;
+}
+
+/**
+ * Decodes unpadded lowercase RFC 4648 base32.
+ *
+ * @param input - The encoded string without a multibase prefix.
+ * @returns The decoded bytes.
+ * @throws Error if a character is outside the alphabet or the trailing bits are not zero.
+ */
+function decodeBase32(input: string): Uint8Array {
+    const output: Uint8Array = new Uint8Array(Math.floor((input.length * 5) / 8));
+    let buffer: number = 0;
+    let bits: number = 0;
+    let written: number = 0;
+    for (const char of input) {
+        const digit: number = BASE32_ALPHABET.indexOf(char);
+        if (digit < 0) {
+            throw new Error('Invalid CID encoding');
+        }
+        buffer = ((buffer << 5) | digit) & 0x1fff;
+        bits += 5;
+        if (bits >= 8) {
+            bits -= 8;
+            output[written++] = (buffer >> bits) & 0xff;
+        }
+    }
+    if (bits >= 5 || (buffer & ((1 << bits) - 1)) !== 0) {
+        throw new Error('Invalid CID encoding');
+    }
+    return output;
+}
+
+/**
+ * Encodes bytes as unpadded lowercase RFC 4648 base32.
+ *
+ * @param bytes - The bytes to encode.
+ * @returns The encoded string.
+ */
+function encodeBase32(bytes: Uint8Array): string {
+    let output: string = '';
+    let buffer: number = 0;
+    let bits: number = 0;
+    for (const byte of bytes) {
+        buffer = ((buffer << 8) | byte) & 0xfff;
+        bits += 8;
+        while (bits >= 5) {
+            bits -= 5;
+            output += BASE32_ALPHABET[(buffer >> bits) & 0x1f];
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+    }
+    return output;
+}
+
+/**
+ * Decodes base16 digits of a single case.
+ *
+ * @param input - The encoded string without a multibase prefix.
+ * @param digits - Pattern the whole input must match (lowercase or uppercase digits).
+ * @returns The decoded bytes.
+ * @throws Error if the length is odd or a character is not a hex digit of the right case.
+ */
+function decodeBase16(input: string, digits: RegExp): Uint8Array {
+    if (input.length % 2 !== 0 || !digits.test(input)) {
+        throw new Error('Invalid CID encoding');
+    }
+    return decodeHexDigits(input);
+}
+
+/**
+ * Converts an even-length hex string to bytes.
+ *
+ * @param hex - Hex digits, either case.
+ * @returns The decoded bytes.
+ */
+function decodeHexDigits(hex: string): Uint8Array {
+    const output: Uint8Array = new Uint8Array(hex.length / 2);
+    for (let i: number = 0; i < output.length; i++) {
+        output[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return output;
+}